@@ -0,0 +1,105 @@
+/**
+ * Bit Crusher Processor
+ *
+ * Lo-fi effect: holds the input for a whole period of the target sample rate
+ * (sample-rate reduction), then quantizes it to the given bit depth. The
+ * hold runs on a phase accumulator, so the reduced rate is the same whatever
+ * rate the AudioContext runs at, and fractional periods alias like the real
+ * thing instead of snapping to whole-sample holds.
+ *
+ * - AudioParam "bits" (k-rate, 1-16): bit depth, fractional values step
+ *   smoothly between depths so it can be swept
+ * - AudioParam "rate" (k-rate, Hz): target sample rate; at or above the
+ *   context rate every sample is kept
+ * - AudioParam "mix" (k-rate, 0-1): 0 passes the input through unchanged
+ * - Port messages:
+ *   { type: "stop" } - stop processing so the node can be garbage collected
+ */
+
+// Channels with their own hold state (further outputs copy the last one)
+const MAX_CHANNELS = 2;
+
+class BitCrusherProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      {
+        name: "bits",
+        defaultValue: 16,
+        minValue: 1,
+        maxValue: 16,
+        automationRate: "k-rate",
+      },
+      {
+        name: "rate",
+        defaultValue: sampleRate,
+        minValue: 1,
+        maxValue: sampleRate,
+        automationRate: "k-rate",
+      },
+      {
+        name: "mix",
+        defaultValue: 0,
+        minValue: 0,
+        maxValue: 1,
+        automationRate: "k-rate",
+      },
+    ];
+  }
+
+  constructor() {
+    super();
+
+    this.phase = 1; // Take the first sample straight away
+    this.held = new Float32Array(MAX_CHANNELS);
+    this.isRunning = true;
+
+    this.port.onmessage = (event) => {
+      if (event.data && event.data.type === "stop") {
+        this.isRunning = false;
+      }
+    };
+  }
+
+  process(inputs, outputs, parameters) {
+    if (!this.isRunning) return false;
+
+    const input = inputs[0] || [];
+    const output = outputs[0];
+    if (!output[0]) return true;
+
+    // Half the number of levels: bits = 1 gives -1, 0 and 1
+    const steps = Math.pow(2, parameters.bits[0] - 1);
+    const increment = Math.min(1, parameters.rate[0] / sampleRate);
+    const mix = parameters.mix[0];
+    const channelCount = Math.min(output.length, MAX_CHANNELS);
+    const length = output[0].length;
+    let phase = this.phase;
+
+    for (let i = 0; i < length; i++) {
+      phase += increment;
+      const isSampling = phase >= 1;
+      if (isSampling) phase -= 1;
+
+      for (let c = 0; c < channelCount; c++) {
+        // A mono input feeds every channel
+        const inputChannel =
+          input.length > 0 ? input[Math.min(c, input.length - 1)] : null;
+        const x = inputChannel ? inputChannel[i] : 0;
+        if (isSampling) {
+          this.held[c] = Math.round(x * steps) / steps;
+        }
+        output[c][i] = x * (1 - mix) + this.held[c] * mix;
+      }
+    }
+    this.phase = phase;
+
+    // Copy to any additional output channels
+    for (let c = channelCount; c < output.length; c++) {
+      output[c].set(output[channelCount - 1]);
+    }
+
+    return true;
+  }
+}
+
+registerProcessor("bitcrusher", BitCrusherProcessor);
@@ -0,0 +1,136 @@
+/**
+ * Comb Filter Processor
+ *
+ * Feedback comb filter: y[n] = x[n] + feedback * y[n - D], with the delay D
+ * set to one period of "frequency" so resonant peaks sit on its harmonics.
+ * Running in a worklet keeps delays below one render quantum, which a
+ * DelayNode inside a feedback cycle can't do. Each channel has its own delay
+ * line, so a stereo voice stays stereo.
+ *
+ * - AudioParam "frequency" (a-rate, Hz): comb fundamental, like a filter cutoff
+ * - AudioParam "feedback" (k-rate, -0.99 to 0.99): resonance; negative values
+ *   put the peaks on odd harmonics only
+ * - AudioParam "mix" (k-rate, 0-1): 0 passes the input through unchanged
+ * - Port messages:
+ *   { type: "stop" } - stop processing so the node can be garbage collected
+ */
+
+// Lowest comb frequency (sets the delay buffer length)
+const MIN_FREQUENCY = 20;
+
+// Channels with their own delay line (further outputs copy the last one)
+const MAX_CHANNELS = 2;
+
+class CombFilterProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      {
+        name: "frequency",
+        defaultValue: 440,
+        minValue: MIN_FREQUENCY,
+        maxValue: sampleRate / 2,
+        automationRate: "a-rate",
+      },
+      {
+        name: "feedback",
+        defaultValue: 0,
+        minValue: -0.99,
+        maxValue: 0.99,
+        automationRate: "k-rate",
+      },
+      {
+        name: "mix",
+        defaultValue: 0,
+        minValue: 0,
+        maxValue: 1,
+        automationRate: "k-rate",
+      },
+    ];
+  }
+
+  constructor() {
+    super();
+
+    const length = Math.ceil(sampleRate / MIN_FREQUENCY) + 4;
+    this.buffers = Array.from(
+      { length: MAX_CHANNELS },
+      () => new Float32Array(length)
+    );
+    this.writeIndex = 0;
+    this.isRunning = true;
+
+    this.port.onmessage = (event) => {
+      if (event.data && event.data.type === "stop") {
+        this.isRunning = false;
+      }
+    };
+  }
+
+  /**
+   * Read a delay line a fractional number of samples back
+   */
+  readDelay(buffer, writeIndex, delaySamples) {
+    const length = buffer.length;
+    const position = writeIndex - delaySamples + length;
+    const index = Math.floor(position);
+    const fraction = position - index;
+    const current = buffer[index % length];
+    const next = buffer[(index + 1) % length];
+    return current + (next - current) * fraction;
+  }
+
+  process(inputs, outputs, parameters) {
+    if (!this.isRunning) return false;
+
+    const input = inputs[0] || [];
+    const output = outputs[0];
+    if (!output[0]) return true;
+
+    const frequency = parameters.frequency;
+    const isFrequencyConstant = frequency.length === 1;
+    const feedback = parameters.feedback[0];
+    const mix = parameters.mix[0];
+    // Keep the resonant peaks near unity gain
+    const wetGain = mix * (1 - Math.abs(feedback));
+    const length = this.buffers[0].length;
+    const maxDelay = length - 2;
+    const channelCount = Math.min(output.length, MAX_CHANNELS);
+
+    for (let c = 0; c < channelCount; c++) {
+      const buffer = this.buffers[c];
+      const channel = output[c];
+      // A mono input feeds every channel
+      const inputChannel =
+        input.length > 0 ? input[Math.min(c, input.length - 1)] : null;
+      let writeIndex = this.writeIndex;
+
+      for (let i = 0; i < channel.length; i++) {
+        const x = inputChannel ? inputChannel[i] : 0;
+        const currentFrequency = isFrequencyConstant
+          ? frequency[0]
+          : frequency[i];
+        const delaySamples = Math.min(
+          maxDelay,
+          Math.max(1, sampleRate / currentFrequency)
+        );
+
+        const y =
+          x + feedback * this.readDelay(buffer, writeIndex, delaySamples);
+        buffer[writeIndex] = y;
+        writeIndex = (writeIndex + 1) % length;
+
+        channel[i] = x * (1 - mix) + y * wetGain;
+      }
+    }
+    this.writeIndex = (this.writeIndex + output[0].length) % length;
+
+    // Copy to any additional output channels
+    for (let c = channelCount; c < output.length; c++) {
+      output[c].set(output[channelCount - 1]);
+    }
+
+    return true;
+  }
+}
+
+registerProcessor("comb-filter", CombFilterProcessor);
@@ -0,0 +1,202 @@
+/**
+ * Equation Oscillator Processor
+ *
+ * Phase-accumulator oscillator that plays a single-cycle wavetable built by
+ * the equation builder / harmonics controls.
+ *
+ * The table arrives as a mipmap: per-octave band-limited copies where level k
+ * covers fundamentals from baseFrequency * 2^k to baseFrequency * 2^(k+1).
+ * Each block reads the level that is safe for the current frequency and
+ * crossfades towards the next level by the fractional octave, so timbre
+ * changes smoothly as the pitch moves instead of aliasing.
+ *
+ * - AudioParam "frequency" (a-rate): oscillator frequency in Hz. Other nodes
+ *   can be connected to it for audio-rate frequency modulation.
+ * - AudioParam "feedback" (k-rate, 0-1): self phase modulation from the
+ *   oscillator's own output (up to half a cycle at 1).
+ * - Input 0: phase modulation in cycles (1.0 = one full cycle), audio rate.
+ * - Input 1: hard sync. A non-zero sample resets the phase (see output 1).
+ * - Output 0: oscillator signal.
+ * - Output 1: sync pulses. On the first sample after each cycle wraps it holds
+ *   1 + the fraction of a sample elapsed since the wrap, so a synced slave can
+ *   restart its phase with sub-sample accuracy. All other samples are 0.
+ * - processorOptions: { tables, baseFrequency, phase } - initial mipmap and
+ *   start phase (0-1)
+ * - Port messages:
+ *   { type: "table", tables: Float32Array[], baseFrequency: number }
+ *     - swap the wavetable mipmap in place ({ table } is a single level)
+ *   { type: "stop" } - stop processing so the node can be garbage collected
+ */
+
+// Length of the crossfade between the old and new table (samples)
+const TABLE_CROSSFADE_SAMPLES = 256;
+
+/**
+ * Normalize table messages/options to a list of mipmap levels
+ */
+const getTables = (data) => {
+  if (data && data.tables && data.tables.length > 0) return data.tables;
+  if (data && data.table && data.table.length > 0) return [data.table];
+  return null;
+};
+
+/**
+ * Read a table at a normalized phase (0-1) with linear interpolation
+ */
+const readTable = (table, phase) => {
+  const position = phase * table.length;
+  const index = Math.floor(position);
+  const fraction = position - index;
+  const current = table[index % table.length];
+  const next = table[(index + 1) % table.length];
+  return current + (next - current) * fraction;
+};
+
+class EquationOscillatorProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      {
+        name: "frequency",
+        defaultValue: 220,
+        minValue: -sampleRate / 2, // Negative values allow through-zero FM
+        maxValue: sampleRate / 2,
+        automationRate: "a-rate",
+      },
+      {
+        name: "feedback",
+        defaultValue: 0,
+        minValue: 0,
+        maxValue: 1,
+        automationRate: "k-rate",
+      },
+    ];
+  }
+
+  constructor(options) {
+    super();
+
+    const processorOptions = options?.processorOptions;
+    this.tables = getTables(processorOptions) || [new Float32Array(1)];
+    this.baseFrequency = processorOptions?.baseFrequency || 20;
+    this.previousTables = null;
+    this.fadePosition = 0;
+    this.phase = processorOptions?.phase || 0;
+    this.lastOutputs = [0, 0]; // Two previous samples for feedback
+    this.pendingSync = 0; // Sync pulse to emit on the next sample
+    this.isRunning = true;
+
+    this.port.onmessage = (event) => this.handleMessage(event.data);
+  }
+
+  handleMessage(data) {
+    if (!data) return;
+
+    const tables = getTables(data);
+    if (data.type === "table" && tables) {
+      // Crossfade from the current table to avoid clicks
+      this.previousTables = this.tables;
+      this.fadePosition = 0;
+      this.tables = tables;
+      this.baseFrequency = data.baseFrequency || this.baseFrequency;
+    } else if (data.type === "stop") {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Read a mipmap at a phase, blending the two levels around a fractional level
+   */
+  readMipmap(tables, phase, level) {
+    const lower = Math.min(Math.floor(level), tables.length - 1);
+    const upper = Math.min(lower + 1, tables.length - 1);
+    const sample = readTable(tables[lower], phase);
+    if (upper === lower) return sample;
+
+    const blend = level - lower;
+    return sample + (readTable(tables[upper], phase) - sample) * blend;
+  }
+
+  /**
+   * Fractional mipmap level for a frequency
+   */
+  getLevel(frequency) {
+    const level = Math.log2(Math.abs(frequency) / this.baseFrequency);
+    return Number.isFinite(level) && level > 0 ? level : 0;
+  }
+
+  process(inputs, outputs, parameters) {
+    if (!this.isRunning) return false;
+
+    const output = outputs[0];
+    const channel = output[0];
+    if (!channel) return true;
+
+    const syncOut = outputs[1] && outputs[1][0];
+    const syncIn = inputs[1] && inputs[1][0];
+    const phaseMod = inputs[0] && inputs[0][0];
+    const frequency = parameters.frequency;
+    const isFrequencyConstant = frequency.length === 1;
+    const feedback = parameters.feedback[0] * 0.5;
+    const level = this.getLevel(frequency[0]);
+
+    for (let i = 0; i < channel.length; i++) {
+      const currentFrequency = isFrequencyConstant
+        ? frequency[0]
+        : frequency[i];
+      const increment = currentFrequency / sampleRate;
+
+      // Hard sync: restart the cycle where the master wrapped
+      if (syncIn && syncIn[i] > 0) {
+        this.phase = (syncIn[i] - 1) * increment;
+        this.phase -= Math.floor(this.phase);
+      }
+
+      if (syncOut) {
+        syncOut[i] = this.pendingSync;
+      }
+      this.pendingSync = 0;
+
+      // Apply phase modulation without disturbing the accumulator
+      // Feedback averages the last two samples to tame its instability
+      let readPhase =
+        this.phase +
+        (phaseMod ? phaseMod[i] : 0) +
+        feedback * (this.lastOutputs[0] + this.lastOutputs[1]) * 0.5;
+      readPhase -= Math.floor(readPhase);
+
+      let sample = this.readMipmap(this.tables, readPhase, level);
+
+      if (this.previousTables) {
+        const mix = this.fadePosition / TABLE_CROSSFADE_SAMPLES;
+        sample =
+          this.readMipmap(this.previousTables, readPhase, level) * (1 - mix) +
+          sample * mix;
+
+        this.fadePosition++;
+        if (this.fadePosition >= TABLE_CROSSFADE_SAMPLES) {
+          this.previousTables = null;
+        }
+      }
+
+      channel[i] = sample;
+      this.lastOutputs[1] = this.lastOutputs[0];
+      this.lastOutputs[0] = sample;
+
+      // Advance the phase accumulator
+      this.phase += increment;
+      if (this.phase >= 1 && increment > 0) {
+        this.pendingSync = 1 + (this.phase - 1) / increment;
+      }
+      this.phase -= Math.floor(this.phase);
+    }
+
+    // Copy to any additional output channels
+    for (let c = 1; c < output.length; c++) {
+      output[c].set(channel);
+    }
+
+    return true;
+  }
+}
+
+registerProcessor("equation-oscillator", EquationOscillatorProcessor);
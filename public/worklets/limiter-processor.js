@@ -0,0 +1,184 @@
+/**
+ * Lookahead Limiter Processor
+ *
+ * Brickwall limiter for the master bus. The signal is delayed by the
+ * lookahead time while the gain needed to keep every sample in that window
+ * under the ceiling is tracked (a sliding-window minimum), so the gain is
+ * already down when a peak comes out of the delay instead of clamping it
+ * after the fact. The gain glides down over the lookahead time and recovers
+ * over the release time; anything the glide doesn't catch is clipped at the
+ * ceiling. Both channels share one gain so the stereo image holds.
+ *
+ * - AudioParam "ceiling" (k-rate, dBFS): highest output level
+ * - AudioParam "release" (k-rate, s): time to recover after a peak
+ * - AudioParam "active" (k-rate, 0/1): 0 only delays the signal (the latency
+ *   stays the same, so switching doesn't jump)
+ * - Port messages sent:
+ *   { type: "reduction", value } - deepest gain reduction (dB, <= 0) since
+ *   the previous report, about every 20 ms
+ * - Port messages received:
+ *   { type: "stop" } - stop processing so the node can be garbage collected
+ */
+
+// Lookahead (s)
+const LOOKAHEAD = 0.005;
+
+// Channels with their own delay line (further outputs copy the last one)
+const MAX_CHANNELS = 2;
+
+// Render quanta between gain reduction reports
+const REPORT_INTERVAL = 8;
+
+class LimiterProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      {
+        name: "ceiling",
+        defaultValue: -1,
+        minValue: -24,
+        maxValue: 0,
+        automationRate: "k-rate",
+      },
+      {
+        name: "release",
+        defaultValue: 0.1,
+        minValue: 0.001,
+        maxValue: 2,
+        automationRate: "k-rate",
+      },
+      {
+        name: "active",
+        defaultValue: 1,
+        minValue: 0,
+        maxValue: 1,
+        automationRate: "k-rate",
+      },
+    ];
+  }
+
+  constructor() {
+    super();
+
+    this.lookahead = Math.max(1, Math.round(LOOKAHEAD * sampleRate));
+    this.buffers = Array.from(
+      { length: MAX_CHANNELS },
+      () => new Float32Array(this.lookahead)
+    );
+    this.writeIndex = 0;
+
+    // Monotonic deque of required gains over the lookahead window, which
+    // runs from the sample leaving the delay line to the one entering it
+    const capacity = this.lookahead + 2;
+    this.windowGains = new Float32Array(capacity);
+    this.windowTimes = new Float64Array(capacity);
+    this.head = 0;
+    this.size = 0;
+    this.sampleCount = 0;
+
+    this.gain = 1;
+    this.lowestGain = 1;
+    this.blocksSinceReport = 0;
+    this.isRunning = true;
+
+    this.port.onmessage = (event) => {
+      if (event.data && event.data.type === "stop") {
+        this.isRunning = false;
+      }
+    };
+  }
+
+  /**
+   * Add the gain the newest sample needs and return the lowest gain in the
+   * lookahead window
+   */
+  pushRequiredGain(required) {
+    const capacity = this.windowGains.length;
+
+    // Drop entries that are no lower than the new one; they can't be the minimum again
+    while (this.size > 0) {
+      const last = (this.head + this.size - 1) % capacity;
+      if (this.windowGains[last] < required) break;
+      this.size--;
+    }
+    const tail = (this.head + this.size) % capacity;
+    this.windowGains[tail] = required;
+    this.windowTimes[tail] = this.sampleCount;
+    this.size++;
+
+    // Drop the oldest entry once it has left the window
+    if (this.windowTimes[this.head] < this.sampleCount - this.lookahead) {
+      this.head = (this.head + 1) % capacity;
+      this.size--;
+    }
+
+    this.sampleCount++;
+    return this.windowGains[this.head];
+  }
+
+  process(inputs, outputs, parameters) {
+    if (!this.isRunning) return false;
+
+    const input = inputs[0] || [];
+    const output = outputs[0];
+    if (!output[0]) return true;
+
+    const ceiling = Math.pow(10, parameters.ceiling[0] / 20);
+    const isActive = parameters.active[0] >= 0.5;
+    // Reach ~99% of a gain drop within the lookahead
+    const attackCoeff = 1 - Math.exp(-5 / this.lookahead);
+    const releaseCoeff = Math.exp(-1 / (parameters.release[0] * sampleRate));
+    const channelCount = Math.min(output.length, MAX_CHANNELS);
+    const length = output[0].length;
+    let writeIndex = this.writeIndex;
+
+    for (let i = 0; i < length; i++) {
+      // Peak across channels; a mono input feeds every channel
+      let peak = 0;
+      for (let c = 0; c < channelCount; c++) {
+        const inputChannel =
+          input.length > 0 ? input[Math.min(c, input.length - 1)] : null;
+        const x = inputChannel ? inputChannel[i] : 0;
+        peak = Math.max(peak, Math.abs(x));
+
+        // Swap the new sample into the delay line for the delayed one
+        const buffer = this.buffers[c];
+        output[c][i] = buffer[writeIndex];
+        buffer[writeIndex] = x;
+      }
+      writeIndex = (writeIndex + 1) % this.lookahead;
+
+      const target = this.pushRequiredGain(peak > ceiling ? ceiling / peak : 1);
+      if (target < this.gain) {
+        this.gain += (target - this.gain) * attackCoeff;
+      } else {
+        this.gain = target + (this.gain - target) * releaseCoeff;
+      }
+      if (!isActive) continue;
+
+      this.lowestGain = Math.min(this.lowestGain, this.gain);
+      for (let c = 0; c < channelCount; c++) {
+        const y = output[c][i] * this.gain;
+        output[c][i] = Math.max(-ceiling, Math.min(ceiling, y));
+      }
+    }
+    this.writeIndex = writeIndex;
+
+    // Copy to any additional output channels
+    for (let c = channelCount; c < output.length; c++) {
+      output[c].set(output[channelCount - 1]);
+    }
+
+    if (++this.blocksSinceReport >= REPORT_INTERVAL) {
+      this.port.postMessage({
+        type: "reduction",
+        value: 20 * Math.log10(this.lowestGain),
+      });
+      this.lowestGain = 1;
+      this.blocksSinceReport = 0;
+    }
+
+    return true;
+  }
+}
+
+registerProcessor("limiter", LimiterProcessor);
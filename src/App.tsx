@@ -28,7 +28,6 @@ import {
   useEquationBuilderStore,
 } from "./stores";
 import { theme } from "./theme";
-import { calculateDetunedFrequency } from "./utils/helperFunctions";
 
 function App() {
   const [activeTab, setActiveTab] = React.useState(0);
@@ -43,13 +42,8 @@ function App() {
   const getMaxReleaseTime = useAudioEngineStore(
     (state) => state.getMaxReleaseTime
   );
-  const oscillators = useAudioEngineStore((state) => state.oscillators);
-  const updateOscillatorFrequency = useAudioEngineStore(
-    (state) => state.updateOscillatorFrequency
-  );
 
   const keyboardNotes = useSynthControlsStore((state) => state.keyboardNotes);
-  const synthOscillators = useSynthControlsStore((state) => state.oscillators);
   const keyboardEnabled = useSynthControlsStore(
     (state) => state.keyboardEnabled
   );
@@ -71,28 +65,17 @@ function App() {
 
   // Use refs to access the latest state without triggering effect re-runs
   const keyboardNotesRef = useRef(keyboardNotes);
-  const synthOscillatorsRef = useRef(synthOscillators);
   const isPlayingRef = useRef(isPlaying);
   const activeKeyRef = useRef(activeKey);
   const keyboardEnabledRef = useRef(keyboardEnabled);
-  const oscillatorsRef = useRef(oscillators);
 
   // Update refs when state changes
   useEffect(() => {
     keyboardNotesRef.current = keyboardNotes;
-    synthOscillatorsRef.current = synthOscillators;
     isPlayingRef.current = isPlaying;
     activeKeyRef.current = activeKey;
     keyboardEnabledRef.current = keyboardEnabled;
-    oscillatorsRef.current = oscillators;
-  }, [
-    keyboardNotes,
-    synthOscillators,
-    isPlaying,
-    activeKey,
-    keyboardEnabled,
-    oscillators,
-  ]);
+  }, [keyboardNotes, isPlaying, activeKey, keyboardEnabled]);
 
   const handleKeyDown = useCallback(
     (event: KeyboardEvent) => {
@@ -103,20 +86,6 @@ function App() {
       const note = keyboardNotesRef.current.find((n) => n.key === keyPressed);
 
       if (note) {
-        // Update frequency for all active oscillators with detune applied
-        oscillatorsRef.current.forEach((osc, index) => {
-          if (osc.isActive) {
-            const synthOsc = synthOscillatorsRef.current[index];
-            const detunedFreq = calculateDetunedFrequency(
-              note.frequency,
-              synthOsc.detune.octave,
-              synthOsc.detune.semitone,
-              synthOsc.detune.cent
-            );
-            updateOscillatorFrequency(index, detunedFreq);
-          }
-        });
-
         updateKeyboardNoteState(keyPressed, true);
         setActiveKey(keyPressed);
 
@@ -124,17 +93,11 @@ function App() {
           startAudio();
         }
 
-        // Trigger ADSR envelopes
-        triggerNoteOn();
+        // Allocate a voice and trigger its ADSR envelopes
+        triggerNoteOn(keyPressed, note.frequency);
       }
     },
-    [
-      updateOscillatorFrequency,
-      updateKeyboardNoteState,
-      setActiveKey,
-      startAudio,
-      triggerNoteOn,
-    ]
+    [updateKeyboardNoteState, setActiveKey, startAudio, triggerNoteOn]
   );
 
   const handleKeyUp = useCallback(
@@ -151,13 +114,10 @@ function App() {
           setActiveKey(null);
         }
 
-        const anyKeysActive = keyboardNotesRef.current.some(
-          (n) => n.isActive && n.key !== keyReleased
-        );
-
-        if (!anyKeysActive && isPlayingRef.current) {
-          // Trigger release envelope
-          triggerNoteOff();
+        if (isPlayingRef.current) {
+          // Trigger release envelope of the voice playing this key
+          // (in mono mode the voice returns to a key that is still held)
+          triggerNoteOff(keyReleased);
 
           // Don't stop audio - let the release envelope fade naturally
           // The audio will keep playing at zero volume after release completes
@@ -409,14 +369,14 @@ function App() {
             }}
           >
             <Tab label="Subtractive Controls" />
-            {/* <Tab label="Sequencer Controls" />
-            <Tab label="Effects Controls" /> */}
+            <Tab label="Effects Controls" />
+            {/* <Tab label="Sequencer Controls" /> */}
             <Tab label="Keyboard Layout" />
           </Tabs>
           {activeTab === 0 && <SubtractiveControls />}
-          {/* {activeTab === 2 && <SequencerControls />}
-          {activeTab === 3 && <EffectsControls />} */}
-          {activeTab === 4 && <KeyboardControls />}
+          {activeTab === 1 && <EffectsControls />}
+          {/* {activeTab === 3 && <SequencerControls />} */}
+          {activeTab === 2 && <KeyboardControls />}
         </Paper>
       </Box>
     </ThemeProvider>
@@ -318,6 +318,12 @@ export const ModDial: React.FC<ModDialProps> = (props) => {
             <MenuItem value="mod_env" sx={{ fontSize: "0.625rem" }}>
               MOD ENV
             </MenuItem>
+            <ListSubheader sx={{ fontSize: "0.625rem", lineHeight: "1.2" }}>
+              Random
+            </ListSubheader>
+            <MenuItem value="noise" sx={{ fontSize: "0.625rem" }}>
+              NOISE
+            </MenuItem>
           </Select>
         </Box>
         <Box
@@ -406,6 +412,12 @@ export const ModDial: React.FC<ModDialProps> = (props) => {
             <MenuItem value="mod_env" sx={{ fontSize: "0.625rem" }}>
               MOD ENV
             </MenuItem>
+            <ListSubheader sx={{ fontSize: "0.625rem", lineHeight: "1.2" }}>
+              Random
+            </ListSubheader>
+            <MenuItem value="noise" sx={{ fontSize: "0.625rem" }}>
+              NOISE
+            </MenuItem>
           </Select>
         </Box>
       </Box>
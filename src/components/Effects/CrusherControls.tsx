@@ -0,0 +1,131 @@
+import React from "react";
+import { Paper, Typography, Box, Tooltip } from "@mui/material";
+import { ModDial } from "../";
+import { useEffectsRackStore } from "../../stores";
+import {
+  MAX_CRUSHER_BITS,
+  MAX_CRUSHER_RATE,
+  MIN_CRUSHER_BITS,
+  MIN_CRUSHER_RATE,
+} from "../../stores/AudioEngine/helperFunctions";
+import { CrusherSettings, EffectSlot, PARAM_IDS } from "../../types";
+
+interface CrusherControlsProps {
+  slot: EffectSlot<"crusher">;
+  isModTarget: boolean; // First crusher in the rack, driven by the mod matrix
+}
+
+/**
+ * Bit crusher and sample-rate reducer
+ */
+export const CrusherControls: React.FC<CrusherControlsProps> = ({
+  slot,
+  isModTarget,
+}) => {
+  const crusher = slot.params;
+  const updateSlotParams = useEffectsRackStore(
+    (state) => state.updateSlotParams
+  );
+  const updateCrusher = (params: Partial<CrusherSettings>) =>
+    updateSlotParams(slot.id, params);
+
+  // Sample rate is shown on a log scale
+  const handleRateChange = (value: number) => {
+    const ratio = MAX_CRUSHER_RATE / MIN_CRUSHER_RATE;
+    updateCrusher({
+      rate: Math.round(MIN_CRUSHER_RATE * Math.pow(ratio, value / 100)),
+    });
+  };
+
+  const rateDialValue =
+    (Math.log(crusher.rate / MIN_CRUSHER_RATE) /
+      Math.log(MAX_CRUSHER_RATE / MIN_CRUSHER_RATE)) *
+    100;
+
+  return (
+    <Paper
+      sx={{
+        display: "grid",
+        gridTemplateRows: "auto 1fr",
+        gap: 1,
+        p: 1,
+        overflow: "hidden",
+      }}
+    >
+      <Tooltip
+        title="Lo-fi grit: Bits lowers the resolution of every sample and Rate holds samples for longer, folding high frequencies back down as aliasing."
+        arrow
+        placement="top"
+      >
+        <Typography
+          variant="h6"
+          align="center"
+          sx={{
+            cursor: "help",
+            textDecoration: "underline dotted",
+            textUnderlineOffset: "4px",
+          }}
+        >
+          Bit Crusher
+        </Typography>
+      </Tooltip>
+      <Box
+        sx={{
+          display: "flex",
+          flexWrap: "wrap",
+          justifyContent: "center",
+          alignItems: "center",
+          gap: 3,
+        }}
+      >
+        <ModDial
+          value={crusher.bits}
+          min={MIN_CRUSHER_BITS}
+          max={MAX_CRUSHER_BITS}
+          step={0.1}
+          onChange={(value) => updateCrusher({ bits: value })}
+          label="Bits"
+          size={75}
+          ringColor="#c0392b"
+          numberFontSize={18}
+          minMaxFontSize={10}
+          paramId={isModTarget ? PARAM_IDS.CRUSHER_BITS : undefined}
+          paramMin={MIN_CRUSHER_BITS}
+          paramMax={MAX_CRUSHER_BITS}
+          bipolar={false}
+        />
+        <ModDial
+          value={rateDialValue}
+          min={0}
+          max={100}
+          onChange={handleRateChange}
+          label={`Rate ${crusher.rate} Hz`}
+          size={75}
+          ringColor="#c0392b"
+          numberFontSize={18}
+          minMaxFontSize={10}
+          hideCenterNumber={true}
+          paramId={isModTarget ? PARAM_IDS.CRUSHER_RATE : undefined}
+          paramMin={MIN_CRUSHER_RATE}
+          paramMax={MAX_CRUSHER_RATE}
+          bipolar={false}
+        />
+        <ModDial
+          value={crusher.mix * 100}
+          min={0}
+          max={100}
+          onChange={(value) => updateCrusher({ mix: value / 100 })}
+          label="Mix"
+          size={75}
+          ringColor="#c0392b"
+          numberFontSize={18}
+          minMaxFontSize={10}
+          paramId={isModTarget ? PARAM_IDS.CRUSHER_MIX : undefined}
+          paramMin={0}
+          paramMax={1}
+          bipolar={false}
+        />
+      </Box>
+    </Paper>
+  );
+};
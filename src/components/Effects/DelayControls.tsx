@@ -0,0 +1,227 @@
+import React from "react";
+import {
+  Paper,
+  Typography,
+  Box,
+  Tooltip,
+  FormControlLabel,
+  Switch,
+} from "@mui/material";
+import { ModDial } from "../";
+import { useAudioEngineStore, useEffectsRackStore } from "../../stores";
+import {
+  DELAY_DIVISIONS,
+  MAX_DELAY_FEEDBACK,
+  MAX_DELAY_TIME,
+  MAX_TEMPO,
+  MIN_DELAY_TIME,
+  MIN_TEMPO,
+} from "../../stores/AudioEngine/helperFunctions";
+import { DelaySettings, EffectSlot, PARAM_IDS } from "../../types";
+
+// Feedback filter range (Hz), shown on a log scale
+const MIN_FILTER_CUTOFF = 200;
+const MAX_FILTER_CUTOFF = 20000;
+
+interface DelayControlsProps {
+  slot: EffectSlot<"delay">;
+  isModTarget: boolean; // First delay in the rack, driven by the mod matrix
+}
+
+/**
+ * Stereo/ping-pong delay
+ */
+export const DelayControls: React.FC<DelayControlsProps> = ({
+  slot,
+  isModTarget,
+}) => {
+  const delay = slot.params;
+  const tempo = useAudioEngineStore((state) => state.tempo);
+  const setTempo = useAudioEngineStore((state) => state.setTempo);
+  const updateSlotParams = useEffectsRackStore(
+    (state) => state.updateSlotParams
+  );
+  const updateDelay = (params: Partial<DelaySettings>) =>
+    updateSlotParams(slot.id, params);
+
+  const handleDivisionChange = (value: number) => {
+    const division = DELAY_DIVISIONS[Math.round(value)];
+    if (division && division !== delay.division) {
+      updateDelay({ division });
+    }
+  };
+
+  const handleFilterChange = (value: number) => {
+    const ratio = MAX_FILTER_CUTOFF / MIN_FILTER_CUTOFF;
+    updateDelay({
+      filterCutoff: Math.round(
+        MIN_FILTER_CUTOFF * Math.pow(ratio, value / 100)
+      ),
+    });
+  };
+
+  const filterDialValue =
+    (Math.log(delay.filterCutoff / MIN_FILTER_CUTOFF) /
+      Math.log(MAX_FILTER_CUTOFF / MIN_FILTER_CUTOFF)) *
+    100;
+
+  return (
+    <Paper
+      sx={{
+        display: "grid",
+        gridTemplateRows: "auto auto 1fr",
+        gap: 1,
+        p: 1,
+        overflow: "hidden",
+      }}
+    >
+      <Tooltip
+        title="Repeats the output after the master volume. Feedback sets how many repeats you hear and the filter darkens each one; Sync follows the tempo instead of a time in ms."
+        arrow
+        placement="top"
+      >
+        <Typography
+          variant="h6"
+          align="center"
+          sx={{
+            cursor: "help",
+            textDecoration: "underline dotted",
+            textUnderlineOffset: "4px",
+          }}
+        >
+          Delay
+        </Typography>
+      </Tooltip>
+      <Box sx={{ display: "flex", justifyContent: "center", gap: 2 }}>
+        <FormControlLabel
+          control={
+            <Switch
+              size="small"
+              checked={delay.sync}
+              onChange={(e) => updateDelay({ sync: e.target.checked })}
+              color="primary"
+            />
+          }
+          label="Sync"
+        />
+        <FormControlLabel
+          control={
+            <Switch
+              size="small"
+              checked={delay.pingPong}
+              onChange={(e) => updateDelay({ pingPong: e.target.checked })}
+              color="primary"
+            />
+          }
+          label="Ping-Pong"
+        />
+      </Box>
+      <Box
+        sx={{
+          display: "flex",
+          flexWrap: "wrap",
+          justifyContent: "center",
+          alignItems: "center",
+          gap: 3,
+        }}
+      >
+        {delay.sync ? (
+          <>
+            <ModDial
+              value={tempo}
+              min={MIN_TEMPO}
+              max={MAX_TEMPO}
+              onChange={(value) => setTempo(Math.round(value))}
+              label="BPM"
+              size={75}
+              ringColor="#1abc9c"
+              numberFontSize={18}
+              minMaxFontSize={10}
+            />
+            <ModDial
+              value={DELAY_DIVISIONS.indexOf(delay.division)}
+              min={0}
+              max={DELAY_DIVISIONS.length - 1}
+              step={1}
+              onChange={handleDivisionChange}
+              label={`${delay.division} Note`}
+              size={75}
+              ringColor="#1abc9c"
+              numberFontSize={18}
+              minMaxFontSize={10}
+              minLabel={DELAY_DIVISIONS[0]}
+              maxLabel={DELAY_DIVISIONS[DELAY_DIVISIONS.length - 1]}
+              hideCenterNumber={true}
+              paramId={isModTarget ? PARAM_IDS.DELAY_TIME : undefined}
+              paramMin={MIN_DELAY_TIME}
+              paramMax={MAX_DELAY_TIME}
+              bipolar={false}
+            />
+          </>
+        ) : (
+          <ModDial
+            value={delay.time}
+            min={MIN_DELAY_TIME}
+            max={MAX_DELAY_TIME}
+            onChange={(value) => updateDelay({ time: Math.round(value) })}
+            label="Time (ms)"
+            size={75}
+            ringColor="#1abc9c"
+            numberFontSize={18}
+            minMaxFontSize={10}
+            paramId={isModTarget ? PARAM_IDS.DELAY_TIME : undefined}
+            paramMin={MIN_DELAY_TIME}
+            paramMax={MAX_DELAY_TIME}
+            bipolar={false}
+          />
+        )}
+        <ModDial
+          value={delay.feedback * 100}
+          min={0}
+          max={MAX_DELAY_FEEDBACK * 100}
+          onChange={(value) => updateDelay({ feedback: value / 100 })}
+          label="Feedback"
+          size={75}
+          ringColor="#1abc9c"
+          numberFontSize={18}
+          minMaxFontSize={10}
+          paramId={isModTarget ? PARAM_IDS.DELAY_FEEDBACK : undefined}
+          paramMin={0}
+          paramMax={MAX_DELAY_FEEDBACK}
+          bipolar={false}
+        />
+        <ModDial
+          value={filterDialValue}
+          min={0}
+          max={100}
+          onChange={handleFilterChange}
+          label={`Filter ${delay.filterCutoff} Hz`}
+          size={75}
+          ringColor="#1abc9c"
+          numberFontSize={18}
+          minMaxFontSize={10}
+          hideCenterNumber={true}
+          paramId={isModTarget ? PARAM_IDS.DELAY_FILTER : undefined}
+          paramMin={MIN_FILTER_CUTOFF}
+          paramMax={MAX_FILTER_CUTOFF}
+          bipolar={false}
+        />
+        <ModDial
+          value={delay.mix * 100}
+          min={0}
+          max={100}
+          onChange={(value) => updateDelay({ mix: value / 100 })}
+          label="Mix"
+          size={75}
+          ringColor="#1abc9c"
+          numberFontSize={18}
+          minMaxFontSize={10}
+          paramId={isModTarget ? PARAM_IDS.DELAY_MIX : undefined}
+          paramMin={0}
+          paramMax={1}
+          bipolar={false}
+        />
+      </Box>
+    </Paper>
+  );
+};
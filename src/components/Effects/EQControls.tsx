@@ -0,0 +1,345 @@
+import React, { PointerEvent, useEffect, useRef, useState } from "react";
+import { Paper, Typography, Box, Tooltip, Stack } from "@mui/material";
+import { Dial } from "../";
+import { audioNodes, useAudioEngineStore } from "../../stores";
+import {
+  createLogFrequencies,
+  MAX_EQ_FREQUENCY,
+  MAX_EQ_GAIN,
+  MAX_EQ_Q,
+  MIN_EQ_FREQUENCY,
+  MIN_EQ_Q,
+} from "../../stores/AudioEngine/helperFunctions";
+import { EQBandType } from "../../types";
+
+const CANVAS_WIDTH = 600;
+const CANVAS_HEIGHT = 180;
+
+// Vertical range of the response graph (+/- dB)
+const DISPLAY_RANGE = 24;
+
+// Distance (canvas px) within which a click grabs a band handle
+const HANDLE_GRAB_RADIUS = 12;
+
+// Frequencies the response curve is measured at
+const CURVE_FREQUENCIES = createLogFrequencies(CANVAS_WIDTH / 2);
+
+const GRID_FREQUENCIES = [50, 100, 200, 500, 1000, 2000, 5000, 10000];
+
+const BAND_COLORS = ["#e74c3c", "#f1c40f", "#2ecc71", "#3498db"];
+
+const BAND_LABELS: Record<EQBandType, string> = {
+  lowshelf: "Low Shelf",
+  peaking: "Peak",
+  highshelf: "High Shelf",
+};
+
+const FREQUENCY_RATIO = MAX_EQ_FREQUENCY / MIN_EQ_FREQUENCY;
+
+const frequencyToX = (frequency: number) =>
+  (Math.log(frequency / MIN_EQ_FREQUENCY) / Math.log(FREQUENCY_RATIO)) *
+  CANVAS_WIDTH;
+
+const xToFrequency = (x: number) =>
+  MIN_EQ_FREQUENCY * Math.pow(FREQUENCY_RATIO, x / CANVAS_WIDTH);
+
+const dbToY = (db: number) =>
+  CANVAS_HEIGHT / 2 - (db / DISPLAY_RANGE) * (CANVAS_HEIGHT / 2);
+
+const yToDb = (y: number) =>
+  ((CANVAS_HEIGHT / 2 - y) / (CANVAS_HEIGHT / 2)) * DISPLAY_RANGE;
+
+const formatFrequency = (frequency: number) =>
+  frequency >= 1000
+    ? `${(frequency / 1000).toFixed(1)}k`
+    : `${Math.round(frequency)}`;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.max(min, Math.min(max, value));
+
+/**
+ * Four-band parametric EQ after the effects rack
+ * Drag a band's handle on the graph to set its frequency and gain; scroll
+ * over it to change its Q.
+ */
+export const EQControls: React.FC = () => {
+  const eq = useAudioEngineStore((state) => state.eq);
+  const updateEQBand = useAudioEngineStore((state) => state.updateEQBand);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [dragBand, setDragBand] = useState<number | null>(null);
+
+  // Measuring needs the AudioContext, which exists once playback starts
+  const isPlaying = useAudioEngineStore((state) => state.isPlaying);
+
+  /**
+   * Pointer position in canvas coordinates (the canvas is scaled by CSS)
+   */
+  const getCanvasPoint = (clientX: number, clientY: number) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return {
+      x: ((clientX - rect.left) / rect.width) * CANVAS_WIDTH,
+      y: ((clientY - rect.top) / rect.height) * CANVAS_HEIGHT,
+    };
+  };
+
+  /**
+   * Band whose handle is under a canvas point, if any
+   */
+  const findBandAt = (x: number, y: number): number | null => {
+    let nearest: number | null = null;
+    let nearestDistance = HANDLE_GRAB_RADIUS;
+    eq.forEach((band, index) => {
+      const distance = Math.hypot(
+        frequencyToX(band.frequency) - x,
+        dbToY(band.gain) - y
+      );
+      if (distance <= nearestDistance) {
+        nearest = index;
+        nearestDistance = distance;
+      }
+    });
+    return nearest;
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+    const { x, y } = getCanvasPoint(e.clientX, e.clientY);
+    const band = findBandAt(x, y);
+    if (band === null) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragBand(band);
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (dragBand === null) return;
+    const { x, y } = getCanvasPoint(e.clientX, e.clientY);
+    updateEQBand(dragBand, {
+      frequency: Math.round(
+        clamp(xToFrequency(x), MIN_EQ_FREQUENCY, MAX_EQ_FREQUENCY)
+      ),
+      gain: Math.round(clamp(yToDb(y), -MAX_EQ_GAIN, MAX_EQ_GAIN) * 10) / 10,
+    });
+  };
+
+  const handlePointerUp = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (dragBand === null) return;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    setDragBand(null);
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const { x, y } = getCanvasPoint(e.clientX, e.clientY);
+    const band = findBandAt(x, y);
+    if (band !== null) updateEQBand(band, { gain: 0 });
+  };
+
+  // Scroll over a peaking band's handle to change its Q. Registered natively
+  // so the page doesn't scroll at the same time.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      const { x, y } = getCanvasPoint(e.clientX, e.clientY);
+      const bandIndex = findBandAt(x, y);
+      if (bandIndex === null || eq[bandIndex].type !== "peaking") return;
+      e.preventDefault();
+      const factor = e.deltaY < 0 ? 1.1 : 1 / 1.1;
+      updateEQBand(bandIndex, {
+        Q:
+          Math.round(
+            clamp(eq[bandIndex].Q * factor, MIN_EQ_Q, MAX_EQ_Q) * 100
+          ) / 100,
+      });
+    };
+
+    canvas.addEventListener("wheel", handleWheel, { passive: false });
+    return () => canvas.removeEventListener("wheel", handleWheel);
+  });
+
+  // Draw the grid, the combined response and the band handles
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    const response = audioNodes.getEQResponse(eq, CURVE_FREQUENCIES);
+
+    ctx.fillStyle = "#1a1a1a";
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+    ctx.beginPath();
+    ctx.strokeStyle = "#333";
+    ctx.lineWidth = 1;
+    GRID_FREQUENCIES.forEach((frequency) => {
+      const x = frequencyToX(frequency);
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, CANVAS_HEIGHT);
+    });
+    [-12, 12].forEach((db) => {
+      ctx.moveTo(0, dbToY(db));
+      ctx.lineTo(CANVAS_WIDTH, dbToY(db));
+    });
+    ctx.stroke();
+
+    // 0 dB line
+    ctx.beginPath();
+    ctx.strokeStyle = "#666";
+    ctx.moveTo(0, dbToY(0));
+    ctx.lineTo(CANVAS_WIDTH, dbToY(0));
+    ctx.stroke();
+
+    ctx.fillStyle = "#888";
+    ctx.font = "10px sans-serif";
+    GRID_FREQUENCIES.forEach((frequency) => {
+      ctx.fillText(
+        formatFrequency(frequency),
+        frequencyToX(frequency) + 2,
+        CANVAS_HEIGHT - 4
+      );
+    });
+
+    // Combined response
+    ctx.beginPath();
+    ctx.strokeStyle = "#4CAF50";
+    ctx.lineWidth = 2;
+    for (let i = 0; i < response.length; i++) {
+      const x = frequencyToX(CURVE_FREQUENCIES[i]);
+      const y = dbToY(clamp(response[i], -DISPLAY_RANGE, DISPLAY_RANGE));
+      if (i === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    }
+    ctx.stroke();
+
+    // Band handles
+    eq.forEach((band, index) => {
+      ctx.beginPath();
+      ctx.fillStyle = BAND_COLORS[index % BAND_COLORS.length];
+      ctx.arc(
+        frequencyToX(band.frequency),
+        dbToY(band.gain),
+        index === dragBand ? 8 : 6,
+        0,
+        2 * Math.PI
+      );
+      ctx.fill();
+    });
+  }, [eq, dragBand, isPlaying]);
+
+  return (
+    <Paper
+      sx={{
+        display: "grid",
+        gridTemplateRows: "auto auto 1fr",
+        gridColumn: "1 / -1",
+        gap: 1,
+        p: 1,
+        overflow: "hidden",
+      }}
+    >
+      <Tooltip
+        title="Shapes the tone of the whole synth after the effects. Drag a handle to move a band, scroll over it to change its width and double-click to flatten it."
+        arrow
+        placement="top"
+      >
+        <Typography
+          variant="h6"
+          align="center"
+          sx={{
+            cursor: "help",
+            textDecoration: "underline dotted",
+            textUnderlineOffset: "4px",
+          }}
+        >
+          EQ
+        </Typography>
+      </Tooltip>
+      <canvas
+        ref={canvasRef}
+        width={CANVAS_WIDTH}
+        height={CANVAS_HEIGHT}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onDoubleClick={handleDoubleClick}
+        style={{
+          width: "100%",
+          maxWidth: CANVAS_WIDTH * 2,
+          aspectRatio: `${CANVAS_WIDTH} / ${CANVAS_HEIGHT}`,
+          justifySelf: "center",
+          borderRadius: 4,
+          cursor: dragBand === null ? "crosshair" : "grabbing",
+          touchAction: "none",
+        }}
+      />
+      <Box
+        sx={{
+          display: "flex",
+          flexWrap: "wrap",
+          justifyContent: "space-evenly",
+          gap: 2,
+        }}
+      >
+        {eq.map((band, index) => {
+          const color = BAND_COLORS[index % BAND_COLORS.length];
+          const isShelf = band.type !== "peaking";
+          return (
+            <Stack key={index} spacing={0.5} alignItems="center">
+              <Typography variant="subtitle2" sx={{ color }}>
+                {BAND_LABELS[band.type]}
+                {isShelf ? "" : ` ${index}`}
+              </Typography>
+              <Box sx={{ display: "flex", gap: 1 }}>
+                <Dial
+                  value={frequencyToX(band.frequency) / CANVAS_WIDTH}
+                  min={0}
+                  max={1}
+                  step={0.001}
+                  onChange={(value) =>
+                    updateEQBand(index, {
+                      frequency: Math.round(xToFrequency(value * CANVAS_WIDTH)),
+                    })
+                  }
+                  label={`${formatFrequency(band.frequency)} Hz`}
+                  size={50}
+                  ringColor={color}
+                  numberFontSize={14}
+                  minMaxFontSize={9}
+                  hideCenterNumber={true}
+                  minLabel="20"
+                  maxLabel="20k"
+                />
+                <Dial
+                  value={band.gain}
+                  min={-MAX_EQ_GAIN}
+                  max={MAX_EQ_GAIN}
+                  step={0.1}
+                  onChange={(gain) => updateEQBand(index, { gain })}
+                  label="Gain (dB)"
+                  size={50}
+                  ringColor={color}
+                  numberFontSize={14}
+                  minMaxFontSize={9}
+                />
+                <Dial
+                  value={band.Q}
+                  min={MIN_EQ_Q}
+                  max={MAX_EQ_Q}
+                  step={0.01}
+                  onChange={(Q) => updateEQBand(index, { Q })}
+                  label="Q"
+                  size={50}
+                  ringColor={color}
+                  numberFontSize={14}
+                  minMaxFontSize={9}
+                  disabled={isShelf}
+                />
+              </Box>
+            </Stack>
+          );
+        })}
+      </Box>
+    </Paper>
+  );
+};
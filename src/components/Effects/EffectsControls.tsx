@@ -1,11 +1,257 @@
-import React from "react";
+import React, { useState } from "react";
+import { DndProvider, useDrag, useDrop } from "react-dnd";
+import { HTML5Backend } from "react-dnd-html5-backend";
+import {
+  Paper,
+  Box,
+  Typography,
+  Tooltip,
+  Switch,
+  FormControlLabel,
+  IconButton,
+  Button,
+  Menu,
+  MenuItem,
+} from "@mui/material";
+import AddIcon from "@mui/icons-material/Add";
+import CloseIcon from "@mui/icons-material/Close";
+import DragIndicatorIcon from "@mui/icons-material/DragIndicator";
+import { CrusherControls } from "./CrusherControls";
+import { DelayControls } from "./DelayControls";
+import { EQControls } from "./EQControls";
+import { ModEffectControls } from "./ModEffectControls";
+import { ReverbControls } from "./ReverbControls";
+import { ShaperControls } from "./ShaperControls";
+import { useEffectsRackStore } from "../../stores";
+import { EFFECT_TYPES } from "../../stores/AudioEngine/helperFunctions";
+import { EffectSlot, EffectType } from "../../types";
 
-// ModulationMatrix component boilerplate
+// Drag item type of a rack slot
+const EFFECT_SLOT_ITEM = "effect-slot";
+
+const EFFECT_LABELS: Record<EffectType, string> = {
+  crusher: "Bit Crusher",
+  shaper: "Shaper",
+  chorus: "Chorus",
+  flanger: "Flanger",
+  phaser: "Phaser",
+  delay: "Delay",
+  reverb: "Reverb",
+};
+
+/**
+ * Controls panel of a slot's effect
+ */
+const renderEffect = (
+  slot: EffectSlot,
+  isModTarget: boolean
+): React.ReactNode => {
+  switch (slot.type) {
+    case "crusher":
+      return <CrusherControls slot={slot} isModTarget={isModTarget} />;
+    case "shaper":
+      return <ShaperControls slot={slot} isModTarget={isModTarget} />;
+    case "delay":
+      return <DelayControls slot={slot} isModTarget={isModTarget} />;
+    case "reverb":
+      return <ReverbControls slot={slot} isModTarget={isModTarget} />;
+    default:
+      return <ModEffectControls slot={slot} isModTarget={isModTarget} />;
+  }
+};
+
+interface EffectSlotFrameProps {
+  slot: EffectSlot;
+  index: number;
+  isModTarget: boolean;
+}
+
+/**
+ * One rack slot: drag handle, bypass switch and remove button above the
+ * effect's controls
+ * Drop a slot onto another to move it to that position.
+ */
+const EffectSlotFrame: React.FC<EffectSlotFrameProps> = ({
+  slot,
+  index,
+  isModTarget,
+}) => {
+  const moveSlot = useEffectsRackStore((state) => state.moveSlot);
+  const setSlotBypass = useEffectsRackStore((state) => state.setSlotBypass);
+  const removeSlot = useEffectsRackStore((state) => state.removeSlot);
+
+  const [{ isDragging }, drag, preview] = useDrag(
+    () => ({
+      type: EFFECT_SLOT_ITEM,
+      item: { index },
+      collect: (monitor) => ({
+        isDragging: monitor.isDragging(),
+      }),
+    }),
+    [index]
+  );
+
+  const [{ isOver }, drop] = useDrop(
+    () => ({
+      accept: EFFECT_SLOT_ITEM,
+      drop: (item: { index: number }) => {
+        moveSlot(item.index, index);
+      },
+      collect: (monitor) => ({
+        isOver: monitor.isOver(),
+      }),
+    }),
+    [index, moveSlot]
+  );
+
+  return (
+    <Box
+      ref={(node: HTMLDivElement | null) => {
+        preview(drop(node));
+      }}
+      sx={{
+        display: "flex",
+        flexDirection: "column",
+        borderRadius: 1,
+        outline: isOver && !isDragging ? "2px dashed" : "none",
+        outlineColor: "primary.main",
+        opacity: isDragging ? 0.4 : 1,
+      }}
+    >
+      <Box
+        sx={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          px: 1,
+        }}
+      >
+        <Tooltip title="Drag to move this effect in the chain" arrow>
+          <Box
+            ref={drag as any}
+            aria-label="Drag to reorder"
+            sx={{
+              display: "flex",
+              alignItems: "center",
+              gap: 0.5,
+              cursor: "grab",
+              color: "text.secondary",
+            }}
+          >
+            <DragIndicatorIcon fontSize="small" />
+            <Typography variant="caption">{index + 1}</Typography>
+          </Box>
+        </Tooltip>
+        <Box sx={{ display: "flex", alignItems: "center" }}>
+          <FormControlLabel
+            control={
+              <Switch
+                size="small"
+                checked={!slot.bypass}
+                onChange={(e) => setSlotBypass(slot.id, !e.target.checked)}
+                color="primary"
+              />
+            }
+            label={slot.bypass ? "Bypassed" : "On"}
+            labelPlacement="start"
+          />
+          <IconButton
+            size="small"
+            onClick={() => removeSlot(slot.id)}
+            sx={{ color: "text.secondary" }}
+            aria-label="Remove effect"
+          >
+            <CloseIcon fontSize="small" />
+          </IconButton>
+        </Box>
+      </Box>
+      <Box
+        sx={{
+          flex: 1,
+          display: "grid",
+          opacity: slot.bypass ? 0.5 : 1,
+        }}
+      >
+        {renderEffect(slot, isModTarget)}
+      </Box>
+    </Box>
+  );
+};
+
+/**
+ * Menu of the effects that can be added to the end of the rack
+ */
+const AddEffectButton: React.FC = () => {
+  const addSlot = useEffectsRackStore((state) => state.addSlot);
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+
+  return (
+    <Box
+      sx={{ display: "flex", alignItems: "center", justifyContent: "center" }}
+    >
+      <Button
+        startIcon={<AddIcon />}
+        onClick={(e) => setAnchorEl(e.currentTarget)}
+      >
+        Add effect
+      </Button>
+      <Menu
+        anchorEl={anchorEl}
+        open={anchorEl !== null}
+        onClose={() => setAnchorEl(null)}
+      >
+        {EFFECT_TYPES.map((type) => (
+          <MenuItem
+            key={type}
+            onClick={() => {
+              addSlot(type);
+              setAnchorEl(null);
+            }}
+          >
+            {EFFECT_LABELS[type]}
+          </MenuItem>
+        ))}
+      </Menu>
+    </Box>
+  );
+};
+
+/**
+ * Effects on the master output: the reorderable effects rack in signal
+ * order, then the EQ
+ * The modulation matrix reaches the first slot of each effect, so only that
+ * slot's dials are modulation targets.
+ */
 export const EffectsControls: React.FC = () => {
+  const slots = useEffectsRackStore((state) => state.slots);
+
   return (
-    <div>
-      {/* Effects Controls UI goes here */}
-      <h2 style={{ textAlign: "center" }}>Effects Controls COMING SOON</h2>
-    </div>
+    <DndProvider backend={HTML5Backend}>
+      <Paper
+        sx={{
+          display: "grid",
+          gridTemplateColumns: "1fr 1fr 1fr",
+          "@media (max-width: 1200px)": {
+            gridTemplateColumns: "1fr",
+          },
+          gap: 1,
+          height: "100%",
+          overflow: "auto",
+        }}
+      >
+        {slots.map((slot, index) => (
+          <EffectSlotFrame
+            key={slot.id}
+            slot={slot}
+            index={index}
+            isModTarget={
+              slots.findIndex((other) => other.type === slot.type) === index
+            }
+          />
+        ))}
+        <AddEffectButton />
+        <EQControls />
+      </Paper>
+    </DndProvider>
   );
 };
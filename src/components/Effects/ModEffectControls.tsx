@@ -0,0 +1,197 @@
+import React from "react";
+import {
+  Paper,
+  Typography,
+  Box,
+  Tooltip,
+  FormControl,
+  Select,
+  MenuItem,
+  SelectChangeEvent,
+} from "@mui/material";
+import { ModDial } from "../";
+import { useAudioEngineStore, useEffectsRackStore } from "../../stores";
+import {
+  MAX_MOD_EFFECT_FEEDBACK,
+  MAX_MOD_EFFECT_RATE,
+  MIN_MOD_EFFECT_RATE,
+} from "../../stores/AudioEngine/helperFunctions";
+import {
+  EffectSlot,
+  getModEffectParamId,
+  ModEffectSettings,
+  ModEffectType,
+} from "../../types";
+
+const EFFECT_INFO: Record<
+  ModEffectType,
+  { label: string; description: string; color: string }
+> = {
+  chorus: {
+    label: "Chorus",
+    description:
+      "Blends in slowly detuning copies of the sound, one per side, to thicken and widen it.",
+    color: "#8e44ad",
+  },
+  flanger: {
+    label: "Flanger",
+    description:
+      "Sweeps a very short delay against the dry sound for a jet-like comb sweep. Feedback sharpens the peaks.",
+    color: "#d35400",
+  },
+  phaser: {
+    label: "Phaser",
+    description:
+      "Sweeps notches through the spectrum with a chain of all-pass filters. Feedback deepens the notches.",
+    color: "#16a085",
+  },
+};
+
+interface ModEffectControlsProps {
+  slot: EffectSlot<ModEffectType>;
+  isModTarget: boolean; // First of its effect in the rack, driven by the mod matrix
+}
+
+/**
+ * Chorus, flanger or phaser on the master output
+ * The sweep runs from the effect's own LFO or follows one of the synth LFOs
+ */
+export const ModEffectControls: React.FC<ModEffectControlsProps> = ({
+  slot,
+  isModTarget,
+}) => {
+  const { type, params: effect } = slot;
+  const lfos = useAudioEngineStore((state) => state.lfos);
+  const updateSlotParams = useEffectsRackStore(
+    (state) => state.updateSlotParams
+  );
+  const updateModEffect = (params: Partial<ModEffectSettings>) =>
+    updateSlotParams(slot.id, params);
+  const info = EFFECT_INFO[type];
+
+  const handleSyncChange = (event: SelectChangeEvent) => {
+    const value = event.target.value;
+    updateModEffect({
+      lfoSync: value === "internal" ? null : parseInt(value),
+    });
+  };
+
+  return (
+    <Paper
+      sx={{
+        display: "grid",
+        gridTemplateRows: "auto auto 1fr",
+        gap: 1,
+        p: 1,
+        overflow: "hidden",
+      }}
+    >
+      <Tooltip title={info.description} arrow placement="top">
+        <Typography
+          variant="h6"
+          align="center"
+          sx={{
+            cursor: "help",
+            textDecoration: "underline dotted",
+            textUnderlineOffset: "4px",
+          }}
+        >
+          {info.label}
+        </Typography>
+      </Tooltip>
+      <Box sx={{ display: "flex", justifyContent: "center" }}>
+        <FormControl size="small" sx={{ minWidth: 140 }}>
+          <Select
+            value={effect.lfoSync === null ? "internal" : `${effect.lfoSync}`}
+            onChange={handleSyncChange}
+          >
+            <MenuItem value="internal">Internal LFO</MenuItem>
+            {lfos.map((lfo, index) => (
+              <MenuItem key={index} value={`${index}`}>
+                Sync to LFO {index + 1}
+                {lfo.isActive ? "" : " (off)"}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Box>
+      <Box
+        sx={{
+          display: "flex",
+          flexWrap: "wrap",
+          justifyContent: "center",
+          alignItems: "center",
+          gap: 3,
+        }}
+      >
+        {effect.lfoSync === null && (
+          <ModDial
+            value={effect.rate}
+            min={MIN_MOD_EFFECT_RATE}
+            max={MAX_MOD_EFFECT_RATE}
+            step={0.01}
+            onChange={(value) => updateModEffect({ rate: value })}
+            label="Rate (Hz)"
+            size={75}
+            ringColor={info.color}
+            numberFontSize={18}
+            minMaxFontSize={10}
+            paramId={
+              isModTarget ? getModEffectParamId(type, "rate") : undefined
+            }
+            paramMin={MIN_MOD_EFFECT_RATE}
+            paramMax={MAX_MOD_EFFECT_RATE}
+            bipolar={false}
+          />
+        )}
+        <ModDial
+          value={effect.depth * 100}
+          min={0}
+          max={100}
+          onChange={(value) => updateModEffect({ depth: value / 100 })}
+          label="Depth"
+          size={75}
+          ringColor={info.color}
+          numberFontSize={18}
+          minMaxFontSize={10}
+          paramId={isModTarget ? getModEffectParamId(type, "depth") : undefined}
+          paramMin={0}
+          paramMax={1}
+          bipolar={false}
+        />
+        <ModDial
+          value={effect.feedback * 100}
+          min={0}
+          max={MAX_MOD_EFFECT_FEEDBACK * 100}
+          onChange={(value) => updateModEffect({ feedback: value / 100 })}
+          label="Feedback"
+          size={75}
+          ringColor={info.color}
+          numberFontSize={18}
+          minMaxFontSize={10}
+          paramId={
+            isModTarget ? getModEffectParamId(type, "feedback") : undefined
+          }
+          paramMin={0}
+          paramMax={MAX_MOD_EFFECT_FEEDBACK}
+          bipolar={false}
+        />
+        <ModDial
+          value={effect.mix * 100}
+          min={0}
+          max={100}
+          onChange={(value) => updateModEffect({ mix: value / 100 })}
+          label="Mix"
+          size={75}
+          ringColor={info.color}
+          numberFontSize={18}
+          minMaxFontSize={10}
+          paramId={isModTarget ? getModEffectParamId(type, "mix") : undefined}
+          paramMin={0}
+          paramMax={1}
+          bipolar={false}
+        />
+      </Box>
+    </Paper>
+  );
+};
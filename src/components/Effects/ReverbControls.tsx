@@ -0,0 +1,134 @@
+import React from "react";
+import { Paper, Typography, Box, Tooltip } from "@mui/material";
+import { ModDial } from "../";
+import { useEffectsRackStore } from "../../stores";
+import {
+  MAX_REVERB_DECAY,
+  MAX_REVERB_PRE_DELAY,
+  MAX_REVERB_SIZE,
+  MIN_REVERB_DECAY,
+  MIN_REVERB_SIZE,
+} from "../../stores/AudioEngine/helperFunctions";
+import { EffectSlot, PARAM_IDS, ReverbSettings } from "../../types";
+
+interface ReverbControlsProps {
+  slot: EffectSlot<"reverb">;
+  isModTarget: boolean; // First reverb in the rack, driven by the mod matrix
+}
+
+/**
+ * Convolution reverb
+ * The impulse response is generated from the dials, not loaded from a file
+ */
+export const ReverbControls: React.FC<ReverbControlsProps> = ({
+  slot,
+  isModTarget,
+}) => {
+  const reverb = slot.params;
+  const updateSlotParams = useEffectsRackStore(
+    (state) => state.updateSlotParams
+  );
+  const updateReverb = (params: Partial<ReverbSettings>) =>
+    updateSlotParams(slot.id, params);
+
+  return (
+    <Paper
+      sx={{
+        display: "grid",
+        gridTemplateRows: "auto 1fr",
+        gap: 1,
+        p: 1,
+        overflow: "hidden",
+      }}
+    >
+      <Tooltip
+        title="Places the sound in a space. Size sets the length of the tail, Decay how quickly it fades and Damping how quickly it darkens; Pre-Delay separates the dry sound from the tail."
+        arrow
+        placement="top"
+      >
+        <Typography
+          variant="h6"
+          align="center"
+          sx={{
+            cursor: "help",
+            textDecoration: "underline dotted",
+            textUnderlineOffset: "4px",
+          }}
+        >
+          Reverb
+        </Typography>
+      </Tooltip>
+      <Box
+        sx={{
+          display: "flex",
+          flexWrap: "wrap",
+          justifyContent: "center",
+          alignItems: "center",
+          gap: 3,
+        }}
+      >
+        <ModDial
+          value={reverb.size}
+          min={MIN_REVERB_SIZE}
+          max={MAX_REVERB_SIZE}
+          step={0.1}
+          onChange={(value) => updateReverb({ size: value })}
+          label="Size (s)"
+          size={75}
+          ringColor="#2980b9"
+          numberFontSize={18}
+          minMaxFontSize={10}
+        />
+        <ModDial
+          value={reverb.decay}
+          min={MIN_REVERB_DECAY}
+          max={MAX_REVERB_DECAY}
+          step={0.1}
+          onChange={(value) => updateReverb({ decay: value })}
+          label="Decay"
+          size={75}
+          ringColor="#2980b9"
+          numberFontSize={18}
+          minMaxFontSize={10}
+        />
+        <ModDial
+          value={reverb.preDelay}
+          min={0}
+          max={MAX_REVERB_PRE_DELAY}
+          onChange={(value) => updateReverb({ preDelay: Math.round(value) })}
+          label="Pre-Delay (ms)"
+          size={75}
+          ringColor="#2980b9"
+          numberFontSize={18}
+          minMaxFontSize={10}
+        />
+        <ModDial
+          value={reverb.damping * 100}
+          min={0}
+          max={100}
+          onChange={(value) => updateReverb({ damping: value / 100 })}
+          label="Damping"
+          size={75}
+          ringColor="#2980b9"
+          numberFontSize={18}
+          minMaxFontSize={10}
+        />
+        <ModDial
+          value={reverb.mix * 100}
+          min={0}
+          max={100}
+          onChange={(value) => updateReverb({ mix: value / 100 })}
+          label="Mix"
+          size={75}
+          ringColor="#2980b9"
+          numberFontSize={18}
+          minMaxFontSize={10}
+          paramId={isModTarget ? PARAM_IDS.REVERB_MIX : undefined}
+          paramMin={0}
+          paramMax={1}
+          bipolar={false}
+        />
+      </Box>
+    </Paper>
+  );
+};
@@ -0,0 +1,372 @@
+import React, {
+  ChangeEvent,
+  KeyboardEvent,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import {
+  Paper,
+  Typography,
+  Box,
+  Tooltip,
+  TextField,
+  Alert,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+} from "@mui/material";
+import ErrorOutlineIcon from "@mui/icons-material/ErrorOutline";
+import CheckCircleOutlineIcon from "@mui/icons-material/CheckCircleOutline";
+import { ModDial } from "../";
+import { useEffectsRackStore } from "../../stores";
+import {
+  compileShaperExpression,
+  createShaperCurve,
+  detectShaperVariables,
+} from "../../stores/AudioEngine/helperFunctions";
+import {
+  EffectSlot,
+  PARAM_IDS,
+  ShaperSettings,
+  VariableConfig,
+} from "../../types";
+
+const MAX_EXPRESSION_LENGTH = 120;
+
+// Points drawn in the transfer curve preview
+const PREVIEW_POINTS = 256;
+
+const variable = (
+  name: string,
+  value: number,
+  min: number,
+  max: number,
+  step: number
+): VariableConfig => ({ name, value, min, max, step, defaultValue: value });
+
+export const shaperPresets: {
+  name: string;
+  expression: string;
+  variables: Record<string, VariableConfig>;
+}[] = [
+  {
+    name: "Soft Clip",
+    expression: "tanh(k*x)",
+    variables: { k: variable("k", 3, 0.1, 10, 0.1) },
+  },
+  {
+    name: "Hard Clip",
+    expression: "max(-c, min(c, x)) / c",
+    variables: { c: variable("c", 0.5, 0.05, 1, 0.01) },
+  },
+  {
+    name: "Wavefold",
+    expression: "sin(k*pi*x/2)",
+    variables: { k: variable("k", 2, 1, 8, 0.1) },
+  },
+  {
+    name: "Asymmetric",
+    expression: "tanh(k*(x + b)) - tanh(k*b)",
+    variables: {
+      b: variable("b", 0.3, -1, 1, 0.01),
+      k: variable("k", 2, 0.1, 10, 0.1),
+    },
+  },
+  {
+    name: "Bitcrush",
+    expression: "round(x*s) / s",
+    variables: { s: variable("s", 8, 2, 64, 1) },
+  },
+  {
+    name: "Chebyshev (3rd)",
+    expression: "4*x^3 - 3*x",
+    variables: {},
+  },
+];
+
+/**
+ * Transfer curve preview: input x across, output y up, with the
+ * unshaped (y = x) line for reference
+ */
+const ShaperCurvePreview: React.FC<{ curve: Float32Array | null }> = ({
+  curve,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    ctx.fillStyle = "#1a1a1a";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    const centerX = canvas.width / 2;
+    const centerY = canvas.height / 2;
+    const scaleY = (canvas.height / 2) * 0.9; // 90% of half-height for padding
+
+    // Axes and the y = x reference
+    ctx.beginPath();
+    ctx.strokeStyle = "#444";
+    ctx.lineWidth = 1;
+    ctx.moveTo(0, centerY);
+    ctx.lineTo(canvas.width, centerY);
+    ctx.moveTo(centerX, 0);
+    ctx.lineTo(centerX, canvas.height);
+    ctx.moveTo(0, centerY + scaleY);
+    ctx.lineTo(canvas.width, centerY - scaleY);
+    ctx.stroke();
+
+    if (!curve || curve.length < 2) return;
+
+    // Canvas Y coordinates increase downward, so positive outputs are subtracted
+    ctx.beginPath();
+    ctx.strokeStyle = "#e74c3c";
+    ctx.lineWidth = 2;
+    ctx.moveTo(0, centerY - curve[0] * scaleY);
+    for (let i = 1; i < curve.length; i++) {
+      const x = (i / (curve.length - 1)) * canvas.width;
+      ctx.lineTo(x, centerY - curve[i] * scaleY);
+    }
+    ctx.stroke();
+  }, [curve]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={120}
+      height={120}
+      style={{ width: 120, height: 120, borderRadius: 4 }}
+    />
+  );
+};
+
+interface ShaperControlsProps {
+  slot: EffectSlot<"shaper">;
+  isModTarget: boolean; // First shaper in the rack, driven by the mod matrix
+}
+
+/**
+ * Waveshaping distortion with a transfer curve typed as y = f(x)
+ * Single-letter variables in the expression get their own dials.
+ */
+export const ShaperControls: React.FC<ShaperControlsProps> = ({
+  slot,
+  isModTarget,
+}) => {
+  const shaper = slot.params;
+  const shaperError = useEffectsRackStore(
+    (state) => state.shaperErrors[slot.id]
+  );
+  const updateSlotParams = useEffectsRackStore(
+    (state) => state.updateSlotParams
+  );
+  const setVariable = useEffectsRackStore((state) => state.setShaperVariable);
+  const updateShaper = (params: Partial<ShaperSettings>) =>
+    updateSlotParams(slot.id, params);
+  const setShaperVariable = (name: string, value: number) =>
+    setVariable(slot.id, name, value);
+
+  const [localExpression, setLocalExpression] = useState<string>(
+    shaper.expression
+  );
+
+  // Sync local expression with the store (presets, patches)
+  useEffect(() => {
+    setLocalExpression(shaper.expression);
+  }, [shaper.expression]);
+
+  // Follow the draft while it parses, otherwise keep showing the applied curve
+  const previewCurve = useMemo(() => {
+    const sample = (expression: string) =>
+      createShaperCurve(
+        compileShaperExpression(expression),
+        detectShaperVariables(expression, shaper.variables),
+        PREVIEW_POINTS
+      );
+    try {
+      return sample(localExpression);
+    } catch (error) {
+      return sample(shaper.expression);
+    }
+  }, [localExpression, shaper.expression, shaper.variables]);
+
+  const handleChange = (e: ChangeEvent<HTMLInputElement>) => {
+    if (e.target.value.length > MAX_EXPRESSION_LENGTH) return;
+    setLocalExpression(e.target.value);
+  };
+
+  // Apply on Enter, like the oscillator equation input
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      updateShaper({ expression: localExpression });
+    }
+  };
+
+  const isApplied = localExpression === shaper.expression;
+  const borderColor = shaperError
+    ? "error.main"
+    : isApplied
+      ? "success.main"
+      : undefined;
+
+  return (
+    <Paper
+      sx={{
+        display: "grid",
+        gridTemplateRows: "auto auto 1fr",
+        gap: 1,
+        p: 1,
+        overflow: "hidden",
+      }}
+    >
+      <Tooltip
+        title="Bends the signal through a transfer curve you type as a function of the input x (-1 to 1). Single letters become dials; press Enter to apply."
+        arrow
+        placement="top"
+      >
+        <Typography
+          variant="h6"
+          align="center"
+          sx={{
+            cursor: "help",
+            textDecoration: "underline dotted",
+            textUnderlineOffset: "4px",
+          }}
+        >
+          Shaper
+        </Typography>
+      </Tooltip>
+      <Box sx={{ display: "flex", gap: 1, alignItems: "flex-start" }}>
+        <Box
+          sx={{
+            flex: 1,
+            display: "flex",
+            flexDirection: "column",
+            gap: 1,
+            minWidth: 0,
+          }}
+        >
+          <FormControl size="small" fullWidth>
+            <InputLabel>Preset Curves</InputLabel>
+            <Select
+              value={
+                shaperPresets.find(
+                  (preset) => preset.expression === shaper.expression
+                )?.name || ""
+              }
+              label="Preset Curves"
+              onChange={(event) => {
+                const preset = shaperPresets.find(
+                  (p) => p.name === event.target.value
+                );
+                if (!preset) return;
+                updateShaper({
+                  expression: preset.expression,
+                  variables: preset.variables,
+                });
+              }}
+            >
+              {shaperPresets.map((preset) => (
+                <MenuItem key={preset.name} value={preset.name}>
+                  {preset.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <TextField
+            value={localExpression}
+            onChange={handleChange}
+            onKeyDown={handleKeyDown}
+            placeholder="y = f(x), e.g. tanh(k*x)"
+            fullWidth
+            size="small"
+            variant="outlined"
+            sx={{
+              "& .MuiOutlinedInput-root": {
+                fontFamily: "monospace",
+                "& fieldset": {
+                  borderColor,
+                  borderWidth: borderColor ? 2 : 1,
+                },
+              },
+              "& .MuiInputBase-input": {
+                fontFamily: "monospace",
+              },
+            }}
+            slotProps={{
+              input: {
+                startAdornment: (
+                  <Typography
+                    sx={{ fontFamily: "monospace", mr: 1 }}
+                    color="text.secondary"
+                  >
+                    y =
+                  </Typography>
+                ),
+                endAdornment:
+                  shaperError && !isApplied ? (
+                    <ErrorOutlineIcon color="error" fontSize="small" />
+                  ) : isApplied ? (
+                    <CheckCircleOutlineIcon color="success" fontSize="small" />
+                  ) : undefined,
+              },
+            }}
+          />
+          {shaperError && !isApplied && (
+            <Alert severity="error" icon={<ErrorOutlineIcon />}>
+              <Typography variant="body2">{shaperError}</Typography>
+            </Alert>
+          )}
+        </Box>
+        <ShaperCurvePreview curve={previewCurve} />
+      </Box>
+      <Box
+        sx={{
+          display: "flex",
+          flexWrap: "wrap",
+          justifyContent: "center",
+          alignItems: "center",
+          gap: 3,
+        }}
+      >
+        {Object.values(shaper.variables).map((config) => (
+          <ModDial
+            key={config.name}
+            value={config.value}
+            min={config.min}
+            max={config.max}
+            step={config.step}
+            onChange={(value) => setShaperVariable(config.name, value)}
+            label={config.name}
+            size={75}
+            ringColor="#e74c3c"
+            numberFontSize={18}
+            minMaxFontSize={10}
+          />
+        ))}
+        <ModDial
+          value={shaper.mix * 100}
+          min={0}
+          max={100}
+          onChange={(value) => updateShaper({ mix: value / 100 })}
+          label="Mix"
+          size={75}
+          ringColor="#e74c3c"
+          numberFontSize={18}
+          minMaxFontSize={10}
+          paramId={isModTarget ? PARAM_IDS.SHAPER_MIX : undefined}
+          paramMin={0}
+          paramMax={1}
+          bipolar={false}
+        />
+      </Box>
+    </Paper>
+  );
+};
@@ -1 +1,7 @@
+export { CrusherControls } from "./CrusherControls";
+export { DelayControls } from "./DelayControls";
 export { EffectsControls } from "./EffectsControls";
+export { EQControls } from "./EQControls";
+export { ReverbControls } from "./ReverbControls";
+export { ModEffectControls } from "./ModEffectControls";
+export { ShaperControls } from "./ShaperControls";
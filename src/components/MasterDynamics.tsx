@@ -0,0 +1,272 @@
+import React, { useEffect, useState } from "react";
+import {
+  Box,
+  Stack,
+  Switch,
+  FormControlLabel,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import { audioNodes, useAudioEngineStore } from "../stores";
+import {
+  gainToDb,
+  MAX_COMPRESSOR_ATTACK,
+  MAX_COMPRESSOR_MAKEUP,
+  MAX_COMPRESSOR_RATIO,
+  MAX_COMPRESSOR_RELEASE,
+  MIN_COMPRESSOR_RATIO,
+  MIN_COMPRESSOR_RELEASE,
+  MIN_COMPRESSOR_THRESHOLD,
+  MIN_LIMITER_CEILING,
+} from "../stores/AudioEngine/helperFunctions";
+import { Dial } from "./";
+
+// Bottom of the peak meter (dBFS)
+const PEAK_METER_FLOOR = -48;
+
+// Deepest gain reduction shown (dB)
+const REDUCTION_METER_RANGE = 24;
+
+// How far the meters fall per frame (dB), so short peaks stay readable
+const METER_FALLOFF = 0.75;
+
+const METER_HEIGHT = 110;
+
+interface MeterBarProps {
+  label: string;
+  fraction: number; // 0-1 of the bar filled
+  color: string;
+  fromTop?: boolean; // Gain reduction grows down from the top
+}
+
+const MeterBar: React.FC<MeterBarProps> = ({
+  label,
+  fraction,
+  color,
+  fromTop = false,
+}) => (
+  <Stack spacing={0.5} alignItems="center">
+    <Box
+      sx={{
+        position: "relative",
+        width: 12,
+        height: METER_HEIGHT,
+        backgroundColor: "#1a1a1a",
+        borderRadius: 0.5,
+        overflow: "hidden",
+      }}
+    >
+      <Box
+        sx={{
+          position: "absolute",
+          left: 0,
+          right: 0,
+          [fromTop ? "top" : "bottom"]: 0,
+          height: `${Math.max(0, Math.min(1, fraction)) * 100}%`,
+          backgroundColor: color,
+        }}
+      />
+    </Box>
+    <Typography variant="caption" color="text.secondary">
+      {label}
+    </Typography>
+  </Stack>
+);
+
+/**
+ * Peak and gain reduction meters with a latching clip LED
+ * Click the LED to reset it.
+ */
+const MasterMeter: React.FC = () => {
+  const [levels, setLevels] = useState({
+    peak: PEAK_METER_FLOOR,
+    reduction: 0,
+  });
+  const [clipped, setClipped] = useState(false);
+
+  useEffect(() => {
+    let frameId: number;
+
+    const update = () => {
+      const meter = audioNodes.getDynamicsMeter();
+      if (meter) {
+        if (meter.peak > 1) setClipped(true);
+
+        const peak = Math.max(PEAK_METER_FLOOR, gainToDb(meter.peak));
+        const reduction = Math.max(-REDUCTION_METER_RANGE, meter.reduction);
+        setLevels((previous) => {
+          const next = {
+            peak: Math.max(peak, previous.peak - METER_FALLOFF),
+            reduction: Math.min(reduction, previous.reduction + METER_FALLOFF),
+          };
+          // Skip renders for changes the bars wouldn't show
+          return Math.abs(next.peak - previous.peak) < 0.1 &&
+            Math.abs(next.reduction - previous.reduction) < 0.1
+            ? previous
+            : next;
+        });
+      }
+      frameId = requestAnimationFrame(update);
+    };
+
+    frameId = requestAnimationFrame(update);
+    return () => cancelAnimationFrame(frameId);
+  }, []);
+
+  const peakColor =
+    levels.peak > -1 ? "#e74c3c" : levels.peak > -6 ? "#f1c40f" : "#2ecc71";
+
+  return (
+    <Stack spacing={0.5} alignItems="center">
+      <Tooltip title="Output went over 0 dBFS. Click to reset." arrow>
+        <Box
+          onClick={() => setClipped(false)}
+          aria-label="Clip indicator"
+          sx={{
+            width: 14,
+            height: 14,
+            borderRadius: "50%",
+            cursor: "pointer",
+            backgroundColor: clipped ? "#e74c3c" : "#4a1a1a",
+            boxShadow: clipped ? "0 0 6px #e74c3c" : "none",
+          }}
+        />
+      </Tooltip>
+      <Box sx={{ display: "flex", gap: 1 }}>
+        <MeterBar
+          label="Peak"
+          fraction={1 - levels.peak / PEAK_METER_FLOOR}
+          color={peakColor}
+        />
+        <MeterBar
+          label="GR"
+          fraction={-levels.reduction / REDUCTION_METER_RANGE}
+          color="#e67e22"
+          fromTop={true}
+        />
+      </Box>
+    </Stack>
+  );
+};
+
+/**
+ * Master bus compressor and brickwall limiter, with output meters
+ */
+export const MasterDynamics: React.FC = () => {
+  const dynamics = useAudioEngineStore((state) => state.dynamics);
+  const updateDynamics = useAudioEngineStore((state) => state.updateDynamics);
+  const compressorColor = dynamics.compressorEnabled ? "#e67e22" : "#95a5a6";
+
+  return (
+    <Box sx={{ display: "flex", alignItems: "center", gap: 1.5 }}>
+      <Stack spacing={0.5} alignItems="center">
+        <FormControlLabel
+          control={
+            <Switch
+              size="small"
+              checked={dynamics.compressorEnabled}
+              onChange={(e) =>
+                updateDynamics({ compressorEnabled: e.target.checked })
+              }
+              color="primary"
+            />
+          }
+          label="Comp"
+        />
+        <Box
+          sx={{
+            display: "grid",
+            gridTemplateColumns: "1fr 1fr 1fr",
+            gap: 0.5,
+          }}
+        >
+          <Dial
+            value={dynamics.threshold}
+            min={MIN_COMPRESSOR_THRESHOLD}
+            max={0}
+            onChange={(threshold) => updateDynamics({ threshold })}
+            label="Threshold"
+            size={50}
+            ringColor={compressorColor}
+            numberFontSize={14}
+            minMaxFontSize={9}
+          />
+          <Dial
+            value={dynamics.ratio}
+            min={MIN_COMPRESSOR_RATIO}
+            max={MAX_COMPRESSOR_RATIO}
+            step={0.1}
+            onChange={(ratio) => updateDynamics({ ratio })}
+            label="Ratio"
+            size={50}
+            ringColor={compressorColor}
+            numberFontSize={14}
+            minMaxFontSize={9}
+          />
+          <Dial
+            value={dynamics.makeup}
+            min={0}
+            max={MAX_COMPRESSOR_MAKEUP}
+            step={0.5}
+            onChange={(makeup) => updateDynamics({ makeup })}
+            label="Makeup"
+            size={50}
+            ringColor={compressorColor}
+            numberFontSize={14}
+            minMaxFontSize={9}
+          />
+          <Dial
+            value={dynamics.attack}
+            min={0}
+            max={MAX_COMPRESSOR_ATTACK}
+            onChange={(attack) => updateDynamics({ attack })}
+            label="Attack"
+            size={50}
+            ringColor={compressorColor}
+            numberFontSize={14}
+            minMaxFontSize={9}
+          />
+          <Dial
+            value={dynamics.release}
+            min={MIN_COMPRESSOR_RELEASE}
+            max={MAX_COMPRESSOR_RELEASE}
+            onChange={(release) => updateDynamics({ release })}
+            label="Release"
+            size={50}
+            ringColor={compressorColor}
+            numberFontSize={14}
+            minMaxFontSize={9}
+          />
+        </Box>
+      </Stack>
+      <Stack spacing={0.5} alignItems="center">
+        <FormControlLabel
+          control={
+            <Switch
+              size="small"
+              checked={dynamics.limiterEnabled}
+              onChange={(e) =>
+                updateDynamics({ limiterEnabled: e.target.checked })
+              }
+              color="primary"
+            />
+          }
+          label="Limit"
+        />
+        <Dial
+          value={dynamics.ceiling}
+          min={MIN_LIMITER_CEILING}
+          max={0}
+          step={0.1}
+          onChange={(ceiling) => updateDynamics({ ceiling })}
+          label="Ceiling"
+          size={50}
+          ringColor={dynamics.limiterEnabled ? "#e74c3c" : "#95a5a6"}
+          numberFontSize={14}
+          minMaxFontSize={9}
+        />
+      </Stack>
+      <MasterMeter />
+    </Box>
+  );
+};
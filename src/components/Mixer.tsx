@@ -6,10 +6,49 @@ import {
   Stack,
   Switch,
   FormControlLabel,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  SelectChangeEvent,
 } from "@mui/material";
 import { useAudioEngineStore, useSynthControlsStore } from "../stores";
+import { MAX_VOICE_COUNT } from "../stores/AudioEngine/voiceAllocator";
+import {
+  NOISE_COLORS,
+  SUB_OSC_WAVEFORMS,
+} from "../stores/AudioEngine/helperFunctions";
 import { Dial, ModDial } from "./";
-import { getOscParamId } from "../types";
+import { MasterDynamics } from "./MasterDynamics";
+import {
+  getOscParamId,
+  NoiseColor,
+  OscillatorFilterAssignment,
+  PARAM_IDS,
+  RingModMode,
+  SubOscWaveform,
+  NotePriority,
+  VoiceStealMode,
+} from "../types";
+
+const FILTER_ASSIGNMENT_LABELS: Record<OscillatorFilterAssignment, string> = {
+  a: "Filter A",
+  b: "Filter B",
+  both: "Filter A + B",
+  bypass: "No Filter",
+};
+
+const NOISE_COLOR_LABELS: Record<NoiseColor, string> = {
+  white: "White",
+  pink: "Pink",
+  brown: "Brown",
+};
+
+const SUB_OSC_WAVEFORM_LABELS: Record<SubOscWaveform, string> = {
+  sine: "Sine",
+  square: "Square",
+  osc1: "Osc 1",
+};
 
 export const Mixer: React.FC = () => {
   // Connect to stores
@@ -18,9 +57,34 @@ export const Mixer: React.FC = () => {
   const updateOscillatorVolume = useAudioEngineStore(
     (state) => state.updateOscillatorVolume
   );
+  const updateOscillatorPan = useAudioEngineStore(
+    (state) => state.updateOscillatorPan
+  );
   const updateMasterVolume = useAudioEngineStore(
     (state) => state.updateMasterVolume
   );
+  const voiceCount = useAudioEngineStore((state) => state.voiceCount);
+  const setVoiceCount = useAudioEngineStore((state) => state.setVoiceCount);
+  const voiceStealMode = useAudioEngineStore((state) => state.voiceStealMode);
+  const setVoiceStealMode = useAudioEngineStore(
+    (state) => state.setVoiceStealMode
+  );
+  const notePriority = useAudioEngineStore((state) => state.notePriority);
+  const setNotePriority = useAudioEngineStore((state) => state.setNotePriority);
+  const legato = useAudioEngineStore((state) => state.legato);
+  const ringMods = useAudioEngineStore((state) => state.ringMods);
+  const setRingMod = useAudioEngineStore((state) => state.setRingMod);
+  const setRingModMix = useAudioEngineStore((state) => state.setRingModMix);
+  const oscillatorFilters = useAudioEngineStore(
+    (state) => state.oscillatorFilters
+  );
+  const setOscillatorFilter = useAudioEngineStore(
+    (state) => state.setOscillatorFilter
+  );
+  const noise = useAudioEngineStore((state) => state.noise);
+  const updateNoise = useAudioEngineStore((state) => state.updateNoise);
+  const subOsc = useAudioEngineStore((state) => state.subOsc);
+  const updateSubOsc = useAudioEngineStore((state) => state.updateSubOsc);
 
   const keyboardEnabled = useSynthControlsStore(
     (state) => state.keyboardEnabled
@@ -44,6 +108,11 @@ export const Mixer: React.FC = () => {
     updateOscillatorVolume(oscIndex, volume / 100);
   };
 
+  const handleOscPanChange = (oscIndex: number, pan: number) => {
+    // Convert -100 to 100 range to -1 to 1 for audio engine
+    updateOscillatorPan(oscIndex, pan / 100);
+  };
+
   const handleMasterVolumeChange = (volume: number) => {
     updateMasterVolume(volume);
   };
@@ -52,6 +121,30 @@ export const Mixer: React.FC = () => {
     setAmpEnvelopeAmount(amount);
   };
 
+  const handleVoiceCountChange = (count: number) => {
+    if (Math.round(count) !== voiceCount) {
+      setVoiceCount(count);
+    }
+  };
+
+  const handleStealModeChange = (event: SelectChangeEvent) => {
+    setVoiceStealMode(event.target.value as VoiceStealMode);
+  };
+
+  const handleNotePriorityChange = (event: SelectChangeEvent) => {
+    setNotePriority(event.target.value as NotePriority);
+  };
+
+  // Ring mod select values are "off" or "<mode>:<source index>"
+  const handleRingModChange = (oscIndex: number, event: SelectChangeEvent) => {
+    const [mode, source] = event.target.value.split(":");
+    setRingMod(
+      oscIndex,
+      mode as RingModMode,
+      source !== undefined ? parseInt(source) : ringMods[oscIndex].sourceIndex
+    );
+  };
+
   return (
     <Paper
       elevation={2}
@@ -117,6 +210,7 @@ export const Mixer: React.FC = () => {
           />
         </Box>
       </Stack>
+      <MasterDynamics />
       <Box
         sx={{
           display: "grid",
@@ -204,7 +298,304 @@ export const Mixer: React.FC = () => {
         />
       </Box>
 
+      <Box
+        sx={{
+          display: "grid",
+          gridTemplateColumns: "1fr 1fr",
+          gap: 0.5,
+          minWidth: "180px",
+          "@media (max-width: 1999px)": {
+            gridTemplateColumns: "1fr 1fr 1fr 1fr",
+            minWidth: "400px",
+            gap: 1,
+          },
+          "@media (max-width: 900px)": {
+            gridTemplateColumns: "1fr 1fr",
+            minWidth: "300px",
+            gap: 1,
+          },
+        }}
+      >
+        {oscillators.map((osc, oscIndex) => (
+          <ModDial
+            key={oscIndex}
+            value={osc.pan * 100}
+            min={-100}
+            max={100}
+            onChange={(pan) => handleOscPanChange(oscIndex, pan)}
+            label={`Osc ${oscIndex + 1} Pan`}
+            size={50}
+            ringColor={osc.isActive ? "#1abc9c" : "#95a5a6"}
+            numberFontSize={14}
+            minMaxFontSize={9}
+            minLabel="L"
+            maxLabel="R"
+            paramId={getOscParamId(oscIndex, "pan")}
+            paramMin={-1}
+            paramMax={1}
+            bipolar={true}
+          />
+        ))}
+      </Box>
+
+      <Box
+        sx={{
+          display: "grid",
+          gridTemplateColumns: "1fr 1fr",
+          gap: 0.5,
+          minWidth: "180px",
+          "@media (max-width: 1999px)": {
+            gridTemplateColumns: "1fr 1fr 1fr 1fr",
+            minWidth: "400px",
+            gap: 1,
+          },
+          "@media (max-width: 900px)": {
+            gridTemplateColumns: "1fr 1fr",
+            minWidth: "300px",
+            gap: 1,
+          },
+        }}
+      >
+        {ringMods.map((ringMod, oscIndex) => (
+          <Stack key={oscIndex} spacing={0.5} alignItems="center">
+            <FormControl size="small" sx={{ minWidth: 90 }}>
+              <Select
+                value={
+                  ringMod.mode === "off"
+                    ? "off"
+                    : `${ringMod.mode}:${ringMod.sourceIndex}`
+                }
+                onChange={(event) => handleRingModChange(oscIndex, event)}
+                sx={{ fontSize: 12 }}
+              >
+                <MenuItem value="off">No RM/AM</MenuItem>
+                {[0, 1, 2, 3]
+                  .filter((i) => i !== oscIndex)
+                  .flatMap((sourceIndex) => [
+                    <MenuItem
+                      key={`rm${sourceIndex}`}
+                      value={`rm:${sourceIndex}`}
+                    >
+                      RM × Osc {sourceIndex + 1}
+                    </MenuItem>,
+                    <MenuItem
+                      key={`am${sourceIndex}`}
+                      value={`am:${sourceIndex}`}
+                    >
+                      AM × Osc {sourceIndex + 1}
+                    </MenuItem>,
+                  ])}
+              </Select>
+            </FormControl>
+            <FormControl size="small" sx={{ minWidth: 90 }}>
+              <Select
+                value={oscillatorFilters[oscIndex]}
+                onChange={(event) =>
+                  setOscillatorFilter(
+                    oscIndex,
+                    event.target.value as OscillatorFilterAssignment
+                  )
+                }
+                sx={{ fontSize: 12 }}
+              >
+                {(
+                  Object.keys(
+                    FILTER_ASSIGNMENT_LABELS
+                  ) as OscillatorFilterAssignment[]
+                ).map((assignment) => (
+                  <MenuItem key={assignment} value={assignment}>
+                    {FILTER_ASSIGNMENT_LABELS[assignment]}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <ModDial
+              value={ringMod.mix * 100}
+              min={0}
+              max={100}
+              onChange={(mix) => setRingModMix(oscIndex, mix / 100)}
+              label={`Osc ${oscIndex + 1} Dry/Wet`}
+              size={50}
+              ringColor={ringMod.mode !== "off" ? "#e67e22" : "#95a5a6"}
+              numberFontSize={14}
+              minMaxFontSize={9}
+              paramId={getOscParamId(oscIndex, "ring_mix")}
+              paramMin={0}
+              paramMax={1}
+              bipolar={false}
+            />
+          </Stack>
+        ))}
+      </Box>
+
+      <Stack spacing={0.5} alignItems="center">
+        <FormControl size="small" sx={{ minWidth: 90 }}>
+          <InputLabel id="noise-color-select-label">Noise</InputLabel>
+          <Select
+            labelId="noise-color-select-label"
+            id="noise-color-select"
+            value={noise.color}
+            label="Noise"
+            onChange={(event) =>
+              updateNoise({ color: event.target.value as NoiseColor })
+            }
+            sx={{ fontSize: 12 }}
+          >
+            {NOISE_COLORS.map((color) => (
+              <MenuItem key={color} value={color}>
+                {NOISE_COLOR_LABELS[color]}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ minWidth: 90 }}>
+          <Select
+            value={noise.filter}
+            onChange={(event) =>
+              updateNoise({
+                filter: event.target.value as OscillatorFilterAssignment,
+              })
+            }
+            sx={{ fontSize: 12 }}
+          >
+            {(
+              Object.keys(
+                FILTER_ASSIGNMENT_LABELS
+              ) as OscillatorFilterAssignment[]
+            ).map((assignment) => (
+              <MenuItem key={assignment} value={assignment}>
+                {FILTER_ASSIGNMENT_LABELS[assignment]}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <Box sx={{ display: "flex", gap: 1 }}>
+          <ModDial
+            value={noise.level * 100}
+            min={0}
+            max={100}
+            onChange={(level) => updateNoise({ level: level / 100 })}
+            label="Noise Level"
+            size={50}
+            ringColor={noise.level > 0 ? "#2ecc71" : "#95a5a6"}
+            numberFontSize={14}
+            minMaxFontSize={9}
+            paramId={PARAM_IDS.NOISE_LEVEL}
+            paramMin={0}
+            paramMax={1}
+            bipolar={false}
+          />
+          <ModDial
+            value={noise.pan * 100}
+            min={-100}
+            max={100}
+            onChange={(pan) => updateNoise({ pan: pan / 100 })}
+            label="Noise Pan"
+            size={50}
+            ringColor={noise.level > 0 ? "#1abc9c" : "#95a5a6"}
+            numberFontSize={14}
+            minMaxFontSize={9}
+            minLabel="L"
+            maxLabel="R"
+            paramId={PARAM_IDS.NOISE_PAN}
+            paramMin={-1}
+            paramMax={1}
+            bipolar={true}
+          />
+        </Box>
+      </Stack>
+
+      <Stack spacing={0.5} alignItems="center">
+        <FormControl size="small" sx={{ minWidth: 90 }}>
+          <InputLabel id="sub-waveform-select-label">Sub</InputLabel>
+          <Select
+            labelId="sub-waveform-select-label"
+            id="sub-waveform-select"
+            value={subOsc.waveform}
+            label="Sub"
+            onChange={(event) =>
+              updateSubOsc({ waveform: event.target.value as SubOscWaveform })
+            }
+            sx={{ fontSize: 12 }}
+          >
+            {SUB_OSC_WAVEFORMS.map((waveform) => (
+              <MenuItem key={waveform} value={waveform}>
+                {SUB_OSC_WAVEFORM_LABELS[waveform]}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ minWidth: 90 }}>
+          <Select
+            value={subOsc.octave}
+            onChange={(event) =>
+              updateSubOsc({ octave: Number(event.target.value) as 1 | 2 })
+            }
+            sx={{ fontSize: 12 }}
+          >
+            <MenuItem value={1}>-1 Oct</MenuItem>
+            <MenuItem value={2}>-2 Oct</MenuItem>
+          </Select>
+        </FormControl>
+        <ModDial
+          value={subOsc.level * 100}
+          min={0}
+          max={100}
+          onChange={(level) => updateSubOsc({ level: level / 100 })}
+          label="Sub Level"
+          size={50}
+          ringColor={subOsc.level > 0 ? "#2ecc71" : "#95a5a6"}
+          numberFontSize={14}
+          minMaxFontSize={9}
+          paramId={PARAM_IDS.SUB_VOLUME}
+          paramMin={0}
+          paramMax={1}
+          bipolar={false}
+        />
+      </Stack>
+
       <Stack spacing={2} alignItems="center">
+        <Dial
+          value={voiceCount}
+          min={1}
+          max={MAX_VOICE_COUNT}
+          step={1}
+          onChange={handleVoiceCountChange}
+          label="Voices"
+          size={60}
+          ringColor="#9b59b6"
+          numberFontSize={16}
+          minMaxFontSize={10}
+        />
+        <FormControl size="small" sx={{ minWidth: 110 }}>
+          <InputLabel id="voice-steal-select-label">Steal</InputLabel>
+          <Select
+            labelId="voice-steal-select-label"
+            id="voice-steal-select"
+            value={voiceStealMode}
+            label="Steal"
+            onChange={handleStealModeChange}
+          >
+            <MenuItem value="oldest">Oldest</MenuItem>
+            <MenuItem value="quietest">Quietest</MenuItem>
+          </Select>
+        </FormControl>
+        {/* Mono note priority (one voice or legato) */}
+        <FormControl size="small" sx={{ minWidth: 110 }}>
+          <InputLabel id="note-priority-select-label">Priority</InputLabel>
+          <Select
+            labelId="note-priority-select-label"
+            id="note-priority-select"
+            value={notePriority}
+            label="Priority"
+            onChange={handleNotePriorityChange}
+            disabled={voiceCount > 1 && !legato}
+          >
+            <MenuItem value="last">Last</MenuItem>
+            <MenuItem value="low">Low</MenuItem>
+            <MenuItem value="high">High</MenuItem>
+          </Select>
+        </FormControl>
         {/* <FormControlLabel
             control={
               <Switch
@@ -0,0 +1,102 @@
+import React from "react";
+import {
+  Paper,
+  Box,
+  Typography,
+  FormControl,
+  Select,
+  MenuItem,
+  SelectChangeEvent,
+} from "@mui/material";
+import { ModDial } from "..";
+import { useAudioEngineStore } from "../../stores";
+import { FMMode, getFMParamId, getOscParamId } from "../../types";
+
+interface FMControlsProps {
+  oscillatorIndex: number;
+}
+
+/**
+ * FM/PM controls for one carrier oscillator
+ * Shows the carrier's column of the FM matrix (one index per modulator)
+ * plus its self-modulation feedback
+ */
+export const FMControls: React.FC<FMControlsProps> = ({ oscillatorIndex }) => {
+  const fmMatrix = useAudioEngineStore((state) => state.fmMatrix);
+  const fmMode = useAudioEngineStore((state) => state.fmModes[oscillatorIndex]);
+  const feedback = useAudioEngineStore(
+    (state) => state.fmFeedback[oscillatorIndex]
+  );
+  const engine = useAudioEngineStore(
+    (state) => state.oscillators[oscillatorIndex].engine
+  );
+  const setFMIndex = useAudioEngineStore((state) => state.setFMIndex);
+  const setFMMode = useAudioEngineStore((state) => state.setFMMode);
+  const setFMFeedback = useAudioEngineStore((state) => state.setFMFeedback);
+
+  const modulators = [0, 1, 2, 3].filter((i) => i !== oscillatorIndex);
+
+  const handleModeChange = (event: SelectChangeEvent) => {
+    setFMMode(oscillatorIndex, event.target.value as FMMode);
+  };
+
+  return (
+    <Paper>
+      <Box sx={{ display: "flex", alignItems: "center", gap: 2, padding: 1 }}>
+        <FormControl size="small" sx={{ minWidth: 80 }}>
+          <Select value={fmMode} onChange={handleModeChange}>
+            <MenuItem value="pm">PM</MenuItem>
+            <MenuItem value="fm">FM</MenuItem>
+          </Select>
+        </FormControl>
+        {engine !== "worklet" && (
+          <Typography variant="caption" color="text.secondary">
+            Enable Worklet to modulate this oscillator
+          </Typography>
+        )}
+      </Box>
+      <Box
+        display="flex"
+        flexDirection="row"
+        justifyContent="space-evenly"
+        alignItems="center"
+      >
+        {modulators.map((modIndex) => (
+          <ModDial
+            key={modIndex}
+            value={fmMatrix[modIndex][oscillatorIndex] * 10}
+            min={0}
+            max={100}
+            onChange={(value) =>
+              setFMIndex(modIndex, oscillatorIndex, value / 10)
+            }
+            label={`Osc ${modIndex + 1}`}
+            size={60}
+            ringColor="#e67e22"
+            numberFontSize={16}
+            minMaxFontSize={10}
+            paramId={getFMParamId(modIndex, oscillatorIndex)}
+            paramMin={0}
+            paramMax={10}
+            bipolar={false}
+          />
+        ))}
+        <ModDial
+          value={feedback * 100}
+          min={0}
+          max={100}
+          onChange={(value) => setFMFeedback(oscillatorIndex, value / 100)}
+          label="Feedback"
+          size={60}
+          ringColor="#e67e22"
+          numberFontSize={16}
+          minMaxFontSize={10}
+          paramId={getOscParamId(oscillatorIndex, "feedback")}
+          paramMin={0}
+          paramMax={1}
+          bipolar={false}
+        />
+      </Box>
+    </Paper>
+  );
+};
@@ -3,6 +3,8 @@ import { WaveformVisualizer, HarmonicsControl } from "..";
 import { EquationBuilder } from "./EquationBuilder";
 import { Box, Paper, Tabs, Tab } from "@mui/material";
 import { TunerControls } from "./TunerControls";
+import { FMControls } from "./FMControls";
+import { UnisonControls } from "./UnisonControls";
 import { useSynthControlsStore } from "../../stores";
 
 interface OscControlsProps {
@@ -41,11 +43,13 @@ export const OscControls: React.FC<OscControlsProps> = ({
           overflow: "hidden",
           minHeight: 0,
           display: "grid",
-          gridTemplateRows: "2.5fr 1fr",
+          gridTemplateRows: "2.5fr 1fr auto auto",
         }}
       >
         <WaveformVisualizer oscillatorIndex={oscillatorIndex} />
         <TunerControls oscillatorIndex={oscillatorIndex} />
+        <FMControls oscillatorIndex={oscillatorIndex} />
+        <UnisonControls oscillatorIndex={oscillatorIndex} />
       </Box>
       <Box
         sx={{
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React from "react";
 import {
   Paper,
   Typography,
@@ -6,10 +6,26 @@ import {
   FormControlLabel,
   Stack,
   Switch,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  SelectChangeEvent,
 } from "@mui/material";
 import { Dial, ModDial } from "..";
-import { useSynthControlsStore } from "../../stores";
-import { getOscParamId } from "../../types";
+import { useAudioEngineStore, useSynthControlsStore } from "../../stores";
+import { MAX_GLIDE_TIME } from "../../stores/AudioEngine/helperFunctions";
+import { getOscParamId, GlideCurve, GlideMode } from "../../types";
+
+const GLIDE_CURVE_LABELS: Record<GlideCurve, string> = {
+  linear: "Linear",
+  exponential: "Exponential",
+};
+
+const GLIDE_MODE_LABELS: Record<GlideMode, string> = {
+  always: "Always",
+  legato: "Legato Only",
+};
 
 interface TunerControlsProps {
   oscillatorIndex: number;
@@ -18,12 +34,38 @@ interface TunerControlsProps {
 export const TunerControls: React.FC<TunerControlsProps> = ({
   oscillatorIndex,
 }) => {
-  const [legato, setLegato] = useState(false);
-
   const detune = useSynthControlsStore(
     (state) => state.oscillators[oscillatorIndex].detune
   );
   const updateDetune = useSynthControlsStore((state) => state.updateDetune);
+  const engine = useAudioEngineStore(
+    (state) => state.oscillators[oscillatorIndex].engine
+  );
+  const setOscillatorEngine = useAudioEngineStore(
+    (state) => state.setOscillatorEngine
+  );
+  const syncSource = useAudioEngineStore(
+    (state) => state.syncSources[oscillatorIndex]
+  );
+  const setOscillatorSync = useAudioEngineStore(
+    (state) => state.setOscillatorSync
+  );
+  const legato = useAudioEngineStore((state) => state.legato);
+  const setLegato = useAudioEngineStore((state) => state.setLegato);
+  const glide = useAudioEngineStore((state) => state.glide);
+  const updateGlide = useAudioEngineStore((state) => state.updateGlide);
+  const filterKeyTrack = useAudioEngineStore((state) => state.filterKeyTrack);
+  const setFilterKeyTrack = useAudioEngineStore(
+    (state) => state.setFilterKeyTrack
+  );
+
+  const handleSyncChange = (event: SelectChangeEvent) => {
+    const value = event.target.value;
+    setOscillatorSync(
+      oscillatorIndex,
+      value === "off" ? null : parseInt(value)
+    );
+  };
 
   return (
     <Paper>
@@ -38,7 +80,6 @@ export const TunerControls: React.FC<TunerControlsProps> = ({
                 checked={legato}
                 onChange={(e) => setLegato(e.target.checked)}
                 color="primary"
-                disabled
               />
             }
             label="Legato"
@@ -47,10 +88,9 @@ export const TunerControls: React.FC<TunerControlsProps> = ({
             control={
               <Switch
                 size="small"
-                checked={legato}
-                onChange={(e) => setLegato(e.target.checked)}
+                checked={glide.enabled}
+                onChange={(e) => updateGlide({ enabled: e.target.checked })}
                 color="primary"
-                disabled
               />
             }
             label="Glide"
@@ -59,16 +99,95 @@ export const TunerControls: React.FC<TunerControlsProps> = ({
             control={
               <Switch
                 size="small"
-                checked={legato}
-                onChange={(e) => setLegato(e.target.checked)}
+                checked={filterKeyTrack > 0}
+                onChange={(e) => setFilterKeyTrack(e.target.checked ? 100 : 0)}
                 color="primary"
-                disabled
               />
             }
             label="Key Tracking"
           />
+          <FormControlLabel
+            control={
+              <Switch
+                size="small"
+                checked={engine === "worklet"}
+                onChange={(e) =>
+                  setOscillatorEngine(
+                    oscillatorIndex,
+                    e.target.checked ? "worklet" : "buffer"
+                  )
+                }
+                color="primary"
+              />
+            }
+            label="Worklet"
+          />
+          <FormControl size="small" sx={{ minWidth: 90 }}>
+            <InputLabel id={`sync-select-label-${oscillatorIndex}`}>
+              Sync
+            </InputLabel>
+            <Select
+              labelId={`sync-select-label-${oscillatorIndex}`}
+              value={syncSource === null ? "off" : String(syncSource)}
+              label="Sync"
+              onChange={handleSyncChange}
+              disabled={engine !== "worklet"}
+            >
+              <MenuItem value="off">Off</MenuItem>
+              {[0, 1, 2, 3]
+                .filter((i) => i !== oscillatorIndex)
+                .map((i) => (
+                  <MenuItem key={i} value={String(i)}>
+                    Osc {i + 1}
+                  </MenuItem>
+                ))}
+            </Select>
+          </FormControl>
         </Stack>
 
+        {glide.enabled && (
+          <Stack direction="row" spacing={2}>
+            <FormControl size="small" sx={{ minWidth: 130 }}>
+              <InputLabel id={`glide-curve-label-${oscillatorIndex}`}>
+                Glide Curve
+              </InputLabel>
+              <Select
+                labelId={`glide-curve-label-${oscillatorIndex}`}
+                value={glide.curve}
+                label="Glide Curve"
+                onChange={(e) =>
+                  updateGlide({ curve: e.target.value as GlideCurve })
+                }
+              >
+                {Object.entries(GLIDE_CURVE_LABELS).map(([value, label]) => (
+                  <MenuItem key={value} value={value}>
+                    {label}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl size="small" sx={{ minWidth: 130 }}>
+              <InputLabel id={`glide-mode-label-${oscillatorIndex}`}>
+                Glide Mode
+              </InputLabel>
+              <Select
+                labelId={`glide-mode-label-${oscillatorIndex}`}
+                value={glide.mode}
+                label="Glide Mode"
+                onChange={(e) =>
+                  updateGlide({ mode: e.target.value as GlideMode })
+                }
+              >
+                {Object.entries(GLIDE_MODE_LABELS).map(([value, label]) => (
+                  <MenuItem key={value} value={value}>
+                    {label}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Stack>
+        )}
+
         <Box
           display="flex"
           flexDirection="row"
@@ -124,6 +243,20 @@ export const TunerControls: React.FC<TunerControlsProps> = ({
             paramMax={100}
             bipolar={true}
           />
+          {/* Glide is shared by all oscillators */}
+          <Dial
+            value={glide.time}
+            min={0}
+            max={MAX_GLIDE_TIME}
+            step={10}
+            onChange={(value) => updateGlide({ time: value })}
+            label="Glide ms"
+            size={75}
+            ringColor="#f1c40f"
+            numberFontSize={18}
+            minMaxFontSize={10}
+            disabled={!glide.enabled}
+          />
         </Box>
       </Box>
     </Paper>
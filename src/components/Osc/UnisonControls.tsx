@@ -0,0 +1,105 @@
+import React from "react";
+import {
+  Paper,
+  Box,
+  Typography,
+  FormControlLabel,
+  Switch,
+} from "@mui/material";
+import { ModDial } from "..";
+import { useAudioEngineStore } from "../../stores";
+import { MAX_UNISON_VOICES } from "../../stores/AudioEngine/helperFunctions";
+import { getOscParamId } from "../../types";
+
+interface UnisonControlsProps {
+  oscillatorIndex: number;
+}
+
+/**
+ * Unison controls for one oscillator
+ * Stacks copies of the waveform spread in pitch and across the stereo field
+ */
+export const UnisonControls: React.FC<UnisonControlsProps> = ({
+  oscillatorIndex,
+}) => {
+  const unison = useAudioEngineStore((state) => state.unison[oscillatorIndex]);
+  const updateUnison = useAudioEngineStore((state) => state.updateUnison);
+
+  return (
+    <Paper>
+      <Box sx={{ display: "flex", alignItems: "center", gap: 2, padding: 1 }}>
+        <Typography variant="subtitle2">Unison</Typography>
+        <FormControlLabel
+          control={
+            <Switch
+              size="small"
+              checked={unison.randomPhase}
+              onChange={(e) =>
+                updateUnison(oscillatorIndex, { randomPhase: e.target.checked })
+              }
+              color="primary"
+            />
+          }
+          label="Random Phase"
+        />
+      </Box>
+      <Box
+        display="flex"
+        flexDirection="row"
+        justifyContent="space-evenly"
+        alignItems="center"
+      >
+        <ModDial
+          value={unison.voices}
+          min={1}
+          max={MAX_UNISON_VOICES}
+          step={1}
+          onChange={(value) =>
+            updateUnison(oscillatorIndex, { voices: Math.round(value) })
+          }
+          label="Voices"
+          size={60}
+          ringColor="#9b59b6"
+          numberFontSize={16}
+          minMaxFontSize={10}
+          paramId={getOscParamId(oscillatorIndex, "unison_voices")}
+          paramMin={1}
+          paramMax={MAX_UNISON_VOICES}
+          bipolar={false}
+        />
+        <ModDial
+          value={unison.detune}
+          min={0}
+          max={100}
+          onChange={(value) => updateUnison(oscillatorIndex, { detune: value })}
+          label="Detune"
+          size={60}
+          ringColor="#9b59b6"
+          numberFontSize={16}
+          minMaxFontSize={10}
+          paramId={getOscParamId(oscillatorIndex, "unison_detune")}
+          paramMin={0}
+          paramMax={100}
+          bipolar={false}
+        />
+        <ModDial
+          value={unison.width * 100}
+          min={0}
+          max={100}
+          onChange={(value) =>
+            updateUnison(oscillatorIndex, { width: value / 100 })
+          }
+          label="Width"
+          size={60}
+          ringColor="#9b59b6"
+          numberFontSize={16}
+          minMaxFontSize={10}
+          paramId={getOscParamId(oscillatorIndex, "unison_width")}
+          paramMin={0}
+          paramMax={1}
+          bipolar={false}
+        />
+      </Box>
+    </Paper>
+  );
+};
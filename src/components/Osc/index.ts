@@ -1,5 +1,7 @@
 export { EquationBuilder } from "./EquationBuilder";
 export { HarmonicsControl } from "./HarmonicsControl";
 export { TunerControls } from "./TunerControls";
+export { FMControls } from "./FMControls";
+export { UnisonControls } from "./UnisonControls";
 export { WaveformVisualizer } from "./WaveformVisualizer";
 export { OscControls } from "./OscControls";
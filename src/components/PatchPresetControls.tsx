@@ -7,13 +7,21 @@ import {
   InputLabel,
   Box,
   ListSubheader,
+  SelectChangeEvent,
 } from "@mui/material";
+import { applyPatchPreset, getPatchPreset } from "../stores";
 
 export const PatchPresetControls: React.FC = () => {
   const [selectedPreset, setSelectedPreset] = useState<string>("");
 
-  const handleChange = (event: any) => {
-    setSelectedPreset(event.target.value);
+  const handleChange = (event: SelectChangeEvent) => {
+    const presetId = event.target.value;
+    setSelectedPreset(presetId);
+
+    const preset = getPatchPreset(presetId);
+    if (preset) {
+      applyPatchPreset(preset);
+    }
   };
 
   return (
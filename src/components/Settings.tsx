@@ -84,8 +84,8 @@ export const Settings: React.FC = () => {
           </FormControl>
 
           <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
-            Oversampling reduces aliasing and improves audio quality at the cost
-            of increased CPU usage. Changes take effect after restarting audio.
+            Oversampling reduces aliasing from the drive stage at the cost of
+            increased CPU usage. Changes apply immediately.
           </Typography>
         </Box>
       </Box>
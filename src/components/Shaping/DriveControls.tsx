@@ -0,0 +1,105 @@
+import React from "react";
+import { Paper, Typography, Box, Tooltip } from "@mui/material";
+import { ModDial } from "../";
+import { useAudioEngineStore } from "../../stores";
+import { DRIVE_CURVE_TYPES } from "../../stores/AudioEngine/helperFunctions";
+import { PARAM_IDS } from "../../types";
+
+const CURVE_LABELS = {
+  soft: "Soft",
+  hard: "Hard",
+  fold: "Fold",
+};
+
+/**
+ * Drive (saturation) stage between the voice mixer and the filter
+ * Oversampling follows the Oversample setting
+ */
+export const DriveControls: React.FC = () => {
+  const drive = useAudioEngineStore((state) => state.drive);
+  const driveCurve = useAudioEngineStore((state) => state.driveCurve);
+  const updateDrive = useAudioEngineStore((state) => state.updateDrive);
+  const setDriveCurve = useAudioEngineStore((state) => state.setDriveCurve);
+
+  const handleCurveChange = (value: number) => {
+    const curve = DRIVE_CURVE_TYPES[Math.round(value)];
+    if (curve && curve !== driveCurve) {
+      setDriveCurve(curve);
+    }
+  };
+
+  return (
+    <Paper
+      sx={{
+        display: "grid",
+        gridTemplateRows: "auto 1fr",
+        gap: 1,
+        p: 1,
+        overflow: "hidden",
+      }}
+    >
+      <Tooltip
+        title="Saturates the mixed oscillators before the filter. Drive adds up to +24dB into the curve; the Oversample setting reduces aliasing from the added harmonics."
+        arrow
+        placement="top"
+      >
+        <Typography
+          variant="h6"
+          align="center"
+          sx={{
+            cursor: "help",
+            textDecoration: "underline dotted",
+            textUnderlineOffset: "4px",
+          }}
+        >
+          Drive
+        </Typography>
+      </Tooltip>
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "center",
+          alignItems: "center",
+          gap: 3,
+        }}
+      >
+        <ModDial
+          value={drive * 100}
+          min={0}
+          max={100}
+          onChange={(value) => updateDrive(value / 100)}
+          label="Drive"
+          size={75}
+          ringColor="#e74c3c"
+          numberFontSize={18}
+          minMaxFontSize={10}
+          paramId={PARAM_IDS.DRIVE_AMOUNT}
+          paramMin={0}
+          paramMax={1}
+          bipolar={false}
+        />
+        <ModDial
+          value={DRIVE_CURVE_TYPES.indexOf(driveCurve)}
+          min={0}
+          max={DRIVE_CURVE_TYPES.length - 1}
+          step={1}
+          onChange={handleCurveChange}
+          label={`${CURVE_LABELS[driveCurve]} Curve`}
+          size={75}
+          ringColor="#e74c3c"
+          numberFontSize={18}
+          minMaxFontSize={10}
+          minLabel={CURVE_LABELS[DRIVE_CURVE_TYPES[0]]}
+          maxLabel={
+            CURVE_LABELS[DRIVE_CURVE_TYPES[DRIVE_CURVE_TYPES.length - 1]]
+          }
+          hideCenterNumber={true}
+          paramId={PARAM_IDS.DRIVE_CURVE}
+          paramMin={0}
+          paramMax={DRIVE_CURVE_TYPES.length - 1}
+          bipolar={false}
+        />
+      </Box>
+    </Paper>
+  );
+};
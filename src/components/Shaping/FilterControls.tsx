@@ -1,8 +1,78 @@
-import React from "react";
-import { Paper, Typography, Box, Tooltip, Stack } from "@mui/material";
+import React, { useState } from "react";
+import {
+  Paper,
+  Typography,
+  Box,
+  Tooltip,
+  Stack,
+  FormControl,
+  Select,
+  MenuItem,
+  SelectChangeEvent,
+  ToggleButtonGroup,
+  ToggleButton,
+} from "@mui/material";
 import { Dial, ModDial } from "../";
 import { useAudioEngineStore } from "../../stores";
-import { PARAM_IDS } from "../../types";
+import {
+  FILTER_SLOPES,
+  FILTER_TYPES,
+} from "../../stores/AudioEngine/helperFunctions";
+import {
+  FilterBlock,
+  FilterRouting,
+  FilterSlope,
+  FilterType,
+  PARAM_IDS,
+} from "../../types";
+
+const ROUTING_LABELS: Record<FilterRouting, string> = {
+  serial: "Serial (A → B)",
+  parallel: "Parallel (A + B)",
+  split: "Split",
+};
+
+const FILTER_MODE_INFO: Record<
+  FilterType,
+  { label: string; title: string; description: string }
+> = {
+  lowpass: {
+    label: "Low-Pass",
+    title: "Low-Pass Filter",
+    description:
+      "A low-pass filter built by cascading 2-pole filters, one per 12dB/octave of slope. Adjust the cutoff to remove high frequencies, and increase resonance for a more pronounced filter effect.",
+  },
+  highpass: {
+    label: "High-Pass",
+    title: "High-Pass Filter",
+    description:
+      "Cascaded 2-pole high-pass filters, one per 12dB/octave of slope. Frequencies below the cutoff are removed; resonance emphasizes the cutoff.",
+  },
+  bandpass: {
+    label: "Band-Pass",
+    title: "Band-Pass Filter",
+    description:
+      "Passes a band around the cutoff and removes everything else. Resonance narrows the band.",
+  },
+  notch: {
+    label: "Notch",
+    title: "Notch Filter",
+    description:
+      "Removes a band around the cutoff and passes everything else. Resonance narrows the notch.",
+  },
+  peak: {
+    label: "Peak",
+    title: "Peak (+12dB) Filter",
+    description:
+      "Boosts a band around the cutoff by 12dB while leaving the rest of the spectrum untouched. Resonance narrows the boost.",
+  },
+  comb: {
+    label: "Comb",
+    title: "Feedback Comb Filter",
+    description:
+      "A feedback delay tuned to one period of the cutoff, which adds resonant peaks at every harmonic of the cutoff frequency. Resonance sets the feedback.",
+  },
+};
 
 interface FilterControlsProps {
   cutoffFrequency: number;
@@ -23,32 +93,96 @@ export const FilterControls: React.FC<FilterControlsProps> = ({
   const updateFilterEnvelopeAmount = useAudioEngineStore(
     (state) => state.updateFilterEnvelopeAmount
   );
+  const filterKeyTrack = useAudioEngineStore((state) => state.filterKeyTrack);
+  const setFilterKeyTrack = useAudioEngineStore(
+    (state) => state.setFilterKeyTrack
+  );
+  const filterType = useAudioEngineStore((state) => state.filterType);
+  const setFilterType = useAudioEngineStore((state) => state.setFilterType);
+  const filterSlope = useAudioEngineStore((state) => state.filterSlope);
+  const setFilterSlope = useAudioEngineStore((state) => state.setFilterSlope);
+  const filterB = useAudioEngineStore((state) => state.filterB);
+  const updateFilterB = useAudioEngineStore((state) => state.updateFilterB);
+  const setFilterBType = useAudioEngineStore((state) => state.setFilterBType);
+  const setFilterBSlope = useAudioEngineStore((state) => state.setFilterBSlope);
+  const updateFilterBEnvelopeAmount = useAudioEngineStore(
+    (state) => state.updateFilterBEnvelopeAmount
+  );
+  const filterRouting = useAudioEngineStore((state) => state.filterRouting);
+  const setFilterRouting = useAudioEngineStore(
+    (state) => state.setFilterRouting
+  );
+
+  // Which filter block the controls below edit
+  const [editing, setEditing] = useState<FilterBlock>("a");
+  const isB = editing === "b";
+
+  const activeType = isB ? filterB.filterType : filterType;
+  const activeSlope = isB ? filterB.filterSlope : filterSlope;
+  const activeCutoff = isB ? filterB.cutoffFrequency : cutoffFrequency;
+  const activeResonance = isB ? filterB.resonance : resonance;
+  const activeEnvelopeAmount = isB
+    ? filterB.envelopeAmount
+    : filterEnvelopeAmount;
+
+  const modeInfo = FILTER_MODE_INFO[activeType];
+  // Only the low-pass and high-pass modes have a selectable slope
+  const hasSlope = activeType === "lowpass" || activeType === "highpass";
+
+  const handleEditingChange = (
+    _: React.MouseEvent<HTMLElement>,
+    value: FilterBlock | null
+  ) => {
+    if (value) setEditing(value);
+  };
+
+  const handleRoutingChange = (event: SelectChangeEvent) => {
+    setFilterRouting(event.target.value as FilterRouting);
+  };
+
+  const handleFilterTypeChange = (event: SelectChangeEvent) => {
+    const type = event.target.value as FilterType;
+    if (isB) setFilterBType(type);
+    else setFilterType(type);
+  };
+
+  const handleFilterSlopeChange = (event: SelectChangeEvent) => {
+    const slope = Number(event.target.value) as FilterSlope;
+    if (isB) setFilterBSlope(slope);
+    else setFilterSlope(slope);
+  };
 
   const handleCutoffChange = (value: number) => {
     // Convert linear dial value (0-100) to logarithmic frequency (20-20000 Hz)
     const normalizedValue = value / 100;
-    const frequency = 20 * Math.pow(1000, normalizedValue);
-    onCutoffChange(new Event("change"), Math.round(frequency));
+    const frequency = Math.round(20 * Math.pow(1000, normalizedValue));
+    if (isB) updateFilterB(frequency, filterB.resonance);
+    else onCutoffChange(new Event("change"), frequency);
   };
 
   const handleResonanceChange = (value: number) => {
     // Convert dial value (0-100) to resonance (0-20)
     const resonanceValue = (value / 100) * 20;
-    onResonanceChange(new Event("change"), resonanceValue);
+    if (isB) updateFilterB(filterB.cutoffFrequency, resonanceValue);
+    else onResonanceChange(new Event("change"), resonanceValue);
+  };
+
+  const handleEnvelopeAmountChange = (value: number) => {
+    if (isB) updateFilterBEnvelopeAmount(value);
+    else updateFilterEnvelopeAmount(value);
   };
 
   // Convert frequency back to dial value (0-100)
-  const cutoffDialValue =
-    (Math.log(cutoffFrequency / 20) / Math.log(1000)) * 100;
+  const cutoffDialValue = (Math.log(activeCutoff / 20) / Math.log(1000)) * 100;
 
   // Convert resonance to dial value (0-100)
-  const resonanceDialValue = (resonance / 20) * 100;
+  const resonanceDialValue = (activeResonance / 20) * 100;
 
   return (
     <Paper
       sx={{
         display: "grid",
-        gridTemplateRows: "auto auto 1fr",
+        gridTemplateRows: "auto auto auto 1fr",
         gap: 1,
         p: 1,
         overflow: "hidden",
@@ -64,31 +198,95 @@ export const FilterControls: React.FC<FilterControlsProps> = ({
       >
         Filters
       </Typography>
-      <Tooltip
-        title="This is a 4-pole (24dB/octave) low-pass filter achieved by cascading four 2-pole filters. Adjust the cutoff to remove high frequencies, and increase resonance for a more pronounced filter effect."
-        arrow
-        placement="top"
+      <Box
+        sx={{
+          gridRow: 2,
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          gap: 2,
+        }}
       >
-        <Typography
-          variant="h6"
-          sx={{
-            gridRow: 2,
-            alignItems: `center`,
-            justifyContent: `center`,
-            display: `flex`,
-            cursor: "help",
-            textDecoration: "underline dotted",
-            textUnderlineOffset: "4px",
-          }}
+        <ToggleButtonGroup
+          value={editing}
+          exclusive
+          onChange={handleEditingChange}
+          aria-label="Filter being edited"
+          size="small"
         >
-          4-Pole (24dB/oct) Low-Pass Filter
-        </Typography>
-      </Tooltip>
-
+          <ToggleButton value="a" aria-label="filter A">
+            Filter A
+          </ToggleButton>
+          <ToggleButton value="b" aria-label="filter B">
+            Filter B
+          </ToggleButton>
+        </ToggleButtonGroup>
+        <Tooltip
+          title="Serial runs filter A into filter B. Parallel feeds both filters the same oscillators. Split sends each oscillator to the filter chosen in the Mixer."
+          arrow
+          placement="top"
+        >
+          <FormControl size="small" sx={{ minWidth: 160 }}>
+            <Select value={filterRouting} onChange={handleRoutingChange}>
+              {(Object.keys(ROUTING_LABELS) as FilterRouting[]).map(
+                (routing) => (
+                  <MenuItem key={routing} value={routing}>
+                    {ROUTING_LABELS[routing]}
+                  </MenuItem>
+                )
+              )}
+            </Select>
+          </FormControl>
+        </Tooltip>
+      </Box>
       <Box
         sx={{
           gridRow: 3,
           display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          gap: 2,
+        }}
+      >
+        <FormControl size="small" sx={{ minWidth: 120 }}>
+          <Select value={activeType} onChange={handleFilterTypeChange}>
+            {FILTER_TYPES.map((type) => (
+              <MenuItem key={type} value={type}>
+                {FILTER_MODE_INFO[type].label}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ minWidth: 100 }} disabled={!hasSlope}>
+          <Select
+            value={String(activeSlope)}
+            onChange={handleFilterSlopeChange}
+          >
+            {FILTER_SLOPES.map((slope) => (
+              <MenuItem key={slope} value={String(slope)}>
+                {slope}dB/oct
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <Tooltip title={modeInfo.description} arrow placement="top">
+          <Typography
+            variant="h6"
+            sx={{
+              cursor: "help",
+              textDecoration: "underline dotted",
+              textUnderlineOffset: "4px",
+            }}
+          >
+            {modeInfo.title}
+          </Typography>
+        </Tooltip>
+      </Box>
+
+      <Box
+        sx={{
+          gridRow: 4,
+          display: "flex",
           justifyContent: "center",
           alignItems: "center",
           gap: 3,
@@ -105,7 +303,7 @@ export const FilterControls: React.FC<FilterControlsProps> = ({
             ringColor="#3498db"
             numberFontSize={18}
             minMaxFontSize={10}
-            paramId={PARAM_IDS.FILTER_CUTOFF}
+            paramId={isB ? PARAM_IDS.FILTER_B_CUTOFF : PARAM_IDS.FILTER_CUTOFF}
             paramMin={20}
             paramMax={20000}
             bipolar={false}
@@ -120,22 +318,40 @@ export const FilterControls: React.FC<FilterControlsProps> = ({
             ringColor="#9b59b6"
             numberFontSize={18}
             minMaxFontSize={10}
-            paramId={PARAM_IDS.FILTER_RESONANCE}
+            paramId={
+              isB ? PARAM_IDS.FILTER_B_RESONANCE : PARAM_IDS.FILTER_RESONANCE
+            }
             paramMin={0}
             paramMax={30}
             bipolar={false}
           />
           <Dial
-            value={filterEnvelopeAmount}
+            value={activeEnvelopeAmount}
             min={0}
             max={100}
-            onChange={updateFilterEnvelopeAmount}
+            onChange={handleEnvelopeAmountChange}
             label="Envelope Amt"
             size={75}
             ringColor="#e67e22"
             numberFontSize={18}
             minMaxFontSize={10}
           />
+          {/* Shared by both filter blocks */}
+          <ModDial
+            value={filterKeyTrack}
+            min={0}
+            max={100}
+            onChange={setFilterKeyTrack}
+            label="Key Track"
+            size={75}
+            ringColor="#1abc9c"
+            numberFontSize={18}
+            minMaxFontSize={10}
+            paramId={PARAM_IDS.FILTER_KEYTRACK}
+            paramMin={0}
+            paramMax={100}
+            bipolar={false}
+          />
         </Stack>
       </Box>
     </Paper>
@@ -1,6 +1,6 @@
 import { Paper, Box } from "@mui/material";
 import { useAudioEngineStore } from "../../stores";
-import { FilterControls, LFOControls, ADSR } from "..";
+import { FilterControls, DriveControls, LFOControls, ADSR } from "..";
 import { useSynthControlsStore } from "../../stores/useSynthControlsStore";
 
 export const SubtractiveControls = () => {
@@ -39,13 +39,23 @@ export const SubtractiveControls = () => {
         overflow: "hidden",
       }}
     >
-      <Box sx={{ gridRow: 1, minHeight: 0, overflow: "hidden" }}>
+      <Box
+        sx={{
+          display: "grid",
+          gridRow: 1,
+          gridTemplateRows: "1fr auto",
+          gap: 1,
+          minHeight: 0,
+          overflow: "hidden",
+        }}
+      >
         <FilterControls
           cutoffFrequency={cutoffFrequency}
           resonance={resonance}
           onCutoffChange={handleCutoffChange}
           onResonanceChange={handleResonanceChange}
         />
+        <DriveControls />
       </Box>
       <Box
         sx={{
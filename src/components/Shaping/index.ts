@@ -1,4 +1,5 @@
 export * from "./ADSR";
+export * from "./DriveControls";
 export * from "./FilterControls";
 export * from "./LFOControls";
 export * from "./SubtractiveControls";
@@ -3,24 +3,75 @@ import { devtools } from "zustand/middleware";
 import { useEquationBuilderStore } from "../useEquationBuilderStore";
 import { useSynthControlsStore } from "../useSynthControlsStore";
 import { useModulationStore } from "../useModulationStore";
+import { useSettingsStore } from "../useSettingsStore";
+import {
+  createSlotEffect,
+  selectModulatedSlot,
+  useEffectsRackStore,
+} from "../useEffectsRackStore";
 import {
   AudioEngineState,
   ADSRTimes,
+  DriveCurveType,
+  DynamicsSettings,
   EnvelopeOperation,
+  EQBand,
+  FilterBlock,
+  FilterRouting,
+  FilterSlope,
+  FilterType,
+  FMMode,
+  GlideRamp,
+  GlideSettings,
+  ModEffectType,
+  NoiseSettings,
+  SubOscSettings,
+  UnisonSettings,
+  RingModMode,
   LFOWaveform,
   ModulationSource,
+  NotePriority,
+  OscillatorEngine,
+  OscillatorFilterAssignment,
+  VoiceStealMode,
 } from "../../types";
-import { AudioNodeManager } from "./audioNodeManager";
+import { AudioNodeManager, hasOscillatorSource } from "./audioNodeManager";
 import {
   convertADSRToTimes,
   createAmpEnvelopeOps,
   createFilterEnvelopeOps,
   applyEnvelopeOps,
+  getPendingEnvelopeOps,
+  calculateDelayTime,
+  calculateFMDepth,
+  calculateKeyTrackedCutoff,
+  DEFAULT_DYNAMICS_SETTINGS,
+  DEFAULT_EQ_BANDS,
+  DEFAULT_GLIDE_SETTINGS,
+  DEFAULT_NOISE_SETTINGS,
+  DEFAULT_RING_MODS,
+  DEFAULT_SUB_OSC_SETTINGS,
+  DEFAULT_TEMPO,
+  DEFAULT_UNISON_SETTINGS,
+  DRIVE_CURVE_TYPES,
 } from "./helperFunctions";
+import {
+  DEFAULT_VOICE_COUNT,
+  allocateVoice,
+  createIdleVoice,
+  findHeldVoice,
+  getNewestVoiceIndex,
+  resizeVoiceStates,
+  selectPriorityNote,
+} from "./voiceAllocator";
 import { registerAllParameters } from "./parameterRegistry";
+import { calculateDetunedFrequency } from "../../utils/helperFunctions";
 
 // Export singleton instance for external use
-export const audioNodes = new AudioNodeManager();
+export const audioNodes = new AudioNodeManager(DEFAULT_VOICE_COUNT);
+
+// Fade applied to a stolen voice before its new attack starts (seconds)
+const VOICE_STEAL_FADE_TIME = 0.005;
 
 // Master modulation loop control
 let masterModulationLoopId: number | null = null;
@@ -33,6 +84,323 @@ const OSC_SOURCES = [
   ModulationSource.OSC4,
 ];
 
+/**
+ * Apply an oscillator's detune settings to a note frequency
+ */
+const getDetunedFrequency = (baseFrequency: number, oscIndex: number) => {
+  const { detune } = useSynthControlsStore.getState().oscillators[oscIndex];
+  return calculateDetunedFrequency(
+    baseFrequency,
+    detune.octave,
+    detune.semitone,
+    detune.cent
+  );
+};
+
+/**
+ * Base cutoff and envelope depth (0-100) of each filter block, with the
+ * parameter whose modulation takes over from the filter envelope
+ */
+const getFilterEnvelopeTargets = (state: AudioEngineState) => [
+  {
+    block: "a" as FilterBlock,
+    paramId: "filter_cutoff",
+    cutoff: state.cutoffFrequency,
+    envelopeAmount: state.filterEnvelopeAmount,
+  },
+  {
+    block: "b" as FilterBlock,
+    paramId: "filter_b_cutoff",
+    cutoff: state.filterB.cutoffFrequency,
+    envelopeAmount: state.filterB.envelopeAmount,
+  },
+];
+
+/**
+ * Key tracking amount in use (0-100)
+ * While the parameter is modulated the modulation loop keeps the live value
+ * on the node manager; otherwise it comes from state.
+ */
+export const getFilterKeyTrack = (state: AudioEngineState): number =>
+  useModulationStore.getState().routes["filter_keytrack"]?.length > 0
+    ? audioNodes.filterKeyTrack
+    : state.filterKeyTrack;
+
+/**
+ * Move one filter block of every voice to its key-tracked cutoff
+ * With a time the cutoff ramps; without one values are set directly so
+ * modulation doesn't cancel envelope automation.
+ */
+export const applyFilterCutoff = (
+  block: FilterBlock,
+  cutoff: number,
+  time?: number
+) => {
+  const state = useAudioEngineStore.getState();
+  const keyTrack = getFilterKeyTrack(state);
+
+  audioNodes.voices.forEach((_, voiceIndex) => {
+    const voiceState = state.voices[voiceIndex];
+    // Voices that never played a note sit at the reference key
+    const voiceCutoff =
+      voiceState && voiceState.key !== null
+        ? calculateKeyTrackedCutoff(cutoff, voiceState.frequency, keyTrack)
+        : Math.max(20, cutoff); // Clamp to min 20Hz for exponential ramp
+
+    audioNodes.getFilterFrequencyParams(voiceIndex, block).forEach((param) => {
+      if (time === undefined) {
+        param.value = voiceCutoff;
+      } else {
+        param.exponentialRampToValueAtTime(voiceCutoff, time + 0.01);
+      }
+    });
+  });
+};
+
+/**
+ * Whether notes share a single voice through the note stack
+ * Legato implies mono: overlapping notes have to land on the same voice.
+ */
+const isMonoMode = (state: AudioEngineState) =>
+  state.voiceCount === 1 || state.legato;
+
+/**
+ * Frequency a new note glides from, or null when it shouldn't glide
+ * Glides start from the most recently played note (the mono voice's pitch in
+ * mono mode); in legato mode only while a key is still held.
+ */
+const getGlideStartFrequency = (state: AudioEngineState): number | null => {
+  const { glide, voices } = state;
+  if (!glide.enabled || glide.time <= 0) return null;
+
+  const previous = isMonoMode(state)
+    ? voices[0]
+    : voices[getNewestVoiceIndex(voices)];
+  if (!previous || previous.key === null) return null;
+  if (glide.mode === "legato" && !voices.some((voice) => voice.isHeld)) {
+    return null;
+  }
+  return previous.frequency;
+};
+
+/**
+ * Tune a voice's active oscillators to a note with detune applied, gliding
+ * from the previous note with the same detune so intervals between
+ * oscillators hold during the glide
+ */
+const tuneVoice = (
+  state: AudioEngineState,
+  voiceIndex: number,
+  frequency: number,
+  time: number
+) => {
+  const glideFrom = getGlideStartFrequency(state);
+  const getGlide = (oscIndex: number): GlideRamp | undefined =>
+    glideFrom === null
+      ? undefined
+      : {
+          fromFrequency: getDetunedFrequency(glideFrom, oscIndex),
+          duration: state.glide.time / 1000,
+          curve: state.glide.curve,
+        };
+
+  for (let i = 0; i < state.oscillators.length; i++) {
+    if (state.oscillators[i].isActive) {
+      applyOscillatorFrequency(
+        voiceIndex,
+        i,
+        getDetunedFrequency(frequency, i),
+        time,
+        getGlide(i)
+      );
+    }
+  }
+
+  // The sub-oscillator follows oscillator 1 (even while it is switched off)
+  audioNodes.setSubOscFrequency(
+    voiceIndex,
+    getDetunedFrequency(frequency, 0),
+    time,
+    getGlide(0)
+  );
+};
+
+/**
+ * Move a legato voice's filters to the key-tracked cutoffs of its new note
+ * without restarting the filter envelope: the level it has reached moves by
+ * the change in key tracking, then the rest of the envelope carries on from
+ * the new note's cutoff. Filters whose cutoff is modulated are left alone.
+ */
+const retrackFilterEnvelopes = (
+  state: AudioEngineState,
+  voiceIndex: number,
+  frequency: number,
+  time: number
+) => {
+  const { frequency: previousFrequency, startTime } = state.voices[voiceIndex];
+  const filterTimes = convertADSRToTimes(
+    useSynthControlsStore.getState().filterADSR
+  );
+  const modStore = useModulationStore.getState();
+  const keyTrack = getFilterKeyTrack(state);
+
+  getFilterEnvelopeTargets(state).forEach((target) => {
+    const params = audioNodes.getFilterFrequencyParams(
+      voiceIndex,
+      target.block
+    );
+    if (params.length === 0 || modStore.routes[target.paramId]?.length) return;
+
+    const ratio =
+      calculateKeyTrackedCutoff(target.cutoff, frequency, keyTrack) /
+      calculateKeyTrackedCutoff(target.cutoff, previousFrequency, keyTrack);
+    const pendingOps = getPendingEnvelopeOps(
+      createFilterEnvelopeOps(
+        filterTimes,
+        startTime,
+        target.cutoff,
+        target.envelopeAmount / 100,
+        true,
+        frequency,
+        keyTrack
+      ),
+      time + 0.01
+    );
+
+    params.forEach((param) => {
+      const current = param.value;
+      param.cancelScheduledValues(time);
+      param.setValueAtTime(current, time);
+      param.exponentialRampToValueAtTime(
+        Math.max(20, Math.min(20000, current * ratio)),
+        time + 0.01
+      );
+      applyEnvelopeOps(param, pendingOps);
+    });
+  });
+};
+
+/**
+ * Rebuild every voice's sub-oscillator source after its waveform, octave or
+ * oscillator 1's table changed
+ */
+const applySubOscSource = (state: AudioEngineState) => {
+  const osc1Table =
+    useSynthControlsStore.getState().oscillators[0]?.waveformData ?? null;
+
+  audioNodes.voices.forEach((_, voiceIndex) => {
+    audioNodes.setSubOscSource(
+      voiceIndex,
+      state.subOsc.waveform,
+      osc1Table,
+      state.subOsc.octave,
+      getVoiceOscillatorFrequency(state, voiceIndex, 0)
+    );
+  });
+};
+
+/**
+ * Get the current frequency of one oscillator of a voice
+ * Voices that already played a note keep their pitch; unused voices follow
+ * the oscillator state
+ */
+const getVoiceOscillatorFrequency = (
+  state: AudioEngineState,
+  voiceIndex: number,
+  oscIndex: number
+) => {
+  const voiceState = state.voices[voiceIndex];
+  return voiceState && voiceState.key !== null
+    ? getDetunedFrequency(voiceState.frequency, oscIndex)
+    : state.oscillators[oscIndex].frequency;
+};
+
+/**
+ * Apply unison settings to one oscillator of every voice
+ * Settings that aren't given keep the value each voice was last built with,
+ * so modulated unison parameters don't reset each other.
+ */
+export const applyOscillatorUnison = (
+  oscIndex: number,
+  settings: Partial<UnisonSettings>
+) => {
+  const state = useAudioEngineStore.getState();
+
+  audioNodes.voices.forEach((voice, voiceIndex) => {
+    const nodeSet = voice.oscillators[oscIndex];
+    if (!nodeSet || !hasOscillatorSource(nodeSet)) return;
+
+    audioNodes.applyUnison(
+      voiceIndex,
+      oscIndex,
+      { ...nodeSet.unison, ...settings },
+      getVoiceOscillatorFrequency(state, voiceIndex, oscIndex)
+    );
+  });
+};
+
+/**
+ * Create, update or remove one FM matrix connection of a voice
+ */
+const applyFMConnection = (
+  state: AudioEngineState,
+  voiceIndex: number,
+  modIndex: number,
+  carrierIndex: number,
+  index: number,
+  time: number
+) => {
+  const voice = audioNodes.voices[voiceIndex];
+  if (!voice || modIndex === carrierIndex) return;
+
+  if (index <= 0) {
+    audioNodes.disconnectFM(voiceIndex, modIndex, carrierIndex);
+    return;
+  }
+
+  const mode = state.fmModes[carrierIndex];
+  const depth = calculateFMDepth(
+    index,
+    mode,
+    getVoiceOscillatorFrequency(state, voiceIndex, modIndex)
+  );
+
+  const connection = voice.fmNodes[modIndex][carrierIndex];
+  if (connection && connection.mode === mode) {
+    audioNodes.setFMDepth(voiceIndex, modIndex, carrierIndex, depth, time);
+  } else {
+    audioNodes.connectFM(voiceIndex, modIndex, carrierIndex, depth, mode);
+  }
+};
+
+/**
+ * Retune one oscillator of one voice by adjusting its playback rate
+ */
+const applyOscillatorFrequency = (
+  voiceIndex: number,
+  oscIndex: number,
+  freq: number,
+  time: number,
+  glide?: GlideRamp
+) => {
+  const nodeSet = audioNodes.voices[voiceIndex]?.oscillators[oscIndex];
+  if (!nodeSet || !hasOscillatorSource(nodeSet)) return;
+
+  const oscParams = useSynthControlsStore.getState().oscillators[oscIndex];
+  if (!oscParams || !oscParams.waveformData) return;
+
+  audioNodes.setOscillatorFrequency(
+    nodeSet,
+    freq,
+    oscParams.waveformData.length,
+    time,
+    glide
+  );
+
+  // Buffer sources switch to the band-limited table for the new octave
+  audioNodes.updateMipmapLevel(voiceIndex, oscIndex, freq);
+};
+
 /**
  * Master Modulation Update Loop
  * Consolidated requestAnimationFrame loop that:
@@ -78,12 +446,24 @@ const masterModulationLoop = () => {
     modStore.updateSourceValue(ModulationSource.MOD_ENV, normalizedEnvValue);
   }
 
+  // Read the noise source
+  if (activeSources.has(ModulationSource.NOISE)) {
+    const noiseValue = audioNodes.readNoiseValue(
+      useAudioEngineStore.getState().noise.color
+    );
+    modStore.updateSourceValue(ModulationSource.NOISE, noiseValue);
+  }
+
   // Read oscillator values (LAZY - only if actively routed)
+  // The most recently played voice stands in for the whole synth
+  const sourceVoiceIndex = getNewestVoiceIndex(
+    useAudioEngineStore.getState().voices
+  );
   for (let i = 0; i < 4; i++) {
     const oscSource = OSC_SOURCES[i];
 
     if (activeSources.has(oscSource)) {
-      const oscValue = audioNodes.readOscillatorValue(i);
+      const oscValue = audioNodes.readOscillatorValue(i, sourceVoiceIndex);
       modStore.updateSourceValue(oscSource, oscValue);
     }
   }
@@ -97,6 +477,7 @@ const masterModulationLoop = () => {
   const registeredParams = modStore.parameters;
   const synthState = useSynthControlsStore.getState();
   const engineState = useAudioEngineStore.getState();
+  const rackState = useEffectsRackStore.getState();
 
   // Iterate through only parameters with active routes (not all registered params)
   for (const paramId in routes) {
@@ -117,6 +498,18 @@ const masterModulationLoop = () => {
           baseValue = engineState.oscillators[oscIndex].frequency;
         } else if (paramName === "volume") {
           baseValue = engineState.oscillators[oscIndex].volume;
+        } else if (paramName === "pan") {
+          baseValue = engineState.oscillators[oscIndex].pan;
+        } else if (paramName.startsWith("unison_")) {
+          const unisonName = paramName.replace("unison_", "") as
+            | "voices"
+            | "detune"
+            | "width";
+          baseValue = engineState.unison[oscIndex][unisonName];
+        } else if (paramName === "feedback") {
+          baseValue = engineState.fmFeedback[oscIndex];
+        } else if (paramName === "ring_mix") {
+          baseValue = engineState.ringMods[oscIndex].mix;
         } else if (paramName.startsWith("detune_")) {
           // Detune values come from synthControls
           const synthOsc = synthState.oscillators[oscIndex];
@@ -127,10 +520,66 @@ const masterModulationLoop = () => {
           baseValue = synthOsc.detune[detuneType];
         }
       }
+    } else if (paramId.startsWith("fm_")) {
+      const fmMatch = paramId.match(/^fm_(\d+)to(\d+)_index$/);
+      if (fmMatch) {
+        const modIndex = parseInt(fmMatch[1]) - 1;
+        const carrierIndex = parseInt(fmMatch[2]) - 1;
+        baseValue = engineState.fmMatrix[modIndex][carrierIndex];
+      }
     } else if (paramId.startsWith("filter_")) {
       const paramName = paramId.replace("filter_", "");
       if (paramName === "cutoff") baseValue = engineState.cutoffFrequency;
       else if (paramName === "resonance") baseValue = engineState.resonance;
+      else if (paramName === "b_cutoff")
+        baseValue = engineState.filterB.cutoffFrequency;
+      else if (paramName === "b_resonance")
+        baseValue = engineState.filterB.resonance;
+      else if (paramName === "keytrack") baseValue = engineState.filterKeyTrack;
+    } else if (paramId.startsWith("noise_")) {
+      const paramName = paramId.replace("noise_", "");
+      if (paramName === "level") baseValue = engineState.noise.level;
+      else if (paramName === "pan") baseValue = engineState.noise.pan;
+    } else if (paramId.startsWith("sub_")) {
+      if (paramId === "sub_volume") baseValue = engineState.subOsc.level;
+    } else if (paramId.startsWith("crusher_")) {
+      // Effect parameters modulate the first slot of their type
+      const crusher = selectModulatedSlot("crusher")(rackState)?.params;
+      const paramName = paramId.replace("crusher_", "");
+      if (!crusher) continue;
+      if (paramName === "bits") baseValue = crusher.bits;
+      else if (paramName === "rate") baseValue = crusher.rate;
+      else if (paramName === "mix") baseValue = crusher.mix;
+    } else if (paramId.startsWith("shaper_")) {
+      const shaper = selectModulatedSlot("shaper")(rackState)?.params;
+      if (!shaper) continue;
+      if (paramId === "shaper_mix") baseValue = shaper.mix;
+    } else if (/^(chorus|flanger|phaser)_/.test(paramId)) {
+      const [type, paramName] = paramId.split("_") as [
+        ModEffectType,
+        "rate" | "depth" | "feedback" | "mix",
+      ];
+      const effect = selectModulatedSlot(type)(rackState)?.params;
+      if (!effect) continue;
+      baseValue = effect[paramName];
+    } else if (paramId.startsWith("delay_")) {
+      const delay = selectModulatedSlot("delay")(rackState)?.params;
+      const paramName = paramId.replace("delay_", "");
+      if (!delay) continue;
+      if (paramName === "time")
+        baseValue = calculateDelayTime(delay, engineState.tempo);
+      else if (paramName === "feedback") baseValue = delay.feedback;
+      else if (paramName === "filter") baseValue = delay.filterCutoff;
+      else if (paramName === "mix") baseValue = delay.mix;
+    } else if (paramId.startsWith("reverb_")) {
+      const reverb = selectModulatedSlot("reverb")(rackState)?.params;
+      if (!reverb) continue;
+      if (paramId === "reverb_mix") baseValue = reverb.mix;
+    } else if (paramId.startsWith("drive_")) {
+      const paramName = paramId.replace("drive_", "");
+      if (paramName === "amount") baseValue = engineState.drive;
+      else if (paramName === "curve")
+        baseValue = DRIVE_CURVE_TYPES.indexOf(engineState.driveCurve);
     } else if (paramId.startsWith("lfo")) {
       const lfoMatch = paramId.match(/^lfo(\d+)_(.+)$/);
       if (lfoMatch) {
@@ -183,11 +632,41 @@ export const useAudioEngineStore = create<AudioEngineState>()(
       isPlaying: false,
       isNoteHeld: false,
       oscillators: [
-        { frequency: 220, volume: 1.0, isActive: true },
-        { frequency: 220, volume: 1.0, isActive: true },
-        { frequency: 220, volume: 1.0, isActive: true },
-        { frequency: 220, volume: 1.0, isActive: true },
+        {
+          frequency: 220,
+          volume: 1.0,
+          pan: 0,
+          isActive: true,
+          engine: "worklet",
+        },
+        {
+          frequency: 220,
+          volume: 1.0,
+          pan: 0,
+          isActive: true,
+          engine: "worklet",
+        },
+        {
+          frequency: 220,
+          volume: 1.0,
+          pan: 0,
+          isActive: true,
+          engine: "worklet",
+        },
+        {
+          frequency: 220,
+          volume: 1.0,
+          pan: 0,
+          isActive: true,
+          engine: "worklet",
+        },
       ],
+      voiceCount: DEFAULT_VOICE_COUNT,
+      voiceStealMode: "oldest",
+      voices: resizeVoiceStates([], DEFAULT_VOICE_COUNT),
+      noteStack: [],
+      notePriority: "last" as NotePriority,
+      legato: false,
       lfos: [
         {
           frequency: 1.0, // 1 Hz default
@@ -202,10 +681,41 @@ export const useAudioEngineStore = create<AudioEngineState>()(
           isActive: false,
         },
       ],
+      fmMatrix: Array(4)
+        .fill(null)
+        .map(() => [0, 0, 0, 0]),
+      fmModes: ["pm", "pm", "pm", "pm"],
+      fmFeedback: [0, 0, 0, 0],
+      ringMods: DEFAULT_RING_MODS.map((ringMod) => ({ ...ringMod })),
+      syncSources: [null, null, null, null],
+      unison: Array(4)
+        .fill(null)
+        .map(() => ({ ...DEFAULT_UNISON_SETTINGS })),
+      noise: { ...DEFAULT_NOISE_SETTINGS },
+      subOsc: { ...DEFAULT_SUB_OSC_SETTINGS },
+      eq: DEFAULT_EQ_BANDS.map((band) => ({ ...band })),
+      dynamics: { ...DEFAULT_DYNAMICS_SETTINGS },
+      tempo: DEFAULT_TEMPO,
       masterVolume: 100,
       cutoffFrequency: 632,
       resonance: 0,
+      filterType: "lowpass" as FilterType,
+      filterSlope: 24 as FilterSlope,
       filterEnvelopeAmount: 50, // 50% default envelope amount
+      filterKeyTrack: 0,
+      filterB: {
+        cutoffFrequency: 2000,
+        resonance: 0,
+        filterType: "highpass" as FilterType,
+        filterSlope: 12 as FilterSlope,
+        envelopeAmount: 0,
+      },
+      // Split with every oscillator on filter A keeps filter B silent
+      filterRouting: "split" as FilterRouting,
+      oscillatorFilters: ["a", "a", "a", "a"] as OscillatorFilterAssignment[],
+      glide: { ...DEFAULT_GLIDE_SETTINGS },
+      drive: 0,
+      driveCurve: "soft" as DriveCurveType,
 
       /**
        * Initialize audio context (called on mount)
@@ -235,89 +745,166 @@ export const useAudioEngineStore = create<AudioEngineState>()(
 
         // Cleanup existing nodes
         audioNodes.cleanup();
-
-        // Create mixer gain node (unity gain, oscillators control mix)
-        const mixerGain = audioContext.createGain();
-        mixerGain.gain.value = 1.0;
-        audioNodes.mixerGainNode = mixerGain;
+        if (audioNodes.voices.length !== state.voiceCount) {
+          audioNodes.resizeVoices(state.voiceCount);
+        }
 
         // Create master gain node
         const masterGain = audioContext.createGain();
         masterGain.gain.value = state.masterVolume / 100;
         audioNodes.masterGainNode = masterGain;
 
-        // Create 4-pole filter cascade with proper Q distribution
-        // Using a Moog-style ladder filter approach:
-        // - Equal frequency for all stages
-        // - Gradually increasing Q values for stability
-        // - Q scaling that prevents self-oscillation at high resonance
-        const filter1 = audioContext.createBiquadFilter();
-        filter1.type = "lowpass";
-        filter1.frequency.value = state.cutoffFrequency;
-        // Base Q: map resonance (0-20) to a more reasonable Q range (0.5-4)
-        const baseQ = 0.5 + (state.resonance / 20) * 3.5;
-        filter1.Q.value = baseQ * 0.7;
-
-        const filter2 = audioContext.createBiquadFilter();
-        filter2.type = "lowpass";
-        filter2.frequency.value = state.cutoffFrequency;
-        filter2.Q.value = baseQ * 0.85;
-
-        const filter3 = audioContext.createBiquadFilter();
-        filter3.type = "lowpass";
-        filter3.frequency.value = state.cutoffFrequency;
-        filter3.Q.value = baseQ * 1.0;
-
-        const filter4 = audioContext.createBiquadFilter();
-        filter4.type = "lowpass";
-        filter4.frequency.value = state.cutoffFrequency;
-        filter4.Q.value = baseQ * 1.15;
-
-        // Store all filters for parameter updates
-        audioNodes.filterNodes = [filter1, filter2, filter3, filter4];
-
-        // Create oscillator chains for all active oscillators
-        for (let i = 0; i < state.oscillators.length; i++) {
-          const oscState = state.oscillators[i];
-          if (!oscState.isActive) continue;
-
-          const oscParams = synthControls.oscillators[i];
-          if (
-            !oscParams ||
-            !oscParams.waveformData ||
-            oscParams.waveformData.length === 0
-          ) {
-            console.warn(`Oscillator ${i}: no waveform data available`);
-            continue;
-          }
+        // Build one complete signal path per voice:
+        // oscillators -> voice mixer -> drive -> filter cascade -> master
+        for (let v = 0; v < audioNodes.voices.length; v++) {
+          const voice = audioNodes.voices[v];
+
+          // Create voice mixer gain node (unity gain, oscillators control mix)
+          const mixerGain = audioContext.createGain();
+          mixerGain.gain.value = 1.0;
+          voice.mixerGainNode = mixerGain;
 
-          // Create oscillator chain
-          const nodeSet = audioNodes.createOscillatorChain(
+          // Create this voice's filter blocks (biquad cascade + comb each)
+          voice.filterNodes = audioNodes.createFilterCascade(
+            audioContext,
+            state.cutoffFrequency,
+            state.resonance,
+            state.filterType,
+            state.filterSlope
+          );
+          audioNodes.createFilterBlend(
+            v,
+            state.cutoffFrequency,
+            state.resonance,
+            state.filterType,
+            state.filterSlope
+          );
+          voice.combNode = audioNodes.createCombFilter(
             audioContext,
-            oscParams.waveformData,
-            oscState.frequency,
-            oscState.volume
+            state.cutoffFrequency,
+            state.resonance,
+            state.filterType
           );
 
-          if (nodeSet.sourceNode && nodeSet.ampEnvelopeNode) {
-            // Store node set
-            audioNodes.oscillators[i] = nodeSet;
+          const { filterB } = state;
+          const filterBInput = audioContext.createGain();
+          filterBInput.gain.value = 1.0;
+          voice.filterBInputGain = filterBInput;
+          voice.filterBNodes = audioNodes.createFilterCascade(
+            audioContext,
+            filterB.cutoffFrequency,
+            filterB.resonance,
+            filterB.filterType,
+            filterB.filterSlope
+          );
+          audioNodes.createFilterBlend(
+            v,
+            filterB.cutoffFrequency,
+            filterB.resonance,
+            filterB.filterType,
+            filterB.filterSlope,
+            "b"
+          );
+          voice.filterBCombNode = audioNodes.createCombFilter(
+            audioContext,
+            filterB.cutoffFrequency,
+            filterB.resonance,
+            filterB.filterType
+          );
 
-            // Connect envelope to mixer
-            nodeSet.ampEnvelopeNode.connect(mixerGain);
+          const bypassGain = audioContext.createGain();
+          bypassGain.gain.value = 1.0;
+          voice.bypassGainNode = bypassGain;
+
+          // Create oscillator chains for all active oscillators
+          for (let i = 0; i < state.oscillators.length; i++) {
+            const oscState = state.oscillators[i];
+            if (!oscState.isActive) continue;
+
+            const oscParams = synthControls.oscillators[i];
+            if (
+              !oscParams ||
+              !oscParams.waveformData ||
+              oscParams.waveformData.length === 0
+            ) {
+              console.warn(`Oscillator ${i}: no waveform data available`);
+              continue;
+            }
+
+            // Voices that already played a note keep their pitch
+            const frequency = getVoiceOscillatorFrequency(state, v, i);
+
+            // Create oscillator chain
+            const nodeSet = audioNodes.createOscillatorChain(
+              audioContext,
+              oscParams.waveformData,
+              frequency,
+              oscState.volume,
+              oscState.engine,
+              oscState.pan
+            );
 
-            // Start playback
-            nodeSet.sourceNode.start();
+            if (hasOscillatorSource(nodeSet) && nodeSet.ampEnvelopeNode) {
+              // Store node set
+              voice.oscillators[i] = nodeSet;
+
+              // Connect envelope to its filter input(s)
+              audioNodes.connectOscillatorOutput(
+                v,
+                i,
+                state.oscillatorFilters[i]
+              );
+
+              // Start playback (worklet oscillators run as soon as created)
+              nodeSet.sourceNode?.start();
+              audioNodes.applyUnison(v, i, state.unison[i], frequency);
+            }
           }
+
+          // Create this voice's noise source and sub-oscillator
+          audioNodes.createNoiseChain(v, state.noise);
+          audioNodes.createSubOscChain(
+            v,
+            state.subOsc,
+            synthControls.oscillators[0]?.waveformData ?? null,
+            getVoiceOscillatorFrequency(state, v, 0),
+            state.oscillatorFilters[0]
+          );
+
+          // Connect the FM matrix, ring modulators and hard sync between this voice's oscillators
+          get()._applyVoiceRoutes(v);
+
+          // Create this voice's drive (saturation) stage
+          audioNodes.createDriveStage(
+            v,
+            state.drive,
+            state.driveCurve,
+            useSettingsStore.getState().oversample
+          );
+
+          // Connect voice: mixer -> drive -> filter A, B bus -> filter B,
+          // then filter outputs (per routing) and bypass -> master
+          mixerGain.connect(voice.driveInputGain!);
+          audioNodes.connectFilterBlocks(v, state.filterRouting);
         }
 
-        // Connect audio graph: mixer -> filter cascade -> master -> output
-        mixerGain.connect(filter1);
-        filter1.connect(filter2);
-        filter2.connect(filter3);
-        filter3.connect(filter4);
-        filter4.connect(masterGain);
-        masterGain.connect(audioContext.destination);
+        // master -> effects rack (its slots in order) -> EQ -> dynamics ->
+        // destination
+        const effects = [
+          audioNodes.createEffectsRack(
+            useEffectsRackStore.getState().slots,
+            createSlotEffect
+          ),
+          audioNodes.createEQ(state.eq),
+          audioNodes.createDynamics(state.dynamics),
+        ];
+        let output: AudioNode = masterGain;
+        effects.forEach((effect) => {
+          if (!effect) return;
+          output.connect(effect.inputNode);
+          output = effect.outputNode;
+        });
+        output.connect(audioContext.destination);
       },
 
       /**
@@ -346,8 +933,13 @@ export const useAudioEngineStore = create<AudioEngineState>()(
 
       /**
        * Update frequency for a specific oscillator in real-time
+       * Retunes a single voice when voiceIndex is given, otherwise every voice
        */
-      updateOscillatorFrequency: (oscIndex: number, freq: number) => {
+      updateOscillatorFrequency: (
+        oscIndex: number,
+        freq: number,
+        voiceIndex?: number
+      ) => {
         set((state) => ({
           oscillators: state.oscillators.map((osc, i) =>
             i === oscIndex ? { ...osc, frequency: freq } : osc
@@ -355,22 +947,17 @@ export const useAudioEngineStore = create<AudioEngineState>()(
         }));
 
         // If oscillator is currently playing, update playback rate in real-time
-        const nodeSet = audioNodes.oscillators[oscIndex];
-        if (nodeSet && nodeSet.sourceNode && audioNodes.audioContext) {
-          const synthControls = useSynthControlsStore.getState();
-          const oscParams = synthControls.oscillators[oscIndex];
-          if (oscParams && oscParams.waveformData) {
-            const baseCycleFrequency =
-              audioNodes.audioContext.sampleRate /
-              oscParams.waveformData.length;
-            const time = audioNodes.audioContext.currentTime;
-
-            nodeSet.sourceNode.playbackRate.exponentialRampToValueAtTime(
-              freq / baseCycleFrequency,
-              time + 0.001
-            );
-          }
-        }
+        if (!audioNodes.audioContext) return;
+        const time = audioNodes.audioContext.currentTime;
+
+        const voiceIndices =
+          voiceIndex !== undefined
+            ? [voiceIndex]
+            : audioNodes.voices.map((_, v) => v);
+        voiceIndices.forEach((v) => {
+          applyOscillatorFrequency(v, oscIndex, freq, time);
+          if (oscIndex === 0) audioNodes.setSubOscFrequency(v, freq, time);
+        });
       },
 
       /**
@@ -384,13 +971,155 @@ export const useAudioEngineStore = create<AudioEngineState>()(
         }));
 
         // If oscillator is currently playing, update gain in real-time
-        const nodeSet = audioNodes.oscillators[oscIndex];
-        if (nodeSet && nodeSet.gainNode && audioNodes.audioContext) {
-          const time = audioNodes.audioContext.currentTime;
-          nodeSet.gainNode.gain.linearRampToValueAtTime(volume, time + 0.01);
+        if (!audioNodes.audioContext) return;
+        const time = audioNodes.audioContext.currentTime;
+        audioNodes.voices.forEach((voice) => {
+          const nodeSet = voice.oscillators[oscIndex];
+          if (nodeSet && nodeSet.gainNode) {
+            nodeSet.gainNode.gain.linearRampToValueAtTime(volume, time + 0.01);
+          }
+        });
+      },
+
+      /**
+       * Update stereo position for a specific oscillator in real-time
+       */
+      updateOscillatorPan: (oscIndex: number, pan: number) => {
+        set((state) => ({
+          oscillators: state.oscillators.map((osc, i) =>
+            i === oscIndex ? { ...osc, pan } : osc
+          ),
+        }));
+
+        if (!audioNodes.audioContext) return;
+        const time = audioNodes.audioContext.currentTime;
+        audioNodes.voices.forEach((voice) => {
+          const nodeSet = voice.oscillators[oscIndex];
+          if (nodeSet && nodeSet.pannerNode) {
+            nodeSet.pannerNode.pan.linearRampToValueAtTime(pan, time + 0.01);
+          }
+        });
+      },
+
+      /**
+       * Update the unison stack of a specific oscillator in real-time
+       */
+      updateUnison: (oscIndex: number, settings: Partial<UnisonSettings>) => {
+        set((state) => ({
+          unison: state.unison.map((current, i) =>
+            i === oscIndex ? { ...current, ...settings } : current
+          ),
+        }));
+
+        applyOscillatorUnison(oscIndex, get().unison[oscIndex]);
+      },
+
+      /**
+       * Update the noise source (color, level, pan, filter routing) in real-time
+       */
+      updateNoise: (settings: Partial<NoiseSettings>) => {
+        const previous = get().noise;
+        const noise = { ...previous, ...settings };
+        set({ noise });
+
+        if (!audioNodes.audioContext) return;
+        const time = audioNodes.audioContext.currentTime;
+        audioNodes.voices.forEach((voice, voiceIndex) => {
+          if (!voice.noise.gainNode || !voice.noise.pannerNode) return;
+
+          voice.noise.gainNode.gain.linearRampToValueAtTime(
+            noise.level,
+            time + 0.01
+          );
+          voice.noise.pannerNode.pan.linearRampToValueAtTime(
+            noise.pan,
+            time + 0.01
+          );
+          if (noise.color !== previous.color) {
+            audioNodes.setNoiseColor(voiceIndex, noise.color);
+          }
+          if (noise.filter !== previous.filter) {
+            audioNodes.connectNoiseOutput(voiceIndex, noise.filter);
+          }
+        });
+      },
+
+      /**
+       * Update the sub-oscillator (waveform, octave, level) in real-time
+       */
+      updateSubOsc: (settings: Partial<SubOscSettings>) => {
+        const previous = get().subOsc;
+        const subOsc = { ...previous, ...settings };
+        set({ subOsc });
+
+        if (!audioNodes.audioContext) return;
+        const time = audioNodes.audioContext.currentTime;
+        audioNodes.voices.forEach((voice) => {
+          voice.subOsc.gainNode?.gain.linearRampToValueAtTime(
+            subOsc.level,
+            time + 0.01
+          );
+        });
+
+        if (
+          subOsc.waveform !== previous.waveform ||
+          subOsc.octave !== previous.octave
+        ) {
+          applySubOscSource(get());
         }
       },
 
+      /**
+       * Update one band of the master EQ in real-time
+       */
+      updateEQBand: (
+        bandIndex: number,
+        settings: Partial<Omit<EQBand, "type">>
+      ) => {
+        const previous = get().eq[bandIndex];
+        if (!previous) return;
+        const band = { ...previous, ...settings };
+        set((state) => ({
+          eq: state.eq.map((b, i) => (i === bandIndex ? band : b)),
+        }));
+
+        if (!audioNodes.audioContext) return;
+        audioNodes.setEQBand(
+          bandIndex,
+          band,
+          audioNodes.audioContext.currentTime
+        );
+      },
+
+      /**
+       * Update the master compressor and limiter in real-time
+       */
+      updateDynamics: (settings: Partial<DynamicsSettings>) => {
+        const dynamics = { ...get().dynamics, ...settings };
+        set({ dynamics });
+
+        if (!audioNodes.audioContext) return;
+        audioNodes.setDynamics(dynamics, audioNodes.audioContext.currentTime);
+      },
+
+      /**
+       * Set the tempo (BPM) and retime tempo-synced effects
+       */
+      setTempo: (tempo: number) => {
+        set({ tempo });
+
+        if (!audioNodes.audioContext) return;
+        const time = audioNodes.audioContext.currentTime;
+        useEffectsRackStore.getState().slots.forEach((slot) => {
+          if (slot.type !== "delay" || !slot.params.sync) return;
+          audioNodes.setDelayTime(
+            slot.id,
+            calculateDelayTime(slot.params, tempo),
+            time
+          );
+        });
+      },
+
       /**
        * Update master volume in real-time
        */
@@ -437,93 +1166,513 @@ export const useAudioEngineStore = create<AudioEngineState>()(
             return;
           }
 
-          if (!audioNodes.audioContext || !audioNodes.mixerGainNode) {
+          if (!audioNodes.audioContext || !audioNodes.masterGainNode) {
             console.warn(
               `Cannot enable oscillator ${oscIndex}: audio context not initialized`
             );
             return;
           }
 
-          // Create oscillator chain
-          const nodeSet = audioNodes.createOscillatorChain(
-            audioNodes.audioContext,
-            oscParams.waveformData,
-            oscState.frequency,
-            oscState.volume
-          );
+          // Create oscillator chain for every voice
+          audioNodes.voices.forEach((voice, voiceIndex) => {
+            if (!voice.mixerGainNode) return;
 
-          if (nodeSet.sourceNode && nodeSet.gainNode) {
-            audioNodes.oscillators[oscIndex] = nodeSet;
-            nodeSet.gainNode.connect(audioNodes.mixerGainNode);
-            nodeSet.sourceNode.start();
-          }
+            const frequency = getVoiceOscillatorFrequency(
+              state,
+              voiceIndex,
+              oscIndex
+            );
+
+            const nodeSet = audioNodes.createOscillatorChain(
+              audioNodes.audioContext!,
+              oscParams.waveformData,
+              frequency,
+              oscState.volume,
+              oscState.engine,
+              oscState.pan
+            );
+
+            if (hasOscillatorSource(nodeSet) && nodeSet.ampEnvelopeNode) {
+              voice.oscillators[oscIndex] = nodeSet;
+              audioNodes.connectOscillatorOutput(
+                voiceIndex,
+                oscIndex,
+                state.oscillatorFilters[oscIndex]
+              );
+              nodeSet.sourceNode?.start();
+              audioNodes.applyUnison(
+                voiceIndex,
+                oscIndex,
+                state.unison[oscIndex],
+                frequency
+              );
+            }
+
+            // Reconnect FM, ring mod and sync routes involving this oscillator
+            get()._applyVoiceRoutes(voiceIndex);
+          });
         } else {
           // Disable oscillator: fade out and stop
-          const nodeSet = audioNodes.oscillators[oscIndex];
-          if (nodeSet && nodeSet.gainNode && audioNodes.audioContext) {
-            const time = audioNodes.audioContext.currentTime;
-            nodeSet.gainNode.gain.exponentialRampToValueAtTime(
-              0.001,
-              time + 0.05
-            );
+          if (!audioNodes.audioContext) return;
+          const time = audioNodes.audioContext.currentTime;
 
-            // Stop and cleanup after fade
-            setTimeout(() => {
-              audioNodes.cleanupOscillator(oscIndex);
-            }, 60);
-          }
+          audioNodes.voices.forEach((voice, voiceIndex) => {
+            const nodeSet = voice.oscillators[oscIndex];
+            if (nodeSet && nodeSet.gainNode) {
+              nodeSet.gainNode.gain.exponentialRampToValueAtTime(
+                0.001,
+                time + 0.05
+              );
+
+              // Stop and cleanup after fade
+              setTimeout(() => {
+                audioNodes.cleanupOscillator(voiceIndex, oscIndex);
+              }, 60);
+            }
+          });
         }
       },
 
       /**
-       * Update filter parameters in real-time
+       * Select the playback engine for an oscillator
+       * Rebuilds the audio graph so every voice uses the new engine
        */
-      updateFilter: (cutoff: number, resonance: number) => {
-        set({ cutoffFrequency: cutoff, resonance: resonance });
-
-        // If filters are currently active, update all 4 stages in real-time
-        if (audioNodes.filterNodes.length === 4 && audioNodes.audioContext) {
-          const time = audioNodes.audioContext.currentTime;
+      setOscillatorEngine: (oscIndex: number, engine: OscillatorEngine) => {
+        set((state) => ({
+          oscillators: state.oscillators.map((osc, i) =>
+            i === oscIndex ? { ...osc, engine } : osc
+          ),
+        }));
 
-          // Calculate base Q value using same formula as creation
-          const baseQ = 0.5 + (resonance / 20) * 3.5;
-          const qValues = [
-            baseQ * 0.7,
-            baseQ * 0.85,
-            baseQ * 1.0,
-            baseQ * 1.15,
-          ];
-
-          // Update all 4 filter stages
-          audioNodes.filterNodes.forEach((filter, index) => {
-            filter.frequency.exponentialRampToValueAtTime(
-              Math.max(20, cutoff), // Clamp to min 20Hz for exponential ramp
-              time + 0.01
-            );
-            filter.Q.linearRampToValueAtTime(qValues[index], time + 0.01);
-          });
-        }
+        get()._recreateAudio();
       },
 
       /**
-       * Set playing state (for external control)
+       * Set the modulation index of one modulator -> carrier pair
+       * Only worklet carriers can be modulated at audio rate
        */
-      setIsPlaying: (playing: boolean) => {
-        set({ isPlaying: playing });
+      setFMIndex: (modIndex: number, carrierIndex: number, index: number) => {
+        set((state) => ({
+          fmMatrix: state.fmMatrix.map((row, m) =>
+            m === modIndex
+              ? row.map((value, c) => (c === carrierIndex ? index : value))
+              : row
+          ),
+        }));
+
+        get()._applyFMIndex(modIndex, carrierIndex, index);
       },
 
       /**
-       * Update filter envelope amount
+       * Choose phase or frequency modulation for a carrier oscillator
        */
-      updateFilterEnvelopeAmount: (amount: number) => {
-        set({ filterEnvelopeAmount: amount });
+      setFMMode: (carrierIndex: number, mode: FMMode) => {
+        set((state) => ({
+          fmModes: state.fmModes.map((value, i) =>
+            i === carrierIndex ? mode : value
+          ),
+        }));
+
+        audioNodes.voices.forEach((_, voiceIndex) => {
+          get()._applyVoiceFM(voiceIndex);
+        });
       },
 
       /**
-       * Get the maximum release time in milliseconds
-       * Used to determine when it's safe to stop audio after note off
+       * Set an oscillator's self-modulation (feedback) amount
        */
-      getMaxReleaseTime: (): number => {
+      setFMFeedback: (oscIndex: number, amount: number) => {
+        set((state) => ({
+          fmFeedback: state.fmFeedback.map((value, i) =>
+            i === oscIndex ? amount : value
+          ),
+        }));
+
+        if (!audioNodes.audioContext) return;
+        const time = audioNodes.audioContext.currentTime;
+        audioNodes.voices.forEach((voice) => {
+          audioNodes.setOscillatorFeedback(
+            voice.oscillators[oscIndex],
+            amount,
+            time
+          );
+        });
+      },
+
+      /**
+       * Choose an oscillator's ring/amplitude modulation mode and source
+       */
+      setRingMod: (
+        oscIndex: number,
+        mode: RingModMode,
+        sourceIndex: number
+      ) => {
+        set((state) => ({
+          ringMods: state.ringMods.map((ringMod, i) =>
+            i === oscIndex ? { ...ringMod, mode, sourceIndex } : ringMod
+          ),
+        }));
+
+        audioNodes.voices.forEach((_, voiceIndex) => {
+          get()._applyVoiceRingMod(voiceIndex);
+        });
+      },
+
+      /**
+       * Set an oscillator's ring modulation dry/wet mix (0-1)
+       */
+      setRingModMix: (oscIndex: number, mix: number) => {
+        set((state) => ({
+          ringMods: state.ringMods.map((ringMod, i) =>
+            i === oscIndex ? { ...ringMod, mix } : ringMod
+          ),
+        }));
+
+        get()._applyRingModMix(oscIndex, mix);
+      },
+
+      /**
+       * Hard sync an oscillator to a master oscillator (null turns sync off)
+       * Both oscillators must use the worklet engine
+       */
+      setOscillatorSync: (slaveIndex: number, masterIndex: number | null) => {
+        set((state) => ({
+          syncSources: state.syncSources.map((value, i) =>
+            i === slaveIndex ? masterIndex : value
+          ),
+        }));
+
+        audioNodes.voices.forEach((_, voiceIndex) => {
+          get()._applyVoiceSync(voiceIndex);
+        });
+      },
+
+      /**
+       * Apply a ring modulation mix to every voice without changing the stored value
+       * Used directly by the modulation system; an "off" oscillator stays dry
+       */
+      _applyRingModMix: (oscIndex: number, mix: number) => {
+        if (!audioNodes.audioContext) return;
+
+        const effectiveMix = get().ringMods[oscIndex].mode === "off" ? 0 : mix;
+        const time = audioNodes.audioContext.currentTime;
+        audioNodes.voices.forEach((voice) => {
+          audioNodes.setRingModMix(
+            voice.oscillators[oscIndex],
+            effectiveMix,
+            time
+          );
+        });
+      },
+
+      /**
+       * Connect the FM matrix, ring modulators and hard sync of one voice
+       * Run after (re)building any of the voice's oscillators.
+       */
+      _applyVoiceRoutes: (voiceIndex: number) => {
+        get()._applyVoiceFM(voiceIndex);
+        get()._applyVoiceRingMod(voiceIndex);
+        get()._applyVoiceSync(voiceIndex);
+      },
+
+      /**
+       * Connect every oscillator's ring modulator in one voice
+       */
+      _applyVoiceRingMod: (voiceIndex: number) => {
+        const voice = audioNodes.voices[voiceIndex];
+        if (!audioNodes.audioContext || !voice) return;
+
+        const state = get();
+        const time = audioNodes.audioContext.currentTime;
+
+        state.ringMods.forEach((ringMod, i) => {
+          const isActive = ringMod.mode !== "off" && ringMod.sourceIndex !== i;
+
+          if (isActive) {
+            audioNodes.connectRingMod(
+              voiceIndex,
+              i,
+              ringMod.sourceIndex,
+              ringMod.mode
+            );
+          } else {
+            audioNodes.disconnectRingMod(voiceIndex, i);
+          }
+
+          audioNodes.setRingModMix(
+            voice.oscillators[i],
+            isActive ? ringMod.mix : 0,
+            time
+          );
+        });
+      },
+
+      /**
+       * Connect every oscillator's hard sync master in one voice
+       */
+      _applyVoiceSync: (voiceIndex: number) => {
+        if (!audioNodes.audioContext || !audioNodes.voices[voiceIndex]) return;
+
+        get().syncSources.forEach((masterIndex, slaveIndex) => {
+          if (masterIndex !== null && masterIndex !== slaveIndex) {
+            audioNodes.connectSync(voiceIndex, slaveIndex, masterIndex);
+          } else {
+            audioNodes.disconnectSync(voiceIndex, slaveIndex);
+          }
+        });
+      },
+
+      /**
+       * Apply an FM index to every voice without changing the stored value
+       * Used directly by the modulation system
+       */
+      _applyFMIndex: (
+        modIndex: number,
+        carrierIndex: number,
+        index: number
+      ) => {
+        if (!audioNodes.audioContext) return;
+
+        const state = get();
+        const time = audioNodes.audioContext.currentTime;
+        audioNodes.voices.forEach((_, voiceIndex) => {
+          applyFMConnection(
+            state,
+            voiceIndex,
+            modIndex,
+            carrierIndex,
+            index,
+            time
+          );
+        });
+      },
+
+      /**
+       * Apply the whole FM matrix and feedback amounts to one voice
+       * FM-mode depths follow the modulator pitch, so this runs on every note
+       */
+      _applyVoiceFM: (voiceIndex: number) => {
+        const voice = audioNodes.voices[voiceIndex];
+        if (!audioNodes.audioContext || !voice) return;
+
+        const state = get();
+        const time = audioNodes.audioContext.currentTime;
+
+        for (let m = 0; m < state.fmMatrix.length; m++) {
+          for (let c = 0; c < state.fmMatrix[m].length; c++) {
+            applyFMConnection(
+              state,
+              voiceIndex,
+              m,
+              c,
+              state.fmMatrix[m][c],
+              time
+            );
+          }
+        }
+
+        voice.oscillators.forEach((nodeSet, i) => {
+          audioNodes.setOscillatorFeedback(nodeSet, state.fmFeedback[i], time);
+        });
+      },
+
+      /**
+       * Update filter parameters in real-time
+       */
+      updateFilter: (cutoff: number, resonance: number) => {
+        set({ cutoffFrequency: cutoff, resonance: resonance });
+
+        if (!audioNodes.audioContext) return;
+        const time = audioNodes.audioContext.currentTime;
+
+        // Move the cutoff of every stage (and comb) of every voice
+        applyFilterCutoff("a", cutoff, time);
+
+        // Resonance is spread over the stages according to the filter mode
+        const { filterType, filterSlope } = get();
+        audioNodes.configureFilters(filterType, resonance, filterSlope, time);
+      },
+
+      /**
+       * Switch the filter mode live (no audio restart)
+       */
+      setFilterType: (filterType: FilterType) => {
+        set({ filterType });
+
+        if (!audioNodes.audioContext) return;
+        audioNodes.configureFilters(
+          filterType,
+          get().resonance,
+          get().filterSlope,
+          audioNodes.audioContext.currentTime
+        );
+      },
+
+      /**
+       * Change the low-pass/high-pass slope live (no audio restart)
+       */
+      setFilterSlope: (slope: FilterSlope) => {
+        set({ filterSlope: slope });
+
+        if (!audioNodes.audioContext) return;
+        audioNodes.configureFilters(
+          get().filterType,
+          get().resonance,
+          slope,
+          audioNodes.audioContext.currentTime
+        );
+      },
+
+      /**
+       * Set playing state (for external control)
+       */
+      setIsPlaying: (playing: boolean) => {
+        set({ isPlaying: playing });
+      },
+
+      /**
+       * Update filter envelope amount
+       */
+      updateFilterEnvelopeAmount: (amount: number) => {
+        set({ filterEnvelopeAmount: amount });
+      },
+
+      /**
+       * Set how far the filter cutoffs follow the played note (0-100%)
+       */
+      setFilterKeyTrack: (amount: number) => {
+        set({ filterKeyTrack: amount });
+        audioNodes.filterKeyTrack = amount;
+
+        if (!audioNodes.audioContext) return;
+        const time = audioNodes.audioContext.currentTime;
+        const state = get();
+        applyFilterCutoff("a", state.cutoffFrequency, time);
+        applyFilterCutoff("b", state.filterB.cutoffFrequency, time);
+      },
+
+      /**
+       * Update filter B's cutoff and resonance in real-time
+       */
+      updateFilterB: (cutoff: number, resonance: number) => {
+        set((state) => ({
+          filterB: { ...state.filterB, cutoffFrequency: cutoff, resonance },
+        }));
+
+        if (!audioNodes.audioContext) return;
+        const time = audioNodes.audioContext.currentTime;
+
+        applyFilterCutoff("b", cutoff, time);
+
+        const { filterType, filterSlope } = get().filterB;
+        audioNodes.configureFilters(
+          filterType,
+          resonance,
+          filterSlope,
+          time,
+          "b"
+        );
+      },
+
+      /**
+       * Switch filter B's mode live (no audio restart)
+       */
+      setFilterBType: (filterType: FilterType) => {
+        set((state) => ({ filterB: { ...state.filterB, filterType } }));
+
+        if (!audioNodes.audioContext) return;
+        const { resonance, filterSlope } = get().filterB;
+        audioNodes.configureFilters(
+          filterType,
+          resonance,
+          filterSlope,
+          audioNodes.audioContext.currentTime,
+          "b"
+        );
+      },
+
+      /**
+       * Change filter B's low-pass/high-pass slope live
+       */
+      setFilterBSlope: (slope: FilterSlope) => {
+        set((state) => ({ filterB: { ...state.filterB, filterSlope: slope } }));
+
+        if (!audioNodes.audioContext) return;
+        const { filterType, resonance } = get().filterB;
+        audioNodes.configureFilters(
+          filterType,
+          resonance,
+          slope,
+          audioNodes.audioContext.currentTime,
+          "b"
+        );
+      },
+
+      /**
+       * Update filter B's envelope amount
+       */
+      updateFilterBEnvelopeAmount: (amount: number) => {
+        set((state) => ({
+          filterB: { ...state.filterB, envelopeAmount: amount },
+        }));
+      },
+
+      /**
+       * Switch between serial, parallel and split filter routing live
+       */
+      setFilterRouting: (routing: FilterRouting) => {
+        set({ filterRouting: routing });
+
+        audioNodes.voices.forEach((_, voiceIndex) => {
+          audioNodes.connectFilterRouting(voiceIndex, routing);
+        });
+      },
+
+      /**
+       * Choose the filter input(s) an oscillator feeds (A, B, both or bypass)
+       */
+      setOscillatorFilter: (
+        oscIndex: number,
+        assignment: OscillatorFilterAssignment
+      ) => {
+        set((state) => ({
+          oscillatorFilters: state.oscillatorFilters.map((current, i) =>
+            i === oscIndex ? assignment : current
+          ),
+        }));
+
+        audioNodes.voices.forEach((_, voiceIndex) => {
+          audioNodes.connectOscillatorOutput(voiceIndex, oscIndex, assignment);
+          // The sub-oscillator shares oscillator 1's filter routing
+          if (oscIndex === 0) {
+            audioNodes.connectSubOscOutput(voiceIndex, assignment);
+          }
+        });
+      },
+
+      /**
+       * Update the saturation drive amount (0-1) in real-time
+       */
+      updateDrive: (drive: number) => {
+        set({ drive });
+
+        if (!audioNodes.audioContext) return;
+        audioNodes.setDrive(drive, audioNodes.audioContext.currentTime);
+      },
+
+      /**
+       * Choose the drive stage's transfer curve
+       */
+      setDriveCurve: (curve: DriveCurveType) => {
+        set({ driveCurve: curve });
+        audioNodes.setDriveCurve(curve);
+      },
+
+      /**
+       * Get the maximum release time in milliseconds
+       * Used to determine when it's safe to stop audio after note off
+       */
+      getMaxReleaseTime: (): number => {
         const synthControls = useSynthControlsStore.getState();
         const { ampADSR, filterADSR } = synthControls;
 
@@ -537,13 +1686,55 @@ export const useAudioEngineStore = create<AudioEngineState>()(
       },
 
       /**
-       * Trigger note on - starts ADSR envelopes
+       * Set the number of polyphonic voices (1 = mono)
+       * Rebuilds the audio graph when playing; held notes are dropped
        */
-      triggerNoteOn: () => {
-        if (!audioNodes.audioContext) return;
+      setVoiceCount: (count: number) => {
+        const voices = resizeVoiceStates([], count);
+        set({
+          voiceCount: voices.length,
+          voices: voices.map(() => createIdleVoice()),
+          isNoteHeld: false,
+        });
+        get()._recreateAudio();
+      },
+
+      /**
+       * Set the voice stealing strategy
+       */
+      setVoiceStealMode: (mode: VoiceStealMode) => {
+        set({ voiceStealMode: mode });
+      },
 
-        // Mark that a note is being held
-        set({ isNoteHeld: true });
+      /**
+       * Choose which held key sounds in mono mode
+       */
+      setNotePriority: (priority: NotePriority) => {
+        set({ notePriority: priority });
+      },
+
+      /**
+       * Enable legato (mono play that doesn't retrigger envelopes)
+       */
+      setLegato: (enabled: boolean) => {
+        set({ legato: enabled });
+      },
+
+      /**
+       * Update the glide (portamento) settings
+       * Applies from the next note on; a glide in progress keeps its ramp
+       */
+      updateGlide: (settings: Partial<GlideSettings>) => {
+        set((state) => ({ glide: { ...state.glide, ...settings } }));
+      },
+
+      /**
+       * Trigger note on - allocates a voice, tunes it and starts its envelopes
+       * In mono mode the note stack decides which held key sounds on voice 0;
+       * with legato an overlapping note only changes the pitch.
+       */
+      triggerNoteOn: (pressedKey: string, pressedFrequency: number) => {
+        if (!audioNodes.audioContext) return;
 
         const synthControls = useSynthControlsStore.getState();
         const { ampADSR, filterADSR, modADSR, ampEnvelopeAmount } =
@@ -551,6 +1742,79 @@ export const useAudioEngineStore = create<AudioEngineState>()(
         const state = get();
         const time = audioNodes.audioContext.currentTime;
 
+        // The stack is kept in every mode so switching to mono mid-phrase
+        // knows which keys are down
+        const noteStack = [
+          ...state.noteStack.filter((note) => note.key !== pressedKey),
+          { key: pressedKey, frequency: pressedFrequency },
+        ];
+        const isMono = isMonoMode(state);
+        const { key, frequency } = isMono
+          ? selectPriorityNote(noteStack, state.notePriority)!
+          : { key: pressedKey, frequency: pressedFrequency };
+
+        if (isMono && state.voices[0].isHeld) {
+          // A lower priority key waits in the stack until it's needed
+          if (state.voices[0].key === key) {
+            set({ noteStack });
+            return;
+          }
+
+          // Legato: move the sounding voice to the new pitch and leave its
+          // envelopes running
+          if (state.legato) {
+            set({
+              noteStack,
+              voices: state.voices.map((voiceState, i) =>
+                i === 0 ? { ...voiceState, key, frequency } : voiceState
+              ),
+              oscillators: state.oscillators.map((osc, i) => ({
+                ...osc,
+                frequency: getDetunedFrequency(frequency, i),
+              })),
+            });
+            tuneVoice(state, 0, frequency, time);
+            retrackFilterEnvelopes(state, 0, frequency, time);
+            get()._applyVoiceFM(0);
+            return;
+          }
+        }
+
+        const { voiceIndex, stolen } = allocateVoice(
+          isMono ? state.voices.slice(0, 1) : state.voices,
+          key,
+          state.voiceStealMode,
+          (index) => audioNodes.getEnvelopeValue(index)
+        );
+        const voice = audioNodes.voices[voiceIndex];
+
+        // Mark the voice as held; oscillator state mirrors the newest note
+        set({
+          noteStack,
+          isNoteHeld: true,
+          voices: state.voices.map((voiceState, i) =>
+            i === voiceIndex
+              ? {
+                  key,
+                  frequency,
+                  isHeld: true,
+                  startTime: time,
+                  releaseTime: null,
+                }
+              : voiceState
+          ),
+          oscillators: state.oscillators.map((osc, i) => ({
+            ...osc,
+            frequency: getDetunedFrequency(frequency, i),
+          })),
+        });
+
+        // Tune the voice's oscillators with detune applied
+        tuneVoice(state, voiceIndex, frequency, time);
+
+        // FM depths follow the new pitch
+        get()._applyVoiceFM(voiceIndex);
+
         // Convert ADSR parameters to time values
         const ampTimes = convertADSRToTimes(ampADSR);
         const filterTimes = convertADSRToTimes(filterADSR);
@@ -559,18 +1823,17 @@ export const useAudioEngineStore = create<AudioEngineState>()(
         // Convert amp envelope amount from 0-100 to 0-1 range
         const envelopeAmount = ampEnvelopeAmount / 100;
 
-        // Update envelope state tracking for modulation (per oscillator)
-        for (let i = 0; i < state.oscillators.length; i++) {
-          if (state.oscillators[i].isActive) {
-            audioNodes.setEnvelopeNoteOn(
-              i,
-              ampTimes.attack,
-              ampTimes.decay,
-              ampTimes.sustain,
-              ampTimes.release
-            );
-          }
-        }
+        // A stolen voice fades out briefly before the new attack starts
+        const noteStart = stolen ? time + VOICE_STEAL_FADE_TIME : time;
+
+        // Update envelope state tracking for modulation and voice stealing
+        audioNodes.setEnvelopeNoteOn(
+          voiceIndex,
+          ampTimes.attack,
+          ampTimes.decay,
+          ampTimes.sustain,
+          ampTimes.release
+        );
 
         // Update modulation envelope state tracking
         audioNodes.setModEnvelopeNoteOn(
@@ -583,64 +1846,107 @@ export const useAudioEngineStore = create<AudioEngineState>()(
         // Generate and apply amplitude envelope operations
         const ampOps = createAmpEnvelopeOps(
           ampTimes,
-          time,
+          noteStart,
           true,
           envelopeAmount
         );
-        audioNodes.oscillators
+        if (stolen) {
+          ampOps.splice(
+            0,
+            1,
+            { method: "cancelScheduledValues", args: [time] },
+            { method: "setValueAtTime", args: [time] }, // Will use current value
+            {
+              method: "linearRampToValueAtTime",
+              args: [1.0 - envelopeAmount, noteStart],
+            }
+          );
+        }
+        voice.oscillators
           .filter(
             (nodeSet, i) =>
               nodeSet.ampEnvelopeNode && state.oscillators[i].isActive
           )
           .forEach((nodeSet) => {
-            applyEnvelopeOps(nodeSet.ampEnvelopeNode!.gain, ampOps);
+            audioNodes.applyOscillatorEnvelope(nodeSet, ampOps);
           });
+        [voice.noise.ampEnvelopeNode, voice.subOsc.ampEnvelopeNode].forEach(
+          (envelopeNode) => {
+            if (envelopeNode) applyEnvelopeOps(envelopeNode.gain, ampOps);
+          }
+        );
 
-        // Generate and apply filter envelope operations
-        // Skip if filter cutoff has active modulation (to avoid conflicts)
+        // Generate and apply filter envelope operations for both filters,
+        // key tracked to the new note
+        // Skip a filter whose cutoff has active modulation (to avoid conflicts)
         const modStore = useModulationStore.getState();
-        const hasFilterModulation =
-          modStore.routes["filter_cutoff"]?.length > 0;
+        const keyTrack = getFilterKeyTrack(state);
+
+        getFilterEnvelopeTargets(state).forEach((target) => {
+          const params = audioNodes.getFilterFrequencyParams(
+            voiceIndex,
+            target.block
+          );
+          if (params.length === 0 || modStore.routes[target.paramId]?.length)
+            return;
 
-        if (audioNodes.filterNodes.length === 4 && !hasFilterModulation) {
-          const filterEnvelopeAmount = state.filterEnvelopeAmount / 100;
           const filterOps = createFilterEnvelopeOps(
             filterTimes,
-            time,
-            state.cutoffFrequency,
-            filterEnvelopeAmount,
-            true
+            noteStart,
+            target.cutoff,
+            target.envelopeAmount / 100,
+            true,
+            frequency,
+            keyTrack
           );
 
-          audioNodes.filterNodes.forEach((filter) => {
-            applyEnvelopeOps(filter.frequency, filterOps);
+          params.forEach((param) => {
+            applyEnvelopeOps(param, filterOps);
           });
-        }
+        });
       },
 
       /**
-       * Trigger note off - starts release phase of ADSR envelopes
+       * Trigger note off - starts release phase of the voice holding the key
        */
-      triggerNoteOff: () => {
+      triggerNoteOff: (key: string) => {
         if (!audioNodes.audioContext) return;
 
-        // Mark that note is no longer being held
-        set({ isNoteHeld: false });
+        const state = get();
+        const noteStack = state.noteStack.filter((note) => note.key !== key);
+        set({ noteStack });
+
+        const voiceIndex = findHeldVoice(state.voices, key);
+        if (voiceIndex < 0) return;
+
+        // Mono: hand the voice to the next held key instead of releasing it
+        if (isMonoMode(state) && voiceIndex === 0 && noteStack.length > 0) {
+          const next = selectPriorityNote(noteStack, state.notePriority)!;
+          get().triggerNoteOn(next.key, next.frequency);
+          return;
+        }
 
         const synthControls = useSynthControlsStore.getState();
         const { ampADSR, filterADSR, ampEnvelopeAmount } = synthControls;
-        const state = get();
         const time = audioNodes.audioContext.currentTime;
+        const voice = audioNodes.voices[voiceIndex];
 
-        // Update envelope state tracking for modulation (per oscillator)
-        for (let i = 0; i < state.oscillators.length; i++) {
-          if (state.oscillators[i].isActive) {
-            audioNodes.setEnvelopeNoteOff(i);
-          }
-        }
+        // Mark the voice as released
+        const voices = state.voices.map((voiceState, i) =>
+          i === voiceIndex
+            ? { ...voiceState, isHeld: false, releaseTime: time }
+            : voiceState
+        );
+        const isNoteHeld = voices.some((voiceState) => voiceState.isHeld);
+        set({ voices, isNoteHeld });
 
-        // Update modulation envelope state tracking
-        audioNodes.setModEnvelopeNoteOff();
+        // Update envelope state tracking for modulation and voice stealing
+        audioNodes.setEnvelopeNoteOff(voiceIndex);
+
+        // The modulation envelope is shared, so release it with the last key
+        if (!isNoteHeld) {
+          audioNodes.setModEnvelopeNoteOff();
+        }
 
         // Convert ADSR parameters to time values
         const ampTimes = convertADSRToTimes(ampADSR);
@@ -656,32 +1962,91 @@ export const useAudioEngineStore = create<AudioEngineState>()(
           false,
           envelopeAmount
         );
-        audioNodes.oscillators
+        voice.oscillators
           .filter(
             (nodeSet, i) =>
               nodeSet.ampEnvelopeNode && state.oscillators[i].isActive
           )
           .forEach((nodeSet) => {
-            applyEnvelopeOps(nodeSet.ampEnvelopeNode!.gain, ampOps);
+            audioNodes.applyOscillatorEnvelope(nodeSet, ampOps);
           });
+        [voice.noise.ampEnvelopeNode, voice.subOsc.ampEnvelopeNode].forEach(
+          (envelopeNode) => {
+            if (envelopeNode) applyEnvelopeOps(envelopeNode.gain, ampOps);
+          }
+        );
 
-        // Generate and apply filter release operations
-        // Skip if filter cutoff has active modulation (to avoid conflicts)
+        // Generate and apply filter release operations for both filters
+        // Skip a filter whose cutoff has active modulation (to avoid conflicts)
         const modStore = useModulationStore.getState();
-        const hasFilterModulation =
-          modStore.routes["filter_cutoff"]?.length > 0;
+        const keyTrack = getFilterKeyTrack(state);
+        const noteFrequency = state.voices[voiceIndex].frequency;
+
+        getFilterEnvelopeTargets(state).forEach((target) => {
+          const params = audioNodes.getFilterFrequencyParams(
+            voiceIndex,
+            target.block
+          );
+          if (params.length === 0 || modStore.routes[target.paramId]?.length)
+            return;
 
-        if (audioNodes.filterNodes.length === 4 && !hasFilterModulation) {
           const filterOps = createFilterEnvelopeOps(
             filterTimes,
             time,
-            state.cutoffFrequency,
+            target.cutoff,
             0, // Envelope amount doesn't matter for release
-            false
+            false,
+            noteFrequency,
+            keyTrack
+          );
+
+          params.forEach((param) => {
+            applyEnvelopeOps(param, filterOps);
+          });
+        });
+      },
+
+      /**
+       * Re-apply detune to every voice that has played a note
+       * Called when oscillator detune settings change
+       */
+      retuneVoices: () => {
+        if (!audioNodes.audioContext) return;
+
+        const state = get();
+        const time = audioNodes.audioContext.currentTime;
+
+        state.voices.forEach((voiceState, voiceIndex) => {
+          if (voiceState.key === null) return;
+
+          for (let i = 0; i < state.oscillators.length; i++) {
+            if (state.oscillators[i].isActive) {
+              applyOscillatorFrequency(
+                voiceIndex,
+                i,
+                getDetunedFrequency(voiceState.frequency, i),
+                time
+              );
+            }
+          }
+          audioNodes.setSubOscFrequency(
+            voiceIndex,
+            getDetunedFrequency(voiceState.frequency, 0),
+            time
           );
 
-          audioNodes.filterNodes.forEach((filter) => {
-            applyEnvelopeOps(filter.frequency, filterOps);
+          // FM depths follow the new pitch
+          get()._applyVoiceFM(voiceIndex);
+        });
+
+        // Keep oscillator state in sync with the newest note
+        const newest = state.voices[getNewestVoiceIndex(state.voices)];
+        if (newest && newest.key !== null) {
+          set({
+            oscillators: state.oscillators.map((osc, i) => ({
+              ...osc,
+              frequency: getDetunedFrequency(newest.frequency, i),
+            })),
           });
         }
       },
@@ -726,6 +2091,7 @@ export const useAudioEngineStore = create<AudioEngineState>()(
             waveform
           );
           audioNodes.lfoNodes[lfoIndex] = lfoNodes;
+          audioNodes.reconnectModEffectLFOs(lfoIndex);
         }
       },
 
@@ -755,6 +2121,7 @@ export const useAudioEngineStore = create<AudioEngineState>()(
               lfo.waveform
             );
             audioNodes.lfoNodes[lfoIndex] = lfoNodes;
+            audioNodes.reconnectModEffectLFOs(lfoIndex);
           }
         } else {
           // Disable LFO: cleanup nodes
@@ -798,7 +2165,19 @@ useEquationBuilderStore.subscribe((state, prevState) => {
       .filter((osc) => osc.changed && osc.waveformData.length > 0);
 
     if (changedOscillators.length > 0) {
-      if (audioEngineState.isNoteHeld) {
+      // Worklet oscillators take the new tables in place
+      const tablesPosted = changedOscillators.every(({ index, waveformData }) =>
+        audioNodes.postWaveformTable(
+          index,
+          waveformData instanceof Float32Array
+            ? waveformData
+            : new Float32Array(waveformData)
+        )
+      );
+
+      if (tablesPosted) {
+        // Nothing to rebuild
+      } else if (audioEngineState.isNoteHeld) {
         // Note is being held: use crossfade for smooth transition
         const synthControls = useSynthControlsStore.getState();
 
@@ -813,13 +2192,23 @@ useEquationBuilderStore.subscribe((state, prevState) => {
                 ? waveformData
                 : new Float32Array(waveformData);
 
-            audioNodes.crossfadeWaveform(
-              index,
-              waveformFloat32,
-              oscState.frequency,
-              oscState.volume,
-              30 // 30ms crossfade
-            );
+            // Crossfade every voice, keeping each voice's own pitch
+            audioNodes.voices.forEach((_, voiceIndex) => {
+              const frequency = getVoiceOscillatorFrequency(
+                audioEngineState,
+                voiceIndex,
+                index
+              );
+
+              audioNodes.crossfadeWaveform(
+                voiceIndex,
+                index,
+                waveformFloat32,
+                frequency,
+                oscState.volume,
+                30 // 30ms crossfade
+              );
+            });
           }
         });
       } else {
@@ -845,35 +2234,40 @@ useSynthControlsStore.subscribe((state, prevState) => {
         osc.detune.cent !== prevState.oscillators[index].detune.cent
     );
 
-    if (detuneChanged) {
-      // Re-apply current frequency with new detune values
-      const activeNote = state.keyboardNotes.find(
-        (note) => note.key === state.activeKey
+    // Table-only changes can be posted to worklet oscillators
+    const activeChanged = state.oscillators.some(
+      (osc, index) => osc.isActive !== prevState.oscillators[index].isActive
+    );
+    const changedTables = state.oscillators
+      .map((osc, index) => index)
+      .filter(
+        (index) =>
+          state.oscillators[index].waveformData !==
+          prevState.oscillators[index].waveformData
       );
-      if (activeNote) {
-        // Import the helper function inline
-        const calculateDetunedFrequency = (
-          baseFrequency: number,
-          octave: number,
-          semitone: number,
-          cent: number
-        ): number => {
-          const totalSemitones = octave * 12 + semitone + cent / 100;
-          return baseFrequency * Math.pow(2, totalSemitones / 12);
-        };
 
-        state.oscillators.forEach((osc, index) => {
-          if (audioEngineState.oscillators[index].isActive) {
-            const detunedFreq = calculateDetunedFrequency(
-              activeNote.frequency,
-              osc.detune.octave,
-              osc.detune.semitone,
-              osc.detune.cent
-            );
-            audioEngineState.updateOscillatorFrequency(index, detunedFreq);
-          }
-        });
-      }
+    // A sub-oscillator playing oscillator 1's table takes the new one
+    if (
+      changedTables.includes(0) &&
+      audioEngineState.subOsc.waveform === "osc1"
+    ) {
+      applySubOscSource(audioEngineState);
+    }
+
+    if (detuneChanged) {
+      // Re-apply current frequencies with new detune values
+      audioEngineState.retuneVoices();
+    } else if (
+      !activeChanged &&
+      changedTables.length > 0 &&
+      changedTables.every((index) =>
+        audioNodes.postWaveformTable(
+          index,
+          state.oscillators[index].waveformData
+        )
+      )
+    ) {
+      // Worklet oscillators updated their tables without a rebuild
     } else {
       // Only recreate if no note is currently being held
       if (!audioEngineState.isNoteHeld) {
@@ -884,8 +2278,25 @@ useSynthControlsStore.subscribe((state, prevState) => {
   }
 });
 
+// Apply the oversample setting to the drive stage and the shaper live
+useSettingsStore.subscribe((state, prevState) => {
+  if (state.oversample !== prevState.oversample) {
+    audioNodes.setDriveOversample(state.oversample);
+    audioNodes.setShaperOversample(state.oversample);
+  }
+});
+
 // Initialize audio context on module load
 audioNodes.initializeAudioContext();
 
+// Load worklet processors; rebuild once they are available so worklet
+// oscillators replace their buffer fallbacks
+audioNodes.loadWorklets().then((loaded) => {
+  const audioEngineState = useAudioEngineStore.getState();
+  if (loaded && audioEngineState.isPlaying && !audioEngineState.isNoteHeld) {
+    audioEngineState._recreateAudio();
+  }
+});
+
 // Register all modulatable parameters
 registerAllParameters();
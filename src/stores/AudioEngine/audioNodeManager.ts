@@ -1,4 +1,207 @@
-import { OscillatorNodeSet, LFONodeSet, LFOWaveform } from "../../types";
+import {
+  CrusherNodeSet,
+  CrusherSettings,
+  DelayNodeSet,
+  DelaySettings,
+  DriveCurveType,
+  DynamicsMeter,
+  DynamicsNodeSet,
+  DynamicsSettings,
+  EffectFactory,
+  EffectNodeSets,
+  EffectSlot,
+  EffectSlotNodeSet,
+  EffectsRackNodeSet,
+  EffectType,
+  EQBand,
+  EnvelopeOperation,
+  EQNodeSet,
+  FilterBlock,
+  FilterRouting,
+  FilterSlope,
+  FilterType,
+  OscillatorFilterAssignment,
+  ReverbNodeSet,
+  ReverbSettings,
+  ShaperNodeSet,
+  FMConnectionNodes,
+  FMMode,
+  OscillatorEngine,
+  RingModMode,
+  OscillatorNodeSet,
+  VoiceNodeSet,
+  LFONodeSet,
+  LFOWaveform,
+  GlideRamp,
+  ModEffectNodeSet,
+  ModEffectSettings,
+  ModEffectType,
+  NoiseColor,
+  NoiseNodeSet,
+  NoiseSettings,
+  SubOscNodeSet,
+  SubOscSettings,
+  SubOscWaveform,
+  UnisonCopyNodes,
+  UnisonSettings,
+} from "../../types";
+import {
+  applyEnvelopeOps,
+  getPendingEnvelopeOps,
+  calculateCombFeedback,
+  calculateMixGains,
+  calculatePeakLevel,
+  dbToGain,
+  gainToDb,
+  calculateModEffectSweep,
+  calculateDriveGains,
+  calculateFilterBlendGain,
+  calculateFilterBlendQ,
+  calculateFilterStages,
+  createDriveCurve,
+  createGlideOps,
+  createNoiseSamples,
+  createReverbImpulse,
+  createSubOscTable,
+  calculateSubOscFrequency,
+  NOISE_BUFFER_SECONDS,
+  MAX_DELAY_TIME,
+  MOD_EFFECT_SWEEPS,
+  MOD_EFFECT_TYPES,
+  PHASER_STAGES,
+  calculateUnisonFrequency,
+  calculateUnisonOffsets,
+  DEFAULT_UNISON_SETTINGS,
+  MAX_UNISON_VOICES,
+} from "./helperFunctions";
+import {
+  buildWavetableMipmap,
+  getMipmapLevel,
+  WavetableMipmap,
+} from "../../utils/wavetableMipmap";
+import { DEFAULT_VOICE_COUNT } from "./voiceAllocator";
+
+// AudioWorklet processor modules served from public/worklets
+const WORKLET_MODULES = [
+  "equation-oscillator-processor.js",
+  "comb-filter-processor.js",
+  "bitcrusher-processor.js",
+  "limiter-processor.js",
+];
+
+// Fixed compressor knee (dB)
+const COMPRESSOR_KNEE = 6;
+
+// Limiter recovery time (s)
+const LIMITER_RELEASE = 0.1;
+
+// Effects rack bypass crossfade (s)
+const RACK_FADE_TIME = 0.01;
+
+// Fade of the links between rack slots when they're relinked (s)
+const EFFECT_RELINK_FADE_TIME = 0.03;
+
+type EnvelopeTrackingState = {
+  stage: "idle" | "attack" | "decay" | "sustain" | "release";
+  stageStartTime: number;
+  attackTime: number;
+  decayTime: number;
+  sustainLevel: number;
+  releaseTime: number;
+};
+
+/**
+ * Create an oscillator node set with no nodes attached
+ */
+export const createEmptyOscillatorNodeSet = (): OscillatorNodeSet => ({
+  sourceNode: null,
+  workletNode: null,
+  gainNode: null,
+  waveformBuffer: null,
+  ampEnvelopeNode: null,
+  crossfadeGainNode: null,
+  dryGainNode: null,
+  ringModGainNode: null,
+  wetGainNode: null,
+  pannerNode: null,
+  unisonMixNode: null,
+  unisonCopies: [],
+  unison: DEFAULT_UNISON_SETTINGS,
+  analyserNode: null,
+  wavetable: null,
+  mipmapLevel: null,
+  filterAssignment: "a",
+  frequencyRamp: null,
+  ampEnvelopeOps: [],
+});
+
+/**
+ * Create a noise node set with no nodes attached
+ */
+export const createEmptyNoiseNodeSet = (): NoiseNodeSet => ({
+  sourceNode: null,
+  gainNode: null,
+  ampEnvelopeNode: null,
+  pannerNode: null,
+});
+
+/**
+ * Create a sub-oscillator node set with no nodes attached
+ */
+export const createEmptySubOscNodeSet = (): SubOscNodeSet => ({
+  sourceNode: null,
+  gainNode: null,
+  ampEnvelopeNode: null,
+  wavetable: null,
+  mipmapLevel: null,
+  octave: 1,
+});
+
+/**
+ * Check whether an oscillator node set has a running source
+ * (either a buffer source or a worklet oscillator)
+ */
+export const hasOscillatorSource = (nodeSet: OscillatorNodeSet): boolean =>
+  nodeSet.sourceNode !== null || nodeSet.workletNode !== null;
+
+/**
+ * Create a voice node set with 4 empty oscillator slots
+ */
+export const createEmptyVoiceNodeSet = (): VoiceNodeSet => ({
+  oscillators: Array(4)
+    .fill(null)
+    .map(() => createEmptyOscillatorNodeSet()),
+  mixerGainNode: null,
+  driveInputGain: null,
+  driveNode: null,
+  driveOutputGain: null,
+  filterNodes: [],
+  filterBlendNode: null,
+  filterBlendGain: null,
+  combNode: null,
+  fmNodes: Array(4)
+    .fill(null)
+    .map(() => Array(4).fill(null)),
+  ringModNodes: Array(4).fill(null),
+  syncNodes: Array(4).fill(null),
+  filterBInputGain: null,
+  filterBNodes: [],
+  filterBBlendNode: null,
+  filterBBlendGain: null,
+  filterBCombNode: null,
+  bypassGainNode: null,
+  noise: createEmptyNoiseNodeSet(),
+  subOsc: createEmptySubOscNodeSet(),
+});
+
+const createIdleEnvelopeState = (): EnvelopeTrackingState => ({
+  stage: "idle",
+  stageStartTime: 0,
+  attackTime: 0,
+  decayTime: 0,
+  sustainLevel: 0,
+  releaseTime: 0,
+});
 
 /**
  * External manager class for Web Audio API nodes
@@ -6,177 +209,2504 @@ import { OscillatorNodeSet, LFONodeSet, LFOWaveform } from "../../types";
  */
 export class AudioNodeManager {
   audioContext: AudioContext | null = null;
-  oscillators: OscillatorNodeSet[] = [];
+  voices: VoiceNodeSet[] = [];
   lfoNodes: LFONodeSet[] = [];
-  mixerGainNode: GainNode | null = null;
   masterGainNode: GainNode | null = null;
-  filterNodes: BiquadFilterNode[] = [];
+  effectsRackNodes: EffectsRackNodeSet | null = null; // After the master gain
+  eqNodes: EQNodeSet | null = null; // After the effects rack
+  dynamicsNodes: DynamicsNodeSet | null = null; // Last before the destination
+  limiterReduction: number = 0; // Latest limiter worklet report (dB, <= 0)
   filterEnvelopeNode: GainNode | null = null; // For filter envelope modulation
+  workletsReady: boolean = false; // True once worklet processors are registered
+  filterKeyTrack: number = 0; // Modulated key tracking amount (0-100)
+
+  // Unconnected filters used only to measure the EQ response
+  private eqMeasureNodes: BiquadFilterNode[] = [];
+
+  // Pending end of an effects rack relink (see setEffectSlots)
+  private effectsRackTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Pending worklet module load (shared by concurrent callers)
+  private workletLoader: Promise<boolean> | null = null;
+
+  // Drive curves shared by every voice's shaper
+  private driveCurves: Partial<Record<DriveCurveType, Float32Array>> = {};
+
+  // Band-limited mipmaps keyed by the wavetable they were built from
+  private mipmapCache = new WeakMap<Float32Array, WavetableMipmap>();
+
+  // Noise tables and the buffers every voice's noise source loops
+  private noiseSamples: Partial<Record<NoiseColor, Float32Array>> = {};
+  private noiseBuffers: Partial<Record<NoiseColor, AudioBuffer>> = {};
+
+  // Tables of the sub-oscillator's basic shapes
+  private subOscTables = {
+    sine: createSubOscTable("sine"),
+    square: createSubOscTable("square"),
+  };
+
+  // Reusable buffers for analyser data (performance optimization)
+  private lfoBuffers: Float32Array[];
+  private oscillatorBuffers: Float32Array[]; // Buffers for oscillator output reading
+
+  // Track amp envelope state for each voice (for modulation and voice stealing)
+  private envelopeStates: EnvelopeTrackingState[];
+
+  // Track dedicated modulation envelope state
+  private modEnvelopeState: EnvelopeTrackingState;
+
+  constructor(voiceCount: number = DEFAULT_VOICE_COUNT) {
+    // Initialize empty voice slots (each with 4 oscillator slots)
+    this.voices = Array(voiceCount)
+      .fill(null)
+      .map(() => createEmptyVoiceNodeSet());
+
+    // Initialize 2 empty LFO slots
+    this.lfoNodes = Array(2)
+      .fill(null)
+      .map(() => ({
+        oscillator: null,
+        gainNode: null,
+        analyser: null,
+      }));
+
+    // Initialize reusable buffers for LFO reading (fftSize/2 = 64 samples)
+    this.lfoBuffers = [new Float32Array(64), new Float32Array(64)];
+
+    // Initialize reusable buffers for oscillator reading (fftSize/2 = 64 samples)
+    this.oscillatorBuffers = [
+      new Float32Array(64),
+      new Float32Array(64),
+      new Float32Array(64),
+      new Float32Array(64),
+    ];
+
+    // Initialize envelope states for every voice
+    this.envelopeStates = Array(voiceCount)
+      .fill(null)
+      .map(() => createIdleEnvelopeState());
+
+    // Initialize dedicated modulation envelope state
+    this.modEnvelopeState = createIdleEnvelopeState();
+  }
+
+  /**
+   * Change the number of voice slots
+   * Existing voices must be cleaned up first (see cleanup)
+   */
+  resizeVoices(voiceCount: number): void {
+    this.voices = Array(voiceCount)
+      .fill(null)
+      .map(() => createEmptyVoiceNodeSet());
+    this.envelopeStates = Array(voiceCount)
+      .fill(null)
+      .map(() => createIdleEnvelopeState());
+  }
+
+  /**
+   * Initialize audio context if not already created
+   */
+  initializeAudioContext(): AudioContext {
+    if (!this.audioContext) {
+      this.audioContext = new (window.AudioContext ||
+        (window as any).webkitAudioContext)();
+    }
+    return this.audioContext;
+  }
+
+  /**
+   * Load the AudioWorklet processor modules
+   * Resolves to false when AudioWorklet is unavailable; oscillators then
+   * fall back to buffer playback
+   */
+  loadWorklets(): Promise<boolean> {
+    if (this.workletsReady) return Promise.resolve(true);
+
+    const audioContext = this.audioContext;
+    if (!audioContext || !audioContext.audioWorklet) {
+      return Promise.resolve(false);
+    }
+
+    if (!this.workletLoader) {
+      this.workletLoader = Promise.all(
+        WORKLET_MODULES.map((module) =>
+          audioContext.audioWorklet.addModule(
+            `${process.env.PUBLIC_URL}/worklets/${module}`
+          )
+        )
+      )
+        .then(() => {
+          this.workletsReady = true;
+          return true;
+        })
+        .catch((e) => {
+          console.warn("Failed to load audio worklets:", e);
+          this.workletLoader = null;
+          return false;
+        });
+    }
+
+    return this.workletLoader;
+  }
+
+  /**
+   * Create an oscillator chain (source + gain + envelope + panner nodes)
+   * Uses the worklet oscillator when requested and loaded, otherwise a
+   * looped AudioBufferSourceNode
+   */
+  createOscillatorChain(
+    audioContext: AudioContext,
+    waveformData: Float32Array,
+    frequency: number,
+    volume: number,
+    engine: OscillatorEngine = "buffer",
+    pan: number = 0
+  ): OscillatorNodeSet {
+    // Validate waveformData
+    if (!waveformData || waveformData.length === 0) {
+      console.warn("Cannot create oscillator: waveformData is empty");
+      return createEmptyOscillatorNodeSet();
+    }
+
+    let sourceNode: AudioBufferSourceNode | null = null;
+    let workletNode: AudioWorkletNode | null = null;
+    let buffer: AudioBuffer | null = null;
+    let mipmapLevel: number | null = null;
+    const mipmap = this.getWavetableMipmap(waveformData);
+
+    if (engine === "worklet" && this.workletsReady) {
+      // Create phase-accumulator oscillator reading the same table
+      workletNode = new AudioWorkletNode(audioContext, "equation-oscillator", {
+        numberOfInputs: 2, // Phase modulation, hard sync
+        numberOfOutputs: 2, // Signal, sync pulses
+        outputChannelCount: [1, 1],
+        parameterData: { frequency },
+        processorOptions: {
+          tables: mipmap.tables,
+          baseFrequency: mipmap.baseFrequency,
+        },
+      });
+    } else {
+      // Load the band-limited level for this pitch
+      mipmapLevel = getMipmapLevel(mipmap, frequency);
+
+      // Create AudioBuffer
+      buffer = audioContext.createBuffer(
+        1, // mono
+        waveformData.length,
+        audioContext.sampleRate
+      );
+      // Copy waveform data - create new Float32Array to ensure proper type
+      const bufferData = new Float32Array(mipmap.tables[mipmapLevel]);
+      buffer.copyToChannel(bufferData, 0);
+
+      // Create BufferSourceNode
+      sourceNode = audioContext.createBufferSource();
+      sourceNode.buffer = buffer;
+      sourceNode.loop = true;
+
+      // Calculate playback rate for frequency control
+      const baseCycleFrequency = audioContext.sampleRate / waveformData.length;
+      sourceNode.playbackRate.value = frequency / baseCycleFrequency;
+    }
+
+    // Create GainNode summing the source and its unison copies
+    const unisonMixNode = audioContext.createGain();
+    unisonMixNode.gain.value = 1.0;
+
+    // Create GainNode for volume control
+    const gainNode = audioContext.createGain();
+    gainNode.gain.value = volume;
+
+    // Create GainNode for ADSR envelope (starts at 0)
+    const ampEnvelopeNode = audioContext.createGain();
+    ampEnvelopeNode.gain.value = 0;
+
+    // Create GainNode for crossfade control (starts at 1.0)
+    const crossfadeGainNode = audioContext.createGain();
+    crossfadeGainNode.gain.value = 1.0;
+
+    // Create ring/amplitude modulation stage (starts fully dry)
+    const dryGainNode = audioContext.createGain();
+    dryGainNode.gain.value = 1.0;
+    const ringModGainNode = audioContext.createGain();
+    ringModGainNode.gain.value = 0;
+    const wetGainNode = audioContext.createGain();
+    wetGainNode.gain.value = 0;
+
+    // Create StereoPannerNode (the voice is stereo from here on)
+    const pannerNode = audioContext.createStereoPanner();
+    pannerNode.pan.value = pan;
+
+    // Create AnalyserNode for reading oscillator output as modulation source
+    const analyserNode = audioContext.createAnalyser();
+    analyserNode.fftSize = 128; // Efficient size for control-rate reading
+
+    // Connect source -> unison mix -> gain -> crossfade -> (dry | ring mod -> wet) -> envelope -> panner
+    (workletNode ?? sourceNode)!.connect(unisonMixNode);
+    unisonMixNode.connect(gainNode);
+    gainNode.connect(crossfadeGainNode);
+    crossfadeGainNode.connect(dryGainNode);
+    dryGainNode.connect(ampEnvelopeNode);
+    crossfadeGainNode.connect(ringModGainNode);
+    ringModGainNode.connect(wetGainNode);
+    wetGainNode.connect(ampEnvelopeNode);
+    ampEnvelopeNode.connect(pannerNode);
+
+    // Connect crossfade -> analyser (parallel connection for reading)
+    crossfadeGainNode.connect(analyserNode);
+
+    return {
+      sourceNode,
+      workletNode,
+      gainNode,
+      waveformBuffer: buffer,
+      ampEnvelopeNode,
+      crossfadeGainNode,
+      dryGainNode,
+      ringModGainNode,
+      wetGainNode,
+      pannerNode,
+      unisonMixNode,
+      unisonCopies: [], // Added with applyUnison once the source is playing
+      unison: DEFAULT_UNISON_SETTINGS,
+      analyserNode,
+      wavetable: waveformData,
+      mipmapLevel,
+      filterAssignment: "a", // Set when the panner output is connected
+      frequencyRamp: null,
+      ampEnvelopeOps: [],
+    };
+  }
+
+  /**
+   * Band-limited mipmap of a wavetable, built once per table
+   */
+  getWavetableMipmap(waveformData: Float32Array): WavetableMipmap {
+    let mipmap = this.mipmapCache.get(waveformData);
+    if (!mipmap) {
+      mipmap = buildWavetableMipmap(
+        waveformData,
+        this.audioContext?.sampleRate ?? 44100
+      );
+      this.mipmapCache.set(waveformData, mipmap);
+    }
+    return mipmap;
+  }
+
+  /**
+   * Switch a buffer oscillator to the mipmap level for a new pitch
+   * Buffers can't be swapped in place, so the source is crossfaded.
+   * Worklet oscillators pick their level per block and need no switching.
+   */
+  updateMipmapLevel(
+    voiceIndex: number,
+    oscIndex: number,
+    frequency: number
+  ): void {
+    const nodeSet = this.voices[voiceIndex]?.oscillators[oscIndex];
+    if (!nodeSet?.sourceNode || !nodeSet.wavetable) return;
+
+    const mipmap = this.getWavetableMipmap(nodeSet.wavetable);
+    if (getMipmapLevel(mipmap, frequency) === nodeSet.mipmapLevel) return;
+
+    this.crossfadeWaveform(
+      voiceIndex,
+      oscIndex,
+      nodeSet.wavetable,
+      frequency,
+      nodeSet.gainNode?.gain.value ?? 1,
+      10
+    );
+  }
+
+  /**
+   * Ramp an oscillator to a new frequency
+   * Buffer sources are pitched through playbackRate relative to the table
+   * length; worklet oscillators take the frequency directly. With a glide the
+   * pitch starts from the previous note instead of ramping in 1 ms.
+   */
+  setOscillatorFrequency(
+    nodeSet: OscillatorNodeSet,
+    frequency: number,
+    tableLength: number,
+    time: number,
+    glide?: GlideRamp
+  ): void {
+    nodeSet.frequencyRamp = { frequency, time, glide };
+
+    const source = nodeSet.workletNode ?? nodeSet.sourceNode;
+    if (source) {
+      this.rampSourceFrequency(source, frequency, tableLength, time, glide);
+    }
+
+    // Unison copies keep their offset from the main source
+    const { detune } = nodeSet.unison;
+    nodeSet.unisonCopies.forEach((copy) => {
+      this.rampSourceFrequency(
+        copy.source,
+        calculateUnisonFrequency(frequency, detune, copy.offset),
+        tableLength,
+        time,
+        glide && {
+          ...glide,
+          fromFrequency: calculateUnisonFrequency(
+            glide.fromFrequency,
+            detune,
+            copy.offset
+          ),
+        }
+      );
+    });
+  }
+
+  /**
+   * Schedule an oscillator's amp envelope
+   * The schedule is kept so a crossfade to a new chain can carry it over.
+   */
+  applyOscillatorEnvelope(
+    nodeSet: OscillatorNodeSet,
+    operations: EnvelopeOperation[]
+  ): void {
+    if (!nodeSet.ampEnvelopeNode) return;
+    applyEnvelopeOps(nodeSet.ampEnvelopeNode.gain, operations);
+    nodeSet.ampEnvelopeOps = operations;
+  }
+
+  /**
+   * Ramp one buffer or worklet source to a frequency (see setOscillatorFrequency)
+   */
+  private rampSourceFrequency(
+    source: AudioBufferSourceNode | AudioWorkletNode,
+    frequency: number,
+    tableLength: number,
+    time: number,
+    glide?: GlideRamp
+  ): void {
+    if (!this.audioContext) return;
+
+    let param: AudioParam | undefined;
+    let scale = 1;
+    if ("playbackRate" in source) {
+      param = source.playbackRate;
+      scale = tableLength / this.audioContext.sampleRate;
+    } else {
+      param = source.parameters.get("frequency");
+    }
+    if (!param) return;
+
+    if (glide && glide.duration > 0) {
+      applyEnvelopeOps(
+        param,
+        createGlideOps(
+          glide.fromFrequency * scale,
+          frequency * scale,
+          time,
+          glide.duration,
+          glide.curve
+        )
+      );
+    } else {
+      param.exponentialRampToValueAtTime(
+        Math.max(0.001, frequency * scale), // Prevent zero for exponential
+        time + 0.001
+      );
+    }
+  }
+
+  /**
+   * Add, remove and retune the unison copies of a playing oscillator
+   * Copies play the same table as the main source, each through its own
+   * panner into the unison mix, which is scaled by 1/sqrt(stack size) so a
+   * thicker stack stays at about the same loudness.
+   *
+   * @param frequency - Current frequency of the main source (Hz)
+   */
+  applyUnison(
+    voiceIndex: number,
+    oscIndex: number,
+    settings: UnisonSettings,
+    frequency: number,
+    time: number = this.audioContext?.currentTime ?? 0
+  ): void {
+    const voice = this.voices[voiceIndex];
+    const nodeSet = voice?.oscillators[oscIndex];
+    if (!this.audioContext || !nodeSet?.unisonMixNode || !nodeSet.wavetable) {
+      return;
+    }
+
+    const offsets = calculateUnisonOffsets(
+      Math.min(MAX_UNISON_VOICES, Math.max(1, settings.voices))
+    );
+
+    // Stop the copies past the new stack size
+    nodeSet.unisonCopies.slice(offsets.length).forEach((copy) => {
+      this.disconnectUnisonCopy(voice, oscIndex, copy);
+      this.cleanupUnisonCopy(copy);
+    });
+    nodeSet.unisonCopies = nodeSet.unisonCopies.slice(0, offsets.length);
+
+    offsets.forEach((offset, i) => {
+      const copyFrequency = calculateUnisonFrequency(
+        frequency,
+        settings.detune,
+        offset
+      );
+      const existing = nodeSet.unisonCopies[i];
+      if (existing) {
+        existing.offset = offset;
+        this.rampSourceFrequency(
+          existing.source,
+          copyFrequency,
+          nodeSet.wavetable!.length,
+          time
+        );
+        existing.pannerNode.pan.linearRampToValueAtTime(
+          settings.width * offset,
+          time + 0.01
+        );
+      } else {
+        const copy = this.createUnisonCopy(
+          nodeSet,
+          copyFrequency,
+          offset,
+          settings
+        );
+        if (copy) {
+          this.connectUnisonCopy(voice, oscIndex, copy);
+          nodeSet.unisonCopies.push(copy);
+        }
+      }
+    });
+
+    nodeSet.unisonMixNode.gain.linearRampToValueAtTime(
+      1 / Math.sqrt(nodeSet.unisonCopies.length + 1),
+      time + 0.01
+    );
+    nodeSet.unison = { ...settings };
+  }
+
+  /**
+   * Create and start one unison copy of an oscillator's source
+   */
+  private createUnisonCopy(
+    nodeSet: OscillatorNodeSet,
+    frequency: number,
+    offset: number,
+    settings: UnisonSettings
+  ): UnisonCopyNodes | null {
+    const audioContext = this.audioContext;
+    if (!audioContext || !nodeSet.unisonMixNode || !nodeSet.wavetable) {
+      return null;
+    }
+
+    const startPhase = settings.randomPhase ? Math.random() : 0;
+    let source: AudioBufferSourceNode | AudioWorkletNode;
+
+    if (nodeSet.workletNode) {
+      const mipmap = this.getWavetableMipmap(nodeSet.wavetable);
+      source = new AudioWorkletNode(audioContext, "equation-oscillator", {
+        numberOfInputs: 2,
+        numberOfOutputs: 2,
+        outputChannelCount: [1, 1],
+        parameterData: { frequency },
+        processorOptions: {
+          tables: mipmap.tables,
+          baseFrequency: mipmap.baseFrequency,
+          phase: startPhase,
+        },
+      });
+    } else if (nodeSet.waveformBuffer) {
+      const bufferSource = audioContext.createBufferSource();
+      bufferSource.buffer = nodeSet.waveformBuffer;
+      bufferSource.loop = true;
+      bufferSource.playbackRate.value =
+        (frequency * nodeSet.wavetable.length) / audioContext.sampleRate;
+      bufferSource.start(0, startPhase * nodeSet.waveformBuffer.duration);
+      source = bufferSource;
+    } else {
+      return null;
+    }
+
+    const pannerNode = audioContext.createStereoPanner();
+    pannerNode.pan.value = settings.width * offset;
+    source.connect(pannerNode);
+    pannerNode.connect(nodeSet.unisonMixNode);
+
+    return { source, pannerNode, offset };
+  }
+
+  /**
+   * Worklet sources of an oscillator that FM, sync and feedback act on: the
+   * main source and its unison copies
+   */
+  private getModulatedSources(nodeSet: OscillatorNodeSet): AudioWorkletNode[] {
+    if (!nodeSet.workletNode) return [];
+    return [
+      nodeSet.workletNode,
+      ...nodeSet.unisonCopies
+        .map((copy) => copy.source)
+        .filter((source): source is AudioWorkletNode => "port" in source),
+    ];
+  }
+
+  /**
+   * Connect a new unison copy to the FM matrix, sync master and feedback
+   * amount of its oscillator, like the main source
+   */
+  private connectUnisonCopy(
+    voice: VoiceNodeSet,
+    oscIndex: number,
+    copy: UnisonCopyNodes
+  ): void {
+    const source = copy.source;
+    if (!("port" in source)) return;
+
+    voice.fmNodes.forEach((row) => {
+      const connection = row[oscIndex];
+      if (connection) this.connectFMOutput(connection, source);
+    });
+
+    const sync = voice.syncNodes[oscIndex];
+    const master = sync && voice.oscillators[sync.masterIndex].workletNode;
+    if (sync && master) this.connectSyncOutput(master, sync.delayNode, source);
+
+    const feedback =
+      voice.oscillators[oscIndex].workletNode?.parameters.get("feedback");
+    const copyFeedback = source.parameters.get("feedback");
+    if (feedback && copyFeedback) copyFeedback.value = feedback.value;
+  }
+
+  /**
+   * Remove the FM and sync inputs of a unison copy before it is stopped
+   */
+  private disconnectUnisonCopy(
+    voice: VoiceNodeSet,
+    oscIndex: number,
+    copy: UnisonCopyNodes
+  ): void {
+    const source = copy.source;
+    if (!("port" in source)) return;
+
+    try {
+      voice.fmNodes.forEach((row) => {
+        const connection = row[oscIndex];
+        if (!connection) return;
+        const output = connection.delayNode ?? connection.gainNode;
+        if (connection.mode === "fm") {
+          output.disconnect(source.parameters.get("frequency")!);
+        } else {
+          output.disconnect(source, 0, 0);
+        }
+      });
+
+      const sync = voice.syncNodes[oscIndex];
+      if (sync?.delayNode) {
+        sync.delayNode.disconnect(source, 0, 1);
+      } else if (sync) {
+        voice.oscillators[sync.masterIndex].workletNode?.disconnect(
+          source,
+          1,
+          1
+        );
+      }
+    } catch (e) {
+      // Already disconnected
+    }
+  }
+
+  /**
+   * Stop and disconnect one unison copy
+   */
+  private cleanupUnisonCopy(copy: UnisonCopyNodes): void {
+    if ("port" in copy.source) {
+      copy.source.port.postMessage({ type: "stop" });
+    }
+    this.cleanupNodes(copy.source, copy.pannerNode);
+  }
+
+  /**
+   * Set an oscillator's self-modulation amount (worklet oscillators only)
+   */
+  setOscillatorFeedback(
+    nodeSet: OscillatorNodeSet,
+    amount: number,
+    time: number
+  ): void {
+    this.getModulatedSources(nodeSet).forEach((source) => {
+      const feedbackParam = source.parameters.get("feedback");
+      feedbackParam?.linearRampToValueAtTime(amount, time + 0.01);
+    });
+  }
+
+  /**
+   * Connect one modulator -> carrier pair of a voice's FM matrix
+   * The modulator's raw source output is used, so a modulator can be
+   * silent in the mix. The carrier must be a worklet oscillator.
+   *
+   * @param depth - Connection gain (see calculateFMDepth)
+   */
+  connectFM(
+    voiceIndex: number,
+    modIndex: number,
+    carrierIndex: number,
+    depth: number,
+    mode: FMMode
+  ): void {
+    const voice = this.voices[voiceIndex];
+    if (!this.audioContext || !voice) return;
+
+    const modulator = voice.oscillators[modIndex];
+    const source = modulator.workletNode ?? modulator.sourceNode;
+    const carriers = this.getModulatedSources(voice.oscillators[carrierIndex]);
+    if (!source || carriers.length === 0) return;
+
+    this.disconnectFM(voiceIndex, modIndex, carrierIndex);
+
+    const gainNode = this.audioContext.createGain();
+    gainNode.gain.value = depth;
+    source.connect(gainNode);
+
+    // Web Audio only allows cycles that contain a delay. Backward connections
+    // get a zero-length delay, which only adds latency when a cycle is formed.
+    let delayNode: DelayNode | null = null;
+    if (modIndex > carrierIndex) {
+      delayNode = this.audioContext.createDelay();
+      delayNode.delayTime.value = 0;
+      gainNode.connect(delayNode);
+    }
+
+    const connection = { gainNode, delayNode, mode };
+    carriers.forEach((carrier) => this.connectFMOutput(connection, carrier));
+    voice.fmNodes[modIndex][carrierIndex] = connection;
+  }
+
+  /**
+   * Feed an FM matrix connection into one carrier source
+   */
+  private connectFMOutput(
+    connection: FMConnectionNodes,
+    carrier: AudioWorkletNode
+  ): void {
+    const output = connection.delayNode ?? connection.gainNode;
+    if (connection.mode === "fm") {
+      output.connect(carrier.parameters.get("frequency")!);
+    } else {
+      output.connect(carrier, 0, 0); // Phase modulation input
+    }
+  }
+
+  /**
+   * Update the depth of an existing FM matrix connection
+   */
+  setFMDepth(
+    voiceIndex: number,
+    modIndex: number,
+    carrierIndex: number,
+    depth: number,
+    time: number
+  ): void {
+    const connection = this.voices[voiceIndex]?.fmNodes[modIndex][carrierIndex];
+    if (!connection) return;
+
+    // Short ramp to prevent zipper noise
+    connection.gainNode.gain.linearRampToValueAtTime(depth, time + 0.005);
+  }
+
+  /**
+   * Remove one FM matrix connection from a voice
+   */
+  disconnectFM(
+    voiceIndex: number,
+    modIndex: number,
+    carrierIndex: number
+  ): void {
+    const voice = this.voices[voiceIndex];
+    const connection = voice?.fmNodes[modIndex][carrierIndex];
+    if (!connection) return;
+
+    this.cleanupNodes(connection.gainNode, connection.delayNode);
+    voice.fmNodes[modIndex][carrierIndex] = null;
+  }
+
+  /**
+   * Hard sync a slave oscillator to a master oscillator in one voice
+   * The master's sync pulse output drives the slave's sync input, so both
+   * must be worklet oscillators.
+   */
+  connectSync(
+    voiceIndex: number,
+    slaveIndex: number,
+    masterIndex: number
+  ): void {
+    const voice = this.voices[voiceIndex];
+    if (!this.audioContext || !voice) return;
+
+    this.disconnectSync(voiceIndex, slaveIndex);
+
+    const master = voice.oscillators[masterIndex]?.workletNode;
+    const slaves = this.getModulatedSources(voice.oscillators[slaveIndex]);
+    if (!master || slaves.length === 0 || masterIndex === slaveIndex) return;
+
+    // Backward connections get a zero-length delay, as in the FM matrix
+    let delayNode: DelayNode | null = null;
+    if (masterIndex > slaveIndex) {
+      delayNode = this.audioContext.createDelay();
+      delayNode.delayTime.value = 0;
+      master.connect(delayNode, 1);
+    }
+    slaves.forEach((slave) => this.connectSyncOutput(master, delayNode, slave));
+
+    voice.syncNodes[slaveIndex] = { masterIndex, delayNode };
+  }
+
+  /**
+   * Feed a master's sync pulses (through its delay, if any) into one slave
+   * source's sync input
+   */
+  private connectSyncOutput(
+    master: AudioWorkletNode,
+    delayNode: DelayNode | null,
+    slave: AudioWorkletNode
+  ): void {
+    if (delayNode) {
+      delayNode.connect(slave, 0, 1);
+    } else {
+      master.connect(slave, 1, 1);
+    }
+  }
+
+  /**
+   * Remove a slave oscillator's hard sync connection
+   */
+  disconnectSync(voiceIndex: number, slaveIndex: number): void {
+    const voice = this.voices[voiceIndex];
+    const connection = voice?.syncNodes[slaveIndex];
+    if (!connection) return;
+
+    const master = voice.oscillators[connection.masterIndex].workletNode;
+    const targets = connection.delayNode
+      ? [connection.delayNode]
+      : this.getModulatedSources(voice.oscillators[slaveIndex]);
+    targets.forEach((target) => {
+      try {
+        master?.disconnect(target, 1);
+      } catch (e) {
+        // Already disconnected
+      }
+    });
+
+    this.cleanupNodes(connection.delayNode);
+    voice.syncNodes[slaveIndex] = null;
+  }
+
+  /**
+   * Feed a source oscillator into a carrier's ring modulator
+   * The source's raw output drives the carrier's ringModGainNode gain:
+   * - rm: gain = source (bipolar multiplication)
+   * - am: gain = 0.5 + 0.5 * source (unipolar)
+   */
+  connectRingMod(
+    voiceIndex: number,
+    carrierIndex: number,
+    sourceIndex: number,
+    mode: RingModMode
+  ): void {
+    const voice = this.voices[voiceIndex];
+    if (!this.audioContext || !voice) return;
+
+    this.disconnectRingMod(voiceIndex, carrierIndex);
+
+    const sourceSet = voice.oscillators[sourceIndex];
+    const source = sourceSet?.workletNode ?? sourceSet?.sourceNode;
+    const ringModGainNode = voice.oscillators[carrierIndex].ringModGainNode;
+    if (!source || !ringModGainNode || mode === "off") return;
+
+    const gainNode = this.audioContext.createGain();
+    gainNode.gain.value = mode === "am" ? 0.5 : 1.0;
+    ringModGainNode.gain.value = mode === "am" ? 0.5 : 0;
+
+    source.connect(gainNode);
+    gainNode.connect(ringModGainNode.gain);
+
+    voice.ringModNodes[carrierIndex] = { gainNode, sourceIndex };
+  }
+
+  /**
+   * Remove the ring modulator input of a carrier oscillator
+   */
+  disconnectRingMod(voiceIndex: number, carrierIndex: number): void {
+    const voice = this.voices[voiceIndex];
+    const connection = voice?.ringModNodes[carrierIndex];
+    if (!connection) return;
+
+    this.cleanupNodes(connection.gainNode);
+    voice.ringModNodes[carrierIndex] = null;
+
+    const ringModGainNode = voice.oscillators[carrierIndex].ringModGainNode;
+    if (ringModGainNode) ringModGainNode.gain.value = 0;
+  }
+
+  /**
+   * Set the dry/wet balance of an oscillator's ring modulator
+   */
+  setRingModMix(nodeSet: OscillatorNodeSet, mix: number, time: number): void {
+    nodeSet.dryGainNode?.gain.linearRampToValueAtTime(1 - mix, time + 0.01);
+    nodeSet.wetGainNode?.gain.linearRampToValueAtTime(mix, time + 0.01);
+  }
+
+  /**
+   * Post a new wavetable to every worklet oscillator in an oscillator slot
+   * The processor crossfades to the new table, so the graph is not rebuilt
+   *
+   * @returns false if any voice plays that slot through a buffer source
+   * (which needs a rebuild or crossfade instead)
+   */
+  postWaveformTable(oscIndex: number, waveformData: Float32Array): boolean {
+    const usesBuffers = this.voices.some(
+      (voice) => voice.oscillators[oscIndex]?.sourceNode
+    );
+    if (usesBuffers) return false;
+
+    const mipmap = this.getWavetableMipmap(waveformData);
+    const message = {
+      type: "table",
+      tables: mipmap.tables,
+      baseFrequency: mipmap.baseFrequency,
+    };
+    this.voices.forEach((voice) => {
+      const nodeSet = voice.oscillators[oscIndex];
+      if (nodeSet?.workletNode) {
+        nodeSet.workletNode.port.postMessage(message);
+        nodeSet.unisonCopies.forEach((copy) => {
+          if ("port" in copy.source) {
+            copy.source.port.postMessage(message);
+          }
+        });
+        nodeSet.wavetable = waveformData;
+      }
+    });
+
+    return true;
+  }
+
+  /**
+   * Create an 8-stage filter cascade with proper Q distribution
+   * - Equal frequency for all stages
+   * - One active stage per 12 dB of slope, Q spread as a Butterworth
+   *   response with resonance shared between the stages
+   * - Remaining stages pass audio unchanged
+   *
+   * The stages are connected in series; connect into the first node with
+   * connectFilterInput and out of the last one. Other modes and slopes
+   * reconfigure the same stages (see calculateFilterStages).
+   */
+  createFilterCascade(
+    audioContext: AudioContext,
+    cutoff: number,
+    resonance: number,
+    filterType: FilterType = "lowpass",
+    slope: FilterSlope = 24
+  ): BiquadFilterNode[] {
+    const stages = calculateFilterStages(filterType, resonance, slope);
+
+    const filters = stages.map((stage) => {
+      const filter = audioContext.createBiquadFilter();
+      filter.type = stage.type;
+      filter.frequency.value = cutoff;
+      filter.Q.value = stage.Q;
+      filter.gain.value = stage.gain;
+      return filter;
+    });
+
+    for (let i = 0; i < filters.length - 1; i++) {
+      filters[i].connect(filters[i + 1]);
+    }
+
+    return filters;
+  }
+
+  /**
+   * Create a voice's 6 dB blend: a bandpass in parallel with the first
+   * cascade stage, mixed into the second one
+   * Its gain is 0 for every other slope and mode.
+   */
+  createFilterBlend(
+    voiceIndex: number,
+    cutoff: number,
+    resonance: number,
+    filterType: FilterType,
+    slope: FilterSlope,
+    block: FilterBlock = "a"
+  ): void {
+    const voice = this.voices[voiceIndex];
+    if (!this.audioContext || !voice) return;
+
+    const filterNodes = block === "a" ? voice.filterNodes : voice.filterBNodes;
+    if (filterNodes.length < 2) return;
+
+    const blendNode = this.audioContext.createBiquadFilter();
+    blendNode.type = "bandpass";
+    blendNode.frequency.value = cutoff;
+    blendNode.Q.value = calculateFilterBlendQ(resonance, slope);
+
+    const blendGain = this.audioContext.createGain();
+    blendGain.gain.value = calculateFilterBlendGain(filterType, slope);
+
+    blendNode.connect(blendGain);
+    blendGain.connect(filterNodes[1]);
+
+    if (block === "a") {
+      voice.filterBlendNode = blendNode;
+      voice.filterBlendGain = blendGain;
+    } else {
+      voice.filterBBlendNode = blendNode;
+      voice.filterBBlendGain = blendGain;
+    }
+  }
+
+  /**
+   * Nodes of one of a voice's filter blocks
+   */
+  private getFilterBlockNodes(voice: VoiceNodeSet, block: FilterBlock) {
+    return block === "a"
+      ? {
+          filterNodes: voice.filterNodes,
+          blendNode: voice.filterBlendNode,
+          blendGain: voice.filterBlendGain,
+          combNode: voice.combNode,
+        }
+      : {
+          filterNodes: voice.filterBNodes,
+          blendNode: voice.filterBBlendNode,
+          blendGain: voice.filterBBlendGain,
+          combNode: voice.filterBCombNode,
+        };
+  }
+
+  /**
+   * Last node of a filter block (the comb, or the cascade without one)
+   */
+  private getFilterBlockOutput(
+    voice: VoiceNodeSet,
+    block: FilterBlock
+  ): AudioNode | null {
+    const { filterNodes, combNode } = this.getFilterBlockNodes(voice, block);
+    return combNode ?? filterNodes[filterNodes.length - 1] ?? null;
+  }
+
+  /**
+   * Connect a source into a voice's filter block (cascade and 6 dB blend)
+   */
+  connectFilterInput(
+    voiceIndex: number,
+    source: AudioNode,
+    block: FilterBlock = "a"
+  ): void {
+    const voice = this.voices[voiceIndex];
+    if (!voice) return;
+
+    const { filterNodes, blendNode } = this.getFilterBlockNodes(voice, block);
+    if (filterNodes.length === 0) return;
+
+    source.connect(filterNodes[0]);
+    if (blendNode) source.connect(blendNode);
+  }
+
+  /**
+   * Wire a voice's filter blocks once its nodes exist:
+   * drive -> filter A, B bus -> filter B, cascades -> combs, filter B and
+   * bypass -> master, then the routing-dependent connections
+   */
+  connectFilterBlocks(voiceIndex: number, routing: FilterRouting): void {
+    const voice = this.voices[voiceIndex];
+    if (!voice || !this.masterGainNode) return;
+
+    if (voice.driveOutputGain) {
+      this.connectFilterInput(voiceIndex, voice.driveOutputGain, "a");
+    }
+    if (voice.filterBInputGain) {
+      this.connectFilterInput(voiceIndex, voice.filterBInputGain, "b");
+    }
+
+    (["a", "b"] as FilterBlock[]).forEach((block) => {
+      const { filterNodes, combNode } = this.getFilterBlockNodes(voice, block);
+      if (combNode && filterNodes.length > 0) {
+        filterNodes[filterNodes.length - 1].connect(combNode);
+      }
+    });
+
+    this.getFilterBlockOutput(voice, "b")?.connect(this.masterGainNode);
+    voice.bypassGainNode?.connect(this.masterGainNode);
+
+    this.connectFilterRouting(voiceIndex, routing);
+  }
+
+  /**
+   * Connect filter A's input and output according to the routing
+   * Existing routing connections are removed first, so this also switches
+   * routing live.
+   */
+  connectFilterRouting(voiceIndex: number, routing: FilterRouting): void {
+    const voice = this.voices[voiceIndex];
+    if (!voice || !this.masterGainNode || !voice.filterBInputGain) return;
+
+    const outputA = this.getFilterBlockOutput(voice, "a");
+    if (!outputA) return;
+
+    // Filter A's output only feeds master or the B bus
+    outputA.disconnect();
+    if (voice.driveOutputGain) {
+      try {
+        voice.driveOutputGain.disconnect(voice.filterBInputGain);
+      } catch {
+        // Not connected (serial or split routing)
+      }
+    }
+
+    if (routing === "serial") {
+      outputA.connect(voice.filterBInputGain);
+    } else {
+      outputA.connect(this.masterGainNode);
+      if (routing === "parallel") {
+        voice.driveOutputGain?.connect(voice.filterBInputGain);
+      }
+    }
+  }
+
+  /**
+   * Connect an oscillator's panned output to the filter input(s) of its
+   * assignment (drive/filter A bus, filter B bus or bypass)
+   */
+  connectOscillatorOutput(
+    voiceIndex: number,
+    oscIndex: number,
+    assignment: OscillatorFilterAssignment
+  ): void {
+    const voice = this.voices[voiceIndex];
+    const nodeSet = voice?.oscillators[oscIndex];
+    const output = nodeSet && this.getOscillatorOutput(nodeSet);
+    if (!nodeSet || !output) return;
+
+    output.disconnect();
+    this.connectToFilterInputs(voice, nodeSet, assignment);
+  }
+
+  /**
+   * Last node of an oscillator chain (the panner, or the envelope of a
+   * chain built without one)
+   */
+  private getOscillatorOutput(nodeSet: OscillatorNodeSet): AudioNode | null {
+    return nodeSet.pannerNode ?? nodeSet.ampEnvelopeNode;
+  }
+
+  /**
+   * Connect an oscillator's output to the inputs of an assignment
+   */
+  private connectToFilterInputs(
+    voice: VoiceNodeSet,
+    nodeSet: OscillatorNodeSet,
+    assignment: OscillatorFilterAssignment
+  ): void {
+    nodeSet.filterAssignment = assignment;
+    const output = this.getOscillatorOutput(nodeSet);
+    if (!output) return;
+
+    this.getFilterInputs(voice, assignment).forEach((target) =>
+      output.connect(target)
+    );
+  }
+
+  /**
+   * Input buses of a voice that a filter assignment feeds
+   */
+  private getFilterInputs(
+    voice: VoiceNodeSet,
+    assignment: OscillatorFilterAssignment
+  ): GainNode[] {
+    const targets: Record<OscillatorFilterAssignment, (GainNode | null)[]> = {
+      a: [voice.mixerGainNode],
+      b: [voice.filterBInputGain],
+      both: [voice.mixerGainNode, voice.filterBInputGain],
+      bypass: [voice.bypassGainNode],
+    };
+
+    return targets[assignment].filter(
+      (target): target is GainNode => target !== null
+    );
+  }
+
+  /**
+   * Noise table of a color, generated once
+   */
+  private getNoiseSamples(color: NoiseColor): Float32Array {
+    let samples = this.noiseSamples[color];
+    if (!samples) {
+      const sampleRate = this.audioContext?.sampleRate ?? 44100;
+      samples = createNoiseSamples(color, sampleRate * NOISE_BUFFER_SECONDS);
+      this.noiseSamples[color] = samples;
+    }
+    return samples;
+  }
+
+  /**
+   * Looped noise buffer of a color, shared by every voice
+   */
+  private getNoiseBuffer(color: NoiseColor): AudioBuffer | null {
+    if (!this.audioContext) return null;
+
+    let buffer = this.noiseBuffers[color];
+    if (!buffer) {
+      const samples = this.getNoiseSamples(color);
+      buffer = this.audioContext.createBuffer(
+        1,
+        samples.length,
+        this.audioContext.sampleRate
+      );
+      buffer.copyToChannel(new Float32Array(samples), 0);
+      this.noiseBuffers[color] = buffer;
+    }
+    return buffer;
+  }
+
+  /**
+   * Create and start a looped noise source
+   * Each voice starts at a random point so voices don't play the same noise.
+   */
+  private createNoiseSource(color: NoiseColor): AudioBufferSourceNode | null {
+    const buffer = this.getNoiseBuffer(color);
+    if (!this.audioContext || !buffer) return null;
+
+    const sourceNode = this.audioContext.createBufferSource();
+    sourceNode.buffer = buffer;
+    sourceNode.loop = true;
+    sourceNode.start(0, Math.random() * buffer.duration);
+    return sourceNode;
+  }
+
+  /**
+   * Create a voice's noise chain: source -> level -> envelope -> panner
+   * The panner feeds the filter input(s) of the noise's assignment.
+   */
+  createNoiseChain(voiceIndex: number, settings: NoiseSettings): void {
+    const voice = this.voices[voiceIndex];
+    if (!this.audioContext || !voice) return;
+
+    const gainNode = this.audioContext.createGain();
+    gainNode.gain.value = settings.level;
+
+    // Starts silent like the oscillator envelopes
+    const ampEnvelopeNode = this.audioContext.createGain();
+    ampEnvelopeNode.gain.value = 0;
+
+    const pannerNode = this.audioContext.createStereoPanner();
+    pannerNode.pan.value = settings.pan;
+
+    const sourceNode = this.createNoiseSource(settings.color);
+    sourceNode?.connect(gainNode);
+    gainNode.connect(ampEnvelopeNode);
+    ampEnvelopeNode.connect(pannerNode);
+
+    voice.noise = { sourceNode, gainNode, ampEnvelopeNode, pannerNode };
+    this.connectNoiseOutput(voiceIndex, settings.filter);
+  }
+
+  /**
+   * Route a voice's noise to the input(s) of a filter assignment
+   */
+  connectNoiseOutput(
+    voiceIndex: number,
+    assignment: OscillatorFilterAssignment
+  ): void {
+    const voice = this.voices[voiceIndex];
+    const output = voice?.noise.pannerNode;
+    if (!output) return;
+
+    output.disconnect();
+    this.getFilterInputs(voice, assignment).forEach((target) =>
+      output.connect(target)
+    );
+  }
+
+  /**
+   * Switch a voice's noise source to another color
+   */
+  setNoiseColor(voiceIndex: number, color: NoiseColor): void {
+    const noise = this.voices[voiceIndex]?.noise;
+    if (!noise?.gainNode) return;
+
+    this.cleanupNodes(noise.sourceNode);
+    noise.sourceNode = this.createNoiseSource(color);
+    noise.sourceNode?.connect(noise.gainNode);
+  }
+
+  /**
+   * Create a voice's sub-oscillator chain: source -> level -> envelope
+   * The envelope feeds the filter input(s) of oscillator 1's assignment.
+   *
+   * @param osc1Table - Oscillator 1's table (played by the "osc1" waveform)
+   * @param osc1Frequency - Oscillator 1's frequency, detune included (Hz)
+   */
+  createSubOscChain(
+    voiceIndex: number,
+    settings: SubOscSettings,
+    osc1Table: Float32Array | null,
+    osc1Frequency: number,
+    assignment: OscillatorFilterAssignment
+  ): void {
+    const voice = this.voices[voiceIndex];
+    if (!this.audioContext || !voice) return;
+
+    const gainNode = this.audioContext.createGain();
+    gainNode.gain.value = settings.level;
+
+    // Starts silent like the oscillator envelopes
+    const ampEnvelopeNode = this.audioContext.createGain();
+    ampEnvelopeNode.gain.value = 0;
+    gainNode.connect(ampEnvelopeNode);
+
+    voice.subOsc = {
+      ...createEmptySubOscNodeSet(),
+      gainNode,
+      ampEnvelopeNode,
+    };
+    this.setSubOscSource(
+      voiceIndex,
+      settings.waveform,
+      osc1Table,
+      settings.octave,
+      osc1Frequency
+    );
+    this.connectSubOscOutput(voiceIndex, assignment);
+  }
+
+  /**
+   * Replace a voice's sub-oscillator source (new waveform, octave or
+   * oscillator 1 table)
+   */
+  setSubOscSource(
+    voiceIndex: number,
+    waveform: SubOscWaveform,
+    osc1Table: Float32Array | null,
+    octave: number,
+    osc1Frequency: number
+  ): void {
+    const subOsc = this.voices[voiceIndex]?.subOsc;
+    if (!subOsc?.gainNode) return;
+
+    subOsc.octave = octave;
+    subOsc.wavetable =
+      waveform === "osc1" ? osc1Table : this.subOscTables[waveform];
+    this.startSubOscSource(
+      subOsc,
+      calculateSubOscFrequency(osc1Frequency, octave)
+    );
+  }
+
+  /**
+   * Start a looped source on the sub-oscillator's table at the band-limited
+   * level for a frequency, stopping the previous one
+   */
+  private startSubOscSource(subOsc: SubOscNodeSet, frequency: number): void {
+    this.cleanupNodes(subOsc.sourceNode);
+    subOsc.sourceNode = null;
+    subOsc.mipmapLevel = null;
+
+    const table = subOsc.wavetable;
+    if (!this.audioContext || !subOsc.gainNode || !table?.length) return;
+
+    const mipmap = this.getWavetableMipmap(table);
+    const mipmapLevel = getMipmapLevel(mipmap, frequency);
+    const buffer = this.audioContext.createBuffer(
+      1,
+      table.length,
+      this.audioContext.sampleRate
+    );
+    buffer.copyToChannel(new Float32Array(mipmap.tables[mipmapLevel]), 0);
+
+    const sourceNode = this.audioContext.createBufferSource();
+    sourceNode.buffer = buffer;
+    sourceNode.loop = true;
+    sourceNode.playbackRate.value =
+      (frequency * table.length) / this.audioContext.sampleRate;
+    sourceNode.connect(subOsc.gainNode);
+    sourceNode.start();
+
+    subOsc.sourceNode = sourceNode;
+    subOsc.mipmapLevel = mipmapLevel;
+  }
+
+  /**
+   * Retune a voice's sub-oscillator below a new oscillator 1 frequency
+   * Moving to another octave's band-limited level restarts the source.
+   */
+  setSubOscFrequency(
+    voiceIndex: number,
+    osc1Frequency: number,
+    time: number,
+    glide?: GlideRamp
+  ): void {
+    const subOsc = this.voices[voiceIndex]?.subOsc;
+    if (!subOsc?.sourceNode || !subOsc.wavetable) return;
+
+    const frequency = calculateSubOscFrequency(osc1Frequency, subOsc.octave);
+    const mipmap = this.getWavetableMipmap(subOsc.wavetable);
+    if (getMipmapLevel(mipmap, frequency) !== subOsc.mipmapLevel) {
+      this.startSubOscSource(subOsc, frequency);
+    }
+
+    this.rampSourceFrequency(
+      subOsc.sourceNode!,
+      frequency,
+      subOsc.wavetable.length,
+      time,
+      glide && {
+        ...glide,
+        fromFrequency: calculateSubOscFrequency(
+          glide.fromFrequency,
+          subOsc.octave
+        ),
+      }
+    );
+  }
+
+  /**
+   * Route a voice's sub-oscillator to the input(s) of a filter assignment
+   */
+  connectSubOscOutput(
+    voiceIndex: number,
+    assignment: OscillatorFilterAssignment
+  ): void {
+    const voice = this.voices[voiceIndex];
+    const output = voice?.subOsc.ampEnvelopeNode;
+    if (!output) return;
+
+    output.disconnect();
+    this.getFilterInputs(voice, assignment).forEach((target) =>
+      output.connect(target)
+    );
+  }
+
+  /**
+   * Create a voice's drive stage: input gain -> WaveShaper -> output gain
+   * Connect into driveInputGain and out of driveOutputGain.
+   */
+  createDriveStage(
+    voiceIndex: number,
+    drive: number,
+    curve: DriveCurveType,
+    oversample: OverSampleType
+  ): void {
+    const voice = this.voices[voiceIndex];
+    if (!this.audioContext || !voice) return;
+
+    const gains = calculateDriveGains(drive);
+
+    const driveInputGain = this.audioContext.createGain();
+    driveInputGain.gain.value = gains.input;
+
+    const driveNode = this.audioContext.createWaveShaper();
+    driveNode.curve = this.getDriveCurve(curve);
+    driveNode.oversample = oversample;
+
+    const driveOutputGain = this.audioContext.createGain();
+    driveOutputGain.gain.value = gains.output;
+
+    driveInputGain.connect(driveNode);
+    driveNode.connect(driveOutputGain);
+
+    voice.driveInputGain = driveInputGain;
+    voice.driveNode = driveNode;
+    voice.driveOutputGain = driveOutputGain;
+  }
+
+  /**
+   * Shared transfer curve for a drive type
+   */
+  private getDriveCurve(curve: DriveCurveType): Float32Array {
+    if (!this.driveCurves[curve]) {
+      this.driveCurves[curve] = createDriveCurve(curve);
+    }
+    return this.driveCurves[curve]!;
+  }
+
+  /**
+   * Set the drive amount (0-1) on every voice
+   */
+  setDrive(drive: number, time: number): void {
+    const gains = calculateDriveGains(drive);
+    this.voices.forEach((voice) => {
+      voice.driveInputGain?.gain.linearRampToValueAtTime(
+        gains.input,
+        time + 0.01
+      );
+      voice.driveOutputGain?.gain.linearRampToValueAtTime(
+        gains.output,
+        time + 0.01
+      );
+    });
+  }
+
+  /**
+   * Switch every voice's shaper to a drive curve
+   */
+  setDriveCurve(curve: DriveCurveType): void {
+    const values = this.getDriveCurve(curve);
+    this.voices.forEach((voice) => {
+      if (voice.driveNode && voice.driveNode.curve !== values) {
+        voice.driveNode.curve = values;
+      }
+    });
+  }
+
+  /**
+   * Set the shaper oversampling on every voice
+   */
+  setDriveOversample(oversample: OverSampleType): void {
+    this.voices.forEach((voice) => {
+      if (voice.driveNode) voice.driveNode.oversample = oversample;
+    });
+  }
+
+  /**
+   * Create a voice's comb filter (worklet only)
+   * It always sits after the cascade and passes audio unchanged outside
+   * comb mode. Returns null when worklets aren't available.
+   */
+  createCombFilter(
+    audioContext: AudioContext,
+    cutoff: number,
+    resonance: number,
+    filterType: FilterType
+  ): AudioWorkletNode | null {
+    if (!this.workletsReady) return null;
+
+    const isComb = filterType === "comb";
+    return new AudioWorkletNode(audioContext, "comb-filter", {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      outputChannelCount: [2], // Stereo, like the rest of the voice
+      parameterData: {
+        frequency: Math.max(20, cutoff),
+        feedback: isComb ? calculateCombFeedback(resonance) : 0,
+        mix: isComb ? 1 : 0,
+      },
+    });
+  }
+
+  /**
+   * Every AudioParam that follows the filter cutoff in one voice's filter
+   * block (each cascade stage, the 6 dB blend and the comb frequency)
+   */
+  getFilterFrequencyParams(
+    voiceIndex: number,
+    block: FilterBlock = "a"
+  ): AudioParam[] {
+    const voice = this.voices[voiceIndex];
+    if (!voice) return [];
+
+    const { filterNodes, blendNode, combNode } = this.getFilterBlockNodes(
+      voice,
+      block
+    );
+    const params = filterNodes.map((filter) => filter.frequency);
+    if (blendNode) params.push(blendNode.frequency);
+    const combFrequency = combNode?.parameters.get("frequency");
+    if (combFrequency) params.push(combFrequency);
+    return params;
+  }
+
+  /**
+   * Apply a filter mode, resonance and slope to one filter block of every voice
+   * With a time the Q and comb feedback ramp; without one values are set
+   * directly so modulation doesn't cancel envelope automation.
+   */
+  configureFilters(
+    filterType: FilterType,
+    resonance: number,
+    slope: FilterSlope,
+    time?: number,
+    block: FilterBlock = "a"
+  ): void {
+    const stages = calculateFilterStages(filterType, resonance, slope);
+    const blendGain = calculateFilterBlendGain(filterType, slope);
+    const blendQ = calculateFilterBlendQ(resonance, slope);
+    const isComb = filterType === "comb";
+    const feedback = isComb ? calculateCombFeedback(resonance) : 0;
+
+    const setParam = (param: AudioParam | undefined, value: number) => {
+      if (!param) return;
+      if (time === undefined) {
+        param.value = value;
+      } else {
+        param.linearRampToValueAtTime(value, time + 0.01);
+      }
+    };
+
+    this.voices.forEach((voice) => {
+      const nodes = this.getFilterBlockNodes(voice, block);
+
+      nodes.filterNodes.forEach((filter, index) => {
+        const stage = stages[index];
+        if (!stage) return;
+        if (filter.type !== stage.type) filter.type = stage.type;
+        setParam(filter.Q, stage.Q);
+        setParam(filter.gain, stage.gain);
+      });
+
+      if (nodes.blendNode && nodes.blendGain) {
+        setParam(nodes.blendNode.Q, blendQ);
+        setParam(nodes.blendGain.gain, blendGain);
+      }
+
+      if (nodes.combNode) {
+        setParam(nodes.combNode.parameters.get("feedback"), feedback);
+        setParam(nodes.combNode.parameters.get("mix"), isComb ? 1 : 0);
+      }
+    });
+  }
+
+  /**
+   * Create a bit crusher (worklet only)
+   * Plug it into a rack slot (see createEffectsRack). Returns null when
+   * worklets aren't available, leaving the slot empty.
+   */
+  createCrusher(settings: CrusherSettings): CrusherNodeSet | null {
+    if (!this.audioContext || !this.workletsReady) return null;
+
+    const workletNode = new AudioWorkletNode(this.audioContext, "bitcrusher", {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      outputChannelCount: [2],
+      parameterData: {
+        bits: settings.bits,
+        rate: settings.rate,
+        mix: settings.mix,
+      },
+    });
+
+    return { inputNode: workletNode, outputNode: workletNode };
+  }
+
+  /**
+   * Ramp one of a bit crusher slot's parameters (bits, rate or mix)
+   */
+  setCrusherParam(
+    id: string,
+    name: keyof CrusherSettings,
+    value: number,
+    time: number
+  ): void {
+    const param = this.getEffectNodes(id, "crusher")?.inputNode.parameters.get(
+      name
+    );
+    if (!param) return;
+    param.linearRampToValueAtTime(value, time + 0.01);
+  }
+
+  /**
+   * Create a waveshaper
+   * Plug it into a rack slot (see createEffectsRack).
+   */
+  createShaper(
+    curve: Float32Array,
+    mix: number,
+    oversample: OverSampleType
+  ): ShaperNodeSet | null {
+    if (!this.audioContext) return null;
+    const ctx = this.audioContext;
+    const gains = calculateMixGains(mix);
+
+    const inputNode = ctx.createGain();
+    const outputNode = ctx.createGain();
+    const dryGainNode = ctx.createGain();
+    dryGainNode.gain.value = gains.dry;
+    const wetGainNode = ctx.createGain();
+    wetGainNode.gain.value = gains.wet;
+    const shaperNode = ctx.createWaveShaper();
+    shaperNode.curve = curve;
+    shaperNode.oversample = oversample;
+
+    inputNode.connect(dryGainNode);
+    dryGainNode.connect(outputNode);
+    inputNode.connect(shaperNode);
+    shaperNode.connect(wetGainNode);
+    wetGainNode.connect(outputNode);
+
+    return {
+      inputNode,
+      outputNode,
+      dryGainNode,
+      wetGainNode,
+      shaperNode,
+    };
+  }
+
+  /**
+   * Replace a waveshaper slot's transfer curve
+   */
+  setShaperCurve(id: string, curve: Float32Array): void {
+    const nodes = this.getEffectNodes(id, "shaper");
+    if (!nodes) return;
+    nodes.shaperNode.curve = curve;
+  }
+
+  /**
+   * Set a waveshaper slot's dry/wet mix (0-1)
+   */
+  setShaperMix(id: string, mix: number, time: number): void {
+    const nodes = this.getEffectNodes(id, "shaper");
+    if (!nodes) return;
+    const gains = calculateMixGains(mix);
+    nodes.dryGainNode.gain.linearRampToValueAtTime(gains.dry, time + 0.01);
+    nodes.wetGainNode.gain.linearRampToValueAtTime(gains.wet, time + 0.01);
+  }
+
+  /**
+   * Set the oversampling of every waveshaper in the rack
+   */
+  setShaperOversample(oversample: OverSampleType): void {
+    this.getEffectSlotNodes().forEach((slot) => {
+      if (slot.type === "shaper" && slot.effect) {
+        slot.effect.shaperNode.oversample = oversample;
+      }
+    });
+  }
+
+  /**
+   * Create a modulation effect (chorus, flanger or phaser)
+   * Plug it into a rack slot (see createEffectsRack).
+   */
+  createModEffect(
+    type: ModEffectType,
+    settings: ModEffectSettings
+  ): ModEffectNodeSet | null {
+    if (!this.audioContext) return null;
+    const ctx = this.audioContext;
+    const gains = calculateMixGains(settings.mix);
+    const sweep = MOD_EFFECT_SWEEPS[type];
+
+    const inputNode = ctx.createGain();
+    const outputNode = ctx.createGain();
+    const dryGainNode = ctx.createGain();
+    dryGainNode.gain.value = gains.dry;
+    const wetGainNode = ctx.createGain();
+    wetGainNode.gain.value = gains.wet;
+    const splitterNode = ctx.createChannelSplitter(2);
+    const mergerNode = ctx.createChannelMerger(2);
+
+    const lfoNode = ctx.createOscillator();
+    lfoNode.frequency.value = settings.rate;
+
+    const depthGainNodes: GainNode[] = [];
+    const feedbackGainNodes: GainNode[] = [];
+    const stageNodes = [0, 1].map((side) => {
+      // Opposite sweeps on each side widen the effect
+      const depthGain = ctx.createGain();
+      depthGain.gain.value =
+        (side === 0 ? 1 : -1) * calculateModEffectSweep(type, settings.depth);
+      depthGainNodes.push(depthGain);
+
+      const stages: (DelayNode | BiquadFilterNode)[] = [];
+      if (type === "phaser") {
+        // The feedback cycle needs a delay; it adds a single render quantum
+        stages.push(ctx.createDelay(0.01));
+        for (let i = 0; i < PHASER_STAGES; i++) {
+          const allpass = ctx.createBiquadFilter();
+          allpass.type = "allpass";
+          allpass.frequency.value = sweep.center;
+          depthGain.connect(allpass.frequency);
+          stages.push(allpass);
+        }
+      } else {
+        const delay = ctx.createDelay((sweep.center + sweep.range) * 2);
+        delay.delayTime.value = sweep.center;
+        depthGain.connect(delay.delayTime);
+        stages.push(delay);
+      }
+      stages.slice(1).forEach((stage, i) => stages[i].connect(stage));
+
+      const feedbackGain = ctx.createGain();
+      feedbackGain.gain.value = settings.feedback;
+      feedbackGainNodes.push(feedbackGain);
+
+      const last = stages[stages.length - 1];
+      splitterNode.connect(stages[0], side);
+      last.connect(feedbackGain);
+      feedbackGain.connect(stages[0]);
+      last.connect(mergerNode, 0, side);
+      return stages;
+    });
+
+    inputNode.connect(dryGainNode);
+    dryGainNode.connect(outputNode);
+    inputNode.connect(splitterNode);
+    mergerNode.connect(wetGainNode);
+    wetGainNode.connect(outputNode);
+    lfoNode.start();
+
+    const nodes: ModEffectNodeSet = {
+      type,
+      inputNode,
+      outputNode,
+      dryGainNode,
+      wetGainNode,
+      splitterNode,
+      mergerNode,
+      lfoNode,
+      lfoSource: lfoNode,
+      lfoSync: null,
+      depthGainNodes,
+      stageNodes,
+      feedbackGainNodes,
+    };
+    this.connectModEffectLFO(nodes, settings.lfoSync);
+    return nodes;
+  }
+
+  /**
+   * Drive a modulation effect's sweep from its internal LFO or a synth LFO
+   * A synced effect follows the synth LFO's rate, waveform and phase, and
+   * holds still while that LFO is off.
+   */
+  private connectModEffectLFO(
+    nodes: ModEffectNodeSet,
+    lfoSync: number | null
+  ): void {
+    this.disconnectModEffectLFO(nodes);
+
+    const source =
+      lfoSync === null ? nodes.lfoNode : this.lfoNodes[lfoSync]?.gainNode;
+    source?.connect(nodes.depthGainNodes[0]);
+    source?.connect(nodes.depthGainNodes[1]);
+    nodes.lfoSource = source ?? nodes.lfoNode;
+    nodes.lfoSync = lfoSync;
+  }
+
+  /**
+   * Unhook a modulation effect's sweep from the LFO driving it
+   * A synth LFO outlives the effect, so its link into the depth gains has to
+   * be removed explicitly.
+   */
+  private disconnectModEffectLFO(nodes: ModEffectNodeSet): void {
+    nodes.depthGainNodes.forEach((depthGain) => {
+      try {
+        nodes.lfoSource.disconnect(depthGain);
+      } catch (e) {
+        // Already disconnected when the synth LFO was cleaned up
+      }
+    });
+  }
+
+  /**
+   * Drive a modulation effect slot from its internal LFO or a synth LFO
+   */
+  setModEffectLFO(id: string, lfoSync: number | null): void {
+    const nodes = this.getEffectNodes(id, ...MOD_EFFECT_TYPES);
+    if (!nodes) return;
+    this.connectModEffectLFO(nodes, lfoSync);
+  }
+
+  /**
+   * Reconnect the effects synced to a synth LFO after it was recreated
+   */
+  reconnectModEffectLFOs(lfoIndex: number): void {
+    this.getEffectSlotNodes().forEach((slot) => {
+      if (
+        (slot.type === "chorus" ||
+          slot.type === "flanger" ||
+          slot.type === "phaser") &&
+        slot.effect?.lfoSync === lfoIndex
+      ) {
+        this.connectModEffectLFO(slot.effect, lfoIndex);
+      }
+    });
+  }
+
+  /**
+   * Set a modulation effect slot's internal LFO rate (Hz)
+   */
+  setModEffectRate(id: string, rate: number, time: number): void {
+    this.getEffectNodes(
+      id,
+      ...MOD_EFFECT_TYPES
+    )?.lfoNode.frequency.setValueAtTime(rate, time);
+  }
+
+  /**
+   * Set a modulation effect slot's sweep depth (0-1)
+   */
+  setModEffectDepth(id: string, depth: number, time: number): void {
+    const nodes = this.getEffectNodes(id, ...MOD_EFFECT_TYPES);
+    if (!nodes) return;
+    const sweep = calculateModEffectSweep(nodes.type, depth);
+    nodes.depthGainNodes.forEach((depthGain, side) =>
+      depthGain.gain.linearRampToValueAtTime(
+        side === 0 ? sweep : -sweep,
+        time + 0.01
+      )
+    );
+  }
+
+  /**
+   * Set a modulation effect slot's feedback (0-MAX_MOD_EFFECT_FEEDBACK)
+   */
+  setModEffectFeedback(id: string, feedback: number, time: number): void {
+    this.getEffectNodes(id, ...MOD_EFFECT_TYPES)?.feedbackGainNodes.forEach(
+      (gain) => gain.gain.linearRampToValueAtTime(feedback, time + 0.01)
+    );
+  }
+
+  /**
+   * Set a modulation effect slot's dry/wet mix (0-1)
+   */
+  setModEffectMix(id: string, mix: number, time: number): void {
+    const nodes = this.getEffectNodes(id, ...MOD_EFFECT_TYPES);
+    if (!nodes) return;
+    const gains = calculateMixGains(mix);
+    nodes.dryGainNode.gain.linearRampToValueAtTime(gains.dry, time + 0.01);
+    nodes.wetGainNode.gain.linearRampToValueAtTime(gains.wet, time + 0.01);
+  }
+
+  /**
+   * Create a delay
+   * Plug it into a rack slot (see createEffectsRack).
+   *
+   * @param delayTime - Delay time (ms, see calculateDelayTime)
+   */
+  createDelay(settings: DelaySettings, delayTime: number): DelayNodeSet | null {
+    if (!this.audioContext) return null;
+    const ctx = this.audioContext;
+    const gains = calculateMixGains(settings.mix);
+
+    const inputNode = ctx.createGain();
+    const outputNode = ctx.createGain();
+    const dryGainNode = ctx.createGain();
+    dryGainNode.gain.value = gains.dry;
+    const wetGainNode = ctx.createGain();
+    wetGainNode.gain.value = gains.wet;
+    const splitterNode = ctx.createChannelSplitter(2);
+    const mergerNode = ctx.createChannelMerger(2);
+
+    const delayNodes = [0, 1].map(() => {
+      const delay = ctx.createDelay(MAX_DELAY_TIME / 1000);
+      delay.delayTime.value = delayTime / 1000;
+      return delay;
+    });
+    const filterNodes = [0, 1].map(() => {
+      const filter = ctx.createBiquadFilter();
+      filter.type = "lowpass";
+      filter.frequency.value = settings.filterCutoff;
+      return filter;
+    });
+    const feedbackGainNodes = [0, 1].map(() => {
+      const gain = ctx.createGain();
+      gain.gain.value = settings.feedback;
+      return gain;
+    });
+
+    inputNode.connect(dryGainNode);
+    dryGainNode.connect(outputNode);
+    inputNode.connect(splitterNode);
+    delayNodes.forEach((delay, side) => {
+      delay.connect(filterNodes[side]);
+      filterNodes[side].connect(feedbackGainNodes[side]);
+      delay.connect(mergerNode, 0, side);
+    });
+    mergerNode.connect(wetGainNode);
+    wetGainNode.connect(outputNode);
+
+    const nodes: DelayNodeSet = {
+      inputNode,
+      outputNode,
+      dryGainNode,
+      wetGainNode,
+      splitterNode,
+      mergerNode,
+      delayNodes,
+      filterNodes,
+      feedbackGainNodes,
+    };
+    this.connectDelayLines(nodes, settings.pingPong);
+    return nodes;
+  }
+
+  /**
+   * Wire a delay's lines' inputs and feedback
+   * - stereo: each side delays its own channel and feeds back into itself
+   * - ping-pong: both channels enter the left line and every repeat crosses
+   *   to the other side
+   */
+  private connectDelayLines(nodes: DelayNodeSet, pingPong: boolean): void {
+    const { splitterNode, delayNodes, feedbackGainNodes } = nodes;
+    const [left, right] = delayNodes;
+
+    splitterNode.disconnect();
+    feedbackGainNodes.forEach((gain) => gain.disconnect());
+
+    if (pingPong) {
+      splitterNode.connect(left, 0);
+      splitterNode.connect(left, 1);
+      feedbackGainNodes[0].connect(right);
+      feedbackGainNodes[1].connect(left);
+    } else {
+      splitterNode.connect(left, 0);
+      splitterNode.connect(right, 1);
+      feedbackGainNodes[0].connect(left);
+      feedbackGainNodes[1].connect(right);
+    }
+  }
+
+  /**
+   * Set the delay time of both lines of a delay slot (ms)
+   * Glides to the new time, which bends the pitch of the repeats like tape.
+   */
+  setDelayTime(id: string, delayTime: number, time: number): void {
+    this.getEffectNodes(id, "delay")?.delayNodes.forEach((delay) =>
+      delay.delayTime.setTargetAtTime(delayTime / 1000, time, 0.05)
+    );
+  }
+
+  /**
+   * Set a delay slot's feedback (0-MAX_DELAY_FEEDBACK)
+   */
+  setDelayFeedback(id: string, feedback: number, time: number): void {
+    this.getEffectNodes(id, "delay")?.feedbackGainNodes.forEach((gain) =>
+      gain.gain.linearRampToValueAtTime(feedback, time + 0.01)
+    );
+  }
+
+  /**
+   * Set the cutoff of the low-pass in a delay slot's feedback path (Hz)
+   */
+  setDelayFilter(id: string, cutoff: number, time: number): void {
+    this.getEffectNodes(id, "delay")?.filterNodes.forEach((filter) =>
+      filter.frequency.exponentialRampToValueAtTime(
+        Math.max(20, cutoff),
+        time + 0.01
+      )
+    );
+  }
+
+  /**
+   * Set a delay slot's dry/wet mix (0-1)
+   */
+  setDelayMix(id: string, mix: number, time: number): void {
+    const nodes = this.getEffectNodes(id, "delay");
+    if (!nodes) return;
+    const gains = calculateMixGains(mix);
+    nodes.dryGainNode.gain.linearRampToValueAtTime(gains.dry, time + 0.01);
+    nodes.wetGainNode.gain.linearRampToValueAtTime(gains.wet, time + 0.01);
+  }
+
+  /**
+   * Switch a delay slot between stereo and ping-pong repeats
+   */
+  setDelayPingPong(id: string, pingPong: boolean): void {
+    const nodes = this.getEffectNodes(id, "delay");
+    if (!nodes) return;
+    this.connectDelayLines(nodes, pingPong);
+  }
+
+  /**
+   * Create a reverb
+   * Plug it into a rack slot (see createEffectsRack).
+   */
+  createReverb(settings: ReverbSettings): ReverbNodeSet | null {
+    if (!this.audioContext) return null;
+    const ctx = this.audioContext;
+    const gains = calculateMixGains(settings.mix);
+
+    const inputNode = ctx.createGain();
+    const outputNode = ctx.createGain();
+    const dryGainNode = ctx.createGain();
+    dryGainNode.gain.value = gains.dry;
+    const wetGainNode = ctx.createGain();
+    wetGainNode.gain.value = gains.wet;
+    const convolverNode = ctx.createConvolver();
+    convolverNode.buffer = this.createReverbBuffer(settings);
+
+    inputNode.connect(dryGainNode);
+    dryGainNode.connect(outputNode);
+    inputNode.connect(convolverNode);
+    convolverNode.connect(wetGainNode);
+    wetGainNode.connect(outputNode);
+
+    return {
+      inputNode,
+      outputNode,
+      dryGainNode,
+      wetGainNode,
+      convolverNode,
+    };
+  }
 
-  // Reusable buffers for analyser data (performance optimization)
-  private lfoBuffers: Float32Array[];
-  private oscillatorBuffers: Float32Array[]; // Buffers for oscillator output reading
+  /**
+   * Generate the reverb's impulse response into a stereo buffer
+   */
+  private createReverbBuffer(settings: ReverbSettings): AudioBuffer | null {
+    if (!this.audioContext) return null;
 
-  // Track envelope state for each oscillator (for modulation source extraction)
-  private envelopeStates: Array<{
-    stage: "idle" | "attack" | "decay" | "sustain" | "release";
-    stageStartTime: number;
-    attackTime: number;
-    decayTime: number;
-    sustainLevel: number;
-    releaseTime: number;
-  }>;
+    const channels = createReverbImpulse(
+      settings,
+      this.audioContext.sampleRate
+    );
+    const buffer = this.audioContext.createBuffer(
+      channels.length,
+      channels[0].length,
+      this.audioContext.sampleRate
+    );
+    channels.forEach((samples, channel) =>
+      buffer.copyToChannel(samples, channel)
+    );
+    return buffer;
+  }
 
-  // Track dedicated modulation envelope state
-  private modEnvelopeState: {
-    stage: "idle" | "attack" | "decay" | "sustain" | "release";
-    stageStartTime: number;
-    attackTime: number;
-    decayTime: number;
-    sustainLevel: number;
-    releaseTime: number;
-  };
+  /**
+   * Regenerate a reverb slot's impulse response (size, decay, pre-delay,
+   * damping)
+   */
+  setReverbImpulse(id: string, settings: ReverbSettings): void {
+    const nodes = this.getEffectNodes(id, "reverb");
+    if (!nodes) return;
+    nodes.convolverNode.buffer = this.createReverbBuffer(settings);
+  }
 
-  constructor() {
-    // Initialize 4 empty oscillator slots
-    this.oscillators = Array(4)
-      .fill(null)
-      .map(() => ({
-        sourceNode: null,
-        gainNode: null,
-        waveformBuffer: null,
-        ampEnvelopeNode: null,
-        crossfadeGainNode: null,
-        analyserNode: null,
-      }));
+  /**
+   * Set a reverb slot's dry/wet mix (0-1)
+   */
+  setReverbMix(id: string, mix: number, time: number): void {
+    const nodes = this.getEffectNodes(id, "reverb");
+    if (!nodes) return;
+    const gains = calculateMixGains(mix);
+    nodes.dryGainNode.gain.linearRampToValueAtTime(gains.dry, time + 0.01);
+    nodes.wetGainNode.gain.linearRampToValueAtTime(gains.wet, time + 0.01);
+  }
 
-    // Initialize 2 empty LFO slots
-    this.lfoNodes = Array(2)
-      .fill(null)
-      .map(() => ({
-        oscillator: null,
-        gainNode: null,
-        analyser: null,
-      }));
+  /**
+   * Create the effects rack with its slots linked in order
+   * createEffect builds each slot's effect; a missing (null) effect leaves
+   * its slot passing the signal through. Connect the master gain into
+   * inputNode and outputNode to the EQ.
+   */
+  createEffectsRack(
+    slots: EffectSlot[],
+    createEffect: EffectFactory
+  ): EffectsRackNodeSet | null {
+    if (!this.audioContext) return null;
+    const inputNode = this.audioContext.createGain();
+    const outputNode = this.audioContext.createGain();
+    const dryGainNode = this.audioContext.createGain();
+    inputNode.connect(dryGainNode);
+    dryGainNode.connect(outputNode);
+    dryGainNode.gain.value = 0;
+
+    const rack: EffectsRackNodeSet = {
+      inputNode,
+      outputNode,
+      dryGainNode,
+      slotNodes: {},
+      order: slots.map((slot) => slot.id),
+      linkNodes: {},
+    };
+    slots.forEach((slot) => {
+      rack.slotNodes[slot.id] = this.createEffectSlotNodes(slot, createEffect);
+    });
+    this.getEffectLinks(rack.order).forEach((key) => {
+      this.createEffectLink(rack, key);
+    });
 
-    // Initialize reusable buffers for LFO reading (fftSize/2 = 64 samples)
-    this.lfoBuffers = [new Float32Array(64), new Float32Array(64)];
+    this.effectsRackNodes = rack;
+    return rack;
+  }
 
-    // Initialize reusable buffers for oscillator reading (fftSize/2 = 64 samples)
-    this.oscillatorBuffers = [
-      new Float32Array(64),
-      new Float32Array(64),
-      new Float32Array(64),
-      new Float32Array(64),
+  /**
+   * Build a rack slot around its effect, unlinked
+   */
+  private createEffectSlotNodes(
+    slot: EffectSlot,
+    createEffect: EffectFactory
+  ): EffectSlotNodeSet {
+    const ctx = this.audioContext!;
+    const effect = createEffect(slot);
+    const inputNode = ctx.createGain();
+    const outputNode = ctx.createGain();
+    const bypassGainNode = ctx.createGain();
+    inputNode.connect(bypassGainNode);
+    bypassGainNode.connect(outputNode);
+
+    let effectGainNode: GainNode | null = null;
+    if (effect) {
+      effectGainNode = ctx.createGain();
+      inputNode.connect(effect.inputNode);
+      effect.outputNode.connect(effectGainNode);
+      effectGainNode.connect(outputNode);
+      effectGainNode.gain.value = slot.bypass ? 0 : 1;
+    }
+    bypassGainNode.gain.value = effectGainNode && !slot.bypass ? 0 : 1;
+
+    return {
+      type: slot.type,
+      inputNode,
+      outputNode,
+      effect,
+      effectGainNode,
+      bypassGainNode,
+    } as EffectSlotNodeSet;
+  }
+
+  /**
+   * Keys of the links that chain slots in order from the rack's input to
+   * its output
+   */
+  private getEffectLinks(order: string[]): string[] {
+    const ends = ["input", ...order, "output"];
+    return ends.slice(1).map((to, index) => `${ends[index]}>${to}`);
+  }
+
+  /**
+   * Nodes a rack link joins
+   */
+  private getEffectLinkEnds(
+    rack: EffectsRackNodeSet,
+    key: string
+  ): [AudioNode, AudioNode] {
+    const [from, to] = key.split(">");
+    return [
+      from === "input" ? rack.inputNode : rack.slotNodes[from].outputNode,
+      to === "output" ? rack.outputNode : rack.slotNodes[to].inputNode,
     ];
+  }
 
-    // Initialize envelope states for 4 oscillators
-    this.envelopeStates = Array(4)
-      .fill(null)
-      .map(() => ({
-        stage: "idle" as const,
-        stageStartTime: 0,
-        attackTime: 0,
-        decayTime: 0,
-        sustainLevel: 0,
-        releaseTime: 0,
-      }));
+  /**
+   * Link two neighbours in the rack through a gain (silent if faded in)
+   */
+  private createEffectLink(
+    rack: EffectsRackNodeSet,
+    key: string,
+    fadeIn: boolean = false
+  ): GainNode {
+    const linkNode = this.audioContext!.createGain();
+    linkNode.gain.value = fadeIn ? 0 : 1;
+    const [from, to] = this.getEffectLinkEnds(rack, key);
+    from.connect(linkNode);
+    linkNode.connect(to);
+    rack.linkNodes[key] = linkNode;
+    return linkNode;
+  }
 
-    // Initialize dedicated modulation envelope state
-    this.modEnvelopeState = {
-      stage: "idle",
-      stageStartTime: 0,
-      attackTime: 0,
-      decayTime: 0,
-      sustainLevel: 0,
-      releaseTime: 0,
-    };
+  /**
+   * Ramp a rack gain from wherever it is to a value
+   */
+  private rampRackGain(gainNode: GainNode, value: number, time: number): void {
+    gainNode.gain.cancelScheduledValues(time);
+    gainNode.gain.setValueAtTime(gainNode.gain.value, time);
+    gainNode.gain.linearRampToValueAtTime(
+      value,
+      time + EFFECT_RELINK_FADE_TIME
+    );
   }
 
   /**
-   * Initialize audio context if not already created
+   * Slots of the effects rack, in signal order
    */
-  initializeAudioContext(): AudioContext {
-    if (!this.audioContext) {
-      this.audioContext = new (window.AudioContext ||
-        (window as any).webkitAudioContext)();
-    }
-    return this.audioContext;
+  private getEffectSlotNodes(): EffectSlotNodeSet[] {
+    const rack = this.effectsRackNodes;
+    return rack ? rack.order.map((id) => rack.slotNodes[id]) : [];
   }
 
   /**
-   * Create an oscillator chain (source + gain + envelope nodes)
+   * Effect of a slot in the rack, if the slot holds one of types
    */
-  createOscillatorChain(
-    audioContext: AudioContext,
-    waveformData: Float32Array,
-    frequency: number,
-    volume: number
-  ): OscillatorNodeSet {
-    // Validate waveformData
-    if (!waveformData || waveformData.length === 0) {
-      console.warn("Cannot create oscillator: waveformData is empty");
-      return {
-        sourceNode: null,
-        gainNode: null,
-        waveformBuffer: null,
-        ampEnvelopeNode: null,
-        crossfadeGainNode: null,
-        analyserNode: null,
-      };
-    }
+  private getEffectNodes<T extends EffectType>(
+    id: string,
+    ...types: T[]
+  ): EffectNodeSets[T] | null {
+    const slot = this.effectsRackNodes?.slotNodes[id];
+    if (!slot || !types.includes(slot.type as T)) return null;
+    return slot.effect as EffectNodeSets[T] | null;
+  }
 
-    // Create AudioBuffer
-    const buffer = audioContext.createBuffer(
-      1, // mono
-      waveformData.length,
-      audioContext.sampleRate
+  /**
+   * Id of the first slot of an effect type in the rack, the one the
+   * modulation matrix drives
+   */
+  findEffectSlot(type: EffectType): string | null {
+    const rack = this.effectsRackNodes;
+    return rack?.order.find((id) => rack.slotNodes[id].type === type) ?? null;
+  }
+
+  /**
+   * Crossfade an effects rack slot between its effect and the bypass path
+   */
+  setEffectSlotBypass(id: string, bypass: boolean, time: number): void {
+    const slot = this.effectsRackNodes?.slotNodes[id];
+    if (!slot?.effectGainNode) return;
+    slot.effectGainNode.gain.linearRampToValueAtTime(
+      bypass ? 0 : 1,
+      time + RACK_FADE_TIME
     );
-    // Copy waveform data - create new Float32Array to ensure proper type
-    const bufferData = new Float32Array(waveformData);
-    buffer.copyToChannel(bufferData, 0);
+    slot.bypassGainNode.gain.linearRampToValueAtTime(
+      bypass ? 1 : 0,
+      time + RACK_FADE_TIME
+    );
+  }
 
-    // Create BufferSourceNode
-    const sourceNode = audioContext.createBufferSource();
-    sourceNode.buffer = buffer;
-    sourceNode.loop = true;
+  /**
+   * Change the effects rack's slots (added, removed or reordered)
+   * Only added slots are built; the rest keep their running effects, so
+   * delay and reverb tails carry on. The links that no longer fit the order
+   * fade out while the dry gain fades in, then finishEffectSlots joins the
+   * new neighbours. New links wait for the old ones to go, as a loop
+   * through them would be silenced.
+   */
+  setEffectSlots(slots: EffectSlot[], createEffect: EffectFactory): void {
+    const rack = this.effectsRackNodes;
+    if (!rack || !this.audioContext) return;
+    const time = this.audioContext.currentTime;
 
-    // Calculate playback rate for frequency control
-    const baseCycleFrequency = audioContext.sampleRate / waveformData.length;
-    sourceNode.playbackRate.value = frequency / baseCycleFrequency;
+    slots.forEach((slot) => {
+      if (!rack.slotNodes[slot.id]) {
+        rack.slotNodes[slot.id] = this.createEffectSlotNodes(
+          slot,
+          createEffect
+        );
+      }
+    });
+    rack.order = slots.map((slot) => slot.id);
 
-    // Create GainNode for volume control
-    const gainNode = audioContext.createGain();
-    gainNode.gain.value = volume;
+    const links = this.getEffectLinks(rack.order);
+    Object.entries(rack.linkNodes).forEach(([key, linkNode]) => {
+      if (!links.includes(key)) this.rampRackGain(linkNode, 0, time);
+    });
+    this.rampRackGain(rack.dryGainNode, 1, time);
 
-    // Create GainNode for ADSR envelope (starts at 0)
-    const ampEnvelopeNode = audioContext.createGain();
-    ampEnvelopeNode.gain.value = 0;
+    if (this.effectsRackTimer) clearTimeout(this.effectsRackTimer);
+    this.effectsRackTimer = setTimeout(
+      () => this.finishEffectSlots(),
+      EFFECT_RELINK_FADE_TIME * 1000 + 10
+    );
+  }
 
-    // Create GainNode for crossfade control (starts at 1.0)
-    const crossfadeGainNode = audioContext.createGain();
-    crossfadeGainNode.gain.value = 1.0;
+  /**
+   * Drop the faded links and removed slots, then fade in the links of the
+   * rack's order and fade out the dry gain
+   */
+  private finishEffectSlots(): void {
+    this.effectsRackTimer = null;
+    const rack = this.effectsRackNodes;
+    if (!rack || !this.audioContext) return;
+    const time = this.audioContext.currentTime;
+    const links = this.getEffectLinks(rack.order);
 
-    // Create AnalyserNode for reading oscillator output as modulation source
-    const analyserNode = audioContext.createAnalyser();
-    analyserNode.fftSize = 128; // Efficient size for control-rate reading
+    Object.entries(rack.linkNodes).forEach(([key, linkNode]) => {
+      if (links.includes(key)) return;
+      this.cleanupEffectLink(rack, key, linkNode);
+      delete rack.linkNodes[key];
+    });
+    Object.entries(rack.slotNodes).forEach(([id, slot]) => {
+      if (rack.order.includes(id)) return;
+      this.cleanupEffectSlotNodes(slot);
+      delete rack.slotNodes[id];
+    });
 
-    // Connect source -> gain -> crossfade -> envelope
-    sourceNode.connect(gainNode);
-    gainNode.connect(crossfadeGainNode);
-    crossfadeGainNode.connect(ampEnvelopeNode);
+    links.forEach((key) => {
+      const linkNode =
+        rack.linkNodes[key] ?? this.createEffectLink(rack, key, true);
+      this.rampRackGain(linkNode, 1, time);
+    });
+    this.rampRackGain(rack.dryGainNode, 0, time);
+  }
 
-    // Connect crossfade -> analyser (parallel connection for reading)
-    crossfadeGainNode.connect(analyserNode);
+  /**
+   * Create the master EQ, one filter per band in series
+   * Connect the effects rack into inputNode and outputNode to the dynamics.
+   */
+  createEQ(bands: EQBand[]): EQNodeSet | null {
+    if (!this.audioContext || bands.length === 0) return null;
+    const ctx = this.audioContext;
+
+    const filterNodes = bands.map((band) => {
+      const filter = ctx.createBiquadFilter();
+      filter.type = band.type;
+      filter.frequency.value = band.frequency;
+      filter.gain.value = band.gain;
+      filter.Q.value = band.Q;
+      return filter;
+    });
+    filterNodes
+      .slice(1)
+      .forEach((filter, index) => filterNodes[index].connect(filter));
+
+    this.eqNodes = {
+      inputNode: filterNodes[0],
+      outputNode: filterNodes[filterNodes.length - 1],
+      filterNodes,
+    };
+    return this.eqNodes;
+  }
 
-    return {
-      sourceNode,
-      gainNode,
-      waveformBuffer: buffer,
-      ampEnvelopeNode,
-      crossfadeGainNode,
-      analyserNode,
+  /**
+   * Ramp one EQ band to new settings
+   */
+  setEQBand(bandIndex: number, band: EQBand, time: number): void {
+    const filter = this.eqNodes?.filterNodes[bandIndex];
+    if (!filter) return;
+    filter.frequency.exponentialRampToValueAtTime(band.frequency, time + 0.01);
+    filter.gain.linearRampToValueAtTime(band.gain, time + 0.01);
+    filter.Q.linearRampToValueAtTime(band.Q, time + 0.01);
+  }
+
+  /**
+   * Magnitude response of the EQ (dB) at the given frequencies
+   * Measured with getFrequencyResponse on filters outside the audio graph,
+   * so it works whether or not audio is running.
+   */
+  getEQResponse(bands: EQBand[], frequencies: Float32Array): Float32Array {
+    const response = new Float32Array(frequencies.length);
+    if (!this.audioContext) return response;
+    const ctx = this.audioContext;
+
+    while (this.eqMeasureNodes.length < bands.length) {
+      this.eqMeasureNodes.push(ctx.createBiquadFilter());
+    }
+
+    const magnitude = new Float32Array(frequencies.length).fill(1);
+    const bandMagnitude = new Float32Array(frequencies.length);
+    const phase = new Float32Array(frequencies.length);
+    bands.forEach((band, index) => {
+      const filter = this.eqMeasureNodes[index];
+      filter.type = band.type;
+      filter.frequency.value = band.frequency;
+      filter.gain.value = band.gain;
+      filter.Q.value = band.Q;
+      filter.getFrequencyResponse(frequencies, bandMagnitude, phase);
+      for (let i = 0; i < magnitude.length; i++) {
+        magnitude[i] *= bandMagnitude[i];
+      }
+    });
+
+    for (let i = 0; i < response.length; i++) {
+      response[i] = gainToDb(magnitude[i]);
+    }
+    return response;
+  }
+
+  /**
+   * Create the master dynamics section (compressor and limiter)
+   * Connect the last effect into inputNode and outputNode to the destination.
+   * The limiter is the lookahead worklet when available, otherwise a
+   * hard-kneed DynamicsCompressorNode.
+   */
+  createDynamics(settings: DynamicsSettings): DynamicsNodeSet | null {
+    if (!this.audioContext) return null;
+    const ctx = this.audioContext;
+
+    const inputNode = ctx.createDynamicsCompressor();
+    inputNode.knee.value = COMPRESSOR_KNEE;
+    const makeupGainNode = ctx.createGain();
+    let limiterNode: AudioWorkletNode | DynamicsCompressorNode;
+    if (this.workletsReady) {
+      limiterNode = new AudioWorkletNode(ctx, "limiter", {
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+        outputChannelCount: [2],
+        parameterData: { release: LIMITER_RELEASE },
+      });
+      limiterNode.port.onmessage = (event) => {
+        if (event.data?.type === "reduction") {
+          this.limiterReduction = event.data.value;
+        }
+      };
+    } else {
+      limiterNode = ctx.createDynamicsCompressor();
+      limiterNode.knee.value = 0;
+      limiterNode.attack.value = 0.001;
+      limiterNode.release.value = LIMITER_RELEASE;
+    }
+    const outputNode = ctx.createGain();
+    const splitterNode = ctx.createChannelSplitter(2);
+    const analyserNodes = [0, 1].map(() => ctx.createAnalyser());
+
+    inputNode.connect(makeupGainNode);
+    makeupGainNode.connect(limiterNode);
+    limiterNode.connect(outputNode);
+    outputNode.connect(splitterNode);
+    analyserNodes.forEach((analyser, channel) =>
+      splitterNode.connect(analyser, channel)
+    );
+
+    this.limiterReduction = 0;
+    this.dynamicsNodes = {
+      inputNode,
+      outputNode,
+      makeupGainNode,
+      limiterNode,
+      splitterNode,
+      analyserNodes,
+    };
+    this.setDynamics(settings);
+    return this.dynamicsNodes;
+  }
+
+  /**
+   * Apply the dynamics settings
+   * With a time values ramp; without one they are set directly. A switched
+   * off compressor runs at 1:1 and a switched off limiter passes everything.
+   */
+  setDynamics(settings: DynamicsSettings, time?: number): void {
+    if (!this.dynamicsNodes) return;
+    const { inputNode, makeupGainNode, limiterNode } = this.dynamicsNodes;
+
+    const setParam = (param: AudioParam | undefined, value: number) => {
+      if (!param) return;
+      if (time === undefined) {
+        param.value = value;
+      } else {
+        param.linearRampToValueAtTime(value, time + 0.01);
+      }
     };
+
+    const compressing = settings.compressorEnabled;
+    setParam(inputNode.threshold, compressing ? settings.threshold : 0);
+    setParam(inputNode.ratio, compressing ? settings.ratio : 1);
+    setParam(inputNode.attack, settings.attack / 1000);
+    setParam(inputNode.release, settings.release / 1000);
+    setParam(makeupGainNode.gain, compressing ? dbToGain(settings.makeup) : 1);
+
+    if ("parameters" in limiterNode) {
+      setParam(limiterNode.parameters.get("ceiling"), settings.ceiling);
+      setParam(
+        limiterNode.parameters.get("active"),
+        settings.limiterEnabled ? 1 : 0
+      );
+    } else {
+      setParam(limiterNode.threshold, settings.ceiling);
+      setParam(limiterNode.ratio, settings.limiterEnabled ? 20 : 1);
+    }
+  }
+
+  /**
+   * Read the master output levels for the meters
+   * Returns null while there is no audio graph.
+   */
+  getDynamicsMeter(): DynamicsMeter | null {
+    if (!this.dynamicsNodes) return null;
+    const { inputNode, limiterNode, analyserNodes } = this.dynamicsNodes;
+
+    const peak = Math.max(
+      ...analyserNodes.map((analyser) => {
+        const samples = new Float32Array(analyser.fftSize);
+        analyser.getFloatTimeDomainData(samples);
+        return calculatePeakLevel(samples);
+      })
+    );
+    const limiterReduction =
+      "reduction" in limiterNode
+        ? limiterNode.reduction
+        : this.limiterReduction;
+
+    return { peak, reduction: inputNode.reduction + limiterReduction };
   }
 
   /**
@@ -200,28 +2730,204 @@ export class AudioNodeManager {
   }
 
   /**
-   * Clean up a specific oscillator
+   * Clean up a rack link, unhooking it from the node it's fed by
+   */
+  private cleanupEffectLink(
+    rack: EffectsRackNodeSet,
+    key: string,
+    linkNode: GainNode
+  ): void {
+    try {
+      this.getEffectLinkEnds(rack, key)[0].disconnect(linkNode);
+    } catch (e) {
+      // Already disconnected along with its slot
+    }
+    this.cleanupNodes(linkNode);
+  }
+
+  /**
+   * Clean up a rack slot and the effect in it
+   */
+  private cleanupEffectSlotNodes(slot: EffectSlotNodeSet): void {
+    this.cleanupNodes(
+      slot.inputNode,
+      slot.outputNode,
+      slot.effectGainNode,
+      slot.bypassGainNode
+    );
+    this.cleanupEffect(slot);
+  }
+
+  /**
+   * Clean up the effect in a rack slot
+   */
+  private cleanupEffect(slot: EffectSlotNodeSet): void {
+    if (!slot.effect) return;
+    switch (slot.type) {
+      case "crusher": {
+        const crusher = slot.effect;
+        crusher.inputNode.port.postMessage({ type: "stop" });
+        this.cleanupNodes(crusher.inputNode);
+        break;
+      }
+      case "shaper": {
+        const shaper = slot.effect;
+        this.cleanupNodes(
+          shaper.inputNode,
+          shaper.outputNode,
+          shaper.dryGainNode,
+          shaper.wetGainNode,
+          shaper.shaperNode
+        );
+        break;
+      }
+      case "delay": {
+        const delay = slot.effect;
+        this.cleanupNodes(
+          delay.inputNode,
+          delay.outputNode,
+          delay.dryGainNode,
+          delay.wetGainNode,
+          delay.splitterNode,
+          delay.mergerNode,
+          ...delay.delayNodes,
+          ...delay.filterNodes,
+          ...delay.feedbackGainNodes
+        );
+        break;
+      }
+      case "reverb": {
+        const reverb = slot.effect;
+        this.cleanupNodes(
+          reverb.inputNode,
+          reverb.outputNode,
+          reverb.dryGainNode,
+          reverb.wetGainNode,
+          reverb.convolverNode
+        );
+        break;
+      }
+      default: {
+        const effect = slot.effect;
+        this.disconnectModEffectLFO(effect);
+        this.cleanupNodes(
+          effect.inputNode,
+          effect.outputNode,
+          effect.dryGainNode,
+          effect.wetGainNode,
+          effect.splitterNode,
+          effect.mergerNode,
+          effect.lfoNode,
+          ...effect.depthGainNodes,
+          ...effect.stageNodes.flat(),
+          ...effect.feedbackGainNodes
+        );
+      }
+    }
+  }
+
+  /**
+   * Clean up a specific oscillator of a voice
+   */
+  cleanupOscillator(voiceIndex: number, oscIndex: number): void {
+    const voice = this.voices[voiceIndex];
+    if (!voice || oscIndex < 0 || oscIndex >= voice.oscillators.length) return;
+
+    // Remove FM and ring mod connections to and from this oscillator
+    for (let i = 0; i < voice.oscillators.length; i++) {
+      this.disconnectFM(voiceIndex, oscIndex, i);
+      this.disconnectFM(voiceIndex, i, oscIndex);
+      if (voice.ringModNodes[i]?.sourceIndex === oscIndex) {
+        this.disconnectRingMod(voiceIndex, i);
+      }
+      if (voice.syncNodes[i]?.masterIndex === oscIndex) {
+        this.disconnectSync(voiceIndex, i);
+      }
+    }
+    this.disconnectRingMod(voiceIndex, oscIndex);
+    this.disconnectSync(voiceIndex, oscIndex);
+
+    this.cleanupOscillatorNodes(voice.oscillators[oscIndex]);
+    voice.oscillators[oscIndex] = createEmptyOscillatorNodeSet();
+  }
+
+  /**
+   * Stop and disconnect every node of an oscillator chain, unison copies
+   * included
    */
-  cleanupOscillator(oscIndex: number): void {
-    if (oscIndex < 0 || oscIndex >= this.oscillators.length) return;
+  private cleanupOscillatorNodes(osc: OscillatorNodeSet): void {
+    // Worklet processors keep running until told to stop
+    osc.workletNode?.port.postMessage({ type: "stop" });
+    osc.unisonCopies.forEach((copy) => this.cleanupUnisonCopy(copy));
 
-    const osc = this.oscillators[oscIndex];
     this.cleanupNodes(
       osc.sourceNode,
+      osc.workletNode,
+      osc.unisonMixNode,
       osc.gainNode,
       osc.crossfadeGainNode,
+      osc.dryGainNode,
+      osc.ringModGainNode,
+      osc.wetGainNode,
       osc.ampEnvelopeNode,
+      osc.pannerNode,
       osc.analyserNode
     );
+  }
 
-    this.oscillators[oscIndex] = {
-      sourceNode: null,
-      gainNode: null,
-      waveformBuffer: null,
-      ampEnvelopeNode: null,
-      crossfadeGainNode: null,
-      analyserNode: null,
-    };
+  /**
+   * Clean up every node owned by a voice (oscillators, mixer and filters)
+   */
+  cleanupVoice(voiceIndex: number): void {
+    const voice = this.voices[voiceIndex];
+    if (!voice) return;
+
+    for (let i = 0; i < voice.oscillators.length; i++) {
+      this.cleanupOscillator(voiceIndex, i);
+    }
+
+    this.cleanupNodes(
+      voice.noise.sourceNode,
+      voice.noise.gainNode,
+      voice.noise.ampEnvelopeNode,
+      voice.noise.pannerNode,
+      voice.subOsc.sourceNode,
+      voice.subOsc.gainNode,
+      voice.subOsc.ampEnvelopeNode,
+      voice.mixerGainNode,
+      voice.driveInputGain,
+      voice.driveNode,
+      voice.driveOutputGain,
+      ...voice.filterNodes,
+      voice.filterBlendNode,
+      voice.filterBlendGain,
+      voice.combNode,
+      voice.filterBInputGain,
+      ...voice.filterBNodes,
+      voice.filterBBlendNode,
+      voice.filterBBlendGain,
+      voice.filterBCombNode,
+      voice.bypassGainNode
+    );
+    voice.combNode?.port.postMessage({ type: "stop" });
+    voice.filterBCombNode?.port.postMessage({ type: "stop" });
+
+    voice.mixerGainNode = null;
+    voice.driveInputGain = null;
+    voice.driveNode = null;
+    voice.driveOutputGain = null;
+    voice.filterNodes = [];
+    voice.filterBlendNode = null;
+    voice.filterBlendGain = null;
+    voice.combNode = null;
+    voice.filterBInputGain = null;
+    voice.filterBNodes = [];
+    voice.filterBBlendNode = null;
+    voice.filterBBlendGain = null;
+    voice.filterBCombNode = null;
+    voice.bypassGainNode = null;
+    voice.noise = createEmptyNoiseNodeSet();
+    voice.subOsc = createEmptySubOscNodeSet();
   }
 
   /**
@@ -229,25 +2935,54 @@ export class AudioNodeManager {
    * Note: Does NOT clean up LFOs - they are independent and persist across audio recreation
    */
   cleanup(): void {
-    // Clean up all oscillators
-    for (let i = 0; i < this.oscillators.length; i++) {
-      this.cleanupOscillator(i);
+    // Clean up all voices
+    for (let i = 0; i < this.voices.length; i++) {
+      this.cleanupVoice(i);
     }
 
     // NOTE: DO NOT clean up LFOs here - they should persist independently
     // LFOs are only cleaned up when explicitly toggled off or on full stopAudio
 
-    // Clean up mixer, master gain, and filters
-    this.cleanupNodes(
-      this.mixerGainNode,
-      this.masterGainNode,
-      this.filterEnvelopeNode,
-      ...this.filterNodes
-    );
+    // Clean up master gain and effects
+    this.cleanupNodes(this.masterGainNode, this.filterEnvelopeNode);
+    if (this.effectsRackNodes) {
+      const rack = this.effectsRackNodes;
+      if (this.effectsRackTimer) clearTimeout(this.effectsRackTimer);
+      this.effectsRackTimer = null;
+      this.cleanupNodes(
+        rack.inputNode,
+        rack.outputNode,
+        rack.dryGainNode,
+        ...Object.values(rack.linkNodes)
+      );
+      Object.values(rack.slotNodes).forEach((slot) =>
+        this.cleanupEffectSlotNodes(slot)
+      );
+    }
+
+    if (this.eqNodes) {
+      this.cleanupNodes(...this.eqNodes.filterNodes);
+    }
+    if (this.dynamicsNodes) {
+      const dynamics = this.dynamicsNodes;
+      if ("port" in dynamics.limiterNode) {
+        dynamics.limiterNode.port.postMessage({ type: "stop" });
+      }
+      this.cleanupNodes(
+        dynamics.inputNode,
+        dynamics.makeupGainNode,
+        dynamics.limiterNode,
+        dynamics.outputNode,
+        dynamics.splitterNode,
+        ...dynamics.analyserNodes
+      );
+    }
 
-    this.mixerGainNode = null;
     this.masterGainNode = null;
-    this.filterNodes = [];
+    this.effectsRackNodes = null;
+    this.eqNodes = null;
+    this.eqMeasureNodes = [];
+    this.dynamicsNodes = null;
     this.filterEnvelopeNode = null;
   }
 
@@ -255,47 +2990,33 @@ export class AudioNodeManager {
    * Clean up ALL nodes including LFOs (called on full stopAudio)
    */
   cleanupAll(): void {
-    // Clean up oscillators
-    for (let i = 0; i < this.oscillators.length; i++) {
-      this.cleanupOscillator(i);
-    }
+    this.cleanup();
 
     // Clean up all LFOs
     for (let i = 0; i < this.lfoNodes.length; i++) {
       this.cleanupLFO(i);
     }
-
-    // Clean up mixer, master gain, and filters
-    this.cleanupNodes(
-      this.mixerGainNode,
-      this.masterGainNode,
-      this.filterEnvelopeNode,
-      ...this.filterNodes
-    );
-
-    this.mixerGainNode = null;
-    this.masterGainNode = null;
-    this.filterNodes = [];
-    this.filterEnvelopeNode = null;
   }
 
   /**
-   * Crossfade to a new waveform for a specific oscillator
+   * Crossfade to a new waveform for a specific oscillator of a voice
    * Creates a new oscillator with the new waveform and smoothly transitions
    */
   crossfadeWaveform(
+    voiceIndex: number,
     oscIndex: number,
     waveformData: Float32Array,
     frequency: number,
     volume: number,
     crossfadeTimeMs: number = 30
   ): void {
-    if (!this.audioContext || !this.mixerGainNode) {
+    const voice = this.voices[voiceIndex];
+    if (!this.audioContext || !voice || !voice.mixerGainNode) {
       console.warn("Cannot crossfade: audio context not initialized");
       return;
     }
 
-    const oldNodeSet = this.oscillators[oscIndex];
+    const oldNodeSet = voice.oscillators[oscIndex];
     if (!oldNodeSet || !oldNodeSet.sourceNode) {
       console.warn(`Cannot crossfade: oscillator ${oscIndex} not active`);
       return;
@@ -306,7 +3027,9 @@ export class AudioNodeManager {
       this.audioContext,
       waveformData,
       frequency,
-      volume
+      volume,
+      "buffer",
+      oldNodeSet.pannerNode?.pan.value ?? 0
     );
 
     if (!newNodeSet.sourceNode || !newNodeSet.crossfadeGainNode) {
@@ -324,14 +3047,45 @@ export class AudioNodeManager {
       time + crossfadeTime
     );
 
-    // Copy envelope state from old to new oscillator
+    // Continue the envelope from the old oscillator's current level through
+    // whatever it still has scheduled (decay, release)
     if (oldNodeSet.ampEnvelopeNode && newNodeSet.ampEnvelopeNode) {
       const currentEnvValue = oldNodeSet.ampEnvelopeNode.gain.value;
       newNodeSet.ampEnvelopeNode.gain.setValueAtTime(currentEnvValue, time);
+      this.applyOscillatorEnvelope(
+        newNodeSet,
+        getPendingEnvelopeOps(oldNodeSet.ampEnvelopeOps, time)
+      );
     }
 
-    // Connect new oscillator to mixer
-    newNodeSet.ampEnvelopeNode!.connect(this.mixerGainNode);
+    // Connect new oscillator to the same filter input(s) as the old one
+    this.connectToFilterInputs(voice, newNodeSet, oldNodeSet.filterAssignment);
+
+    // Keep feeding the FM matrix and ring modulators from the new source
+    voice.fmNodes[oscIndex].forEach((connection) => {
+      if (connection) newNodeSet.sourceNode!.connect(connection.gainNode);
+    });
+    voice.ringModNodes.forEach((connection) => {
+      if (connection?.sourceIndex === oscIndex) {
+        newNodeSet.sourceNode!.connect(connection.gainNode);
+      }
+    });
+
+    // Carry this oscillator's own ring modulator over to the new chain
+    const ringConnection = voice.ringModNodes[oscIndex];
+    if (
+      ringConnection &&
+      oldNodeSet.ringModGainNode &&
+      newNodeSet.ringModGainNode &&
+      oldNodeSet.dryGainNode &&
+      oldNodeSet.wetGainNode
+    ) {
+      newNodeSet.ringModGainNode.gain.value =
+        oldNodeSet.ringModGainNode.gain.value;
+      newNodeSet.dryGainNode!.gain.value = oldNodeSet.dryGainNode.gain.value;
+      newNodeSet.wetGainNode!.gain.value = oldNodeSet.wetGainNode.gain.value;
+      ringConnection.gainNode.connect(newNodeSet.ringModGainNode.gain);
+    }
 
     // Start new oscillator
     newNodeSet.sourceNode.start();
@@ -345,33 +3099,36 @@ export class AudioNodeManager {
       );
     }
 
-    // Store new node set
-    this.oscillators[oscIndex] = newNodeSet;
+    // Store new node set and rebuild its unison copies on the new table
+    voice.oscillators[oscIndex] = newNodeSet;
+    this.applyUnison(voiceIndex, oscIndex, oldNodeSet.unison, frequency, time);
+
+    // Finish a glide still under way rather than jumping to its end. Its
+    // events are rescheduled at their original times, so the new source
+    // picks up the sweep where the old one is.
+    const ramp = oldNodeSet.frequencyRamp;
+    newNodeSet.frequencyRamp = ramp;
+    if (ramp?.glide && ramp.time + ramp.glide.duration > time) {
+      this.setOscillatorFrequency(
+        newNodeSet,
+        frequency,
+        waveformData.length,
+        ramp.time,
+        ramp.glide
+      );
+    }
 
-    // Clean up old oscillator after crossfade completes
+    // Dispose of the whole old chain once the crossfade completes, including
+    // the ring modulator's link into it
     setTimeout(() => {
-      if (oldNodeSet.sourceNode) {
-        try {
-          oldNodeSet.sourceNode.stop();
-          oldNodeSet.sourceNode.disconnect();
-        } catch (e) {
-          console.warn("Error stopping old oscillator:", e);
-        }
-      }
-      if (oldNodeSet.gainNode) {
-        try {
-          oldNodeSet.gainNode.disconnect();
-        } catch (e) {
-          console.warn("Error disconnecting old gain node:", e);
-        }
-      }
-      if (oldNodeSet.crossfadeGainNode) {
+      if (ringConnection && oldNodeSet.ringModGainNode) {
         try {
-          oldNodeSet.crossfadeGainNode.disconnect();
+          ringConnection.gainNode.disconnect(oldNodeSet.ringModGainNode.gain);
         } catch (e) {
-          console.warn("Error disconnecting old crossfade node:", e);
+          // Already disconnected when the ring modulator was removed
         }
       }
+      this.cleanupOscillatorNodes(oldNodeSet);
     }, crossfadeTimeMs + 50);
   }
 
@@ -481,45 +3238,61 @@ export class AudioNodeManager {
    * This method will be called by the master modulation loop (Task 5.2)
    *
    * @param oscIndex Index of the oscillator to read (0-3)
+   * @param voiceIndex Voice to read the oscillator from
    * @returns Normalized oscillator value (-1 to +1), or 0 if oscillator is inactive
    */
-  readOscillatorValue(oscIndex: number): number {
-    if (oscIndex < 0 || oscIndex >= this.oscillators.length) {
+  readOscillatorValue(oscIndex: number, voiceIndex: number = 0): number {
+    const voice = this.voices[voiceIndex];
+    if (!voice || oscIndex < 0 || oscIndex >= voice.oscillators.length) {
       console.warn(`Invalid oscillator index: ${oscIndex}`);
       return 0;
     }
 
-    const osc = this.oscillators[oscIndex];
-    if (!osc.sourceNode) return 0; // Oscillator not active
+    const osc = voice.oscillators[oscIndex];
+    if (!hasOscillatorSource(osc)) return 0; // Oscillator not active
 
     return this.readAnalyserValue(
       osc.analyserNode,
       this.oscillatorBuffers[oscIndex]
     );
   }
+  /**
+   * Read the noise source as a modulation value (normalized -1 to +1)
+   * Steps through the noise table with the audio clock, so each frame of the
+   * modulation loop gets a new random value. Pink and brown noise change
+   * more smoothly than white.
+   *
+   * @param color Noise color to read
+   */
+  readNoiseValue(color: NoiseColor): number {
+    const samples = this.getNoiseSamples(color);
+    const sampleRate = this.audioContext?.sampleRate ?? 44100;
+    const time = this.audioContext?.currentTime ?? 0;
+    return samples[Math.floor(time * sampleRate) % samples.length];
+  }
 
   /**
    * Update envelope state when a note is triggered
    * Called from triggerNoteOn in audioEngineStore
    *
-   * @param oscIndex Index of the oscillator
+   * @param voiceIndex Index of the voice
    * @param attackTime Attack time in seconds
    * @param decayTime Decay time in seconds
    * @param sustainLevel Sustain level (0-1)
    * @param releaseTime Release time in seconds
    */
   setEnvelopeNoteOn(
-    oscIndex: number,
+    voiceIndex: number,
     attackTime: number,
     decayTime: number,
     sustainLevel: number,
     releaseTime: number
   ): void {
-    if (oscIndex < 0 || oscIndex >= this.envelopeStates.length) return;
+    if (voiceIndex < 0 || voiceIndex >= this.envelopeStates.length) return;
 
     const currentTime = this.audioContext?.currentTime || 0;
 
-    this.envelopeStates[oscIndex] = {
+    this.envelopeStates[voiceIndex] = {
       stage: "attack",
       stageStartTime: currentTime,
       attackTime,
@@ -533,17 +3306,17 @@ export class AudioNodeManager {
    * Update envelope state when a note is released
    * Called from triggerNoteOff in audioEngineStore
    *
-   * @param oscIndex Index of the oscillator
+   * @param voiceIndex Index of the voice
    */
-  setEnvelopeNoteOff(oscIndex: number): void {
-    if (oscIndex < 0 || oscIndex >= this.envelopeStates.length) return;
+  setEnvelopeNoteOff(voiceIndex: number): void {
+    if (voiceIndex < 0 || voiceIndex >= this.envelopeStates.length) return;
 
     const currentTime = this.audioContext?.currentTime || 0;
-    const state = this.envelopeStates[oscIndex];
+    const state = this.envelopeStates[voiceIndex];
 
     // Only transition to release if not already in release or idle
     if (state.stage !== "release" && state.stage !== "idle") {
-      this.envelopeStates[oscIndex] = {
+      this.envelopeStates[voiceIndex] = {
         ...state,
         stage: "release",
         stageStartTime: currentTime,
@@ -552,17 +3325,17 @@ export class AudioNodeManager {
   }
 
   /**
-   * Get the current envelope value for an oscillator (0-1 range)
+   * Get the current amp envelope value for a voice (0-1 range)
    * This method calculates the envelope value based on the current time and stage
    *
-   * @param oscIndex Index of the oscillator
+   * @param voiceIndex Index of the voice
    * @returns Current envelope amplitude (0-1), or 0 if idle
    */
-  getEnvelopeValue(oscIndex: number): number {
-    if (oscIndex < 0 || oscIndex >= this.envelopeStates.length) return 0;
+  getEnvelopeValue(voiceIndex: number): number {
+    if (voiceIndex < 0 || voiceIndex >= this.envelopeStates.length) return 0;
     if (!this.audioContext) return 0;
 
-    const state = this.envelopeStates[oscIndex];
+    const state = this.envelopeStates[voiceIndex];
     const currentTime = this.audioContext.currentTime;
     const elapsed = currentTime - state.stageStartTime;
 
@@ -573,7 +3346,7 @@ export class AudioNodeManager {
       case "attack":
         if (elapsed >= state.attackTime) {
           // Transition to decay stage
-          this.envelopeStates[oscIndex] = {
+          this.envelopeStates[voiceIndex] = {
             ...state,
             stage: "decay",
             stageStartTime: currentTime,
@@ -586,7 +3359,7 @@ export class AudioNodeManager {
       case "decay":
         if (elapsed >= state.decayTime) {
           // Transition to sustain stage
-          this.envelopeStates[oscIndex] = {
+          this.envelopeStates[voiceIndex] = {
             ...state,
             stage: "sustain",
             stageStartTime: currentTime,
@@ -602,7 +3375,7 @@ export class AudioNodeManager {
       case "release":
         if (elapsed >= state.releaseTime) {
           // Release complete, go to idle
-          this.envelopeStates[oscIndex] = {
+          this.envelopeStates[voiceIndex] = {
             ...state,
             stage: "idle",
             stageStartTime: currentTime,
@@ -1,4 +1,799 @@
-import { ADSRTimes, EnvelopeOperation } from "../../types";
+import {
+  ADSRTimes,
+  CompiledFunction,
+  CrusherSettings,
+  DelayDivision,
+  DelaySettings,
+  DriveCurveType,
+  DynamicsSettings,
+  EffectParams,
+  EffectSlot,
+  EffectSlotConfig,
+  EffectType,
+  EnvelopeOperation,
+  EQBand,
+  FilterSlope,
+  FilterType,
+  FMMode,
+  GlideCurve,
+  GlideSettings,
+  ModEffectSettings,
+  ModEffectType,
+  NoiseColor,
+  NoiseSettings,
+  ReverbSettings,
+  RingModState,
+  ShaperSettings,
+  SubOscSettings,
+  SubOscWaveform,
+  UnisonSettings,
+  VariableConfig,
+} from "../../types";
+import { calculateDetunedFrequency } from "../../utils/helperFunctions";
+import {
+  compileExpression,
+  createDefaultVariableConfig,
+  extractVariables,
+  parseExpression,
+} from "../../utils/expressionParser";
+
+/**
+ * Filter modes in selector order
+ */
+export const FILTER_TYPES: FilterType[] = [
+  "lowpass",
+  "highpass",
+  "bandpass",
+  "notch",
+  "peak",
+  "comb",
+];
+
+/**
+ * Low-pass/high-pass slopes in selector order (dB/oct)
+ */
+export const FILTER_SLOPES: FilterSlope[] = [6, 12, 24, 48];
+
+/**
+ * Number of biquads in each voice's cascade (enough for the 48 dB slope)
+ */
+export const MAX_FILTER_STAGES = 8;
+
+/**
+ * Boost of the peak mode at the cutoff (dB)
+ */
+const PEAK_GAIN_DB = 12;
+
+/**
+ * Level at the cutoff at full resonance (dB above the Butterworth -3 dB)
+ */
+const MAX_RESONANCE_DB = 24;
+
+/**
+ * Configuration of one biquad stage in the filter cascade
+ */
+export interface FilterStageSettings {
+  type: BiquadFilterType;
+  Q: number;
+  gain: number; // dB, only used by peaking stages
+}
+
+/**
+ * Note the filter key tracking is centered on (C4)
+ * Notes above it open the filter, notes below close it.
+ */
+export const KEYTRACK_REFERENCE_FREQUENCY = 261.63;
+
+/**
+ * Longest selectable glide time (ms)
+ */
+export const MAX_GLIDE_TIME = 2000;
+
+/**
+ * Glide settings of a new synth (and of patches that don't set any)
+ */
+export const DEFAULT_GLIDE_SETTINGS: GlideSettings = {
+  enabled: false,
+  time: 100,
+  curve: "linear",
+  mode: "always",
+};
+
+/**
+ * Time constants in one exponential glide (the pitch is within 1% after 5)
+ */
+const GLIDE_TIME_CONSTANTS = 5;
+
+/**
+ * Largest unison stack per oscillator (main source included)
+ */
+export const MAX_UNISON_VOICES = 16;
+
+/**
+ * Unison settings of a new oscillator (and of patches that don't set any)
+ */
+export const DEFAULT_UNISON_SETTINGS: UnisonSettings = {
+  voices: 1,
+  detune: 20,
+  width: 0.5,
+  randomPhase: true,
+};
+
+/**
+ * Ring modulators of a new synth (and of patches that don't set any):
+ * off, each fed by the next oscillator
+ */
+export const DEFAULT_RING_MODS: RingModState[] = [0, 1, 2, 3].map((i) => ({
+  mode: "off",
+  sourceIndex: (i + 1) % 4,
+  mix: 1.0,
+}));
+
+/**
+ * Noise colors in selector order
+ */
+export const NOISE_COLORS: NoiseColor[] = ["white", "pink", "brown"];
+
+/**
+ * Length of the looped noise buffers (seconds)
+ * Long enough that the loop isn't heard as a pattern
+ */
+export const NOISE_BUFFER_SECONDS = 2;
+
+/**
+ * Noise settings of a new synth (and of patches that don't set any)
+ */
+export const DEFAULT_NOISE_SETTINGS: NoiseSettings = {
+  color: "white",
+  level: 0,
+  pan: 0,
+  filter: "a",
+};
+
+/**
+ * Generate noise samples of a color, normalized to a peak of 1
+ * Pink noise uses Paul Kellet's filter bank on white noise; brown noise is
+ * leaky-integrated white noise.
+ *
+ * @param random - Source of uniform values in [0, 1) (Math.random by default)
+ */
+export const createNoiseSamples = (
+  color: NoiseColor,
+  length: number,
+  random: () => number = Math.random
+): Float32Array => {
+  const samples = new Float32Array(length);
+  let b0 = 0,
+    b1 = 0,
+    b2 = 0,
+    b3 = 0,
+    b4 = 0,
+    b5 = 0,
+    b6 = 0;
+  let last = 0;
+
+  for (let i = 0; i < length; i++) {
+    const white = random() * 2 - 1;
+
+    if (color === "pink") {
+      b0 = 0.99886 * b0 + white * 0.0555179;
+      b1 = 0.99332 * b1 + white * 0.0750759;
+      b2 = 0.969 * b2 + white * 0.153852;
+      b3 = 0.8665 * b3 + white * 0.3104856;
+      b4 = 0.55 * b4 + white * 0.5329522;
+      b5 = -0.7616 * b5 - white * 0.016898;
+      samples[i] = b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362;
+      b6 = white * 0.115926;
+    } else if (color === "brown") {
+      last = (last + 0.02 * white) / 1.02;
+      samples[i] = last;
+    } else {
+      samples[i] = white;
+    }
+  }
+
+  let peak = 0;
+  for (let i = 0; i < length; i++) {
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+  if (peak > 0) {
+    for (let i = 0; i < length; i++) samples[i] /= peak;
+  }
+
+  return samples;
+};
+
+/**
+ * Sub-oscillator waveforms in selector order
+ */
+export const SUB_OSC_WAVEFORMS: SubOscWaveform[] = ["sine", "square", "osc1"];
+
+/**
+ * Sub-oscillator settings of a new synth (and of patches that don't set any)
+ */
+export const DEFAULT_SUB_OSC_SETTINGS: SubOscSettings = {
+  waveform: "sine",
+  octave: 1,
+  level: 0,
+};
+
+/**
+ * Single-cycle table of a basic sub-oscillator shape
+ */
+export const createSubOscTable = (
+  waveform: "sine" | "square",
+  length: number = 2048
+): Float32Array => {
+  const table = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    table[i] =
+      waveform === "sine"
+        ? Math.sin((2 * Math.PI * i) / length)
+        : i < length / 2
+          ? 1
+          : -1;
+  }
+  return table;
+};
+
+/**
+ * Frequency of the sub-oscillator below an oscillator 1 frequency
+ */
+export const calculateSubOscFrequency = (
+  frequency: number,
+  octave: number
+): number => frequency / Math.pow(2, octave);
+
+/**
+ * Modulation effects in signal order
+ */
+export const MOD_EFFECT_TYPES: ModEffectType[] = [
+  "chorus",
+  "flanger",
+  "phaser",
+];
+
+/**
+ * Internal LFO rate range of the modulation effects (Hz)
+ */
+export const MIN_MOD_EFFECT_RATE = 0.05;
+export const MAX_MOD_EFFECT_RATE = 10;
+
+/**
+ * Highest modulation effect feedback
+ */
+export const MAX_MOD_EFFECT_FEEDBACK = 0.9;
+
+/**
+ * All-pass stages per side of the phaser
+ */
+export const PHASER_STAGES = 4;
+
+/**
+ * Center and full-depth swing of each effect's swept param
+ * Delay lines sweep their delay time (s), the phaser its all-pass
+ * frequencies (Hz). The flanger stays above one render quantum, which a
+ * DelayNode in a feedback cycle can't go below.
+ */
+export const MOD_EFFECT_SWEEPS: Record<
+  ModEffectType,
+  { center: number; range: number }
+> = {
+  chorus: { center: 0.015, range: 0.007 },
+  flanger: { center: 0.0065, range: 0.0035 },
+  phaser: { center: 1000, range: 800 },
+};
+
+/**
+ * Modulation effect settings of a new synth (mix at 0 leaves the signal dry)
+ */
+export const DEFAULT_MOD_EFFECT_SETTINGS: Record<
+  ModEffectType,
+  ModEffectSettings
+> = {
+  chorus: { rate: 0.8, depth: 0.5, feedback: 0, mix: 0, lfoSync: null },
+  flanger: { rate: 0.25, depth: 0.7, feedback: 0.5, mix: 0, lfoSync: null },
+  phaser: { rate: 0.5, depth: 0.6, feedback: 0.4, mix: 0, lfoSync: null },
+};
+
+/**
+ * Swing of a modulation effect's swept param at a depth (0-1)
+ */
+export const calculateModEffectSweep = (
+  type: ModEffectType,
+  depth: number
+): number => depth * MOD_EFFECT_SWEEPS[type].range;
+
+/**
+ * Tempo of a new synth (BPM)
+ */
+export const DEFAULT_TEMPO = 120;
+
+/**
+ * Selectable tempo range (BPM)
+ */
+export const MIN_TEMPO = 40;
+export const MAX_TEMPO = 240;
+
+/**
+ * Delay time range (ms)
+ * The shortest time stays above one render quantum, which a DelayNode in a
+ * feedback cycle can't go below.
+ */
+export const MIN_DELAY_TIME = 10;
+export const MAX_DELAY_TIME = 2000;
+
+/**
+ * Highest delay feedback (keeps the repeats from building up forever)
+ */
+export const MAX_DELAY_FEEDBACK = 0.95;
+
+/**
+ * Tempo-synced delay divisions in selector order
+ */
+export const DELAY_DIVISIONS: DelayDivision[] = [
+  "1/2",
+  "1/4",
+  "1/4d",
+  "1/4t",
+  "1/8",
+  "1/8d",
+  "1/8t",
+  "1/16",
+];
+
+/**
+ * Length of each delay division in beats (quarter notes)
+ */
+const DELAY_DIVISION_BEATS: Record<DelayDivision, number> = {
+  "1/2": 2,
+  "1/4": 1,
+  "1/4d": 1.5,
+  "1/4t": 2 / 3,
+  "1/8": 0.5,
+  "1/8d": 0.75,
+  "1/8t": 1 / 3,
+  "1/16": 0.25,
+};
+
+/**
+ * Delay settings of a new synth (mix at 0 leaves the signal dry)
+ */
+export const DEFAULT_DELAY_SETTINGS: DelaySettings = {
+  time: 375,
+  sync: false,
+  division: "1/8d",
+  feedback: 0.35,
+  filterCutoff: 4000,
+  mix: 0,
+  pingPong: true,
+};
+
+/**
+ * Delay time in ms, from the tempo and division when synced
+ * Clamped to the range of the delay lines.
+ */
+export const calculateDelayTime = (
+  settings: DelaySettings,
+  tempo: number
+): number => {
+  const time = settings.sync
+    ? (DELAY_DIVISION_BEATS[settings.division] * 60000) / tempo
+    : settings.time;
+  return Math.max(MIN_DELAY_TIME, Math.min(MAX_DELAY_TIME, time));
+};
+
+/**
+ * Convert an effect's mix (0-1) to equal-power dry and wet gains
+ */
+export const calculateMixGains = (
+  mix: number
+): { dry: number; wet: number } => ({
+  dry: Math.cos((mix * Math.PI) / 2),
+  wet: Math.sin((mix * Math.PI) / 2),
+});
+
+/**
+ * Bit crusher depth range (bits)
+ */
+export const MIN_CRUSHER_BITS = 1;
+export const MAX_CRUSHER_BITS = 16;
+
+/**
+ * Bit crusher target sample rate range (Hz)
+ * The worklet keeps every sample when the target is at or above the
+ * context's own rate.
+ */
+export const MIN_CRUSHER_RATE = 200;
+export const MAX_CRUSHER_RATE = 48000;
+
+/**
+ * Bit crusher settings of a new synth (and of patches that don't set any)
+ */
+export const DEFAULT_CRUSHER_SETTINGS: CrusherSettings = {
+  bits: 8,
+  rate: 11025,
+  mix: 0,
+};
+
+/**
+ * Input of a shaper expression (the sample being shaped, -1 to 1)
+ */
+export const SHAPER_INPUT_VARIABLE = "x";
+
+/**
+ * Shaper settings of a new synth (and of patches that don't set any)
+ */
+export const DEFAULT_SHAPER_SETTINGS: ShaperSettings = {
+  expression: "tanh(k*x)",
+  variables: {
+    k: { name: "k", value: 3, min: 0.1, max: 10, step: 0.1, defaultValue: 3 },
+  },
+  mix: 0,
+};
+
+/**
+ * Parse and compile a shaper expression
+ * Throws the parser's error when the expression is empty or invalid.
+ */
+export const compileShaperExpression = (
+  expression: string
+): CompiledFunction => {
+  if (expression.trim() === "") {
+    throw new Error(`Enter a function of ${SHAPER_INPUT_VARIABLE}`);
+  }
+  return compileExpression(parseExpression(expression));
+};
+
+/**
+ * Detect the variables of a shaper expression
+ * Variables it already had keep their configuration; new ones get defaults.
+ */
+export const detectShaperVariables = (
+  expression: string,
+  current: Record<string, VariableConfig>
+): Record<string, VariableConfig> => {
+  const variables: Record<string, VariableConfig> = {};
+  extractVariables(expression, [SHAPER_INPUT_VARIABLE]).forEach((name) => {
+    variables[name] = current[name] ?? createDefaultVariableConfig(name);
+  });
+  return variables;
+};
+
+/**
+ * Sample a shaper transfer function into a WaveShaperNode curve
+ * x runs from -1 to 1 across the curve. The output is clamped to full scale
+ * so a steep function can't blow up the level.
+ */
+export const createShaperCurve = (
+  transfer: CompiledFunction,
+  variables: Record<string, VariableConfig>,
+  length: number = 4096
+): Float32Array => {
+  const scope: Record<string, number> = {};
+  Object.values(variables).forEach((variable) => {
+    scope[variable.name] = variable.value;
+  });
+
+  const values = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    scope[SHAPER_INPUT_VARIABLE] = (i / (length - 1)) * 2 - 1;
+    values[i] = Math.max(-1, Math.min(1, transfer(scope)));
+  }
+  return values;
+};
+
+/**
+ * Reverb tail length range (s)
+ */
+export const MIN_REVERB_SIZE = 0.1;
+export const MAX_REVERB_SIZE = 8;
+
+/**
+ * Reverb decay range (exponent of the fade over the tail)
+ */
+export const MIN_REVERB_DECAY = 1;
+export const MAX_REVERB_DECAY = 10;
+
+/**
+ * Longest reverb pre-delay (ms)
+ */
+export const MAX_REVERB_PRE_DELAY = 250;
+
+/**
+ * Low-pass smoothing at the end of a fully damped tail
+ */
+const MAX_REVERB_SMOOTHING = 0.95;
+
+/**
+ * Reverb settings of a new synth (and of patches that don't set any)
+ */
+export const DEFAULT_REVERB_SETTINGS: ReverbSettings = {
+  size: 2,
+  decay: 3,
+  preDelay: 10,
+  damping: 0.5,
+  mix: 0,
+};
+
+/**
+ * Generate a stereo reverb impulse response
+ * Each channel is its own noise burst, so the tail is decorrelated between
+ * the sides. The tail fades as (1 - t)^decay over its length and runs
+ * through a one-pole low-pass that closes as it goes, so with damping the
+ * high frequencies die away first.
+ *
+ * @param random - Source of uniform values in [0, 1) (Math.random by default)
+ * @returns Left and right channel samples
+ */
+export const createReverbImpulse = (
+  settings: ReverbSettings,
+  sampleRate: number,
+  random: () => number = Math.random
+): Float32Array[] => {
+  const preDelay = Math.round((settings.preDelay / 1000) * sampleRate);
+  const tail = Math.max(1, Math.round(settings.size * sampleRate));
+
+  return [0, 1].map(() => {
+    const samples = new Float32Array(preDelay + tail);
+    let filtered = 0;
+    for (let i = 0; i < tail; i++) {
+      const position = i / tail;
+      const smoothing = settings.damping * position * MAX_REVERB_SMOOTHING;
+      filtered = filtered * smoothing + (random() * 2 - 1) * (1 - smoothing);
+      samples[preDelay + i] = filtered * Math.pow(1 - position, settings.decay);
+    }
+    return samples;
+  });
+};
+
+/**
+ * Effects in the rack's default signal order
+ */
+export const EFFECT_TYPES: EffectType[] = [
+  "crusher",
+  "shaper",
+  ...MOD_EFFECT_TYPES,
+  "delay",
+  "reverb",
+];
+
+/**
+ * Parameters of an effect in a new rack slot, all dry
+ */
+export const DEFAULT_EFFECT_PARAMS: EffectParams = {
+  crusher: DEFAULT_CRUSHER_SETTINGS,
+  shaper: DEFAULT_SHAPER_SETTINGS,
+  ...DEFAULT_MOD_EFFECT_SETTINGS,
+  delay: DEFAULT_DELAY_SETTINGS,
+  reverb: DEFAULT_REVERB_SETTINGS,
+};
+
+/**
+ * Effects rack of a new synth (and of patches that don't set one): every
+ * effect once, in the default signal order
+ */
+export const DEFAULT_EFFECT_SLOTS: EffectSlotConfig[] = EFFECT_TYPES.map(
+  (type) => ({ type })
+);
+
+/**
+ * Keep an effect's feedback in range and a shaper's variables in step with
+ * its expression
+ */
+export const limitEffectParams = <T extends EffectType>(
+  type: T,
+  params: EffectParams[T]
+): EffectParams[T] => {
+  if (type === "delay") {
+    const delay = params as DelaySettings;
+    const feedback = Math.max(0, Math.min(MAX_DELAY_FEEDBACK, delay.feedback));
+    return { ...delay, feedback } as EffectParams[T];
+  }
+  if (type === "shaper") {
+    const shaper = params as ShaperSettings;
+    const variables = detectShaperVariables(
+      shaper.expression,
+      shaper.variables
+    );
+    return { ...shaper, variables } as EffectParams[T];
+  }
+  if (MOD_EFFECT_TYPES.includes(type as ModEffectType)) {
+    const effect = params as ModEffectSettings;
+    const feedback = Math.max(
+      0,
+      Math.min(MAX_MOD_EFFECT_FEEDBACK, effect.feedback)
+    );
+    return { ...effect, feedback } as EffectParams[T];
+  }
+  return params;
+};
+
+// Rack slots created so far, numbering their ids
+let effectSlotCount = 0;
+
+/**
+ * Rack slot with a new id from its patch form
+ * Parameters the patch leaves out are at their defaults.
+ */
+export const createEffectSlot = (config: EffectSlotConfig): EffectSlot =>
+  ({
+    id: `${config.type}-${++effectSlotCount}`,
+    type: config.type,
+    params: limitEffectParams(config.type, {
+      ...DEFAULT_EFFECT_PARAMS[config.type],
+      ...config.params,
+    } as EffectParams[EffectType]),
+    bypass: config.bypass ?? false,
+  }) as EffectSlot;
+
+/**
+ * Rack slots from a patch, in its order
+ * Unknown effects are dropped, so patches from newer versions still load.
+ */
+export const createEffectSlots = (configs: EffectSlotConfig[]): EffectSlot[] =>
+  configs
+    .filter((config) => EFFECT_TYPES.includes(config.type))
+    .map(createEffectSlot);
+
+/**
+ * Master EQ ranges (frequency in Hz, gain in dB)
+ */
+export const MIN_EQ_FREQUENCY = 20;
+export const MAX_EQ_FREQUENCY = 20000;
+export const MAX_EQ_GAIN = 18;
+export const MIN_EQ_Q = 0.1;
+export const MAX_EQ_Q = 18;
+
+/**
+ * Master EQ bands of a new synth, all flat
+ */
+export const DEFAULT_EQ_BANDS: EQBand[] = [
+  { type: "lowshelf", frequency: 100, gain: 0, Q: 0.707 },
+  { type: "peaking", frequency: 500, gain: 0, Q: 1 },
+  { type: "peaking", frequency: 2500, gain: 0, Q: 1 },
+  { type: "highshelf", frequency: 8000, gain: 0, Q: 0.707 },
+];
+
+/**
+ * Frequencies spaced evenly on a log scale, for drawing responses
+ */
+export const createLogFrequencies = (
+  count: number,
+  min: number = MIN_EQ_FREQUENCY,
+  max: number = MAX_EQ_FREQUENCY
+): Float32Array => {
+  const frequencies = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    frequencies[i] = min * Math.pow(max / min, i / (count - 1));
+  }
+  return frequencies;
+};
+
+/**
+ * Compressor ranges (threshold in dB, attack and release in ms, makeup in dB)
+ */
+export const MIN_COMPRESSOR_THRESHOLD = -60;
+export const MIN_COMPRESSOR_RATIO = 1;
+export const MAX_COMPRESSOR_RATIO = 20;
+export const MAX_COMPRESSOR_ATTACK = 200;
+export const MIN_COMPRESSOR_RELEASE = 10;
+export const MAX_COMPRESSOR_RELEASE = 1000;
+export const MAX_COMPRESSOR_MAKEUP = 24;
+
+/**
+ * Lowest limiter ceiling (dBFS)
+ */
+export const MIN_LIMITER_CEILING = -12;
+
+/**
+ * Master dynamics of a new synth: the limiter guards the output, the
+ * compressor is left for the player to switch on
+ */
+export const DEFAULT_DYNAMICS_SETTINGS: DynamicsSettings = {
+  compressorEnabled: false,
+  threshold: -18,
+  ratio: 4,
+  attack: 10,
+  release: 200,
+  makeup: 0,
+  limiterEnabled: true,
+  ceiling: -1,
+};
+
+/**
+ * Convert decibels to a linear gain
+ */
+export const dbToGain = (db: number): number => Math.pow(10, db / 20);
+
+/**
+ * Convert a linear gain to decibels (-Infinity for silence)
+ */
+export const gainToDb = (gain: number): number => 20 * Math.log10(gain);
+
+/**
+ * Highest absolute sample value in a block
+ */
+export const calculatePeakLevel = (samples: Float32Array): number => {
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+  return peak;
+};
+
+/**
+ * Drive curve types in parameter order (the drive_curve parameter is an index)
+ */
+export const DRIVE_CURVE_TYPES: DriveCurveType[] = ["soft", "hard", "fold"];
+
+/**
+ * Input range of the drive curve (a voice can sum up to 4 full-scale oscillators)
+ */
+export const DRIVE_HEADROOM = 4;
+
+/**
+ * Maximum drive gain into the shaper (dB)
+ */
+const MAX_DRIVE_DB = 24;
+
+/**
+ * Level below which the soft curve is perfectly linear
+ */
+const SOFT_KNEE = 0.5;
+
+/**
+ * Shape a single sample of the drive transfer function
+ * Every curve is linear around zero so low levels pass unchanged
+ */
+const shapeDriveSample = (sample: number, curve: DriveCurveType): number => {
+  switch (curve) {
+    case "hard":
+      return Math.max(-1, Math.min(1, sample));
+    case "fold": {
+      // Triangle fold: reflect back every time full scale is crossed
+      const folded = (((sample + 1) % 4) + 4) % 4;
+      return folded < 2 ? folded - 1 : 3 - folded;
+    }
+    default: {
+      const magnitude = Math.abs(sample);
+      if (magnitude <= SOFT_KNEE) return sample;
+      return (
+        Math.sign(sample) *
+        (SOFT_KNEE +
+          (1 - SOFT_KNEE) *
+            Math.tanh((magnitude - SOFT_KNEE) / (1 - SOFT_KNEE)))
+      );
+    }
+  }
+};
+
+/**
+ * Build a WaveShaperNode curve covering signals of +/- DRIVE_HEADROOM
+ */
+export const createDriveCurve = (
+  curve: DriveCurveType,
+  length: number = 4096
+): Float32Array => {
+  const values = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const x = (i / (length - 1)) * 2 - 1;
+    values[i] = shapeDriveSample(x * DRIVE_HEADROOM, curve);
+  }
+  return values;
+};
+
+/**
+ * Convert drive (0-1) to the gains around the shaper
+ * - input: 0 to +24 dB, scaled into the curve's headroom
+ * - output: partial level compensation so drive mostly changes timbre
+ */
+export const calculateDriveGains = (
+  drive: number
+): { input: number; output: number } => {
+  const gain = Math.pow(10, (drive * MAX_DRIVE_DB) / 20);
+  return { input: gain / DRIVE_HEADROOM, output: 1 / Math.sqrt(gain) };
+};
 
 /**
  * Convert ADSR parameters (0-100) to time values in seconds
@@ -15,6 +810,160 @@ export const convertADSRToTimes = (adsr: {
   release: 0.001 + (adsr.release / 100) * 3.999,
 });
 
+/**
+ * Calculate the linear Q of each active stage for a low-pass/high-pass slope
+ * At zero resonance the stages form a Butterworth response (-3 dB at the
+ * cutoff). Resonance (0-20) raises the level at the cutoff by up to 24 dB,
+ * shared evenly between the stages (a second-order stage's gain at its
+ * cutoff is its linear Q), so the peak is the same height whatever the slope.
+ *
+ * The 6 dB slope returns the Q of its single stage (see
+ * calculateFilterBlendGain). BiquadFilterNode reads lowpass/highpass Q in
+ * dB, so calculateFilterStages converts these with linearQToDb.
+ */
+export const calculateFilterQValues = (
+  resonance: number,
+  slope: FilterSlope = 24
+): number[] => {
+  const peakGain = Math.pow(10, ((resonance / 20) * MAX_RESONANCE_DB) / 20);
+
+  if (slope === 6) {
+    // LP + 0.5 * BP has a gain of sqrt(Q^2 + 0.25) at the cutoff
+    return [Math.sqrt(Math.max(0.25, (peakGain * peakGain) / 2 - 0.25))];
+  }
+
+  const stageCount = slope / 12;
+  const order = stageCount * 2;
+  const stageGain = Math.pow(peakGain, 1 / stageCount);
+
+  return Array.from(
+    { length: stageCount },
+    (_, k) => stageGain / (2 * Math.sin(((2 * k + 1) * Math.PI) / (2 * order)))
+  );
+};
+
+/**
+ * Convert a linear Q to the dB value lowpass/highpass BiquadFilterNodes read
+ */
+export const linearQToDb = (Q: number): number => 20 * Math.log10(Q);
+
+/**
+ * Linear Q of the 6 dB blend's bandpass, the same as the first stage's
+ * (bandpass Q is linear on a BiquadFilterNode)
+ */
+export const calculateFilterBlendQ = (
+  resonance: number,
+  slope: FilterSlope
+): number => calculateFilterQValues(resonance, slope)[0];
+
+/**
+ * Level of the bandpass blended with the first stage
+ * With equal Q a lowpass plus half a bandpass is a first-order (6 dB/oct)
+ * lowpass, and the same holds for highpass.
+ */
+export const calculateFilterBlendGain = (
+  filterType: FilterType,
+  slope: FilterSlope
+): number =>
+  slope === 6 && (filterType === "lowpass" || filterType === "highpass")
+    ? 0.5
+    : 0;
+
+/**
+ * Calculate the configuration of each biquad stage for a filter mode
+ * Q is in the units the node reads for the stage's type.
+ * - lowpass/highpass: one stage per 12 dB of slope with the Q spread of
+ *   calculateFilterQValues, in dB
+ * - bandpass/notch/peak: one stage with resonance mapped to linear Q (0.7-12)
+ * - comb: the cascade is bypassed and the comb filter does the work
+ * Unused stages become 0 dB peaking filters, which pass audio unchanged.
+ */
+export const calculateFilterStages = (
+  filterType: FilterType,
+  resonance: number,
+  slope: FilterSlope = 24
+): FilterStageSettings[] => {
+  const neutral: FilterStageSettings = { type: "peaking", Q: 1, gain: 0 };
+  let active: FilterStageSettings[] = [];
+
+  switch (filterType) {
+    case "lowpass":
+    case "highpass":
+      active = calculateFilterQValues(resonance, slope).map((Q) => ({
+        type: filterType,
+        Q: linearQToDb(Q),
+        gain: 0,
+      }));
+      break;
+    case "bandpass":
+    case "notch":
+    case "peak": {
+      const Q = 0.7 + (resonance / 20) * 11.3;
+      active = [
+        filterType === "peak"
+          ? { type: "peaking", Q, gain: PEAK_GAIN_DB }
+          : { type: filterType, Q, gain: 0 },
+      ];
+      break;
+    }
+  }
+
+  return Array.from(
+    { length: MAX_FILTER_STAGES },
+    (_, index) => active[index] ?? neutral
+  );
+};
+
+/**
+ * Map resonance (0-20) to comb filter feedback (0.5-0.98)
+ */
+export const calculateCombFeedback = (resonance: number): number =>
+  Math.min(0.98, 0.5 + (resonance / 20) * 0.48);
+
+/**
+ * Stack positions (-1 to 1) of the unison copies around the main source
+ * Copies are added in pairs on either side; an even voice count leaves the
+ * outermost copy unpaired.
+ *
+ * @param voices - Stack size including the main source
+ * @returns One offset per copy (voices - 1 entries)
+ */
+export const calculateUnisonOffsets = (voices: number): number[] => {
+  const copies = Math.max(0, Math.round(voices) - 1);
+  const pairs = Math.ceil(copies / 2);
+  return Array.from({ length: copies }, (_, i) => {
+    const side = i % 2 === 0 ? -1 : 1;
+    return (side * Math.ceil((i + 1) / 2)) / pairs;
+  });
+};
+
+/**
+ * Frequency of a unison copy
+ * The outermost copies sit half the detune spread above and below the main
+ * source.
+ *
+ * @param frequency - Frequency of the main source (Hz)
+ * @param detune - Spread between the outermost copies (cents)
+ * @param offset - Stack position of the copy (see calculateUnisonOffsets)
+ */
+export const calculateUnisonFrequency = (
+  frequency: number,
+  detune: number,
+  offset: number
+): number => calculateDetunedFrequency(frequency, 0, 0, (detune / 2) * offset);
+
+/**
+ * Convert an FM matrix index to the gain of its modulation connection
+ * - pm: index in radians -> phase offset in cycles
+ * - fm: index -> frequency deviation in Hz (index x modulator frequency)
+ */
+export const calculateFMDepth = (
+  index: number,
+  mode: FMMode,
+  modulatorFrequency: number
+): number =>
+  mode === "pm" ? index / (2 * Math.PI) : index * modulatorFrequency;
+
 /**
  * Generate amplitude envelope operations
  */
@@ -60,16 +1009,37 @@ export const createAmpEnvelopeOps = (
   }
 };
 
+/**
+ * Apply filter key tracking (0-100%) to a cutoff
+ * At 100% the cutoff moves one octave per octave of the note away from the
+ * reference key; at 0% it doesn't move.
+ */
+export const calculateKeyTrackedCutoff = (
+  cutoff: number,
+  noteFrequency: number,
+  keyTrack: number
+): number => {
+  const ratio = noteFrequency / KEYTRACK_REFERENCE_FREQUENCY;
+  const tracked = cutoff * Math.pow(ratio, keyTrack / 100);
+  return Math.max(20, Math.min(20000, tracked));
+};
+
 /**
  * Generate filter envelope operations
+ * The base cutoff is key tracked for the note first, so the envelope opens
+ * from (and releases to) the note's own cutoff.
  */
 export const createFilterEnvelopeOps = (
   times: ADSRTimes,
   startTime: number,
-  baseCutoff: number,
+  cutoff: number,
   envelopeAmount: number,
-  isNoteOn: boolean
+  isNoteOn: boolean,
+  noteFrequency: number = KEYTRACK_REFERENCE_FREQUENCY,
+  keyTrack: number = 0
 ): EnvelopeOperation[] => {
+  const baseCutoff = calculateKeyTrackedCutoff(cutoff, noteFrequency, keyTrack);
+
   if (isNoteOn) {
     const maxCutoff = Math.min(20000, baseCutoff * 4);
     const targetCutoff = baseCutoff + (maxCutoff - baseCutoff) * envelopeAmount;
@@ -103,6 +1073,35 @@ export const createFilterEnvelopeOps = (
   }
 };
 
+/**
+ * Generate pitch glide operations for a frequency or playback rate param
+ * The linear curve ramps exponentially in value, which is linear in pitch.
+ */
+export const createGlideOps = (
+  fromValue: number,
+  toValue: number,
+  startTime: number,
+  duration: number,
+  curve: GlideCurve
+): EnvelopeOperation[] => {
+  const from = Math.max(0.001, fromValue); // Prevent zero for exponential
+  const to = Math.max(0.001, toValue);
+
+  return [
+    { method: "cancelScheduledValues", args: [startTime] },
+    { method: "setValueAtTime", args: [from, startTime] },
+    curve === "linear"
+      ? {
+          method: "exponentialRampToValueAtTime",
+          args: [to, startTime + duration],
+        }
+      : {
+          method: "setTargetAtTime",
+          args: [to, startTime, duration / GLIDE_TIME_CONSTANTS],
+        },
+  ];
+};
+
 /**
  * Apply envelope operations to an AudioParam
  */
@@ -119,3 +1118,33 @@ export const applyEnvelopeOps = (
     }
   });
 };
+
+/**
+ * Operations of a schedule still to come after a time
+ * Ramps already under way end at the same value and time, and a
+ * setTargetAtTime restarts from now (it only depends on the current value),
+ * so applying these after setting a param to where the schedule has got to
+ * continues it on another param.
+ */
+export const getPendingEnvelopeOps = (
+  operations: EnvelopeOperation[],
+  time: number
+): EnvelopeOperation[] =>
+  operations.flatMap((op): EnvelopeOperation[] => {
+    switch (op.method) {
+      case "cancelScheduledValues":
+        return [];
+      case "setTargetAtTime": {
+        const [target, startTime, timeConstant] = op.args;
+        return [
+          {
+            method: op.method,
+            args: [target, Math.max(startTime, time), timeConstant],
+          },
+        ];
+      }
+      default:
+        // Scheduled time is the last argument ("current value" sets have one)
+        return op.args[op.args.length - 1] > time ? [op] : [];
+    }
+  });
@@ -1,6 +1,31 @@
 import { useModulationStore } from "../useModulationStore";
-import { audioNodes } from "./audioEngineStore";
+import { useSynthControlsStore } from "../useSynthControlsStore";
+import {
+  applyFilterCutoff,
+  applyOscillatorUnison,
+  audioNodes,
+  useAudioEngineStore,
+} from "./audioEngineStore";
+import {
+  DEFAULT_CRUSHER_SETTINGS,
+  DEFAULT_MOD_EFFECT_SETTINGS,
+  MAX_CRUSHER_BITS,
+  MAX_CRUSHER_RATE,
+  MIN_CRUSHER_BITS,
+  MIN_CRUSHER_RATE,
+  DRIVE_CURVE_TYPES,
+  MAX_DELAY_FEEDBACK,
+  MAX_MOD_EFFECT_FEEDBACK,
+  MAX_MOD_EFFECT_RATE,
+  MIN_MOD_EFFECT_RATE,
+  MOD_EFFECT_TYPES,
+  MAX_DELAY_TIME,
+  MIN_DELAY_TIME,
+  MAX_UNISON_VOICES,
+} from "./helperFunctions";
+import { hasOscillatorSource } from "./audioNodeManager";
 import { ParameterMetadata } from "../../types";
+import { calculateDetunedFrequency } from "../../utils/helperFunctions";
 
 /**
  * Parameter Registry
@@ -14,7 +39,7 @@ import { ParameterMetadata } from "../../types";
  * Register an oscillator parameter with the modulation system
  *
  * @param oscIndex - Oscillator index (0-3)
- * @param paramName - Parameter name (frequency, detune_octave, detune_semitone, detune_cent, volume)
+ * @param paramName - Parameter name (frequency, detune_octave, detune_semitone, detune_cent, volume, pan, unison_*)
  * @param min - Minimum value
  * @param max - Maximum value
  * @param defaultValue - Default value
@@ -47,7 +72,7 @@ export const registerOscillatorParam = (
 /**
  * Register a filter parameter with the modulation system
  *
- * @param paramName - Parameter name (cutoff, resonance)
+ * @param paramName - Parameter name (cutoff, resonance, b_cutoff, b_resonance, keytrack)
  * @param min - Minimum value
  * @param max - Maximum value
  * @param defaultValue - Default value
@@ -76,6 +101,40 @@ export const registerFilterParam = (
   useModulationStore.getState().registerParameter(metadata);
 };
 
+/**
+ * Register a parameter of a synth section with the modulation system
+ *
+ * @param prefix - Section of the parameter id (noise, sub, drive, chorus, crusher, delay, fm_1to2, ...)
+ * @param paramName - Parameter name within the section
+ * @param min - Minimum value
+ * @param max - Maximum value
+ * @param defaultValue - Default value
+ * @param type - Parameter type (linear or exponential)
+ * @param updateFn - Function to update the Web Audio API parameter
+ */
+export const registerPrefixedParam = (
+  prefix: string,
+  paramName: string,
+  min: number,
+  max: number,
+  defaultValue: number,
+  type: "linear" | "exponential",
+  updateFn: (value: number) => void
+) => {
+  const paramId = `${prefix}_${paramName}`;
+
+  const metadata: ParameterMetadata = {
+    paramId,
+    min,
+    max,
+    default: defaultValue,
+    type,
+    updateFn,
+  };
+
+  useModulationStore.getState().registerParameter(metadata);
+};
+
 /**
  * Register an ADSR parameter with the modulation system
  *
@@ -158,17 +217,39 @@ export const registerAllParameters = () => {
       220,
       "exponential",
       (value: number) => {
-        const nodeSet = audioNodes.oscillators[i];
-        if (nodeSet && nodeSet.sourceNode && audioNodes.audioContext) {
-          const time = audioNodes.audioContext.currentTime;
+        if (!audioNodes.audioContext) return;
+        const engineState = useAudioEngineStore.getState();
+        const oscParams = useSynthControlsStore.getState().oscillators[i];
+        if (!oscParams || !oscParams.waveformData) return;
+
+        // Modulation is applied as a ratio to the base frequency so that
+        // every voice keeps its own pitch
+        const ratio = value / Math.max(1, engineState.oscillators[i].frequency);
+        const time = audioNodes.audioContext.currentTime;
+
+        audioNodes.voices.forEach((voice, voiceIndex) => {
+          const nodeSet = voice.oscillators[i];
+          const voiceState = engineState.voices[voiceIndex];
+          if (!hasOscillatorSource(nodeSet) || !voiceState) return;
+
+          const voiceFrequency =
+            voiceState.key !== null
+              ? calculateDetunedFrequency(
+                  voiceState.frequency,
+                  oscParams.detune.octave,
+                  oscParams.detune.semitone,
+                  oscParams.detune.cent
+                )
+              : engineState.oscillators[i].frequency;
+
           // Audio-rate parameter: 1ms ramp to prevent zipper noise
-          // Note: This is a simplified version - actual implementation
-          // needs to calculate playback rate based on waveform buffer
-          nodeSet.sourceNode.playbackRate.exponentialRampToValueAtTime(
-            Math.max(0.001, value / 220), // Prevent zero for exponential
-            time + 0.001 // 1ms ramp
+          audioNodes.setOscillatorFrequency(
+            nodeSet,
+            voiceFrequency * ratio,
+            oscParams.waveformData.length,
+            time
           );
-        }
+        });
       }
     );
 
@@ -212,14 +293,115 @@ export const registerAllParameters = () => {
       }
     );
 
+    // Oscillator FM feedback (linear, 0 to 1)
+    registerOscillatorParam(
+      i,
+      "feedback",
+      0,
+      1,
+      0,
+      "linear",
+      (value: number) => {
+        if (!audioNodes.audioContext) return;
+        const time = audioNodes.audioContext.currentTime;
+        audioNodes.voices.forEach((voice) => {
+          audioNodes.setOscillatorFeedback(voice.oscillators[i], value, time);
+        });
+      }
+    );
+
+    // Oscillator ring/amplitude modulation dry/wet (linear, 0 to 1)
+    registerOscillatorParam(
+      i,
+      "ring_mix",
+      0,
+      1,
+      1,
+      "linear",
+      (value: number) => {
+        useAudioEngineStore.getState()._applyRingModMix(i, value);
+      }
+    );
+
     // Oscillator volume (linear, 0 to 1)
     registerOscillatorParam(i, "volume", 0, 1, 1, "linear", (value: number) => {
-      const nodeSet = audioNodes.oscillators[i];
-      if (nodeSet && nodeSet.gainNode) {
-        // Set directly to avoid canceling envelope automation
-        nodeSet.gainNode.gain.value = value;
-      }
+      audioNodes.voices.forEach((voice) => {
+        const nodeSet = voice.oscillators[i];
+        if (nodeSet && nodeSet.gainNode) {
+          // Set directly to avoid canceling envelope automation
+          nodeSet.gainNode.gain.value = value;
+        }
+      });
     });
+
+    // Oscillator pan (linear, -1 to 1)
+    registerOscillatorParam(i, "pan", -1, 1, 0, "linear", (value: number) => {
+      audioNodes.voices.forEach((voice) => {
+        const nodeSet = voice.oscillators[i];
+        if (nodeSet && nodeSet.pannerNode) {
+          nodeSet.pannerNode.pan.value = value;
+        }
+      });
+    });
+
+    // Oscillator unison stack size (linear, 1 to 16 copies)
+    registerOscillatorParam(
+      i,
+      "unison_voices",
+      1,
+      MAX_UNISON_VOICES,
+      1,
+      "linear",
+      (value: number) => {
+        applyOscillatorUnison(i, { voices: Math.round(value) });
+      }
+    );
+
+    // Oscillator unison detune spread (linear, 0 to 100 cents)
+    registerOscillatorParam(
+      i,
+      "unison_detune",
+      0,
+      100,
+      20,
+      "linear",
+      (value: number) => {
+        applyOscillatorUnison(i, { detune: value });
+      }
+    );
+
+    // Oscillator unison stereo width (linear, 0 to 1)
+    registerOscillatorParam(
+      i,
+      "unison_width",
+      0,
+      1,
+      0.5,
+      "linear",
+      (value: number) => {
+        applyOscillatorUnison(i, { width: value });
+      }
+    );
+  }
+
+  // Register FM matrix parameters (every modulator -> carrier pair)
+  for (let m = 0; m < 4; m++) {
+    for (let c = 0; c < 4; c++) {
+      if (m === c) continue; // Self-modulation is the oscillator's feedback
+
+      // FM index (linear, 0-10)
+      registerPrefixedParam(
+        `fm_${m + 1}to${c + 1}`,
+        "index",
+        0,
+        10,
+        0,
+        "linear",
+        (value: number) => {
+          useAudioEngineStore.getState()._applyFMIndex(m, c, value);
+        }
+      );
+    }
   }
 
   // Register filter parameters
@@ -231,26 +413,325 @@ export const registerAllParameters = () => {
     632,
     "exponential",
     (value: number) => {
-      if (audioNodes.filterNodes.length === 4) {
-        // Set value directly - allows coexistence with envelope automation
-        audioNodes.filterNodes.forEach((filter) => {
-          filter.frequency.value = Math.max(20, value);
-        });
-      }
+      // Set value directly - allows coexistence with envelope automation
+      applyFilterCutoff("a", value);
     }
   );
 
   // Filter resonance (linear, 0-30)
   registerFilterParam("resonance", 0, 30, 0, "linear", (value: number) => {
-    if (audioNodes.filterNodes.length === 4) {
-      // Calculate Q values using same formula as filter creation
-      const baseQ = 0.5 + (value / 20) * 3.5;
-      const qValues = [baseQ * 0.7, baseQ * 0.85, baseQ * 1.0, baseQ * 1.15];
-      // Set directly to avoid canceling any automation
-      audioNodes.filterNodes.forEach((filter, index) => {
-        filter.Q.value = qValues[index];
+    // Spread resonance over the stages for the current filter mode and slope
+    // (set directly to avoid canceling any automation)
+    const { filterType, filterSlope } = useAudioEngineStore.getState();
+    audioNodes.configureFilters(filterType, value, filterSlope);
+  });
+
+  // Filter B cutoff (exponential, 20-20000 Hz)
+  registerFilterParam(
+    "b_cutoff",
+    20,
+    20000,
+    2000,
+    "exponential",
+    (value: number) => {
+      applyFilterCutoff("b", value);
+    }
+  );
+
+  // Filter B resonance (linear, 0-30)
+  registerFilterParam("b_resonance", 0, 30, 0, "linear", (value: number) => {
+    const { filterType, filterSlope } = useAudioEngineStore.getState().filterB;
+    audioNodes.configureFilters(filterType, value, filterSlope, undefined, "b");
+  });
+
+  // Filter key tracking (linear, 0-100%)
+  registerFilterParam("keytrack", 0, 100, 0, "linear", (value: number) => {
+    audioNodes.filterKeyTrack = value;
+
+    // Modulated cutoffs pick the amount up on their next update; otherwise
+    // re-apply the cutoff unless a filter envelope is moving it
+    const { routes } = useModulationStore.getState();
+    const state = useAudioEngineStore.getState();
+    if (!routes["filter_cutoff"]?.length && state.filterEnvelopeAmount === 0) {
+      applyFilterCutoff("a", state.cutoffFrequency);
+    }
+    if (
+      !routes["filter_b_cutoff"]?.length &&
+      state.filterB.envelopeAmount === 0
+    ) {
+      applyFilterCutoff("b", state.filterB.cutoffFrequency);
+    }
+  });
+
+  // Register noise parameters
+  // Noise level (linear, 0-1)
+  registerPrefixedParam(
+    "noise",
+    "level",
+    0,
+    1,
+    0,
+    "linear",
+    (value: number) => {
+      audioNodes.voices.forEach((voice) => {
+        if (voice.noise.gainNode) voice.noise.gainNode.gain.value = value;
       });
     }
+  );
+
+  // Noise pan (linear, -1 to 1)
+  registerPrefixedParam("noise", "pan", -1, 1, 0, "linear", (value: number) => {
+    audioNodes.voices.forEach((voice) => {
+      if (voice.noise.pannerNode) voice.noise.pannerNode.pan.value = value;
+    });
+  });
+
+  // Register sub-oscillator parameters
+  // Sub-oscillator volume (linear, 0-1)
+  registerPrefixedParam("sub", "volume", 0, 1, 0, "linear", (value: number) => {
+    audioNodes.voices.forEach((voice) => {
+      if (voice.subOsc.gainNode) voice.subOsc.gainNode.gain.value = value;
+    });
+  });
+
+  // Register drive parameters
+  // Drive amount (linear, 0-1)
+  registerPrefixedParam(
+    "drive",
+    "amount",
+    0,
+    1,
+    0,
+    "linear",
+    (value: number) => {
+      if (!audioNodes.audioContext) return;
+      audioNodes.setDrive(value, audioNodes.audioContext.currentTime);
+    }
+  );
+
+  // Drive curve (index into DRIVE_CURVE_TYPES)
+  registerPrefixedParam(
+    "drive",
+    "curve",
+    0,
+    DRIVE_CURVE_TYPES.length - 1,
+    0,
+    "linear",
+    (value: number) => {
+      const index = Math.max(
+        0,
+        Math.min(DRIVE_CURVE_TYPES.length - 1, Math.round(value))
+      );
+      audioNodes.setDriveCurve(DRIVE_CURVE_TYPES[index]);
+    }
+  );
+
+  // Register bit crusher parameters
+  // Effect parameters drive the first rack slot of their effect
+  // Crusher bit depth (linear, 1-16 bits)
+  registerPrefixedParam(
+    "crusher",
+    "bits",
+    MIN_CRUSHER_BITS,
+    MAX_CRUSHER_BITS,
+    DEFAULT_CRUSHER_SETTINGS.bits,
+    "linear",
+    (value: number) => {
+      const id = audioNodes.findEffectSlot("crusher");
+      if (!id || !audioNodes.audioContext) return;
+      audioNodes.setCrusherParam(
+        id,
+        "bits",
+        value,
+        audioNodes.audioContext.currentTime
+      );
+    }
+  );
+
+  // Crusher sample rate (exponential, 200-48000 Hz)
+  registerPrefixedParam(
+    "crusher",
+    "rate",
+    MIN_CRUSHER_RATE,
+    MAX_CRUSHER_RATE,
+    DEFAULT_CRUSHER_SETTINGS.rate,
+    "exponential",
+    (value: number) => {
+      const id = audioNodes.findEffectSlot("crusher");
+      if (!id || !audioNodes.audioContext) return;
+      audioNodes.setCrusherParam(
+        id,
+        "rate",
+        value,
+        audioNodes.audioContext.currentTime
+      );
+    }
+  );
+
+  // Crusher mix (linear, 0-1)
+  registerPrefixedParam(
+    "crusher",
+    "mix",
+    0,
+    1,
+    0,
+    "linear",
+    (value: number) => {
+      const id = audioNodes.findEffectSlot("crusher");
+      if (!id || !audioNodes.audioContext) return;
+      audioNodes.setCrusherParam(
+        id,
+        "mix",
+        value,
+        audioNodes.audioContext.currentTime
+      );
+    }
+  );
+
+  // Register shaper parameters
+  // Shaper mix (linear, 0-1)
+  registerPrefixedParam("shaper", "mix", 0, 1, 0, "linear", (value: number) => {
+    const id = audioNodes.findEffectSlot("shaper");
+    if (!id || !audioNodes.audioContext) return;
+    audioNodes.setShaperMix(id, value, audioNodes.audioContext.currentTime);
+  });
+
+  // Register modulation effect parameters (chorus, flanger, phaser)
+  MOD_EFFECT_TYPES.forEach((effect) => {
+    const defaults = DEFAULT_MOD_EFFECT_SETTINGS[effect];
+
+    // Internal LFO rate (exponential, Hz)
+    registerPrefixedParam(
+      effect,
+      "rate",
+      MIN_MOD_EFFECT_RATE,
+      MAX_MOD_EFFECT_RATE,
+      defaults.rate,
+      "exponential",
+      (value: number) => {
+        const id = audioNodes.findEffectSlot(effect);
+        if (!id || !audioNodes.audioContext) return;
+        audioNodes.setModEffectRate(
+          id,
+          value,
+          audioNodes.audioContext.currentTime
+        );
+      }
+    );
+
+    // Sweep depth (linear, 0-1)
+    registerPrefixedParam(
+      effect,
+      "depth",
+      0,
+      1,
+      defaults.depth,
+      "linear",
+      (value: number) => {
+        const id = audioNodes.findEffectSlot(effect);
+        if (!id || !audioNodes.audioContext) return;
+        audioNodes.setModEffectDepth(
+          id,
+          value,
+          audioNodes.audioContext.currentTime
+        );
+      }
+    );
+
+    // Feedback (linear, 0-0.9)
+    registerPrefixedParam(
+      effect,
+      "feedback",
+      0,
+      MAX_MOD_EFFECT_FEEDBACK,
+      defaults.feedback,
+      "linear",
+      (value: number) => {
+        const id = audioNodes.findEffectSlot(effect);
+        if (!id || !audioNodes.audioContext) return;
+        audioNodes.setModEffectFeedback(
+          id,
+          value,
+          audioNodes.audioContext.currentTime
+        );
+      }
+    );
+
+    // Mix (linear, 0-1)
+    registerPrefixedParam(effect, "mix", 0, 1, 0, "linear", (value: number) => {
+      const id = audioNodes.findEffectSlot(effect);
+      if (!id || !audioNodes.audioContext) return;
+      audioNodes.setModEffectMix(
+        id,
+        value,
+        audioNodes.audioContext.currentTime
+      );
+    });
+  });
+
+  // Register delay parameters
+  // Delay time (exponential, ms)
+  registerPrefixedParam(
+    "delay",
+    "time",
+    MIN_DELAY_TIME,
+    MAX_DELAY_TIME,
+    375,
+    "exponential",
+    (value: number) => {
+      const id = audioNodes.findEffectSlot("delay");
+      if (!id || !audioNodes.audioContext) return;
+      audioNodes.setDelayTime(id, value, audioNodes.audioContext.currentTime);
+    }
+  );
+
+  // Delay feedback (linear, 0-0.95)
+  registerPrefixedParam(
+    "delay",
+    "feedback",
+    0,
+    MAX_DELAY_FEEDBACK,
+    0.35,
+    "linear",
+    (value: number) => {
+      const id = audioNodes.findEffectSlot("delay");
+      if (!id || !audioNodes.audioContext) return;
+      audioNodes.setDelayFeedback(
+        id,
+        value,
+        audioNodes.audioContext.currentTime
+      );
+    }
+  );
+
+  // Delay feedback filter cutoff (exponential, 200-20000 Hz)
+  registerPrefixedParam(
+    "delay",
+    "filter",
+    200,
+    20000,
+    4000,
+    "exponential",
+    (value: number) => {
+      const id = audioNodes.findEffectSlot("delay");
+      if (!id || !audioNodes.audioContext) return;
+      audioNodes.setDelayFilter(id, value, audioNodes.audioContext.currentTime);
+    }
+  );
+
+  // Delay mix (linear, 0-1)
+  registerPrefixedParam("delay", "mix", 0, 1, 0, "linear", (value: number) => {
+    const id = audioNodes.findEffectSlot("delay");
+    if (!id || !audioNodes.audioContext) return;
+    audioNodes.setDelayMix(id, value, audioNodes.audioContext.currentTime);
+  });
+
+  // Register reverb parameters
+  // Reverb mix (linear, 0-1)
+  registerPrefixedParam("reverb", "mix", 0, 1, 0, "linear", (value: number) => {
+    const id = audioNodes.findEffectSlot("reverb");
+    if (!id || !audioNodes.audioContext) return;
+    audioNodes.setReverbMix(id, value, audioNodes.audioContext.currentTime);
   });
 
   // Register LFO parameters (2 LFOs)
@@ -0,0 +1,159 @@
+import {
+  HeldNote,
+  NotePriority,
+  VoiceState,
+  VoiceStealMode,
+} from "../../types";
+
+/**
+ * Voice Allocator
+ *
+ * Pure helpers that decide which voice a new note should play on.
+ * The audio nodes for every voice live in AudioNodeManager; this module only
+ * works on the serializable VoiceState array kept in the audio engine store.
+ */
+
+/** Number of voices allocated by default */
+export const DEFAULT_VOICE_COUNT = 8;
+
+/** Upper bound for the configurable voice count */
+export const MAX_VOICE_COUNT = 16;
+
+/**
+ * Create an idle voice state
+ */
+export const createIdleVoice = (): VoiceState => ({
+  key: null,
+  frequency: 220,
+  isHeld: false,
+  startTime: 0,
+  releaseTime: null,
+});
+
+/**
+ * Resize a voice array, keeping existing voices and padding with idle ones
+ */
+export const resizeVoiceStates = (
+  voices: VoiceState[],
+  count: number
+): VoiceState[] => {
+  const clamped = Math.max(1, Math.min(MAX_VOICE_COUNT, Math.round(count)));
+  const resized = voices.slice(0, clamped);
+  while (resized.length < clamped) {
+    resized.push(createIdleVoice());
+  }
+  return resized;
+};
+
+/**
+ * Pick the index with the lowest score from a list of candidate voices
+ */
+const pickLowest = (
+  candidates: number[],
+  score: (voiceIndex: number) => number
+): number => {
+  let best = candidates[0];
+  let bestScore = score(best);
+  for (let i = 1; i < candidates.length; i++) {
+    const candidateScore = score(candidates[i]);
+    if (candidateScore < bestScore) {
+      best = candidates[i];
+      bestScore = candidateScore;
+    }
+  }
+  return best;
+};
+
+/**
+ * Choose a voice for a new note
+ *
+ * Priority:
+ * 1. A voice already playing the same key (retrigger in place)
+ * 2. A voice that has never been used
+ * 3. A released voice (oldest release, or quietest in "quietest" mode)
+ * 4. A held voice, stolen according to the steal mode
+ *
+ * @param voices - Current voice states
+ * @param key - Keyboard key of the new note
+ * @param stealMode - Strategy used when every voice is busy
+ * @param getVoiceLevel - Returns the current envelope level (0-1) of a voice
+ * @returns The chosen voice index and whether a held note was stolen
+ */
+export const allocateVoice = (
+  voices: VoiceState[],
+  key: string,
+  stealMode: VoiceStealMode,
+  getVoiceLevel: (voiceIndex: number) => number
+): { voiceIndex: number; stolen: boolean } => {
+  const sameKey = voices.findIndex((voice) => voice.key === key);
+  if (sameKey >= 0) {
+    return { voiceIndex: sameKey, stolen: false };
+  }
+
+  const unused = voices.findIndex((voice) => voice.key === null);
+  if (unused >= 0) {
+    return { voiceIndex: unused, stolen: false };
+  }
+
+  const released: number[] = [];
+  const held: number[] = [];
+  voices.forEach((voice, index) => {
+    (voice.isHeld ? held : released).push(index);
+  });
+
+  const score =
+    stealMode === "quietest"
+      ? getVoiceLevel
+      : (voiceIndex: number) => {
+          const voice = voices[voiceIndex];
+          return voice.isHeld
+            ? voice.startTime
+            : (voice.releaseTime ?? voice.startTime);
+        };
+
+  if (released.length > 0) {
+    return { voiceIndex: pickLowest(released, score), stolen: false };
+  }
+
+  return { voiceIndex: pickLowest(held, score), stolen: true };
+};
+
+/**
+ * Find the voice currently holding a key
+ * @returns Voice index, or -1 if the key is not held
+ */
+export const findHeldVoice = (voices: VoiceState[], key: string): number =>
+  voices.findIndex((voice) => voice.isHeld && voice.key === key);
+
+/**
+ * Find the most recently started voice
+ * Used wherever a single voice has to stand in for the whole synth
+ * (e.g. reading an oscillator as a modulation source)
+ */
+export const getNewestVoiceIndex = (voices: VoiceState[]): number => {
+  let newest = 0;
+  for (let i = 1; i < voices.length; i++) {
+    if (voices[i].startTime > voices[newest].startTime) newest = i;
+  }
+  return newest;
+};
+
+/**
+ * Pick the note that should sound from the mono note stack
+ * @returns The note to play, or undefined when no key is held
+ */
+export const selectPriorityNote = (
+  noteStack: HeldNote[],
+  priority: NotePriority
+): HeldNote | undefined => {
+  if (priority === "last") return noteStack[noteStack.length - 1];
+
+  return noteStack.reduce<HeldNote | undefined>((best, note) => {
+    if (!best) return note;
+    const isBetter =
+      priority === "low"
+        ? note.frequency < best.frequency
+        : note.frequency > best.frequency;
+    return isBetter ? note : best;
+  }, undefined);
+};
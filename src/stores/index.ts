@@ -21,6 +21,12 @@ export {
 } from "./AudioEngine/audioEngineStore";
 export { useSettingsStore } from "./useSettingsStore";
 export { useModulationStore } from "./useModulationStore";
+export { useEffectsRackStore } from "./useEffectsRackStore";
+export {
+  PATCH_PRESETS,
+  getPatchPreset,
+  applyPatchPreset,
+} from "./patchPresets";
 
 // Re-export types for convenience
 export type { HarmonicParam, KeyboardNote } from "../types/synthControlsTypes";
@@ -59,3 +65,8 @@ export {
   selectTotalRouteCount,
   selectIsSourceActive,
 } from "./useModulationStore";
+
+export {
+  selectIsEffectBypassed,
+  selectModulatedSlot,
+} from "./useEffectsRackStore";
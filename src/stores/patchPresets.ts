@@ -0,0 +1,476 @@
+import type {
+  ADSRParams,
+  EffectParams,
+  EffectSlotConfig,
+  EffectType,
+  HarmonicParam,
+  PatchOscillator,
+  PatchPreset,
+} from "../types";
+import { calculateWaveform } from "../utils/helperFunctions";
+import { useAudioEngineStore } from "./AudioEngine/audioEngineStore";
+import {
+  DEFAULT_DYNAMICS_SETTINGS,
+  DEFAULT_EFFECT_SLOTS,
+  DEFAULT_EQ_BANDS,
+  DEFAULT_GLIDE_SETTINGS,
+  DEFAULT_NOISE_SETTINGS,
+  DEFAULT_RING_MODS,
+  DEFAULT_SUB_OSC_SETTINGS,
+  DEFAULT_UNISON_SETTINGS,
+} from "./AudioEngine/helperFunctions";
+import { useEffectsRackStore } from "./useEffectsRackStore";
+import { useSynthControlsStore } from "./useSynthControlsStore";
+
+const HARMONIC_COUNT = 8;
+
+// Harmonic amplitude series for the classic shapes
+const SINE = [1];
+const SAW = Array.from({ length: HARMONIC_COUNT }, (_, i) => 1 / (i + 1));
+const SQUARE = SAW.map((amplitude, i) => (i % 2 === 0 ? amplitude : 0));
+const TRIANGLE = SAW.map((amplitude, i) =>
+  i % 2 === 0 ? amplitude * amplitude : 0
+);
+
+const OFF: PatchOscillator = { harmonics: SINE, volume: 1, isActive: false };
+
+const envelope = (
+  attack: number,
+  decay: number,
+  sustain: number,
+  release: number
+): ADSRParams => ({ attack, decay, sustain, release });
+
+// Default effects rack with some of its effects' parameters set
+const rack = (params: {
+  [K in EffectType]?: Partial<EffectParams[K]>;
+}): EffectSlotConfig[] =>
+  DEFAULT_EFFECT_SLOTS.map(
+    (slot) => ({ ...slot, params: params[slot.type] }) as EffectSlotConfig
+  );
+
+/**
+ * Factory patches listed in PatchPresetControls
+ */
+export const PATCH_PRESETS: PatchPreset[] = [
+  {
+    id: "bass-deep",
+    name: "Deep Bass",
+    category: "bass",
+    oscillators: [
+      { harmonics: SAW, volume: 0.8, isActive: true },
+      OFF,
+      OFF,
+      OFF,
+    ],
+    ampADSR: envelope(0, 30, 80, 10),
+    filterADSR: envelope(0, 25, 20, 10),
+    cutoffFrequency: 250,
+    resonance: 4,
+    filterType: "lowpass",
+    filterSlope: 48,
+    filterEnvelopeAmount: 40,
+    drive: 0.3,
+    driveCurve: "soft",
+    subOsc: { waveform: "square", octave: 1, level: 0.6 },
+  },
+  {
+    id: "bass-sub",
+    name: "Sub Bass",
+    category: "bass",
+    oscillators: [
+      {
+        harmonics: SINE,
+        volume: 1,
+        isActive: true,
+        detune: { octave: -1, semitone: 0, cent: 0 },
+      },
+      { harmonics: TRIANGLE, volume: 0.3, isActive: true },
+      OFF,
+      OFF,
+    ],
+    ampADSR: envelope(0, 0, 100, 8),
+    filterADSR: envelope(0, 0, 100, 0),
+    cutoffFrequency: 180,
+    resonance: 0,
+    filterType: "lowpass",
+    filterSlope: 48,
+    filterEnvelopeAmount: 0,
+    drive: 0,
+    driveCurve: "soft",
+  },
+  {
+    id: "bass-wobble",
+    name: "Wobble Bass",
+    category: "bass",
+    oscillators: [
+      { harmonics: SAW, volume: 0.8, isActive: true },
+      {
+        harmonics: SAW,
+        volume: 0.8,
+        isActive: true,
+        detune: { octave: 0, semitone: 0, cent: 12 },
+      },
+      OFF,
+      OFF,
+    ],
+    ampADSR: envelope(0, 0, 100, 10),
+    filterADSR: envelope(0, 0, 100, 0),
+    cutoffFrequency: 400,
+    resonance: 14,
+    filterType: "bandpass",
+    filterSlope: 48,
+    filterEnvelopeAmount: 0,
+    drive: 0.5,
+    driveCurve: "hard",
+  },
+  {
+    id: "lead-bright",
+    name: "Bright Lead",
+    category: "lead",
+    oscillators: [
+      { harmonics: SAW, volume: 0.7, isActive: true },
+      {
+        harmonics: SQUARE,
+        volume: 0.5,
+        isActive: true,
+        detune: { octave: 1, semitone: 0, cent: 0 },
+      },
+      OFF,
+      OFF,
+    ],
+    ampADSR: envelope(0, 10, 90, 15),
+    filterADSR: envelope(0, 0, 100, 0),
+    cutoffFrequency: 2000,
+    resonance: 6,
+    filterType: "peak",
+    filterSlope: 24,
+    filterEnvelopeAmount: 0,
+    drive: 0.2,
+    driveCurve: "soft",
+  },
+  {
+    id: "lead-pluck",
+    name: "Pluck Lead",
+    category: "lead",
+    oscillators: [
+      { harmonics: SQUARE, volume: 0.8, isActive: true },
+      OFF,
+      OFF,
+      OFF,
+    ],
+    ampADSR: envelope(0, 25, 0, 20),
+    filterADSR: envelope(0, 15, 0, 10),
+    cutoffFrequency: 300,
+    resonance: 8,
+    filterType: "lowpass",
+    filterSlope: 24,
+    filterEnvelopeAmount: 70,
+    drive: 0,
+    driveCurve: "soft",
+  },
+  {
+    id: "lead-saw",
+    name: "Saw Lead",
+    category: "lead",
+    oscillators: [
+      {
+        harmonics: SAW,
+        volume: 0.7,
+        isActive: true,
+        unison: { voices: 5, detune: 25, width: 0.6, randomPhase: true },
+      },
+      {
+        harmonics: SAW,
+        volume: 0.7,
+        pan: -0.4,
+        isActive: true,
+        detune: { octave: 0, semitone: 0, cent: -8 },
+      },
+      {
+        harmonics: SAW,
+        volume: 0.7,
+        pan: 0.4,
+        isActive: true,
+        detune: { octave: 0, semitone: 0, cent: 8 },
+      },
+      OFF,
+    ],
+    ampADSR: envelope(0, 0, 100, 15),
+    filterADSR: envelope(0, 0, 100, 0),
+    cutoffFrequency: 3500,
+    resonance: 3,
+    filterType: "lowpass",
+    filterSlope: 24,
+    filterEnvelopeAmount: 0,
+    drive: 0.15,
+    driveCurve: "soft",
+    glide: { enabled: true, time: 80, curve: "exponential", mode: "legato" },
+  },
+  {
+    id: "pad-warm",
+    name: "Warm Pad",
+    category: "pad",
+    oscillators: [
+      { harmonics: TRIANGLE, volume: 0.7, isActive: true },
+      {
+        harmonics: SAW,
+        volume: 0.4,
+        isActive: true,
+        detune: { octave: 0, semitone: 0, cent: 6 },
+      },
+      OFF,
+      OFF,
+    ],
+    ampADSR: envelope(45, 30, 80, 50),
+    filterADSR: envelope(50, 30, 60, 50),
+    cutoffFrequency: 900,
+    resonance: 2,
+    filterType: "lowpass",
+    filterSlope: 12,
+    filterEnvelopeAmount: 30,
+    drive: 0,
+    driveCurve: "soft",
+  },
+  {
+    id: "pad-strings",
+    name: "String Pad",
+    category: "pad",
+    oscillators: [
+      { harmonics: SAW, volume: 0.6, isActive: true },
+      {
+        harmonics: SAW,
+        volume: 0.6,
+        pan: -0.7,
+        isActive: true,
+        detune: { octave: 0, semitone: 0, cent: -10 },
+      },
+      {
+        harmonics: SAW,
+        volume: 0.6,
+        pan: 0.7,
+        isActive: true,
+        detune: { octave: 0, semitone: 0, cent: 10 },
+      },
+      OFF,
+    ],
+    ampADSR: envelope(35, 20, 90, 40),
+    filterADSR: envelope(0, 0, 100, 0),
+    cutoffFrequency: 150,
+    resonance: 2,
+    filterType: "highpass",
+    filterSlope: 12,
+    filterEnvelopeAmount: 0,
+    drive: 0,
+    driveCurve: "soft",
+    effectsRack: rack({
+      chorus: { rate: 0.6, depth: 0.6, feedback: 0.1, mix: 0.5, lfoSync: null },
+    }),
+  },
+  {
+    id: "pad-ambient",
+    name: "Ambient Pad",
+    category: "pad",
+    oscillators: [
+      { harmonics: SINE, volume: 0.7, isActive: true },
+      {
+        harmonics: TRIANGLE,
+        volume: 0.5,
+        isActive: true,
+        detune: { octave: 1, semitone: 7, cent: 0 },
+      },
+      OFF,
+      OFF,
+    ],
+    ampADSR: envelope(60, 40, 70, 70),
+    filterADSR: envelope(0, 0, 100, 0),
+    cutoffFrequency: 220,
+    resonance: 12,
+    filterType: "comb",
+    filterSlope: 12,
+    filterEnvelopeAmount: 0,
+    drive: 0,
+    driveCurve: "soft",
+    effectsRack: rack({
+      chorus: { rate: 0.3, depth: 0.4, feedback: 0, mix: 0.35, lfoSync: null },
+      phaser: { rate: 0.1, depth: 0.8, feedback: 0.5, mix: 0.4, lfoSync: null },
+      reverb: { size: 5, decay: 2, preDelay: 40, damping: 0.6, mix: 0.45 },
+    }),
+  },
+  {
+    id: "fx-riser",
+    name: "Riser",
+    category: "fx",
+    oscillators: [
+      { harmonics: SAW, volume: 0.7, isActive: true },
+      {
+        harmonics: SQUARE,
+        volume: 0.5,
+        isActive: true,
+        detune: { octave: 0, semitone: 7, cent: 0 },
+      },
+      OFF,
+      OFF,
+    ],
+    ampADSR: envelope(70, 0, 100, 30),
+    filterADSR: envelope(80, 0, 100, 30),
+    cutoffFrequency: 200,
+    resonance: 10,
+    filterType: "lowpass",
+    filterSlope: 24,
+    filterEnvelopeAmount: 90,
+    drive: 0.25,
+    driveCurve: "soft",
+  },
+  {
+    id: "fx-sweeper",
+    name: "Sweeper",
+    category: "fx",
+    oscillators: [
+      { harmonics: SAW, volume: 0.8, isActive: true },
+      OFF,
+      OFF,
+      OFF,
+    ],
+    ampADSR: envelope(20, 0, 100, 40),
+    filterADSR: envelope(60, 60, 0, 40),
+    cutoffFrequency: 300,
+    resonance: 12,
+    filterType: "notch",
+    filterSlope: 24,
+    filterEnvelopeAmount: 80,
+    drive: 0,
+    driveCurve: "soft",
+  },
+  {
+    id: "fx-noise",
+    name: "Noise FX",
+    category: "fx",
+    oscillators: [
+      { harmonics: SAW, volume: 0.6, isActive: true },
+      {
+        harmonics: SQUARE,
+        volume: 0.6,
+        isActive: true,
+        detune: { octave: 0, semitone: 6, cent: 0 },
+      },
+      OFF,
+      OFF,
+    ],
+    ampADSR: envelope(0, 40, 30, 30),
+    filterADSR: envelope(0, 0, 100, 0),
+    cutoffFrequency: 1200,
+    resonance: 16,
+    filterType: "bandpass",
+    filterSlope: 24,
+    filterEnvelopeAmount: 0,
+    drive: 0.8,
+    driveCurve: "fold",
+    noise: { color: "pink", level: 0.7, pan: 0, filter: "a" },
+  },
+];
+
+/**
+ * Look up a factory patch by id
+ */
+export const getPatchPreset = (id: string): PatchPreset | undefined =>
+  PATCH_PRESETS.find((preset) => preset.id === id);
+
+/**
+ * Load a patch into the synth and audio engine stores
+ * The filter mode, cutoff and resonance are reconfigured live; oscillator
+ * changes rebuild the voices once the note is released. Everything the
+ * patch doesn't set is reset, so a patch sounds the same whatever was
+ * loaded before it.
+ */
+export const applyPatchPreset = (preset: PatchPreset) => {
+  const synthControls = useSynthControlsStore.getState();
+  const engine = useAudioEngineStore.getState();
+
+  const oscillators = synthControls.oscillators.map((osc, index) => {
+    const patchOsc = preset.oscillators[index] ?? OFF;
+    const harmonics: HarmonicParam[] = Array.from(
+      { length: HARMONIC_COUNT },
+      (_, i) => ({
+        amplitude: patchOsc.harmonics[i] ?? 0,
+        phase: 0.5 * Math.PI,
+      })
+    );
+
+    return {
+      ...osc,
+      harmonics,
+      waveformData: calculateWaveform(harmonics),
+      volume: patchOsc.volume * 100,
+      isActive: patchOsc.isActive,
+      detune: patchOsc.detune ?? { octave: 0, semitone: 0, cent: 0 },
+    };
+  });
+
+  // Engine settings first so the rebuild below picks them up
+  engine.setFilterType(preset.filterType);
+  engine.setFilterSlope(preset.filterSlope);
+  engine.updateFilter(preset.cutoffFrequency, preset.resonance);
+  engine.updateFilterEnvelopeAmount(preset.filterEnvelopeAmount);
+  engine.setFilterKeyTrack(preset.filterKeyTrack ?? 0);
+  engine.updateDrive(preset.drive);
+  engine.setDriveCurve(preset.driveCurve);
+  engine.updateGlide(preset.glide ?? DEFAULT_GLIDE_SETTINGS);
+  engine.updateNoise(preset.noise ?? DEFAULT_NOISE_SETTINGS);
+  engine.updateSubOsc(preset.subOsc ?? DEFAULT_SUB_OSC_SETTINGS);
+  [0, 1, 2, 3].forEach((carrier) => {
+    [0, 1, 2, 3]
+      .filter((modulator) => modulator !== carrier)
+      .forEach((modulator) =>
+        engine.setFMIndex(
+          modulator,
+          carrier,
+          preset.fmMatrix?.[modulator]?.[carrier] ?? 0
+        )
+      );
+    engine.setFMMode(carrier, preset.fmModes?.[carrier] ?? "pm");
+    engine.setFMFeedback(carrier, preset.fmFeedback?.[carrier] ?? 0);
+    const ringMod = preset.ringMods?.[carrier] ?? DEFAULT_RING_MODS[carrier];
+    engine.setRingMod(carrier, ringMod.mode, ringMod.sourceIndex);
+    engine.setRingModMix(carrier, ringMod.mix);
+    engine.setOscillatorSync(carrier, preset.syncSources?.[carrier] ?? null);
+  });
+  (preset.eq ?? DEFAULT_EQ_BANDS).forEach(({ type, ...band }, index) =>
+    engine.updateEQBand(index, band)
+  );
+  engine.updateDynamics(preset.dynamics ?? DEFAULT_DYNAMICS_SETTINGS);
+  useEffectsRackStore
+    .getState()
+    .setSlots(preset.effectsRack ?? DEFAULT_EFFECT_SLOTS);
+  useAudioEngineStore.setState((state) => ({
+    oscillators: state.oscillators.map((osc, index) => {
+      const patchOsc = preset.oscillators[index] ?? OFF;
+      return { ...osc, volume: patchOsc.volume, isActive: patchOsc.isActive };
+    }),
+  }));
+  preset.oscillators.forEach((patchOsc, index) => {
+    engine.updateOscillatorPan(index, patchOsc.pan ?? 0);
+    engine.updateUnison(index, patchOsc.unison ?? DEFAULT_UNISON_SETTINGS);
+  });
+
+  useSynthControlsStore.setState({
+    oscillators,
+    ampADSR: { ...preset.ampADSR },
+    filterADSR: { ...preset.filterADSR },
+  });
+
+  // The oscillator subscription only retunes when detune changes, so rebuild
+  // here to pick up the new tables as well
+  const detuneChanged = oscillators.some(
+    (osc, index) =>
+      osc.detune.octave !== synthControls.oscillators[index].detune.octave ||
+      osc.detune.semitone !==
+        synthControls.oscillators[index].detune.semitone ||
+      osc.detune.cent !== synthControls.oscillators[index].detune.cent
+  );
+  const { isPlaying, isNoteHeld, _recreateAudio } =
+    useAudioEngineStore.getState();
+  if (detuneChanged && isPlaying && !isNoteHeld) {
+    _recreateAudio();
+  }
+};
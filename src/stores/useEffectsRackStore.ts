@@ -0,0 +1,321 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import {
+  CompiledFunction,
+  CrusherSettings,
+  DelaySettings,
+  EffectFactory,
+  EffectParams,
+  EffectSlot,
+  EffectSlotConfig,
+  EffectsRackStore,
+  EffectType,
+  ModEffectSettings,
+  ReverbSettings,
+  ShaperSettings,
+} from "../types";
+import {
+  audioNodes,
+  useAudioEngineStore,
+} from "./AudioEngine/audioEngineStore";
+import { useSettingsStore } from "./useSettingsStore";
+import {
+  calculateDelayTime,
+  compileShaperExpression,
+  createEffectSlot,
+  createEffectSlots,
+  createShaperCurve,
+  DEFAULT_EFFECT_SLOTS,
+  DEFAULT_SHAPER_SETTINGS,
+  limitEffectParams,
+} from "./AudioEngine/helperFunctions";
+
+// Last compiled expression of each shaper slot, so variable changes don't
+// reparse it
+const shaperTransfers = new Map<
+  string,
+  { expression: string; transfer: CompiledFunction }
+>();
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Build a shaper slot's WaveShaperNode curve from its expression and variables
+ */
+const getShaperCurve = (id: string, shaper: ShaperSettings): Float32Array => {
+  let compiled = shaperTransfers.get(id);
+  if (compiled?.expression !== shaper.expression) {
+    compiled = {
+      expression: shaper.expression,
+      transfer: compileShaperExpression(shaper.expression),
+    };
+    shaperTransfers.set(id, compiled);
+  }
+  return createShaperCurve(compiled.transfer, shaper.variables);
+};
+
+/**
+ * Build the effect of a rack slot from its parameters
+ * Delays take their synced time from the engine's tempo and shapers their
+ * oversampling from the settings.
+ */
+export const createSlotEffect: EffectFactory = (slot) => {
+  switch (slot.type) {
+    case "crusher":
+      return audioNodes.createCrusher(slot.params);
+    case "shaper":
+      return audioNodes.createShaper(
+        getShaperCurve(slot.id, slot.params),
+        slot.params.mix,
+        useSettingsStore.getState().oversample
+      );
+    case "delay":
+      return audioNodes.createDelay(
+        slot.params,
+        calculateDelayTime(slot.params, useAudioEngineStore.getState().tempo)
+      );
+    case "reverb":
+      return audioNodes.createReverb(slot.params);
+    default:
+      return audioNodes.createModEffect(slot.type, slot.params);
+  }
+};
+
+/**
+ * Apply a slot's new parameters to its effect in the running graph
+ *
+ * @param changes - The parameters that were set, as passed to updateSlotParams
+ */
+const applySlotParams = (
+  slot: EffectSlot,
+  previous: EffectSlot,
+  changes: Partial<EffectParams[EffectType]>
+) => {
+  if (!audioNodes.audioContext) return;
+  const time = audioNodes.audioContext.currentTime;
+  const { id } = slot;
+
+  switch (slot.type) {
+    case "crusher": {
+      const crusher = slot.params;
+      const before = previous.params as CrusherSettings;
+      (Object.keys(crusher) as (keyof CrusherSettings)[]).forEach((name) => {
+        if (crusher[name] !== before[name]) {
+          audioNodes.setCrusherParam(id, name, crusher[name], time);
+        }
+      });
+      break;
+    }
+    case "shaper": {
+      const shaper = slot.params;
+      const before = previous.params as ShaperSettings;
+      if (shaper.expression !== before.expression || "variables" in changes) {
+        audioNodes.setShaperCurve(id, getShaperCurve(id, shaper));
+      }
+      audioNodes.setShaperMix(id, shaper.mix, time);
+      break;
+    }
+    case "delay": {
+      const delay = slot.params;
+      const before = previous.params as DelaySettings;
+      const tempo = useAudioEngineStore.getState().tempo;
+      audioNodes.setDelayTime(id, calculateDelayTime(delay, tempo), time);
+      audioNodes.setDelayFeedback(id, delay.feedback, time);
+      audioNodes.setDelayFilter(id, delay.filterCutoff, time);
+      audioNodes.setDelayMix(id, delay.mix, time);
+      if (delay.pingPong !== before.pingPong) {
+        audioNodes.setDelayPingPong(id, delay.pingPong);
+      }
+      break;
+    }
+    case "reverb": {
+      // Size, decay, pre-delay and damping regenerate the impulse response
+      const reverb = slot.params;
+      const before = previous.params as ReverbSettings;
+      if (
+        reverb.size !== before.size ||
+        reverb.decay !== before.decay ||
+        reverb.preDelay !== before.preDelay ||
+        reverb.damping !== before.damping
+      ) {
+        audioNodes.setReverbImpulse(id, reverb);
+      }
+      audioNodes.setReverbMix(id, reverb.mix, time);
+      break;
+    }
+    default: {
+      const effect = slot.params;
+      const before = previous.params as ModEffectSettings;
+      audioNodes.setModEffectRate(id, effect.rate, time);
+      audioNodes.setModEffectDepth(id, effect.depth, time);
+      audioNodes.setModEffectFeedback(id, effect.feedback, time);
+      audioNodes.setModEffectMix(id, effect.mix, time);
+      if (effect.lfoSync !== before.lfoSync) {
+        audioNodes.setModEffectLFO(id, effect.lfoSync);
+      }
+    }
+  }
+};
+
+/**
+ * Effects Rack Store
+ *
+ * Manages the insert slots of the master effects:
+ * - Which effects are in the rack, and the order they are chained in
+ * - Each slot's effect parameters and wet/dry mix
+ * - Which slots are bypassed
+ *
+ * Parameter changes and bypass are applied to the running audio graph in
+ * place; adding, removing or moving slots relinks the slots around their
+ * running effects, building or disposing of only the slots that changed.
+ */
+export const useEffectsRackStore = create<EffectsRackStore>()(
+  devtools(
+    (set, get) => ({
+      // Initial state
+      slots: createEffectSlots(DEFAULT_EFFECT_SLOTS),
+      shaperErrors: {},
+
+      // Actions
+      addSlot: (type: EffectType) => {
+        const slots = [...get().slots, createEffectSlot({ type })];
+        set({ slots });
+
+        audioNodes.setEffectSlots(slots, createSlotEffect);
+      },
+
+      removeSlot: (id: string) => {
+        const slots = get().slots.filter((slot) => slot.id !== id);
+        if (slots.length === get().slots.length) return;
+        const { [id]: removedError, ...shaperErrors } = get().shaperErrors;
+        shaperTransfers.delete(id);
+        set({ slots, shaperErrors });
+
+        audioNodes.setEffectSlots(slots, createSlotEffect);
+      },
+
+      moveSlot: (fromIndex: number, toIndex: number) => {
+        const slots = [...get().slots];
+        if (fromIndex === toIndex || !slots[fromIndex] || !slots[toIndex]) {
+          return;
+        }
+        const [slot] = slots.splice(fromIndex, 1);
+        slots.splice(toIndex, 0, slot);
+        set({ slots });
+
+        audioNodes.setEffectSlots(slots, createSlotEffect);
+      },
+
+      setSlotBypass: (id: string, bypass: boolean) => {
+        set((state) => ({
+          slots: state.slots.map((slot) =>
+            slot.id === id ? { ...slot, bypass } : slot
+          ),
+        }));
+
+        if (!audioNodes.audioContext) return;
+        audioNodes.setEffectSlotBypass(
+          id,
+          bypass,
+          audioNodes.audioContext.currentTime
+        );
+      },
+
+      updateSlotParams: (
+        id: string,
+        params: Partial<EffectParams[EffectType]>
+      ) => {
+        const previous = get().slots.find((slot) => slot.id === id);
+        if (!previous) return;
+        const merged = {
+          ...previous.params,
+          ...params,
+        } as EffectParams[EffectType];
+
+        if (previous.type === "shaper") {
+          const shaper = merged as ShaperSettings;
+          const { [id]: lastError, ...shaperErrors } = get().shaperErrors;
+          if (shaper.expression !== previous.params.expression) {
+            try {
+              compileShaperExpression(shaper.expression);
+            } catch (error) {
+              shaperErrors[id] = getErrorMessage(error);
+              shaper.expression = previous.params.expression;
+            }
+          }
+          set({ shaperErrors });
+        }
+
+        const slot = {
+          ...previous,
+          params: limitEffectParams(previous.type, merged),
+        } as EffectSlot;
+        set((state) => ({
+          slots: state.slots.map((s) => (s.id === id ? slot : s)),
+        }));
+
+        applySlotParams(slot, previous, params);
+      },
+
+      setShaperVariable: (id: string, name: string, value: number) => {
+        const slot = get().slots.find((s) => s.id === id);
+        if (slot?.type !== "shaper") return;
+        const variable = slot.params.variables[name];
+        if (!variable) return;
+
+        const params = {
+          ...slot.params,
+          variables: {
+            ...slot.params.variables,
+            [name]: { ...variable, value },
+          },
+        };
+        set((state) => ({
+          slots: state.slots.map((s) =>
+            s.id === id ? { ...slot, params } : s
+          ),
+        }));
+
+        if (!audioNodes.audioContext) return;
+        audioNodes.setShaperCurve(id, getShaperCurve(id, params));
+      },
+
+      setSlots: (configs: EffectSlotConfig[]) => {
+        // A shaper expression that doesn't parse loads the default curve
+        const shaperErrors: Record<string, string> = {};
+        const slots = createEffectSlots(configs).map((slot) => {
+          if (slot.type !== "shaper") return slot;
+          try {
+            compileShaperExpression(slot.params.expression);
+            return slot;
+          } catch (error) {
+            shaperErrors[slot.id] = getErrorMessage(error);
+            return {
+              ...slot,
+              params: { ...DEFAULT_SHAPER_SETTINGS, mix: slot.params.mix },
+            };
+          }
+        });
+        shaperTransfers.clear();
+        set({ slots, shaperErrors });
+
+        audioNodes.setEffectSlots(slots, createSlotEffect);
+      },
+    }),
+    { name: "EffectsRack" }
+  )
+);
+
+// Selectors
+export const selectIsEffectBypassed =
+  (id: string) => (state: EffectsRackStore) =>
+    state.slots.some((slot) => slot.id === id && slot.bypass);
+
+/**
+ * First slot of an effect type, the one the modulation matrix drives
+ */
+export const selectModulatedSlot =
+  <T extends EffectType>(type: T) =>
+  (state: EffectsRackStore) =>
+    state.slots.find((slot) => slot.type === type) as EffectSlot<T> | undefined;
@@ -69,6 +69,11 @@ describe('extractVariables', () => {
     expect(vars).toEqual(['a']);
   });
 
+  it('should exclude names passed by the caller', () => {
+    const vars = extractVariables('tanh(k*x) + a*x', ['x']);
+    expect(vars).toEqual(['a', 'k']);
+  });
+
   it('should return sorted unique variables', () => {
     const vars = extractVariables('c*a + b*a + c');
     expect(vars).toEqual(['a', 'b', 'c']);
@@ -21,6 +21,7 @@ describe("Modulation System Integration Tests", () => {
         [ModulationSource.OSC2]: 0,
         [ModulationSource.OSC3]: 0,
         [ModulationSource.OSC4]: 0,
+        [ModulationSource.NOISE]: 0,
       },
       parameters: {},
       activeSources: new Set(),
@@ -3,6 +3,54 @@ import {
   useAudioEngineStore,
   audioNodes,
 } from "../../stores/AudioEngine/audioEngineStore";
+import { createEmptyVoiceNodeSet } from "../../stores/AudioEngine/audioNodeManager";
+import { createIdleVoice } from "../../stores/AudioEngine/voiceAllocator";
+import {
+  createSlotEffect,
+  useEffectsRackStore,
+} from "../../stores/useEffectsRackStore";
+import { useSettingsStore } from "../../stores/useSettingsStore";
+import { useSynthControlsStore } from "../../stores/useSynthControlsStore";
+import {
+  calculateDelayTime,
+  calculateFilterBlendGain,
+  calculateFilterBlendQ,
+  calculateFilterStages,
+  calculateKeyTrackedCutoff,
+  calculateUnisonOffsets,
+  createAmpEnvelopeOps,
+  createDriveCurve,
+  createEffectSlots,
+  createLogFrequencies,
+  createNoiseSamples,
+  createReverbImpulse,
+  createShaperCurve,
+  compileShaperExpression,
+  DEFAULT_CRUSHER_SETTINGS,
+  DEFAULT_DELAY_SETTINGS,
+  DEFAULT_DYNAMICS_SETTINGS,
+  DEFAULT_EFFECT_SLOTS,
+  DEFAULT_EQ_BANDS,
+  DEFAULT_GLIDE_SETTINGS,
+  DEFAULT_MOD_EFFECT_SETTINGS,
+  DEFAULT_NOISE_SETTINGS,
+  DEFAULT_REVERB_SETTINGS,
+  DEFAULT_RING_MODS,
+  DEFAULT_SHAPER_SETTINGS,
+  DEFAULT_SUB_OSC_SETTINGS,
+  DEFAULT_UNISON_SETTINGS,
+  gainToDb,
+  KEYTRACK_REFERENCE_FREQUENCY,
+} from "../../stores/AudioEngine/helperFunctions";
+import { getPatchPreset, applyPatchPreset } from "../../stores/patchPresets";
+import {
+  EffectNodeSets,
+  EffectSlot,
+  EffectSlotConfig,
+  EffectType,
+  FilterSlope,
+  LFOWaveform,
+} from "../../types";
 
 // Mock Web Audio API
 const mockAudioContext = {
@@ -22,7 +70,12 @@ const mockAudioContext = {
       value: 0,
       linearRampToValueAtTime: jest.fn(),
     },
+    gain: {
+      value: 0,
+      linearRampToValueAtTime: jest.fn(),
+    },
     connect: jest.fn(),
+    disconnect: jest.fn(),
   })),
   createBufferSource: jest.fn(() => ({
     buffer: null,
@@ -39,6 +92,42 @@ const mockAudioContext = {
   createBuffer: jest.fn(() => ({
     copyToChannel: jest.fn(),
   })),
+  createDelay: jest.fn(() => ({
+    delayTime: { value: 0 },
+    connect: jest.fn(),
+  })),
+  createChannelSplitter: jest.fn(() => ({
+    connect: jest.fn(),
+    disconnect: jest.fn(),
+  })),
+  createChannelMerger: jest.fn(() => ({
+    connect: jest.fn(),
+    disconnect: jest.fn(),
+  })),
+  createConvolver: jest.fn(() => ({
+    buffer: null,
+    connect: jest.fn(),
+    disconnect: jest.fn(),
+  })),
+  createDynamicsCompressor: jest.fn(() => ({
+    threshold: { value: 0 },
+    knee: { value: 0 },
+    ratio: { value: 1 },
+    attack: { value: 0 },
+    release: { value: 0 },
+    reduction: 0,
+    connect: jest.fn(),
+    disconnect: jest.fn(),
+  })),
+  createWaveShaper: jest.fn(() => ({
+    curve: null,
+    oversample: "none",
+    connect: jest.fn(),
+  })),
+  createStereoPanner: jest.fn(() => ({
+    pan: { value: 0 },
+    connect: jest.fn(),
+  })),
   createAnalyser: jest.fn(() => ({
     fftSize: 2048,
     getByteTimeDomainData: jest.fn(),
@@ -62,20 +151,109 @@ const mockAudioContext = {
 // Mock window.AudioContext - return the same mockAudioContext instance
 (global as any).AudioContext = jest.fn(() => mockAudioContext);
 
+/**
+ * Load a rack holding a single effect and build it, as starting playback does
+ */
+const createRackSlot = <T extends EffectType>(config: EffectSlotConfig<T>) => {
+  act(() => {
+    useEffectsRackStore.getState().setSlots([config as EffectSlotConfig]);
+  });
+  const slot = useEffectsRackStore.getState().slots[0] as EffectSlot<T>;
+  const rack = audioNodes.createEffectsRack(
+    [slot as EffectSlot],
+    createSlotEffect
+  )!;
+  return {
+    slot,
+    effect: rack.slotNodes[slot.id].effect as EffectNodeSets[T],
+  };
+};
+
+/**
+ * Rack slot of an effect type
+ */
+const getRackSlot = <T extends EffectType>(type: T) =>
+  useEffectsRackStore
+    .getState()
+    .slots.find((slot) => slot.type === type) as EffectSlot<T>;
+
 describe("useAudioEngineStore", () => {
   beforeEach(() => {
     // Reset store state before each test
     useAudioEngineStore.setState({
       isPlaying: false,
       oscillators: [
-        { frequency: 220, volume: 0.75, isActive: true },
-        { frequency: 220, volume: 0.75, isActive: true },
-        { frequency: 220, volume: 0.75, isActive: true },
-        { frequency: 220, volume: 0.75, isActive: true },
+        {
+          frequency: 220,
+          volume: 0.75,
+          pan: 0,
+          isActive: true,
+          engine: "buffer",
+        },
+        {
+          frequency: 220,
+          volume: 0.75,
+          pan: 0,
+          isActive: true,
+          engine: "buffer",
+        },
+        {
+          frequency: 220,
+          volume: 0.75,
+          pan: 0,
+          isActive: true,
+          engine: "buffer",
+        },
+        {
+          frequency: 220,
+          volume: 0.75,
+          pan: 0,
+          isActive: true,
+          engine: "buffer",
+        },
       ],
       masterVolume: 75,
       cutoffFrequency: 2000,
       resonance: 0,
+      filterType: "lowpass",
+      filterSlope: 24,
+      filterKeyTrack: 0,
+      filterRouting: "split",
+      oscillatorFilters: ["a", "a", "a", "a"],
+      glide: { ...DEFAULT_GLIDE_SETTINGS },
+      noteStack: [],
+      notePriority: "last",
+      legato: false,
+      fmMatrix: [
+        [0, 0, 0, 0],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0],
+      ],
+      fmModes: ["pm", "pm", "pm", "pm"],
+      fmFeedback: [0, 0, 0, 0],
+      ringMods: [0, 1, 2, 3].map((i) => ({
+        mode: "off",
+        sourceIndex: (i + 1) % 4,
+        mix: 1,
+      })),
+      syncSources: [null, null, null, null],
+      unison: Array(4).fill(DEFAULT_UNISON_SETTINGS),
+      noise: { ...DEFAULT_NOISE_SETTINGS },
+      subOsc: { ...DEFAULT_SUB_OSC_SETTINGS },
+      eq: DEFAULT_EQ_BANDS.map((band) => ({ ...band })),
+      dynamics: { ...DEFAULT_DYNAMICS_SETTINGS },
+      tempo: 120,
+      drive: 0,
+      driveCurve: "soft",
+      isNoteHeld: false,
+      voiceCount: 2,
+      voiceStealMode: "oldest",
+      voices: [createIdleVoice(), createIdleVoice()],
+    });
+    useEffectsRackStore.setState({
+      slots: createEffectSlots(DEFAULT_EFFECT_SLOTS),
+      shaperErrors: {},
     });
 
     // Clear all mocks and reset implementations
@@ -88,6 +266,13 @@ describe("useAudioEngineStore", () => {
       disconnect: jest.fn(),
     } as any);
 
+    mockAudioContext.createWaveShaper.mockReturnValue({
+      curve: null,
+      oversample: "none",
+      connect: jest.fn(),
+      disconnect: jest.fn(),
+    } as any);
+
     mockAudioContext.createBiquadFilter.mockReturnValue({
       type: "lowpass",
       frequency: {
@@ -98,7 +283,12 @@ describe("useAudioEngineStore", () => {
         value: 0,
         linearRampToValueAtTime: jest.fn(),
       },
+      gain: {
+        value: 0,
+        linearRampToValueAtTime: jest.fn(),
+      },
       connect: jest.fn(),
+      disconnect: jest.fn(),
     } as any);
 
     mockAudioContext.createBufferSource.mockReturnValue({
@@ -118,6 +308,48 @@ describe("useAudioEngineStore", () => {
       copyToChannel: jest.fn(),
     } as any);
 
+    mockAudioContext.createDelay.mockReturnValue({
+      delayTime: { value: 0, setTargetAtTime: jest.fn() },
+      connect: jest.fn(),
+      disconnect: jest.fn(),
+    } as any);
+
+    mockAudioContext.createChannelSplitter.mockReturnValue({
+      connect: jest.fn(),
+      disconnect: jest.fn(),
+    } as any);
+
+    mockAudioContext.createChannelMerger.mockReturnValue({
+      connect: jest.fn(),
+      disconnect: jest.fn(),
+    } as any);
+
+    mockAudioContext.createConvolver.mockReturnValue({
+      buffer: null,
+      connect: jest.fn(),
+      disconnect: jest.fn(),
+    } as any);
+
+    mockAudioContext.createDynamicsCompressor.mockImplementation(
+      () =>
+        ({
+          threshold: { value: 0, linearRampToValueAtTime: jest.fn() },
+          knee: { value: 0 },
+          ratio: { value: 1, linearRampToValueAtTime: jest.fn() },
+          attack: { value: 0, linearRampToValueAtTime: jest.fn() },
+          release: { value: 0, linearRampToValueAtTime: jest.fn() },
+          reduction: 0,
+          connect: jest.fn(),
+          disconnect: jest.fn(),
+        }) as any
+    );
+
+    mockAudioContext.createStereoPanner.mockReturnValue({
+      pan: { value: 0, linearRampToValueAtTime: jest.fn() },
+      connect: jest.fn(),
+      disconnect: jest.fn(),
+    } as any);
+
     mockAudioContext.createAnalyser.mockReturnValue({
       fftSize: 2048,
       getByteTimeDomainData: jest.fn(),
@@ -139,19 +371,11 @@ describe("useAudioEngineStore", () => {
 
     // Reset audioNodes and set mock audio context
     audioNodes.audioContext = mockAudioContext as any;
-    audioNodes.oscillators = Array(4)
-      .fill(null)
-      .map(() => ({
-        sourceNode: null,
-        gainNode: null,
-        waveformBuffer: null,
-        ampEnvelopeNode: null,
-        crossfadeGainNode: null,
-        analyserNode: null,
-      }));
-    audioNodes.mixerGainNode = null;
+    audioNodes.voices = [createEmptyVoiceNodeSet(), createEmptyVoiceNodeSet()];
     audioNodes.masterGainNode = null;
-    audioNodes.filterNodes = [];
+    audioNodes.effectsRackNodes = null;
+    audioNodes.eqNodes = null;
+    audioNodes.dynamicsNodes = null;
     audioNodes.lfoNodes = Array(2)
       .fill(null)
       .map(() => ({
@@ -265,7 +489,7 @@ describe("useAudioEngineStore", () => {
         stop: jest.fn(),
         disconnect: jest.fn(),
       };
-      audioNodes.oscillators[0].sourceNode = mockOscillator as any;
+      audioNodes.voices[0].oscillators[0].sourceNode = mockOscillator as any;
 
       act(() => {
         result.current.stopAudio();
@@ -273,7 +497,7 @@ describe("useAudioEngineStore", () => {
 
       expect(mockOscillator.stop).toHaveBeenCalled();
       expect(mockOscillator.disconnect).toHaveBeenCalled();
-      expect(audioNodes.oscillators[0].sourceNode).toBeNull();
+      expect(audioNodes.voices[0].oscillators[0].sourceNode).toBeNull();
     });
 
     it("handles already stopped nodes gracefully", () => {
@@ -285,7 +509,7 @@ describe("useAudioEngineStore", () => {
         }),
         disconnect: jest.fn(),
       };
-      audioNodes.oscillators[0].sourceNode = mockOscillator as any;
+      audioNodes.voices[0].oscillators[0].sourceNode = mockOscillator as any;
 
       // Should not throw
       expect(() => {
@@ -294,7 +518,7 @@ describe("useAudioEngineStore", () => {
         });
       }).not.toThrow();
 
-      expect(audioNodes.oscillators[0].sourceNode).toBeNull();
+      expect(audioNodes.voices[0].oscillators[0].sourceNode).toBeNull();
     });
   });
 
@@ -320,7 +544,7 @@ describe("useAudioEngineStore", () => {
       const mockOscillator = {
         playbackRate: mockPlaybackRate,
       };
-      audioNodes.oscillators[0].sourceNode = mockOscillator as any;
+      audioNodes.voices[0].oscillators[0].sourceNode = mockOscillator as any;
       audioNodes.audioContext = mockAudioContext as any;
 
       act(() => {
@@ -350,7 +574,7 @@ describe("useAudioEngineStore", () => {
       const mockGain = {
         gain: { linearRampToValueAtTime: jest.fn() },
       };
-      audioNodes.oscillators[0].gainNode = mockGain as any;
+      audioNodes.voices[0].oscillators[0].gainNode = mockGain as any;
       audioNodes.audioContext = mockAudioContext as any;
 
       act(() => {
@@ -364,6 +588,47 @@ describe("useAudioEngineStore", () => {
     });
   });
 
+  describe("updateOscillatorPan", () => {
+    it("moves the oscillator's panner in every voice", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      const panners = audioNodes.voices.map((voice) => {
+        const pannerNode = {
+          pan: { value: 0, linearRampToValueAtTime: jest.fn() },
+        };
+        voice.oscillators[1].pannerNode = pannerNode as any;
+        return pannerNode;
+      });
+
+      act(() => {
+        result.current.updateOscillatorPan(1, -0.5);
+      });
+
+      expect(result.current.oscillators[1].pan).toBe(-0.5);
+      expect(result.current.oscillators[0].pan).toBe(0); // unchanged
+      panners.forEach((panner) => {
+        expect(panner.pan.linearRampToValueAtTime).toHaveBeenCalledWith(
+          -0.5,
+          expect.any(Number)
+        );
+      });
+    });
+
+    it("connects the panner, not the envelope, to the filter input", () => {
+      const voice = audioNodes.voices[0];
+      const envelope = { connect: jest.fn(), disconnect: jest.fn() };
+      const panner = { connect: jest.fn(), disconnect: jest.fn() };
+      voice.mixerGainNode = { connect: jest.fn() } as any;
+      voice.oscillators[0].ampEnvelopeNode = envelope as any;
+      voice.oscillators[0].pannerNode = panner as any;
+
+      audioNodes.connectOscillatorOutput(0, 0, "a");
+
+      expect(panner.connect).toHaveBeenCalledWith(voice.mixerGainNode);
+      expect(envelope.disconnect).not.toHaveBeenCalled();
+    });
+  });
+
   describe("updateMasterVolume", () => {
     it("updates master volume state", () => {
       const { result } = renderHook(() => useAudioEngineStore());
@@ -412,6 +677,297 @@ describe("useAudioEngineStore", () => {
 
       expect(result.current.oscillators[1].isActive).toBe(false);
     });
+
+    it("reconnects ring mod routes from a re-enabled oscillator", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+      const rampParam = () => ({
+        value: 0,
+        linearRampToValueAtTime: jest.fn(),
+      });
+      const carrier = audioNodes.voices[0].oscillators[0];
+      carrier.ringModGainNode = { gain: rampParam() } as any;
+      audioNodes.masterGainNode = { connect: jest.fn() } as any;
+      audioNodes.voices[0].mixerGainNode = { connect: jest.fn() } as any;
+
+      act(() => {
+        result.current.setRingMod(0, "rm", 1);
+        useAudioEngineStore.setState({ isPlaying: true });
+        result.current.toggleOscillator(1, true);
+      });
+
+      const connection = audioNodes.voices[0].ringModNodes[0];
+      expect(connection).not.toBeNull();
+      expect(
+        audioNodes.voices[0].oscillators[1].sourceNode!.connect
+      ).toHaveBeenCalledWith(connection!.gainNode);
+    });
+  });
+
+  describe("setOscillatorEngine", () => {
+    it("updates the oscillator engine", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      act(() => {
+        result.current.setOscillatorEngine(2, "worklet");
+      });
+
+      expect(result.current.oscillators[2].engine).toBe("worklet");
+      expect(result.current.oscillators[0].engine).toBe("buffer"); // unchanged
+    });
+  });
+
+  describe("FM matrix", () => {
+    it("updates a single matrix cell", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      act(() => {
+        result.current.setFMIndex(1, 0, 2.5);
+      });
+
+      expect(result.current.fmMatrix[1][0]).toBe(2.5);
+      expect(result.current.fmMatrix[0][1]).toBe(0); // unchanged
+    });
+
+    it("connects modulators to worklet carriers", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      const carrierInput = { parameters: new Map() };
+      const modulator = { connect: jest.fn() };
+      audioNodes.voices[0].oscillators[0].workletNode = carrierInput as any;
+      audioNodes.voices[0].oscillators[1].sourceNode = modulator as any;
+      mockAudioContext.createDelay.mockReturnValue({
+        delayTime: { value: 0 },
+        connect: jest.fn(),
+      } as any);
+
+      act(() => {
+        result.current.setFMIndex(1, 0, 2);
+      });
+
+      const connection = audioNodes.voices[0].fmNodes[1][0];
+      expect(connection).not.toBeNull();
+      expect(connection!.mode).toBe("pm");
+      expect(connection!.gainNode.gain.value).toBeCloseTo(2 / (2 * Math.PI));
+      // Backward connection (osc 2 -> osc 1) carries a delay
+      expect(connection!.delayNode).not.toBeNull();
+      expect(modulator.connect).toHaveBeenCalledWith(connection!.gainNode);
+
+      act(() => {
+        result.current.setFMIndex(1, 0, 0);
+      });
+
+      expect(audioNodes.voices[0].fmNodes[1][0]).toBeNull();
+    });
+
+    it("modulates the carrier's unison copies too", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      const carrier = audioNodes.voices[0].oscillators[1];
+      carrier.workletNode = { parameters: new Map() } as any;
+      const copy = { port: {}, parameters: new Map() };
+      carrier.unisonCopies = [{ source: copy, offset: 1 } as any];
+      audioNodes.voices[0].oscillators[0].sourceNode = {
+        connect: jest.fn(),
+      } as any;
+
+      act(() => {
+        result.current.setFMIndex(0, 1, 2);
+      });
+
+      const { gainNode } = audioNodes.voices[0].fmNodes[0][1]!;
+      expect(gainNode.connect).toHaveBeenCalledWith(carrier.workletNode, 0, 0);
+      expect(gainNode.connect).toHaveBeenCalledWith(copy, 0, 0);
+    });
+
+    it("ignores buffer carriers", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      audioNodes.voices[0].oscillators[0].sourceNode = {} as any;
+      audioNodes.voices[0].oscillators[1].sourceNode = {
+        connect: jest.fn(),
+      } as any;
+
+      act(() => {
+        result.current.setFMIndex(1, 0, 2);
+      });
+
+      expect(audioNodes.voices[0].fmNodes[1][0]).toBeNull();
+    });
+  });
+
+  describe("Ring modulation", () => {
+    const rampParam = () => ({ value: 0, linearRampToValueAtTime: jest.fn() });
+
+    it("feeds the source oscillator into the carrier's ring modulator", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      const carrier = audioNodes.voices[0].oscillators[0];
+      carrier.ringModGainNode = { gain: rampParam() } as any;
+      carrier.dryGainNode = { gain: rampParam() } as any;
+      carrier.wetGainNode = { gain: rampParam() } as any;
+      const source = { connect: jest.fn() };
+      audioNodes.voices[0].oscillators[2].sourceNode = source as any;
+
+      act(() => {
+        result.current.setRingMod(0, "am", 2);
+      });
+
+      const connection = audioNodes.voices[0].ringModNodes[0];
+      expect(result.current.ringMods[0]).toEqual({
+        mode: "am",
+        sourceIndex: 2,
+        mix: 1,
+      });
+      expect(connection).not.toBeNull();
+      expect(connection!.sourceIndex).toBe(2);
+      expect(source.connect).toHaveBeenCalledWith(connection!.gainNode);
+      // AM offsets the carrier gain so the source swings it between 0 and 1
+      expect(carrier.ringModGainNode!.gain.value).toBe(0.5);
+      expect(
+        carrier.wetGainNode!.gain.linearRampToValueAtTime
+      ).toHaveBeenCalledWith(1, expect.any(Number));
+
+      act(() => {
+        result.current.setRingMod(0, "off", 2);
+      });
+
+      expect(audioNodes.voices[0].ringModNodes[0]).toBeNull();
+      expect(
+        carrier.dryGainNode!.gain.linearRampToValueAtTime
+      ).toHaveBeenLastCalledWith(1, expect.any(Number));
+    });
+
+    it("keeps an inactive ring modulator dry when the mix changes", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      const carrier = audioNodes.voices[0].oscillators[1];
+      carrier.wetGainNode = { gain: rampParam() } as any;
+
+      act(() => {
+        result.current.setRingModMix(1, 0.4);
+      });
+
+      expect(result.current.ringMods[1].mix).toBe(0.4);
+      expect(
+        carrier.wetGainNode!.gain.linearRampToValueAtTime
+      ).toHaveBeenCalledWith(0, expect.any(Number));
+    });
+  });
+
+  describe("Hard sync", () => {
+    it("connects the master's sync output to the slave's sync input", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      const master = { connect: jest.fn(), disconnect: jest.fn() };
+      const slave = { connect: jest.fn() };
+      audioNodes.voices[0].oscillators[0].workletNode = master as any;
+      audioNodes.voices[0].oscillators[1].workletNode = slave as any;
+
+      act(() => {
+        result.current.setOscillatorSync(1, 0);
+      });
+
+      expect(result.current.syncSources[1]).toBe(0);
+      expect(master.connect).toHaveBeenCalledWith(slave, 1, 1);
+      expect(audioNodes.voices[0].syncNodes[1]).toEqual({
+        masterIndex: 0,
+        delayNode: null,
+      });
+
+      act(() => {
+        result.current.setOscillatorSync(1, null);
+      });
+
+      expect(master.disconnect).toHaveBeenCalledWith(slave, 1);
+      expect(audioNodes.voices[0].syncNodes[1]).toBeNull();
+    });
+
+    it("syncs the slave's unison copies too", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      const master = { connect: jest.fn(), disconnect: jest.fn() };
+      const copy = { port: {}, parameters: new Map() };
+      audioNodes.voices[0].oscillators[0].workletNode = master as any;
+      audioNodes.voices[0].oscillators[1].workletNode = {} as any;
+      audioNodes.voices[0].oscillators[1].unisonCopies = [
+        { source: copy, offset: 1 } as any,
+      ];
+
+      act(() => {
+        result.current.setOscillatorSync(1, 0);
+      });
+      expect(master.connect).toHaveBeenCalledWith(copy, 1, 1);
+
+      act(() => {
+        result.current.setOscillatorSync(1, null);
+      });
+      expect(master.disconnect).toHaveBeenCalledWith(copy, 1);
+    });
+
+    it("requires worklet oscillators", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      audioNodes.voices[0].oscillators[0].sourceNode = {} as any;
+      audioNodes.voices[0].oscillators[1].workletNode = {} as any;
+
+      act(() => {
+        result.current.setOscillatorSync(1, 0);
+      });
+
+      expect(audioNodes.voices[0].syncNodes[1]).toBeNull();
+    });
+  });
+
+  describe("Drive", () => {
+    it("ramps every voice's drive gains", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      const inputRamp = jest.fn();
+      const outputRamp = jest.fn();
+      audioNodes.voices[0].driveInputGain = {
+        gain: { linearRampToValueAtTime: inputRamp },
+      } as any;
+      audioNodes.voices[0].driveOutputGain = {
+        gain: { linearRampToValueAtTime: outputRamp },
+      } as any;
+
+      act(() => {
+        result.current.updateDrive(1);
+      });
+
+      expect(result.current.drive).toBe(1);
+      // +24 dB into the curve's 4x headroom
+      expect(inputRamp.mock.calls[0][0]).toBeCloseTo(Math.pow(10, 1.2) / 4);
+      expect(outputRamp.mock.calls[0][0]).toBeCloseTo(Math.pow(10, -0.6));
+    });
+
+    it("builds curves that are linear at low levels", () => {
+      // 4097 points put x = 0.0625 (a 0.25 signal) exactly on index 2176
+      const soft = createDriveCurve("soft", 4097);
+      const hard = createDriveCurve("hard", 4097);
+      const fold = createDriveCurve("fold", 4097);
+
+      expect(soft[2176]).toBeCloseTo(0.25, 5);
+      expect(soft[4096]).toBeLessThan(1);
+      expect(hard[4096]).toBe(1);
+      expect(fold[4096]).toBeCloseTo(0, 5); // 4 folds back to 0
+    });
+
+    it("switches the shaper curve and follows the oversample setting", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      const shaper = { curve: null, oversample: "none" };
+      audioNodes.voices[1].driveNode = shaper as any;
+
+      act(() => {
+        result.current.setDriveCurve("hard");
+        useSettingsStore.getState().setOversample("4x");
+      });
+
+      expect(result.current.driveCurve).toBe("hard");
+      expect(shaper.curve).toBeInstanceOf(Float32Array);
+      expect(shaper.oversample).toBe("4x");
+    });
   });
 
   describe("updateFilter", () => {
@@ -440,7 +996,7 @@ describe("useAudioEngineStore", () => {
         frequency: mockFrequency,
         Q: mockQ,
       };
-      audioNodes.filterNodes = [
+      audioNodes.voices[0].filterNodes = [
         mockFilter,
         mockFilter,
         mockFilter,
@@ -463,28 +1019,1831 @@ describe("useAudioEngineStore", () => {
     });
   });
 
-  describe("setIsPlaying", () => {
-    it("updates isPlaying state", () => {
+  describe("Filter modes", () => {
+    const createMockFilter = () => ({
+      type: "lowpass",
+      Q: { value: 0, linearRampToValueAtTime: jest.fn() },
+      gain: { value: 0, linearRampToValueAtTime: jest.fn() },
+    });
+
+    it("reconfigures the cascade live for band modes", () => {
       const { result } = renderHook(() => useAudioEngineStore());
 
+      const filters = [0, 1, 2, 3].map(createMockFilter);
+      audioNodes.voices[0].filterNodes = filters as any;
+
       act(() => {
-        result.current.setIsPlaying(true);
+        result.current.setFilterType("bandpass");
       });
 
-      expect(result.current.isPlaying).toBe(true);
+      expect(result.current.filterType).toBe("bandpass");
+      expect(filters[0].type).toBe("bandpass");
+      // Unused stages pass audio through unchanged
+      filters.slice(1).forEach((filter) => {
+        expect(filter.type).toBe("peaking");
+        expect(filter.gain.linearRampToValueAtTime).toHaveBeenCalledWith(
+          0,
+          expect.any(Number)
+        );
+      });
+    });
+
+    it("mixes in the comb filter only in comb mode", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      const mix = { linearRampToValueAtTime: jest.fn() };
+      const feedback = { linearRampToValueAtTime: jest.fn() };
+      audioNodes.voices[0].filterNodes = [0, 1, 2, 3].map(
+        createMockFilter
+      ) as any;
+      audioNodes.voices[0].combNode = {
+        parameters: new Map([
+          ["mix", mix],
+          ["feedback", feedback],
+        ]),
+      } as any;
 
       act(() => {
-        result.current.setIsPlaying(false);
+        result.current.setFilterType("comb");
       });
+      expect(mix.linearRampToValueAtTime).toHaveBeenLastCalledWith(
+        1,
+        expect.any(Number)
+      );
+      expect(feedback.linearRampToValueAtTime.mock.calls[0][0]).toBeCloseTo(
+        0.5
+      );
 
-      expect(result.current.isPlaying).toBe(false);
+      act(() => {
+        result.current.setFilterType("highpass");
+      });
+      expect(mix.linearRampToValueAtTime).toHaveBeenLastCalledWith(
+        0,
+        expect.any(Number)
+      );
     });
-  });
 
-  describe("AudioNodeManager", () => {
-    it("initializes audio context", () => {
-      audioNodes.initializeAudioContext();
-      expect(audioNodes.audioContext).toBeTruthy();
+    it("uses one stage per 12 dB of slope", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      const filters = [0, 1, 2, 3, 4, 5, 6, 7].map(createMockFilter);
+      const blendGain = { linearRampToValueAtTime: jest.fn() };
+      audioNodes.voices[0].filterNodes = filters as any;
+      audioNodes.voices[0].filterBlendNode = createMockFilter() as any;
+      audioNodes.voices[0].filterBlendGain = { gain: blendGain } as any;
+
+      act(() => {
+        result.current.setFilterSlope(48);
+      });
+      expect(result.current.filterSlope).toBe(48);
+      expect(filters.map((filter) => filter.type)).toEqual([
+        ...Array(4).fill("lowpass"),
+        ...Array(4).fill("peaking"),
+      ]);
+      expect(blendGain.linearRampToValueAtTime).toHaveBeenLastCalledWith(
+        0,
+        expect.any(Number)
+      );
+
+      act(() => {
+        result.current.setFilterSlope(6);
+      });
+      expect(filters[1].type).toBe("peaking");
+      expect(blendGain.linearRampToValueAtTime).toHaveBeenLastCalledWith(
+        0.5,
+        expect.any(Number)
+      );
+    });
+
+    // Response of a BiquadFilterNode at its own cutoff, from the Web Audio
+    // coefficients (lowpass Q in dB, bandpass Q linear) as [re, im]
+    const biquadAtCutoff = (type: "lowpass" | "bandpass", Q: number) => {
+      const w0 = (2 * Math.PI * 1000) / 44100;
+      const cos = Math.cos(w0);
+      const alpha =
+        type === "lowpass"
+          ? Math.sin(w0) / (2 * Math.pow(10, Q / 20))
+          : Math.sin(w0) / (2 * Q);
+      const b =
+        type === "lowpass"
+          ? [(1 - cos) / 2, 1 - cos, (1 - cos) / 2]
+          : [alpha, 0, -alpha];
+      const a = [1 + alpha, -2 * cos, 1 - alpha];
+      // Evaluate c0 + c1 z^-1 + c2 z^-2 at z = e^(j w0)
+      const evaluate = ([c0, c1, c2]: number[]) => [
+        c0 + c1 * cos + c2 * Math.cos(2 * w0),
+        -(c1 * Math.sin(w0) + c2 * Math.sin(2 * w0)),
+      ];
+      const [nRe, nIm] = evaluate(b);
+      const [dRe, dIm] = evaluate(a);
+      const d = dRe * dRe + dIm * dIm;
+      return [(nRe * dRe + nIm * dIm) / d, (nIm * dRe - nRe * dIm) / d];
+    };
+
+    // Gain at the cutoff of the stages as they reach the filter nodes
+    const cutoffGain = (resonance: number, slope: FilterSlope) => {
+      const stages = calculateFilterStages("lowpass", resonance, slope);
+      if (slope === 6) {
+        const [lpRe, lpIm] = biquadAtCutoff("lowpass", stages[0].Q);
+        const [bpRe, bpIm] = biquadAtCutoff(
+          "bandpass",
+          calculateFilterBlendQ(resonance, slope)
+        );
+        const blend = calculateFilterBlendGain("lowpass", slope);
+        return Math.hypot(lpRe + blend * bpRe, lpIm + blend * bpIm);
+      }
+      return stages
+        .filter((stage) => stage.type === "lowpass")
+        .reduce(
+          (gain, stage) =>
+            gain * Math.hypot(...biquadAtCutoff("lowpass", stage.Q)),
+          1
+        );
+    };
+
+    it("keeps the resonant peak the same height for every slope", () => {
+      // Butterworth (-3 dB) at zero resonance, Q in dB on the node
+      expect(calculateFilterStages("lowpass", 0, 12)[0].Q).toBeCloseTo(
+        20 * Math.log10(Math.SQRT1_2)
+      );
+      ([6, 12, 24, 48] as FilterSlope[]).forEach((slope) => {
+        expect(cutoffGain(0, slope)).toBeCloseTo(Math.SQRT1_2, 2);
+        // Full resonance lifts the cutoff 24 dB
+        expect(
+          20 * Math.log10(cutoffGain(20, slope) / cutoffGain(0, slope))
+        ).toBeCloseTo(24, 1);
+      });
+    });
+
+    it("loads the filter mode from patch presets", () => {
+      const preset = getPatchPreset("pad-strings");
+      expect(preset).toBeDefined();
+
+      act(() => {
+        applyPatchPreset(preset!);
+      });
+
+      const state = useAudioEngineStore.getState();
+      expect(state.filterType).toBe("highpass");
+      expect(state.filterSlope).toBe(12);
+      expect(state.cutoffFrequency).toBe(preset!.cutoffFrequency);
+      expect(state.oscillators[3].isActive).toBe(false);
+    });
+
+    it("keeps the routing and resets what patches leave out", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      act(() => {
+        result.current.setFilterRouting("parallel");
+        result.current.setOscillatorFilter(1, "b");
+        result.current.setFMIndex(0, 1, 5);
+        result.current.setRingMod(2, "rm", 0);
+        result.current.setOscillatorSync(1, 0);
+        useEffectsRackStore
+          .getState()
+          .updateSlotParams(getRackSlot("delay").id, { mix: 0.5 });
+        result.current.updateDynamics({ compressorEnabled: true });
+      });
+      act(() => {
+        applyPatchPreset(getPatchPreset("lead-saw")!);
+      });
+
+      expect(result.current.filterRouting).toBe("parallel");
+      expect(result.current.oscillatorFilters[1]).toBe("b");
+      expect(result.current.fmMatrix[0][1]).toBe(0);
+      expect(result.current.ringMods).toEqual(DEFAULT_RING_MODS);
+      expect(result.current.syncSources).toEqual([null, null, null, null]);
+      expect(getRackSlot("delay").params).toEqual(DEFAULT_DELAY_SETTINGS);
+      expect(result.current.dynamics).toEqual(DEFAULT_DYNAMICS_SETTINGS);
+    });
+  });
+
+  describe("Dual filters", () => {
+    const createNode = () => ({ connect: jest.fn(), disconnect: jest.fn() });
+
+    const setupVoice = () => {
+      const voice = audioNodes.voices[0];
+      voice.mixerGainNode = createNode() as any;
+      voice.driveOutputGain = createNode() as any;
+      voice.filterNodes = [createNode()] as any;
+      voice.filterBInputGain = createNode() as any;
+      voice.filterBNodes = [createNode()] as any;
+      voice.bypassGainNode = createNode() as any;
+      audioNodes.masterGainNode = createNode() as any;
+      return voice;
+    };
+
+    it("connects filter A into filter B in serial routing", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+      const voice = setupVoice();
+
+      act(() => {
+        result.current.setFilterRouting("serial");
+      });
+
+      expect(result.current.filterRouting).toBe("serial");
+      expect(voice.filterNodes[0].connect).toHaveBeenCalledWith(
+        voice.filterBInputGain
+      );
+      expect(voice.filterNodes[0].connect).not.toHaveBeenCalledWith(
+        audioNodes.masterGainNode
+      );
+    });
+
+    it("feeds both filters the drive output in parallel routing", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+      const voice = setupVoice();
+
+      act(() => {
+        result.current.setFilterRouting("parallel");
+      });
+
+      expect(voice.filterNodes[0].connect).toHaveBeenCalledWith(
+        audioNodes.masterGainNode
+      );
+      expect(voice.driveOutputGain!.connect).toHaveBeenCalledWith(
+        voice.filterBInputGain
+      );
+    });
+
+    it("routes an oscillator to its assigned filter input", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+      const voice = setupVoice();
+      const envelope = createNode();
+      voice.oscillators[2].ampEnvelopeNode = envelope as any;
+
+      act(() => {
+        result.current.setOscillatorFilter(2, "both");
+      });
+      expect(result.current.oscillatorFilters[2]).toBe("both");
+      expect(envelope.connect).toHaveBeenCalledWith(voice.mixerGainNode);
+      expect(envelope.connect).toHaveBeenCalledWith(voice.filterBInputGain);
+
+      envelope.connect.mockClear();
+      act(() => {
+        result.current.setOscillatorFilter(2, "bypass");
+      });
+      expect(envelope.disconnect).toHaveBeenCalled();
+      expect(envelope.connect).toHaveBeenCalledTimes(1);
+      expect(envelope.connect).toHaveBeenCalledWith(voice.bypassGainNode);
+    });
+
+    it("updates filter B without touching filter A", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      const rampA = jest.fn();
+      const rampB = jest.fn();
+      audioNodes.voices[0].filterNodes = [
+        { frequency: { exponentialRampToValueAtTime: rampA } },
+      ] as any;
+      audioNodes.voices[0].filterBNodes = [
+        {
+          type: "highpass",
+          frequency: { exponentialRampToValueAtTime: rampB },
+          Q: { linearRampToValueAtTime: jest.fn() },
+          gain: { linearRampToValueAtTime: jest.fn() },
+        },
+      ] as any;
+
+      act(() => {
+        result.current.updateFilterB(800, 5);
+      });
+
+      expect(result.current.filterB.cutoffFrequency).toBe(800);
+      expect(result.current.filterB.resonance).toBe(5);
+      expect(rampB).toHaveBeenCalledWith(800, expect.any(Number));
+      expect(rampA).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Filter key tracking", () => {
+    it("scales the cutoff with the note relative to the reference key", () => {
+      const octaveUp = KEYTRACK_REFERENCE_FREQUENCY * 2;
+
+      expect(calculateKeyTrackedCutoff(1000, octaveUp, 0)).toBe(1000);
+      expect(calculateKeyTrackedCutoff(1000, octaveUp, 100)).toBeCloseTo(2000);
+      expect(calculateKeyTrackedCutoff(1000, octaveUp, 50)).toBeCloseTo(
+        1000 * Math.SQRT2
+      );
+      expect(
+        calculateKeyTrackedCutoff(1000, KEYTRACK_REFERENCE_FREQUENCY, 100)
+      ).toBeCloseTo(1000);
+    });
+
+    it("moves the cutoff of a held voice when the amount changes", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      const ramp = jest.fn();
+      audioNodes.voices[0].filterNodes = [
+        { frequency: { exponentialRampToValueAtTime: ramp } },
+      ] as any;
+      useAudioEngineStore.setState({
+        voices: [
+          {
+            ...createIdleVoice(),
+            key: "a",
+            frequency: KEYTRACK_REFERENCE_FREQUENCY / 2,
+          },
+          createIdleVoice(),
+        ],
+      });
+
+      act(() => {
+        result.current.setFilterKeyTrack(100);
+      });
+
+      expect(result.current.filterKeyTrack).toBe(100);
+      expect(ramp).toHaveBeenCalledWith(1000, expect.any(Number));
+    });
+  });
+
+  describe("Polyphony", () => {
+    const createMockVoice = () => {
+      const voice = createEmptyVoiceNodeSet();
+      voice.oscillators[0].sourceNode = {
+        playbackRate: { exponentialRampToValueAtTime: jest.fn() },
+      } as any;
+      voice.oscillators[0].ampEnvelopeNode = {
+        gain: {
+          value: 0,
+          cancelScheduledValues: jest.fn(),
+          setValueAtTime: jest.fn(),
+          linearRampToValueAtTime: jest.fn(),
+        },
+      } as any;
+      return voice;
+    };
+
+    beforeEach(() => {
+      audioNodes.resizeVoices(2);
+      audioNodes.voices = [createMockVoice(), createMockVoice()];
+    });
+
+    it("plays each key on its own voice", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      act(() => {
+        result.current.triggerNoteOn("a", 220);
+        result.current.triggerNoteOn("s", 330);
+      });
+
+      expect(result.current.voices[0].key).toBe("a");
+      expect(result.current.voices[1].key).toBe("s");
+      expect(result.current.isNoteHeld).toBe(true);
+      expect(
+        audioNodes.voices[0].oscillators[0].ampEnvelopeNode!.gain
+          .linearRampToValueAtTime
+      ).toHaveBeenCalled();
+      expect(
+        audioNodes.voices[1].oscillators[0].ampEnvelopeNode!.gain
+          .linearRampToValueAtTime
+      ).toHaveBeenCalled();
+    });
+
+    it("releases only the voice holding the key", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      act(() => {
+        result.current.triggerNoteOn("a", 220);
+        result.current.triggerNoteOn("s", 330);
+        result.current.triggerNoteOff("a");
+      });
+
+      expect(result.current.voices[0].isHeld).toBe(false);
+      expect(result.current.voices[1].isHeld).toBe(true);
+      expect(result.current.isNoteHeld).toBe(true);
+
+      act(() => {
+        result.current.triggerNoteOff("s");
+      });
+
+      expect(result.current.isNoteHeld).toBe(false);
+    });
+
+    it("steals a voice when all voices are held", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      act(() => {
+        result.current.triggerNoteOn("a", 220);
+        mockAudioContext.currentTime = 1;
+        result.current.triggerNoteOn("s", 330);
+        mockAudioContext.currentTime = 2;
+        result.current.triggerNoteOn("d", 440);
+      });
+      mockAudioContext.currentTime = 0;
+
+      // Oldest note ("a") is replaced
+      expect(result.current.voices.map((voice) => voice.key)).toEqual([
+        "d",
+        "s",
+      ]);
+    });
+
+    it("clamps the voice count", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      act(() => {
+        result.current.setVoiceCount(64);
+      });
+
+      expect(result.current.voiceCount).toBe(16);
+      expect(result.current.voices).toHaveLength(16);
+
+      act(() => {
+        result.current.setVoiceCount(0);
+      });
+
+      expect(result.current.voiceCount).toBe(1);
+    });
+  });
+
+  describe("Mono note stack", () => {
+    const createMonoVoice = () => {
+      const voice = createEmptyVoiceNodeSet();
+      voice.oscillators[0].sourceNode = {
+        playbackRate: { exponentialRampToValueAtTime: jest.fn() },
+      } as any;
+      voice.oscillators[0].ampEnvelopeNode = {
+        gain: {
+          value: 0,
+          cancelScheduledValues: jest.fn(),
+          setValueAtTime: jest.fn(),
+          linearRampToValueAtTime: jest.fn(),
+        },
+      } as any;
+      return voice;
+    };
+
+    beforeEach(() => {
+      audioNodes.resizeVoices(1);
+      audioNodes.voices = [createMonoVoice()];
+      useAudioEngineStore.setState({
+        voiceCount: 1,
+        voices: [createIdleVoice()],
+      });
+    });
+
+    it("returns to a key that is still held", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      act(() => {
+        result.current.triggerNoteOn("a", 220);
+        result.current.triggerNoteOn("s", 330);
+        result.current.triggerNoteOff("s");
+      });
+
+      expect(result.current.voices[0]).toMatchObject({
+        key: "a",
+        frequency: 220,
+        isHeld: true,
+      });
+      expect(result.current.noteStack).toEqual([{ key: "a", frequency: 220 }]);
+
+      act(() => {
+        result.current.triggerNoteOff("a");
+      });
+      expect(result.current.voices[0].isHeld).toBe(false);
+      expect(result.current.isNoteHeld).toBe(false);
+    });
+
+    it("keeps the lowest key sounding with low note priority", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      act(() => {
+        result.current.setNotePriority("low");
+        result.current.triggerNoteOn("s", 330);
+        result.current.triggerNoteOn("d", 440);
+      });
+      expect(result.current.voices[0].key).toBe("s");
+
+      act(() => {
+        result.current.triggerNoteOn("a", 220);
+      });
+      expect(result.current.voices[0].key).toBe("a");
+    });
+
+    it("changes pitch without retriggering envelopes in legato", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+      const ampRamp =
+        audioNodes.voices[0].oscillators[0].ampEnvelopeNode!.gain
+          .linearRampToValueAtTime;
+
+      act(() => {
+        result.current.setLegato(true);
+        result.current.triggerNoteOn("a", 220);
+      });
+      const attackCalls = (ampRamp as jest.Mock).mock.calls.length;
+      expect(attackCalls).toBeGreaterThan(0);
+
+      act(() => {
+        result.current.triggerNoteOn("s", 330);
+        result.current.triggerNoteOff("s");
+      });
+
+      expect(ampRamp).toHaveBeenCalledTimes(attackCalls);
+      expect(result.current.voices[0]).toMatchObject({
+        key: "a",
+        frequency: 220,
+        isHeld: true,
+      });
+    });
+
+    it("key tracks the filter to a legato note from where it is", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+      const frequency = {
+        value: 0,
+        cancelScheduledValues: jest.fn(),
+        setValueAtTime: jest.fn(),
+        linearRampToValueAtTime: jest.fn(),
+        exponentialRampToValueAtTime: jest.fn(),
+        setTargetAtTime: jest.fn(),
+      };
+      audioNodes.voices[0].filterNodes = [{ frequency } as any];
+
+      act(() => {
+        result.current.setLegato(true);
+        result.current.setFilterKeyTrack(100);
+        result.current.triggerNoteOn("a", KEYTRACK_REFERENCE_FREQUENCY);
+      });
+      // The filter envelope has reached its sustain level
+      frequency.value = 1500;
+      frequency.exponentialRampToValueAtTime.mockClear();
+      mockAudioContext.currentTime = 5;
+
+      act(() => {
+        result.current.triggerNoteOn("s", KEYTRACK_REFERENCE_FREQUENCY * 2);
+      });
+      mockAudioContext.currentTime = 0;
+
+      expect(frequency.setValueAtTime).toHaveBeenLastCalledWith(1500, 5);
+      const [[cutoff, end]] = frequency.exponentialRampToValueAtTime.mock.calls;
+      expect(cutoff).toBeCloseTo(3000);
+      expect(end).toBeCloseTo(5.01);
+    });
+  });
+
+  describe("Glide", () => {
+    const createGlideVoice = () => {
+      const voice = createEmptyVoiceNodeSet();
+      voice.oscillators[0].sourceNode = {
+        playbackRate: {
+          cancelScheduledValues: jest.fn(),
+          setValueAtTime: jest.fn(),
+          exponentialRampToValueAtTime: jest.fn(),
+          setTargetAtTime: jest.fn(),
+        },
+      } as any;
+      return voice;
+    };
+
+    // Playback rate of a frequency for the oscillator's table
+    const toRate = (frequency: number) =>
+      (frequency *
+        useSynthControlsStore.getState().oscillators[0].waveformData.length) /
+      mockAudioContext.sampleRate;
+
+    beforeEach(() => {
+      audioNodes.resizeVoices(2);
+      audioNodes.voices = [createGlideVoice(), createGlideVoice()];
+    });
+
+    it("glides from the previous note in pitch-linear time", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+      const playbackRate =
+        audioNodes.voices[1].oscillators[0].sourceNode!.playbackRate;
+
+      act(() => {
+        result.current.updateGlide({ enabled: true, time: 200 });
+        result.current.triggerNoteOn("a", 220);
+        result.current.triggerNoteOn("s", 330);
+      });
+
+      const [from, start] = (playbackRate.setValueAtTime as jest.Mock).mock
+        .calls[0];
+      expect(from).toBeCloseTo(toRate(220));
+      expect(start).toBe(0);
+      const [to, end] = (playbackRate.exponentialRampToValueAtTime as jest.Mock)
+        .mock.calls[0];
+      expect(to).toBeCloseTo(toRate(330));
+      expect(end).toBeCloseTo(0.2);
+    });
+
+    it("only glides between overlapping notes in legato mode", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+      const targetCalls = () =>
+        audioNodes.voices.reduce(
+          (count, voice) =>
+            count +
+            (
+              voice.oscillators[0].sourceNode!.playbackRate
+                .setTargetAtTime as jest.Mock
+            ).mock.calls.length,
+          0
+        );
+
+      act(() => {
+        result.current.updateGlide({
+          enabled: true,
+          mode: "legato",
+          curve: "exponential",
+        });
+        result.current.triggerNoteOn("a", 220);
+        result.current.triggerNoteOff("a");
+        result.current.triggerNoteOn("s", 330);
+      });
+      expect(targetCalls()).toBe(0);
+
+      act(() => {
+        result.current.triggerNoteOff("s");
+        result.current.triggerNoteOn("d", 440);
+        result.current.triggerNoteOn("f", 550);
+      });
+      expect(targetCalls()).toBe(1);
+    });
+  });
+
+  describe("Unison", () => {
+    const createUnisonVoice = () => {
+      const voice = createEmptyVoiceNodeSet();
+      const nodeSet = voice.oscillators[1];
+      nodeSet.sourceNode = {
+        playbackRate: { exponentialRampToValueAtTime: jest.fn() },
+      } as any;
+      nodeSet.waveformBuffer = { duration: 0.05 } as any;
+      nodeSet.wavetable = new Float32Array(2048);
+      nodeSet.unisonMixNode = {
+        gain: { value: 1, linearRampToValueAtTime: jest.fn() },
+      } as any;
+      return voice;
+    };
+
+    beforeEach(() => {
+      audioNodes.voices = [createUnisonVoice(), createUnisonVoice()];
+    });
+
+    it("spreads the copies in pairs around the main source", () => {
+      expect(calculateUnisonOffsets(1)).toEqual([]);
+      expect(calculateUnisonOffsets(3)).toEqual([-1, 1]);
+      expect(calculateUnisonOffsets(5)).toEqual([-0.5, 0.5, -1, 1]);
+      expect(calculateUnisonOffsets(4)).toEqual([-0.5, 0.5, -1]);
+    });
+
+    it("adds detuned copies to every voice", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      act(() => {
+        result.current.updateUnison(1, { voices: 3, detune: 20 });
+      });
+
+      expect(result.current.unison[1].voices).toBe(3);
+      expect(result.current.unison[0].voices).toBe(1); // unchanged
+      expect(mockAudioContext.createBufferSource).toHaveBeenCalledTimes(4);
+
+      const nodeSet = audioNodes.voices[0].oscillators[1];
+      expect(nodeSet.unisonCopies.map((copy) => copy.offset)).toEqual([-1, 1]);
+      expect(
+        nodeSet.unisonMixNode!.gain.linearRampToValueAtTime
+      ).toHaveBeenCalledWith(1 / Math.sqrt(3), expect.any(Number));
+    });
+
+    it("tunes the outermost copies half the spread from the main source", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+      const rates: number[] = [];
+      mockAudioContext.createBufferSource.mockImplementation(() => {
+        const source = {
+          playbackRate: { value: 1 },
+          connect: jest.fn(),
+          start: jest.fn(),
+        };
+        Object.defineProperty(source.playbackRate, "value", {
+          set: (value: number) => rates.push(value),
+        });
+        return source as any;
+      });
+
+      act(() => {
+        result.current.updateUnison(1, { voices: 3, detune: 100 });
+      });
+
+      // Half a semitone below and above the oscillator's 220 Hz
+      expect(rates[0] / rates[1]).toBeCloseTo(Math.pow(2, -1 / 12));
+    });
+
+    it("stops copies when the stack shrinks", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      act(() => {
+        result.current.updateUnison(1, { voices: 3 });
+      });
+      const copies = audioNodes.voices[0].oscillators[1].unisonCopies;
+      act(() => {
+        result.current.updateUnison(1, { voices: 1 });
+      });
+
+      expect(audioNodes.voices[0].oscillators[1].unisonCopies).toHaveLength(0);
+      copies.forEach((copy) => {
+        expect((copy.source as AudioBufferSourceNode).stop).toHaveBeenCalled();
+      });
+    });
+
+    it("loads unison settings from patches", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      act(() => {
+        applyPatchPreset(getPatchPreset("lead-saw")!);
+      });
+
+      expect(result.current.unison[0]).toEqual({
+        voices: 5,
+        detune: 25,
+        width: 0.6,
+        randomPhase: true,
+      });
+      expect(result.current.unison[1]).toEqual(DEFAULT_UNISON_SETTINGS);
+    });
+  });
+
+  describe("Noise", () => {
+    const createNoiseVoice = () => {
+      const voice = createEmptyVoiceNodeSet();
+      voice.mixerGainNode = { connect: jest.fn() } as any;
+      voice.filterBInputGain = { connect: jest.fn() } as any;
+      voice.noise = {
+        sourceNode: null,
+        gainNode: {
+          gain: { value: 0, linearRampToValueAtTime: jest.fn() },
+        } as any,
+        ampEnvelopeNode: {
+          gain: {
+            cancelScheduledValues: jest.fn(),
+            setValueAtTime: jest.fn(),
+            linearRampToValueAtTime: jest.fn(),
+            exponentialRampToValueAtTime: jest.fn(),
+          },
+        } as any,
+        pannerNode: {
+          pan: { value: 0, linearRampToValueAtTime: jest.fn() },
+          connect: jest.fn(),
+          disconnect: jest.fn(),
+        } as any,
+      };
+      return voice;
+    };
+
+    beforeEach(() => {
+      audioNodes.voices = [createNoiseVoice(), createNoiseVoice()];
+    });
+
+    // Average step between neighbouring samples (high-frequency content)
+    const meanStep = (samples: Float32Array) => {
+      let total = 0;
+      for (let i = 1; i < samples.length; i++) {
+        total += Math.abs(samples[i] - samples[i - 1]);
+      }
+      return total / (samples.length - 1);
+    };
+
+    it("generates darker noise for pink and brown", () => {
+      let seed = 1;
+      const random = () => {
+        seed = (seed * 16807) % 2147483647;
+        return seed / 2147483647;
+      };
+      const white = createNoiseSamples("white", 8192, random);
+      const pink = createNoiseSamples("pink", 8192, random);
+      const brown = createNoiseSamples("brown", 8192, random);
+
+      [white, pink, brown].forEach((samples) => {
+        expect(Math.max(...Array.from(samples, Math.abs))).toBeCloseTo(1);
+      });
+      expect(meanStep(pink)).toBeLessThan(meanStep(white));
+      expect(meanStep(brown)).toBeLessThan(meanStep(pink));
+    });
+
+    it("sets level and pan of every voice", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      act(() => {
+        result.current.updateNoise({ level: 0.5, pan: -0.25 });
+      });
+
+      expect(result.current.noise.level).toBe(0.5);
+      expect(result.current.noise.color).toBe("white"); // unchanged
+      audioNodes.voices.forEach((voice) => {
+        expect(
+          voice.noise.gainNode!.gain.linearRampToValueAtTime
+        ).toHaveBeenCalledWith(0.5, expect.any(Number));
+        expect(
+          voice.noise.pannerNode!.pan.linearRampToValueAtTime
+        ).toHaveBeenCalledWith(-0.25, expect.any(Number));
+      });
+    });
+
+    it("routes the noise to the chosen filter", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      act(() => {
+        result.current.updateNoise({ filter: "b" });
+      });
+
+      const voice = audioNodes.voices[0];
+      expect(voice.noise.pannerNode!.disconnect).toHaveBeenCalled();
+      expect(voice.noise.pannerNode!.connect).toHaveBeenCalledWith(
+        voice.filterBInputGain
+      );
+      expect(voice.noise.pannerNode!.connect).not.toHaveBeenCalledWith(
+        voice.mixerGainNode
+      );
+    });
+
+    it("follows the amp envelope of the voice", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      act(() => {
+        result.current.triggerNoteOn("a", 220);
+      });
+
+      const gain = audioNodes.voices[0].noise.ampEnvelopeNode!.gain;
+      expect(gain.linearRampToValueAtTime).toHaveBeenCalled();
+      expect(
+        audioNodes.voices[1].noise.ampEnvelopeNode!.gain.linearRampToValueAtTime
+      ).not.toHaveBeenCalled();
+    });
+
+    it("loads noise settings from patches", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      act(() => {
+        applyPatchPreset(getPatchPreset("fx-noise")!);
+      });
+      expect(result.current.noise).toEqual({
+        color: "pink",
+        level: 0.7,
+        pan: 0,
+        filter: "a",
+      });
+
+      act(() => {
+        applyPatchPreset(getPatchPreset("lead-saw")!);
+      });
+      expect(result.current.noise).toEqual(DEFAULT_NOISE_SETTINGS);
+    });
+  });
+
+  describe("Sub-oscillator", () => {
+    // Playback rate of a frequency for the sub's 2048-sample tables
+    const toRate = (frequency: number) =>
+      (frequency * 2048) / mockAudioContext.sampleRate;
+
+    beforeEach(() => {
+      mockAudioContext.createGain.mockImplementation(
+        () =>
+          ({
+            gain: {
+              value: 0,
+              cancelScheduledValues: jest.fn(),
+              setValueAtTime: jest.fn(),
+              linearRampToValueAtTime: jest.fn(),
+              exponentialRampToValueAtTime: jest.fn(),
+            },
+            connect: jest.fn(),
+            disconnect: jest.fn(),
+          }) as any
+      );
+      mockAudioContext.createBufferSource.mockImplementation(
+        () =>
+          ({
+            buffer: null,
+            loop: false,
+            playbackRate: { value: 1, exponentialRampToValueAtTime: jest.fn() },
+            connect: jest.fn(),
+            start: jest.fn(),
+            stop: jest.fn(),
+            disconnect: jest.fn(),
+          }) as any
+      );
+      audioNodes.voices.forEach((voice, voiceIndex) => {
+        voice.filterBInputGain = { connect: jest.fn() } as any;
+        audioNodes.createSubOscChain(
+          voiceIndex,
+          DEFAULT_SUB_OSC_SETTINGS,
+          null,
+          220,
+          "a"
+        );
+      });
+    });
+
+    it("plays below oscillator 1 with its detune", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+      useSynthControlsStore.setState((state) => ({
+        oscillators: state.oscillators.map((osc, i) =>
+          i === 0
+            ? { ...osc, detune: { octave: 0, semitone: 7, cent: 0 } }
+            : osc
+        ),
+      }));
+
+      act(() => {
+        result.current.triggerNoteOn("a", 220);
+      });
+
+      const sourceNode = audioNodes.voices[0].subOsc.sourceNode!;
+      const [rate] = (
+        sourceNode.playbackRate.exponentialRampToValueAtTime as jest.Mock
+      ).mock.calls[0];
+      expect(rate).toBeCloseTo(toRate((220 * Math.pow(2, 7 / 12)) / 2));
+    });
+
+    it("switches waveform and octave", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      act(() => {
+        result.current.updateSubOsc({ waveform: "square", octave: 2 });
+      });
+
+      const subOsc = audioNodes.voices[1].subOsc;
+      expect(subOsc.octave).toBe(2);
+      expect(subOsc.wavetable![0]).toBe(1);
+      expect(subOsc.wavetable![1536]).toBe(-1);
+      expect(subOsc.sourceNode!.playbackRate.value).toBeCloseTo(
+        toRate(220 / 4)
+      );
+    });
+
+    it("shares oscillator 1's filter routing", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+      const voice = audioNodes.voices[0];
+
+      act(() => {
+        result.current.setOscillatorFilter(0, "b");
+      });
+
+      expect(voice.subOsc.ampEnvelopeNode!.connect).toHaveBeenCalledWith(
+        voice.filterBInputGain
+      );
+    });
+
+    it("loads sub-oscillator settings from patches", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      act(() => {
+        applyPatchPreset(getPatchPreset("bass-deep")!);
+      });
+      expect(result.current.subOsc).toEqual({
+        waveform: "square",
+        octave: 1,
+        level: 0.6,
+      });
+
+      act(() => {
+        applyPatchPreset(getPatchPreset("lead-saw")!);
+      });
+      expect(result.current.subOsc).toEqual(DEFAULT_SUB_OSC_SETTINGS);
+    });
+  });
+
+  describe("Master EQ", () => {
+    beforeEach(() => {
+      mockAudioContext.createBiquadFilter.mockImplementation(
+        () =>
+          ({
+            type: "lowpass",
+            frequency: { value: 0, exponentialRampToValueAtTime: jest.fn() },
+            gain: { value: 0, linearRampToValueAtTime: jest.fn() },
+            Q: { value: 0, linearRampToValueAtTime: jest.fn() },
+            connect: jest.fn(),
+            disconnect: jest.fn(),
+          }) as any
+      );
+    });
+
+    it("chains one filter per band in order", () => {
+      const eq = audioNodes.createEQ(DEFAULT_EQ_BANDS)!;
+
+      expect(eq.filterNodes.map((filter) => filter.type)).toEqual([
+        "lowshelf",
+        "peaking",
+        "peaking",
+        "highshelf",
+      ]);
+      expect(eq.inputNode).toBe(eq.filterNodes[0]);
+      expect(eq.outputNode).toBe(eq.filterNodes[3]);
+      eq.filterNodes.slice(0, 3).forEach((filter, index) => {
+        expect(filter.connect).toHaveBeenCalledWith(eq.filterNodes[index + 1]);
+      });
+    });
+
+    it("ramps only the band that changed", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+      const eq = audioNodes.createEQ(DEFAULT_EQ_BANDS)!;
+      mockAudioContext.createBiquadFilter.mockClear();
+
+      act(() => {
+        result.current.updateEQBand(2, { frequency: 3000, gain: 6 });
+      });
+
+      expect(result.current.eq[2]).toEqual({
+        ...DEFAULT_EQ_BANDS[2],
+        frequency: 3000,
+        gain: 6,
+      });
+      expect(result.current.eq[1]).toEqual(DEFAULT_EQ_BANDS[1]);
+      const filter = eq.filterNodes[2];
+      expect(
+        filter.frequency.exponentialRampToValueAtTime
+      ).toHaveBeenCalledWith(3000, expect.any(Number));
+      expect(filter.gain.linearRampToValueAtTime).toHaveBeenCalledWith(
+        6,
+        expect.any(Number)
+      );
+      expect(
+        eq.filterNodes[1].gain.linearRampToValueAtTime
+      ).not.toHaveBeenCalled();
+      expect(mockAudioContext.createBiquadFilter).not.toHaveBeenCalled();
+    });
+
+    it("measures the response as the product of the bands", () => {
+      audioNodes.cleanup();
+      mockAudioContext.createBiquadFilter.mockImplementation(
+        () =>
+          ({
+            type: "lowpass",
+            frequency: { value: 0 },
+            gain: { value: 0 },
+            Q: { value: 0 },
+            getFrequencyResponse(
+              frequencies: Float32Array,
+              magnitude: Float32Array
+            ) {
+              // Each band doubles the level at and above its own frequency
+              frequencies.forEach((frequency, i) => {
+                magnitude[i] = frequency >= this.frequency.value ? 2 : 1;
+              });
+            },
+          }) as any
+      );
+      const frequencies = createLogFrequencies(3, 20, 20000);
+
+      const response = audioNodes.getEQResponse(DEFAULT_EQ_BANDS, frequencies);
+
+      expect(frequencies[0]).toBeCloseTo(20);
+      expect(frequencies[1]).toBeCloseTo(632.46, 1);
+      expect(frequencies[2]).toBeCloseTo(20000);
+      expect(response[0]).toBeCloseTo(0);
+      expect(response[1]).toBeCloseTo(gainToDb(4));
+      expect(response[2]).toBeCloseTo(gainToDb(16));
+    });
+  });
+
+  describe("Master dynamics", () => {
+    it("builds a bypassed compressor and a limiter at the ceiling", () => {
+      audioNodes.workletsReady = false;
+
+      const dynamics = audioNodes.createDynamics(DEFAULT_DYNAMICS_SETTINGS)!;
+      const limiter = dynamics.limiterNode as DynamicsCompressorNode;
+
+      expect(dynamics.inputNode.ratio.value).toBe(1);
+      expect(dynamics.inputNode.threshold.value).toBe(0);
+      expect(limiter.ratio.value).toBe(20);
+      expect(limiter.threshold.value).toBe(DEFAULT_DYNAMICS_SETTINGS.ceiling);
+      expect(dynamics.analyserNodes).toHaveLength(2);
+    });
+
+    it("applies compressor and limiter changes in real-time", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+      audioNodes.workletsReady = false;
+      const dynamics = audioNodes.createDynamics(DEFAULT_DYNAMICS_SETTINGS)!;
+      const limiter = dynamics.limiterNode as DynamicsCompressorNode;
+
+      act(() => {
+        result.current.updateDynamics({
+          compressorEnabled: true,
+          threshold: -30,
+          limiterEnabled: false,
+        });
+      });
+
+      expect(result.current.dynamics.threshold).toBe(-30);
+      expect(
+        dynamics.inputNode.threshold.linearRampToValueAtTime
+      ).toHaveBeenCalledWith(-30, expect.any(Number));
+      expect(
+        dynamics.inputNode.ratio.linearRampToValueAtTime
+      ).toHaveBeenCalledWith(
+        DEFAULT_DYNAMICS_SETTINGS.ratio,
+        expect.any(Number)
+      );
+      expect(limiter.ratio.linearRampToValueAtTime).toHaveBeenCalledWith(
+        1,
+        expect.any(Number)
+      );
+    });
+
+    it("meters the louder channel and the total gain reduction", () => {
+      audioNodes.workletsReady = false;
+      const channelPeaks = [0.5, -1.25];
+      mockAudioContext.createAnalyser.mockImplementation(() => {
+        const peak = channelPeaks.shift()!;
+        return {
+          fftSize: 4,
+          getFloatTimeDomainData: (samples: Float32Array) =>
+            samples.set([0, peak, 0, 0]),
+          connect: jest.fn(),
+          disconnect: jest.fn(),
+        } as any;
+      });
+      const dynamics = audioNodes.createDynamics(DEFAULT_DYNAMICS_SETTINGS)!;
+      (dynamics.inputNode as any).reduction = -3;
+      (dynamics.limiterNode as any).reduction = -1.5;
+
+      expect(audioNodes.getDynamicsMeter()).toEqual({
+        peak: 1.25,
+        reduction: -4.5,
+      });
+
+      audioNodes.cleanup();
+      expect(audioNodes.getDynamicsMeter()).toBeNull();
+    });
+  });
+
+  describe("Bit crusher", () => {
+    it("stays out of the chain until worklets are loaded", () => {
+      audioNodes.workletsReady = false;
+
+      expect(audioNodes.createCrusher(DEFAULT_CRUSHER_SETTINGS)).toBeNull();
+      const { slot } = createRackSlot({ type: "crusher" });
+      expect(audioNodes.effectsRackNodes!.slotNodes[slot.id].effect).toBeNull();
+    });
+
+    it("ramps only the worklet parameters that changed", () => {
+      const { result } = renderHook(() => useEffectsRackStore());
+      const params = new Map(
+        ["bits", "rate", "mix"].map((name) => [
+          name,
+          { linearRampToValueAtTime: jest.fn() },
+        ])
+      );
+      const workletNode = { parameters: params, connect: jest.fn() } as any;
+      const slot = getRackSlot("crusher");
+      audioNodes.createEffectsRack([slot], () => ({
+        inputNode: workletNode,
+        outputNode: workletNode,
+      }));
+
+      act(() => {
+        result.current.updateSlotParams(slot.id, { bits: 4, rate: 11025 });
+      });
+
+      expect(getRackSlot("crusher").params.bits).toBe(4);
+      expect(params.get("bits")!.linearRampToValueAtTime).toHaveBeenCalledWith(
+        4,
+        expect.any(Number)
+      );
+      expect(
+        params.get("rate")!.linearRampToValueAtTime
+      ).not.toHaveBeenCalled();
+      expect(params.get("mix")!.linearRampToValueAtTime).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Shaper", () => {
+    it("samples the transfer function over -1 to 1 and clamps the output", () => {
+      const curve = createShaperCurve(
+        compileShaperExpression("k*x"),
+        { k: { ...DEFAULT_SHAPER_SETTINGS.variables.k, value: 2 } },
+        5
+      );
+
+      expect(Array.from(curve)).toEqual([-1, -1, 0, 1, 1]);
+      expect(() => compileShaperExpression("tanh(k*")).toThrow(/Parse error/);
+      expect(() => compileShaperExpression(" ")).toThrow();
+    });
+
+    it("detects the expression's variables, keeping existing ones", () => {
+      const { result } = renderHook(() => useEffectsRackStore());
+      const { id } = getRackSlot("shaper");
+
+      act(() => {
+        result.current.setShaperVariable(id, "k", 5);
+        result.current.updateSlotParams(id, {
+          expression: "tanh(k*x) + a*x^2",
+        });
+      });
+
+      const shaper = getRackSlot("shaper").params;
+      expect(Object.keys(shaper.variables)).toEqual(["a", "k"]);
+      expect(shaper.variables.k.value).toBe(5);
+      expect(shaper.variables.a.value).toBe(1);
+      expect(result.current.shaperErrors[id]).toBeUndefined();
+    });
+
+    it("rejects an expression that doesn't parse", () => {
+      const { result } = renderHook(() => useEffectsRackStore());
+      const { id } = getRackSlot("shaper");
+
+      act(() => {
+        result.current.updateSlotParams(id, { expression: "tanh(k*x" });
+      });
+      expect(getRackSlot("shaper").params.expression).toBe("tanh(k*x)");
+      expect(result.current.shaperErrors[id]).toMatch(/Parse error/);
+
+      act(() => {
+        result.current.updateSlotParams(id, { expression: "sin(k*x)" });
+      });
+      expect(getRackSlot("shaper").params.expression).toBe("sin(k*x)");
+      expect(result.current.shaperErrors[id]).toBeUndefined();
+    });
+
+    it("redraws the node's curve when a variable moves", () => {
+      const { result } = renderHook(() => useEffectsRackStore());
+      mockAudioContext.createGain.mockImplementation(
+        () =>
+          ({
+            gain: { value: 0, linearRampToValueAtTime: jest.fn() },
+            connect: jest.fn(),
+            disconnect: jest.fn(),
+          }) as any
+      );
+      const { slot, effect: shaper } = createRackSlot({ type: "shaper" });
+      expect(shaper.shaperNode.oversample).toBe(
+        useSettingsStore.getState().oversample
+      );
+
+      act(() => {
+        result.current.setShaperVariable(slot.id, "k", 1);
+      });
+      const curve = shaper.shaperNode.curve!;
+      expect(curve[curve.length - 1]).toBeCloseTo(Math.tanh(1), 5);
+
+      act(() => {
+        result.current.updateSlotParams(slot.id, { mix: 1 });
+      });
+      expect(
+        shaper.wetGainNode.gain.linearRampToValueAtTime
+      ).toHaveBeenCalledWith(1, expect.any(Number));
+    });
+  });
+
+  describe("Modulation effects", () => {
+    const createMockNode = (...params: string[]) =>
+      ({
+        ...Object.fromEntries(
+          params.map((param) => [
+            param,
+            {
+              value: 0,
+              setValueAtTime: jest.fn(),
+              linearRampToValueAtTime: jest.fn(),
+            },
+          ])
+        ),
+        connect: jest.fn(),
+        disconnect: jest.fn(),
+        start: jest.fn(),
+        stop: jest.fn(),
+      }) as any;
+
+    beforeEach(() => {
+      mockAudioContext.createGain.mockImplementation(() =>
+        createMockNode("gain")
+      );
+      mockAudioContext.createDelay.mockImplementation(() =>
+        createMockNode("delayTime")
+      );
+      mockAudioContext.createBiquadFilter.mockImplementation(() =>
+        createMockNode("frequency", "Q")
+      );
+      mockAudioContext.createOscillator.mockImplementation(() =>
+        createMockNode("frequency")
+      );
+    });
+
+    it("sweeps the two sides of a chorus in opposite directions", () => {
+      const chorus = audioNodes.createModEffect("chorus", {
+        ...DEFAULT_MOD_EFFECT_SETTINGS.chorus,
+        depth: 1,
+      })!;
+      const [left, right] = chorus.stageNodes.map((stages) => stages[0]);
+
+      expect(chorus.depthGainNodes[0].gain.value).toBeCloseTo(0.007);
+      expect(chorus.depthGainNodes[1].gain.value).toBeCloseTo(-0.007);
+      expect(chorus.depthGainNodes[0].connect).toHaveBeenCalledWith(
+        (left as DelayNode).delayTime
+      );
+      expect(chorus.lfoNode.connect).toHaveBeenCalledWith(
+        chorus.depthGainNodes[1]
+      );
+      expect(chorus.feedbackGainNodes[1].connect).toHaveBeenCalledWith(right);
+      expect(chorus.lfoNode.start).toHaveBeenCalled();
+    });
+
+    it("sweeps every all-pass stage of the phaser", () => {
+      const phaser = audioNodes.createModEffect(
+        "phaser",
+        DEFAULT_MOD_EFFECT_SETTINGS.phaser
+      )!;
+      const [left] = phaser.stageNodes;
+
+      // Feedback delay, then the all-pass chain
+      expect(left).toHaveLength(5);
+      left.slice(1).forEach((stage) => {
+        expect((stage as BiquadFilterNode).type).toBe("allpass");
+        expect(phaser.depthGainNodes[0].connect).toHaveBeenCalledWith(
+          (stage as BiquadFilterNode).frequency
+        );
+      });
+      expect(phaser.feedbackGainNodes[0].connect).toHaveBeenCalledWith(left[0]);
+    });
+
+    it("updates rate, depth and clamped feedback", () => {
+      const { result } = renderHook(() => useEffectsRackStore());
+      const { slot, effect: flanger } = createRackSlot({ type: "flanger" });
+
+      act(() => {
+        result.current.updateSlotParams(slot.id, {
+          rate: 2,
+          depth: 0.5,
+          feedback: 1.5,
+        });
+      });
+
+      expect(getRackSlot("flanger").params.feedback).toBe(0.9);
+      expect(flanger.lfoNode.frequency.setValueAtTime).toHaveBeenCalledWith(
+        2,
+        expect.any(Number)
+      );
+      const [depth] = (
+        flanger.depthGainNodes[1].gain.linearRampToValueAtTime as jest.Mock
+      ).mock.calls[0];
+      expect(depth).toBeCloseTo(-0.00175);
+      expect(
+        flanger.feedbackGainNodes[0].gain.linearRampToValueAtTime
+      ).toHaveBeenCalledWith(0.9, expect.any(Number));
+    });
+
+    it("follows a synth LFO when synced, across LFO rebuilds", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+      const { slot, effect: chorus } = createRackSlot({ type: "chorus" });
+
+      act(() => {
+        result.current.toggleLFO(0, true);
+        useEffectsRackStore
+          .getState()
+          .updateSlotParams(slot.id, { lfoSync: 0 });
+      });
+
+      const lfoOutput = audioNodes.lfoNodes[0].gainNode!;
+      expect(chorus.lfoNode.disconnect).toHaveBeenCalledWith(
+        chorus.depthGainNodes[0]
+      );
+      expect(lfoOutput.connect).toHaveBeenCalledWith(chorus.depthGainNodes[0]);
+      expect(lfoOutput.connect).toHaveBeenCalledWith(chorus.depthGainNodes[1]);
+
+      act(() => {
+        result.current.updateLFOWaveform(0, LFOWaveform.SQUARE);
+      });
+
+      const rebuiltOutput = audioNodes.lfoNodes[0].gainNode!;
+      expect(rebuiltOutput).not.toBe(lfoOutput);
+      expect(rebuiltOutput.connect).toHaveBeenCalledWith(
+        chorus.depthGainNodes[0]
+      );
+
+      // The synth LFO outlives the effect
+      audioNodes.cleanup();
+      expect(rebuiltOutput.disconnect).toHaveBeenCalledWith(
+        chorus.depthGainNodes[0]
+      );
+      expect(rebuiltOutput.disconnect).toHaveBeenCalledWith(
+        chorus.depthGainNodes[1]
+      );
+    });
+
+    it("loads modulation effects from the pad patches", () => {
+      act(() => {
+        applyPatchPreset(getPatchPreset("pad-strings")!);
+      });
+      expect(getRackSlot("chorus").params.mix).toBe(0.5);
+
+      act(() => {
+        applyPatchPreset(getPatchPreset("pad-ambient")!);
+      });
+      expect(getRackSlot("phaser").params.mix).toBe(0.4);
+      expect(getRackSlot("flanger").params).toEqual(
+        DEFAULT_MOD_EFFECT_SETTINGS.flanger
+      );
+    });
+  });
+
+  describe("Delay", () => {
+    const createMockNode = (param: string) =>
+      ({
+        [param]: {
+          value: 0,
+          setTargetAtTime: jest.fn(),
+          linearRampToValueAtTime: jest.fn(),
+          exponentialRampToValueAtTime: jest.fn(),
+        },
+        connect: jest.fn(),
+        disconnect: jest.fn(),
+      }) as any;
+
+    beforeEach(() => {
+      mockAudioContext.createGain.mockImplementation(() =>
+        createMockNode("gain")
+      );
+      mockAudioContext.createDelay.mockImplementation(() =>
+        createMockNode("delayTime")
+      );
+      mockAudioContext.createBiquadFilter.mockImplementation(() =>
+        createMockNode("frequency")
+      );
+    });
+
+    it("converts synced divisions to the tempo", () => {
+      const synced = { ...DEFAULT_DELAY_SETTINGS, sync: true };
+
+      expect(calculateDelayTime({ ...synced, division: "1/8d" }, 120)).toBe(
+        375
+      );
+      expect(calculateDelayTime({ ...synced, division: "1/4t" }, 100)).toBe(
+        400
+      );
+      expect(calculateDelayTime({ ...synced, division: "1/2" }, 40)).toBe(2000); // clamped to the delay lines
+      expect(
+        calculateDelayTime({ ...DEFAULT_DELAY_SETTINGS, time: 250 }, 120)
+      ).toBe(250);
+    });
+
+    it("crosses the feedback between sides in ping-pong mode", () => {
+      const { result } = renderHook(() => useEffectsRackStore());
+      const { slot, effect: delay } = createRackSlot({ type: "delay" });
+      const [left, right] = delay.delayNodes;
+
+      expect(left.delayTime.value).toBeCloseTo(0.375);
+      expect(delay.feedbackGainNodes[0].connect).toHaveBeenCalledWith(right);
+      expect(delay.feedbackGainNodes[1].connect).toHaveBeenCalledWith(left);
+
+      act(() => {
+        result.current.updateSlotParams(slot.id, { pingPong: false });
+      });
+
+      expect(delay.feedbackGainNodes[0].connect).toHaveBeenLastCalledWith(left);
+      expect(delay.feedbackGainNodes[1].connect).toHaveBeenLastCalledWith(
+        right
+      );
+      expect(delay.splitterNode.connect).toHaveBeenLastCalledWith(right, 1);
+    });
+
+    it("clamps feedback and sets an equal-power mix", () => {
+      const { result } = renderHook(() => useEffectsRackStore());
+      const { slot, effect: delay } = createRackSlot({ type: "delay" });
+
+      act(() => {
+        result.current.updateSlotParams(slot.id, { feedback: 2, mix: 0.5 });
+      });
+
+      expect(getRackSlot("delay").params.feedback).toBe(0.95);
+      expect(
+        delay.feedbackGainNodes[0].gain.linearRampToValueAtTime
+      ).toHaveBeenCalledWith(0.95, expect.any(Number));
+      const [dry] = (
+        delay.dryGainNode.gain.linearRampToValueAtTime as jest.Mock
+      ).mock.calls[0];
+      const [wet] = (
+        delay.wetGainNode.gain.linearRampToValueAtTime as jest.Mock
+      ).mock.calls[0];
+      expect(dry).toBeCloseTo(Math.SQRT1_2);
+      expect(wet).toBeCloseTo(Math.SQRT1_2);
+    });
+
+    it("retimes a synced delay when the tempo changes", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+      const { slot, effect: delay } = createRackSlot({ type: "delay" });
+
+      act(() => {
+        useEffectsRackStore
+          .getState()
+          .updateSlotParams(slot.id, { sync: true, division: "1/4" });
+        result.current.setTempo(100);
+      });
+
+      expect(
+        delay.delayNodes[0].delayTime.setTargetAtTime
+      ).toHaveBeenLastCalledWith(0.6, expect.any(Number), expect.any(Number));
+    });
+  });
+
+  describe("Reverb", () => {
+    const SAMPLE_RATE = 1000;
+
+    // Average step between neighbouring samples (high-frequency content)
+    const meanStep = (samples: Float32Array, start: number, end: number) => {
+      let total = 0;
+      for (let i = start + 1; i < end; i++) {
+        total += Math.abs(samples[i] - samples[i - 1]);
+      }
+      return total / (end - start - 1);
+    };
+
+    it("generates a decaying stereo tail after the pre-delay", () => {
+      const [left, right] = createReverbImpulse(
+        { ...DEFAULT_REVERB_SETTINGS, size: 2, preDelay: 100, damping: 0 },
+        SAMPLE_RATE
+      );
+
+      expect(left).toHaveLength(2100);
+      expect(left.slice(0, 100).every((sample) => sample === 0)).toBe(true);
+      expect(left[100]).not.toBe(0);
+      expect(left).not.toEqual(right); // decorrelated sides
+      const peak = (samples: Float32Array) =>
+        Math.max(...Array.from(samples, Math.abs));
+      expect(peak(left.slice(1700))).toBeLessThan(peak(left.slice(100, 500)));
+    });
+
+    it("darkens the end of the tail with damping", () => {
+      const settings = { ...DEFAULT_REVERB_SETTINGS, size: 4, decay: 1 };
+      const [bright] = createReverbImpulse(
+        { ...settings, damping: 0 },
+        SAMPLE_RATE
+      );
+      const [dark] = createReverbImpulse(
+        { ...settings, damping: 1 },
+        SAMPLE_RATE
+      );
+      const start = 10 + 2000; // second half of the tail, after the pre-delay
+
+      expect(meanStep(dark, start, start + 1000)).toBeLessThan(
+        meanStep(bright, start, start + 1000) / 2
+      );
+    });
+
+    it("regenerates the impulse only when its shape changes", () => {
+      const { result } = renderHook(() => useEffectsRackStore());
+      mockAudioContext.createGain.mockImplementation(
+        () =>
+          ({
+            gain: { value: 0, linearRampToValueAtTime: jest.fn() },
+            connect: jest.fn(),
+            disconnect: jest.fn(),
+          }) as any
+      );
+      mockAudioContext.createBuffer.mockImplementation(
+        () => ({ copyToChannel: jest.fn() }) as any
+      );
+      const { slot, effect: reverb } = createRackSlot({ type: "reverb" });
+      const buffer = reverb.convolverNode.buffer;
+
+      act(() => {
+        result.current.updateSlotParams(slot.id, { mix: 1 });
+      });
+      expect(reverb.convolverNode.buffer).toBe(buffer);
+      expect(
+        reverb.wetGainNode.gain.linearRampToValueAtTime
+      ).toHaveBeenCalledWith(1, expect.any(Number));
+
+      act(() => {
+        result.current.updateSlotParams(slot.id, { size: 4 });
+      });
+      expect(mockAudioContext.createBuffer).toHaveBeenLastCalledWith(
+        2,
+        expect.any(Number),
+        mockAudioContext.sampleRate
+      );
+      expect(reverb.convolverNode.buffer).not.toBe(buffer);
+    });
+
+    it("loads the reverb from patches", () => {
+      act(() => {
+        applyPatchPreset(getPatchPreset("pad-ambient")!);
+      });
+      expect(getRackSlot("reverb").params.mix).toBe(0.45);
+
+      act(() => {
+        applyPatchPreset(getPatchPreset("lead-saw")!);
+      });
+      expect(getRackSlot("reverb").params).toEqual(DEFAULT_REVERB_SETTINGS);
+    });
+  });
+
+  describe("setIsPlaying", () => {
+    it("updates isPlaying state", () => {
+      const { result } = renderHook(() => useAudioEngineStore());
+
+      act(() => {
+        result.current.setIsPlaying(true);
+      });
+
+      expect(result.current.isPlaying).toBe(true);
+
+      act(() => {
+        result.current.setIsPlaying(false);
+      });
+
+      expect(result.current.isPlaying).toBe(false);
+    });
+  });
+
+  describe("AudioNodeManager", () => {
+    it("initializes audio context", () => {
+      audioNodes.initializeAudioContext();
+      expect(audioNodes.audioContext).toBeTruthy();
+    });
+
+    it("falls back to buffer playback when worklets are not loaded", () => {
+      audioNodes.workletsReady = false;
+
+      const nodeSet = audioNodes.createOscillatorChain(
+        mockAudioContext as any,
+        new Float32Array(2048),
+        440,
+        1,
+        "worklet"
+      );
+
+      expect(nodeSet.sourceNode).toBeTruthy();
+      expect(nodeSet.workletNode).toBeNull();
+    });
+
+    it("posts new tables to worklet oscillators", () => {
+      const mockPort = { postMessage: jest.fn() };
+      audioNodes.voices[0].oscillators[1].workletNode = {
+        port: mockPort,
+      } as any;
+
+      const posted = audioNodes.postWaveformTable(1, new Float32Array(8));
+
+      expect(posted).toBe(true);
+      expect(mockPort.postMessage).toHaveBeenCalledWith({
+        type: "table",
+        tables: expect.any(Array),
+        baseFrequency: expect.any(Number),
+      });
+    });
+
+    it("loads the band-limited table for a buffer oscillator's octave", () => {
+      const table = new Float32Array(64);
+      const low = audioNodes.createOscillatorChain(
+        mockAudioContext as any,
+        table,
+        30,
+        1
+      );
+      const high = audioNodes.createOscillatorChain(
+        mockAudioContext as any,
+        table,
+        5000,
+        1
+      );
+
+      expect(low.mipmapLevel).toBe(0);
+      expect(high.mipmapLevel).toBe(7);
+      expect(high.wavetable).toBe(table);
+    });
+
+    it("carries a glide and the amp envelope over to a new table", () => {
+      const createParam = (value: number) => ({
+        value,
+        cancelScheduledValues: jest.fn(),
+        setValueAtTime: jest.fn(),
+        linearRampToValueAtTime: jest.fn(),
+        exponentialRampToValueAtTime: jest.fn(),
+        setTargetAtTime: jest.fn(),
+      });
+      mockAudioContext.createGain.mockImplementation(
+        () =>
+          ({
+            gain: createParam(0),
+            connect: jest.fn(),
+            disconnect: jest.fn(),
+          }) as any
+      );
+      mockAudioContext.createBufferSource.mockImplementation(
+        () =>
+          ({
+            playbackRate: createParam(1),
+            connect: jest.fn(),
+            start: jest.fn(),
+            stop: jest.fn(),
+            disconnect: jest.fn(),
+          }) as any
+      );
+      const voice = audioNodes.voices[0];
+      voice.mixerGainNode = { connect: jest.fn() } as any;
+      const table = new Float32Array(64);
+      const toRate = (frequency: number) =>
+        (frequency * table.length) / mockAudioContext.sampleRate;
+
+      const oldNodeSet = audioNodes.createOscillatorChain(
+        mockAudioContext as any,
+        table,
+        220,
+        1
+      );
+      voice.oscillators[0] = oldNodeSet;
+      audioNodes.setOscillatorFrequency(oldNodeSet, 880, table.length, 0, {
+        fromFrequency: 220,
+        duration: 0.5,
+        curve: "linear",
+      });
+      audioNodes.applyOscillatorEnvelope(
+        oldNodeSet,
+        createAmpEnvelopeOps(
+          { attack: 0.1, decay: 0.4, sustain: 0.5, release: 1 },
+          0,
+          true
+        )
+      );
+
+      // Switch tables halfway through the glide and the decay
+      mockAudioContext.currentTime = 0.2;
+      oldNodeSet.ampEnvelopeNode!.gain.value = 0.8;
+      audioNodes.crossfadeWaveform(0, 0, table, 880, 1, 10);
+      mockAudioContext.currentTime = 0;
+
+      const newNodeSet = voice.oscillators[0];
+      expect(newNodeSet).not.toBe(oldNodeSet);
+
+      const rate = newNodeSet.sourceNode!.playbackRate;
+      const [from, start] = (rate.setValueAtTime as jest.Mock).mock.calls[0];
+      expect(from).toBeCloseTo(toRate(220));
+      expect(start).toBe(0);
+      const [to, end] = (rate.exponentialRampToValueAtTime as jest.Mock).mock
+        .calls[0];
+      expect(to).toBeCloseTo(toRate(880));
+      expect(end).toBe(0.5);
+
+      const envelope = newNodeSet.ampEnvelopeNode!.gain;
+      expect(envelope.setValueAtTime).toHaveBeenCalledWith(0.8, 0.2);
+      expect(envelope.linearRampToValueAtTime).toHaveBeenCalledTimes(1);
+      expect(envelope.linearRampToValueAtTime).toHaveBeenCalledWith(0.5, 0.5);
+    });
+
+    it("disposes of the whole old chain after a crossfade", () => {
+      jest.useFakeTimers();
+      const createNode = () =>
+        ({
+          gain: {
+            value: 0,
+            setValueAtTime: jest.fn(),
+            linearRampToValueAtTime: jest.fn(),
+          },
+          pan: { value: 0 },
+          playbackRate: { value: 1, setValueAtTime: jest.fn() },
+          connect: jest.fn(),
+          disconnect: jest.fn(),
+          start: jest.fn(),
+          stop: jest.fn(),
+        }) as any;
+      mockAudioContext.createGain.mockImplementation(createNode);
+      mockAudioContext.createBufferSource.mockImplementation(createNode);
+      mockAudioContext.createStereoPanner.mockImplementation(createNode);
+      mockAudioContext.createAnalyser.mockImplementation(createNode);
+      const voice = audioNodes.voices[0];
+      voice.mixerGainNode = { connect: jest.fn() } as any;
+      const table = new Float32Array(64);
+
+      const oldNodeSet = audioNodes.createOscillatorChain(
+        mockAudioContext as any,
+        table,
+        220,
+        1
+      );
+      voice.oscillators[0] = oldNodeSet;
+      const ringConnection = { sourceIndex: 1, gainNode: createNode() };
+      voice.ringModNodes[0] = ringConnection as any;
+
+      audioNodes.crossfadeWaveform(0, 0, table, 880, 1, 10);
+      expect(oldNodeSet.pannerNode!.disconnect).not.toHaveBeenCalled();
+
+      jest.runAllTimers();
+      jest.useRealTimers();
+
+      [
+        oldNodeSet.sourceNode,
+        oldNodeSet.gainNode,
+        oldNodeSet.crossfadeGainNode,
+        oldNodeSet.dryGainNode,
+        oldNodeSet.ringModGainNode,
+        oldNodeSet.wetGainNode,
+        oldNodeSet.ampEnvelopeNode,
+        oldNodeSet.unisonMixNode,
+        oldNodeSet.pannerNode,
+        oldNodeSet.analyserNode,
+      ].forEach((node) => expect(node!.disconnect).toHaveBeenCalled());
+      expect(ringConnection.gainNode.disconnect).toHaveBeenCalledWith(
+        oldNodeSet.ringModGainNode!.gain
+      );
+      expect(
+        voice.oscillators[0].pannerNode!.disconnect
+      ).not.toHaveBeenCalled();
+    });
+
+    it("does not post tables to buffer oscillators", () => {
+      audioNodes.voices[1].oscillators[1].sourceNode = {} as any;
+
+      expect(audioNodes.postWaveformTable(1, new Float32Array(8))).toBe(false);
     });
 
     it("cleanup removes all nodes", () => {
@@ -492,18 +2851,18 @@ describe("useAudioEngineStore", () => {
         stop: jest.fn(),
         disconnect: jest.fn(),
       };
-      audioNodes.oscillators[0].sourceNode = mockOscillator as any;
-      audioNodes.mixerGainNode = {} as any;
+      audioNodes.voices[0].oscillators[0].sourceNode = mockOscillator as any;
+      audioNodes.voices[0].mixerGainNode = {} as any;
       audioNodes.masterGainNode = {} as any;
-      audioNodes.filterNodes = [{} as any];
+      audioNodes.voices[0].filterNodes = [{} as any];
 
       audioNodes.cleanup();
 
       expect(mockOscillator.stop).toHaveBeenCalled();
-      expect(audioNodes.oscillators[0].sourceNode).toBeNull();
-      expect(audioNodes.mixerGainNode).toBeNull();
+      expect(audioNodes.voices[0].oscillators[0].sourceNode).toBeNull();
+      expect(audioNodes.voices[0].mixerGainNode).toBeNull();
       expect(audioNodes.masterGainNode).toBeNull();
-      expect(audioNodes.filterNodes).toEqual([]);
+      expect(audioNodes.voices[0].filterNodes).toEqual([]);
     });
   });
 });
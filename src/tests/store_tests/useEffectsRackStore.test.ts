@@ -0,0 +1,307 @@
+/**
+ * Unit tests for the effects rack store
+ * Tests slot ordering, per-slot parameters, bypass and relinking the
+ * running audio graph around its effects
+ */
+
+import { act, renderHook } from "@testing-library/react";
+import { useEffectsRackStore } from "../../stores/useEffectsRackStore";
+import { audioNodes } from "../../stores/AudioEngine/audioEngineStore";
+import {
+  createEffectSlots,
+  DEFAULT_DELAY_SETTINGS,
+  DEFAULT_EFFECT_SLOTS,
+  MAX_DELAY_FEEDBACK,
+} from "../../stores/AudioEngine/helperFunctions";
+import { EffectFactory, EffectsRackNodeSet, EffectType } from "../../types";
+
+const createMockGain = () =>
+  ({
+    gain: {
+      value: 1,
+      setValueAtTime: jest.fn(),
+      linearRampToValueAtTime: jest.fn(),
+      cancelScheduledValues: jest.fn(),
+    },
+    connect: jest.fn(),
+    disconnect: jest.fn(),
+  }) as any;
+
+const mockAudioContext = {
+  currentTime: 0,
+  createGain: jest.fn(createMockGain),
+};
+
+/**
+ * Stand-in effects, except the crusher (as without worklets)
+ * Node lists are empty so cleanup can walk every effect type.
+ */
+const createMockEffect: EffectFactory = (slot) => {
+  if (slot.type === "crusher") return null;
+  const node = createMockGain();
+  return {
+    inputNode: node,
+    outputNode: node,
+    ...Object.fromEntries(
+      [
+        "delayNodes",
+        "filterNodes",
+        "feedbackGainNodes",
+        "depthGainNodes",
+        "stageNodes",
+      ].map((list) => [list, []])
+    ),
+  } as any;
+};
+
+const isConnected = (from: AudioNode, to: AudioNode) =>
+  (from.connect as jest.Mock).mock.calls.some(([node]) => node === to);
+
+/**
+ * Slot ids of a rack in the order its links wire them
+ */
+const getWiredOrder = (rack: EffectsRackNodeSet) => {
+  const order: string[] = [];
+  let from = "input";
+  let node: AudioNode = rack.inputNode;
+  while (order.length <= Object.keys(rack.slotNodes).length) {
+    const prefix = `${from}>`;
+    const key = Object.keys(rack.linkNodes).find((link) =>
+      link.startsWith(prefix)
+    );
+    if (!key) return null;
+    const linkNode = rack.linkNodes[key];
+    const to = key.split(">")[1];
+    const next =
+      to === "output" ? rack.outputNode : rack.slotNodes[to].inputNode;
+    if (!isConnected(node, linkNode) || !isConnected(linkNode, next)) {
+      return null;
+    }
+    if (to === "output") return order;
+    order.push(to);
+    from = to;
+    node = rack.slotNodes[to].outputNode;
+  }
+  return null;
+};
+
+const getSlotTypes = () =>
+  useEffectsRackStore.getState().slots.map((slot) => slot.type);
+
+describe("useEffectsRackStore", () => {
+  beforeEach(() => {
+    useEffectsRackStore.setState({
+      slots: createEffectSlots(DEFAULT_EFFECT_SLOTS),
+      shaperErrors: {},
+    });
+    mockAudioContext.createGain.mockImplementation(createMockGain);
+    audioNodes.audioContext = mockAudioContext as any;
+  });
+
+  afterEach(() => {
+    audioNodes.cleanup();
+    audioNodes.audioContext = null;
+    jest.useRealTimers();
+  });
+
+  describe("Slots", () => {
+    it("moves a slot and shifts the ones between", () => {
+      const { result } = renderHook(() => useEffectsRackStore());
+
+      act(() => {
+        result.current.moveSlot(6, 1);
+      });
+
+      expect(getSlotTypes()).toEqual([
+        "crusher",
+        "reverb",
+        "shaper",
+        "chorus",
+        "flanger",
+        "phaser",
+        "delay",
+      ]);
+    });
+
+    it("loads slots with fresh ids, keeping repeated effects", () => {
+      const slots = createEffectSlots([
+        { type: "delay", bypass: true, params: { feedback: 2 } },
+        { type: "unknown" as EffectType },
+        { type: "delay", params: { mix: 0.5 } },
+      ]);
+
+      expect(slots.map((slot) => slot.type)).toEqual(["delay", "delay"]);
+      expect(slots[0].id).not.toBe(slots[1].id);
+      expect(slots[0].bypass).toBe(true);
+      expect(slots[1].bypass).toBe(false);
+      expect(slots[0].params).toEqual({
+        ...DEFAULT_DELAY_SETTINGS,
+        feedback: MAX_DELAY_FEEDBACK,
+      });
+      expect(slots[1].params).toEqual({ ...DEFAULT_DELAY_SETTINGS, mix: 0.5 });
+    });
+
+    it("adds and removes slots", () => {
+      const { result } = renderHook(() => useEffectsRackStore());
+
+      act(() => {
+        result.current.addSlot("delay");
+      });
+      const added = result.current.slots[7];
+      expect(added.type).toBe("delay");
+      expect(added.params).toEqual(DEFAULT_DELAY_SETTINGS);
+
+      act(() => {
+        result.current.removeSlot(result.current.slots[0].id);
+      });
+      expect(getSlotTypes()).toEqual([
+        "shaper",
+        "chorus",
+        "flanger",
+        "phaser",
+        "delay",
+        "reverb",
+        "delay",
+      ]);
+      expect(result.current.slots[6]).toBe(added);
+    });
+
+    it("keeps the parameters of each slot apart", () => {
+      const { result } = renderHook(() => useEffectsRackStore());
+
+      act(() => {
+        result.current.addSlot("delay");
+      });
+      const [first, second] = result.current.slots.filter(
+        (slot) => slot.type === "delay"
+      );
+      act(() => {
+        result.current.updateSlotParams(second.id, { mix: 0.5, time: 250 });
+      });
+
+      const delays = result.current.slots.filter(
+        (slot) => slot.type === "delay"
+      );
+      expect(delays[0].params).toBe(first.params);
+      expect(delays[1].params).toEqual({
+        ...DEFAULT_DELAY_SETTINGS,
+        mix: 0.5,
+        time: 250,
+      });
+    });
+  });
+
+  describe("Audio graph", () => {
+    it("chains the slots in order and passes empty slots through", () => {
+      const slots = createEffectSlots([
+        { type: "crusher" },
+        { type: "shaper" },
+        { type: "reverb", bypass: true },
+      ]);
+      const rack = audioNodes.createEffectsRack(slots, createMockEffect)!;
+      const [crusher, shaper, reverb] = slots.map(
+        (slot) => rack.slotNodes[slot.id]
+      );
+
+      expect(getWiredOrder(rack)).toEqual(slots.map((slot) => slot.id));
+      expect(rack.dryGainNode.gain.value).toBe(0);
+      expect(crusher.effectGainNode).toBeNull();
+      expect(crusher.bypassGainNode.gain.value).toBe(1);
+      expect(shaper.effectGainNode!.gain.value).toBe(1);
+      expect(shaper.bypassGainNode.gain.value).toBe(0);
+      expect(reverb.effectGainNode!.gain.value).toBe(0);
+      expect(reverb.bypassGainNode.gain.value).toBe(1);
+    });
+
+    it("drives the first slot of an effect from the modulation matrix", () => {
+      const slots = createEffectSlots([
+        { type: "reverb" },
+        { type: "delay" },
+        { type: "delay" },
+      ]);
+      audioNodes.createEffectsRack(slots, createMockEffect);
+
+      expect(audioNodes.findEffectSlot("delay")).toBe(slots[1].id);
+      expect(audioNodes.findEffectSlot("chorus")).toBeNull();
+    });
+
+    it("crossfades a slot to its bypass path", () => {
+      const { result } = renderHook(() => useEffectsRackStore());
+      const rack = audioNodes.createEffectsRack(
+        result.current.slots,
+        createMockEffect
+      )!;
+      const { id } = result.current.slots[5];
+
+      act(() => {
+        result.current.setSlotBypass(id, true);
+      });
+
+      expect(result.current.slots[5].bypass).toBe(true);
+      const slot = rack.slotNodes[id];
+      expect(
+        slot.effectGainNode!.gain.linearRampToValueAtTime
+      ).toHaveBeenCalledWith(0, expect.any(Number));
+      expect(
+        slot.bypassGainNode.gain.linearRampToValueAtTime
+      ).toHaveBeenCalledWith(1, expect.any(Number));
+    });
+
+    it("relinks kept slots around their running effects", () => {
+      jest.useFakeTimers();
+      const { slots } = useEffectsRackStore.getState();
+      const rack = audioNodes.createEffectsRack(slots, createMockEffect)!;
+      const [first, removed, ...rest] = slots.map(
+        (slot) => rack.slotNodes[slot.id]
+      );
+      const kept = [first, ...rest];
+      const oldLinks = { ...rack.linkNodes };
+      const [added] = createEffectSlots([{ type: "delay" }]);
+      const changed = [...slots.slice(2), added, slots[0]];
+      const createEffect = jest.fn(createMockEffect);
+
+      audioNodes.setEffectSlots(changed, createEffect);
+
+      expect(createEffect).toHaveBeenCalledTimes(1);
+      expect(createEffect).toHaveBeenCalledWith(added);
+      [slots[0], ...slots.slice(2)].forEach((slot, index) => {
+        expect(rack.slotNodes[slot.id]).toBe(kept[index]);
+      });
+      expect(
+        oldLinks[`${slots[0].id}>${slots[1].id}`].gain.linearRampToValueAtTime
+      ).toHaveBeenLastCalledWith(0, expect.any(Number));
+      expect(
+        oldLinks[`${slots[2].id}>${slots[3].id}`].gain.linearRampToValueAtTime
+      ).not.toHaveBeenCalled();
+      expect(
+        rack.dryGainNode.gain.linearRampToValueAtTime
+      ).toHaveBeenLastCalledWith(1, expect.any(Number));
+      expect(
+        rack.outputNode.gain.linearRampToValueAtTime
+      ).not.toHaveBeenCalled();
+      expect(removed.inputNode.disconnect).not.toHaveBeenCalled();
+
+      jest.runAllTimers();
+
+      expect(getWiredOrder(rack)).toEqual(changed.map((slot) => slot.id));
+      expect(rack.slotNodes[slots[1].id]).toBeUndefined();
+      expect(removed.inputNode.disconnect).toHaveBeenCalled();
+      expect(removed.effect!.inputNode.disconnect).toHaveBeenCalled();
+      const staleLink = oldLinks[`input>${slots[0].id}`];
+      expect(rack.inputNode.disconnect).toHaveBeenCalledWith(staleLink);
+      expect(staleLink.disconnect).toHaveBeenCalled();
+      const newLink = rack.linkNodes[`${added.id}>${slots[0].id}`];
+      expect(newLink.gain.value).toBe(0);
+      expect(newLink.gain.linearRampToValueAtTime).toHaveBeenLastCalledWith(
+        1,
+        expect.any(Number)
+      );
+      expect(
+        rack.dryGainNode.gain.linearRampToValueAtTime
+      ).toHaveBeenLastCalledWith(0, expect.any(Number));
+      kept.forEach((slot) => {
+        expect(slot.inputNode.disconnect).not.toHaveBeenCalled();
+      });
+    });
+  });
+});
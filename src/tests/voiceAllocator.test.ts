@@ -0,0 +1,132 @@
+import {
+  allocateVoice,
+  createIdleVoice,
+  findHeldVoice,
+  getNewestVoiceIndex,
+  resizeVoiceStates,
+  selectPriorityNote,
+  MAX_VOICE_COUNT,
+} from "../stores/AudioEngine/voiceAllocator";
+import { VoiceState } from "../types";
+
+const heldVoice = (key: string, startTime: number): VoiceState => ({
+  key,
+  frequency: 440,
+  isHeld: true,
+  startTime,
+  releaseTime: null,
+});
+
+const releasedVoice = (
+  key: string,
+  startTime: number,
+  releaseTime: number
+): VoiceState => ({
+  key,
+  frequency: 440,
+  isHeld: false,
+  startTime,
+  releaseTime,
+});
+
+const noLevel = () => 0;
+
+describe("voiceAllocator", () => {
+  describe("resizeVoiceStates", () => {
+    it("pads with idle voices", () => {
+      const voices = resizeVoiceStates([heldVoice("a", 1)], 3);
+      expect(voices).toHaveLength(3);
+      expect(voices[0].key).toBe("a");
+      expect(voices[2]).toEqual(createIdleVoice());
+    });
+
+    it("clamps to the supported range", () => {
+      expect(resizeVoiceStates([], 0)).toHaveLength(1);
+      expect(resizeVoiceStates([], 100)).toHaveLength(MAX_VOICE_COUNT);
+    });
+  });
+
+  describe("allocateVoice", () => {
+    it("reuses the voice already playing the same key", () => {
+      const voices = [heldVoice("a", 1), heldVoice("s", 2)];
+      expect(allocateVoice(voices, "s", "oldest", noLevel)).toEqual({
+        voiceIndex: 1,
+        stolen: false,
+      });
+    });
+
+    it("prefers unused voices", () => {
+      const voices = [heldVoice("a", 1), createIdleVoice()];
+      expect(allocateVoice(voices, "s", "oldest", noLevel)).toEqual({
+        voiceIndex: 1,
+        stolen: false,
+      });
+    });
+
+    it("prefers released voices over held ones", () => {
+      const voices = [heldVoice("a", 1), releasedVoice("s", 0, 2)];
+      expect(allocateVoice(voices, "d", "oldest", noLevel)).toEqual({
+        voiceIndex: 1,
+        stolen: false,
+      });
+    });
+
+    it("picks the earliest released voice in oldest mode", () => {
+      const voices = [releasedVoice("a", 0, 5), releasedVoice("s", 1, 3)];
+      expect(allocateVoice(voices, "d", "oldest", noLevel).voiceIndex).toBe(1);
+    });
+
+    it("steals the oldest held voice", () => {
+      const voices = [heldVoice("a", 3), heldVoice("s", 1), heldVoice("d", 2)];
+      expect(allocateVoice(voices, "f", "oldest", noLevel)).toEqual({
+        voiceIndex: 1,
+        stolen: true,
+      });
+    });
+
+    it("steals the quietest held voice", () => {
+      const voices = [heldVoice("a", 1), heldVoice("s", 2), heldVoice("d", 3)];
+      const levels = [0.9, 0.8, 0.2];
+      const result = allocateVoice(voices, "f", "quietest", (i) => levels[i]);
+      expect(result).toEqual({ voiceIndex: 2, stolen: true });
+    });
+  });
+
+  describe("findHeldVoice", () => {
+    it("ignores released voices", () => {
+      const voices = [releasedVoice("a", 0, 1), heldVoice("s", 2)];
+      expect(findHeldVoice(voices, "a")).toBe(-1);
+      expect(findHeldVoice(voices, "s")).toBe(1);
+    });
+  });
+
+  describe("getNewestVoiceIndex", () => {
+    it("returns the most recently started voice", () => {
+      const voices = [
+        heldVoice("a", 1),
+        releasedVoice("s", 4, 5),
+        heldVoice("d", 3),
+      ];
+      expect(getNewestVoiceIndex(voices)).toBe(1);
+    });
+  });
+
+  describe("selectPriorityNote", () => {
+    const noteStack = [
+      { key: "d", frequency: 330 },
+      { key: "a", frequency: 220 },
+      { key: "g", frequency: 440 },
+      { key: "s", frequency: 247 },
+    ];
+
+    it("picks the note for each priority", () => {
+      expect(selectPriorityNote(noteStack, "last")?.key).toBe("s");
+      expect(selectPriorityNote(noteStack, "low")?.key).toBe("a");
+      expect(selectPriorityNote(noteStack, "high")?.key).toBe("g");
+    });
+
+    it("returns undefined for an empty stack", () => {
+      expect(selectPriorityNote([], "high")).toBeUndefined();
+    });
+  });
+});
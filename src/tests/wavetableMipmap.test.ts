@@ -0,0 +1,102 @@
+import {
+  buildWavetableMipmap,
+  getMipmapHarmonicLimit,
+  getMipmapLevel,
+  getMipmapPosition,
+  MIPMAP_BASE_FREQUENCY,
+} from "../utils/wavetableMipmap";
+import { extractHarmonics } from "../utils/fourierAnalysis";
+
+const SAMPLE_RATE = 48000;
+const N = 2048;
+
+// Sawtooth built from 200 harmonics (more than any band-limited level keeps)
+const createSawtooth = () => {
+  const waveform = new Float32Array(N);
+  for (let i = 0; i < N; i++) {
+    for (let k = 1; k <= 200; k++) {
+      waveform[i] += Math.sin((2 * Math.PI * k * i) / N) / k;
+    }
+  }
+  return waveform;
+};
+
+describe("wavetableMipmap", () => {
+  describe("getMipmapHarmonicLimit", () => {
+    it("keeps every harmonic of the octave's top note below Nyquist", () => {
+      // Level 5 covers 640-1280 Hz: 24000 / 1280 = 18.75
+      expect(getMipmapHarmonicLimit(5, SAMPLE_RATE)).toBe(18);
+    });
+
+    it("always keeps the fundamental", () => {
+      expect(getMipmapHarmonicLimit(20, SAMPLE_RATE)).toBe(1);
+    });
+  });
+
+  describe("buildWavetableMipmap", () => {
+    const sawtooth = createSawtooth();
+    const mipmap = buildWavetableMipmap(sawtooth, SAMPLE_RATE);
+
+    it("covers the audible range one octave per level", () => {
+      // 20 Hz * 2^11 reaches past Nyquist
+      expect(mipmap.tables).toHaveLength(11);
+      expect(mipmap.baseFrequency).toBe(MIPMAP_BASE_FREQUENCY);
+    });
+
+    it("band-limits the lowest octave too", () => {
+      // Level 0 covers 20-40 Hz: 24000 / 40 = 600 harmonics
+      const waveform = new Float32Array(N);
+      for (let i = 0; i < N; i++) {
+        waveform[i] =
+          Math.sin((2 * Math.PI * i) / N) +
+          0.5 * Math.sin((2 * Math.PI * 800 * i) / N);
+      }
+      const level0 = buildWavetableMipmap(waveform, SAMPLE_RATE).tables[0];
+      const harmonics = extractHarmonics(level0, 800);
+
+      expect(harmonics[0].amplitude).toBeCloseTo(1, 3);
+      expect(harmonics[799].amplitude).toBeLessThan(1e-3);
+    });
+
+    it("keeps the harmonics each level has room for", () => {
+      const harmonics = extractHarmonics(mipmap.tables[0], 200);
+      expect(harmonics[199].amplitude).toBeCloseTo(1 / 200, 3);
+    });
+
+    it("truncates harmonics above Nyquist for higher octaves", () => {
+      const level = 5;
+      const limit = getMipmapHarmonicLimit(level, SAMPLE_RATE);
+      const harmonics = extractHarmonics(mipmap.tables[level], limit + 4);
+
+      expect(harmonics[0].amplitude).toBeCloseTo(1, 2);
+      expect(harmonics[limit - 1].amplitude).toBeCloseTo(1 / limit, 2);
+      expect(harmonics[limit].amplitude).toBeLessThan(1e-3);
+      expect(harmonics[limit + 3].amplitude).toBeLessThan(1e-3);
+    });
+
+    it("keeps the DC offset", () => {
+      const offset = new Float32Array(N).fill(0.25);
+      const levels = buildWavetableMipmap(offset, SAMPLE_RATE).tables;
+      expect(levels[levels.length - 1][100]).toBeCloseTo(0.25, 5);
+    });
+  });
+
+  describe("getMipmapLevel", () => {
+    const mipmap = buildWavetableMipmap(new Float32Array(N), SAMPLE_RATE);
+
+    it("picks the octave containing the frequency", () => {
+      expect(getMipmapLevel(mipmap, 10)).toBe(0);
+      expect(getMipmapLevel(mipmap, 39)).toBe(0);
+      expect(getMipmapLevel(mipmap, 40)).toBe(1);
+      expect(getMipmapLevel(mipmap, 1000)).toBe(5);
+    });
+
+    it("clamps to the last level", () => {
+      expect(getMipmapLevel(mipmap, 100000)).toBe(10);
+    });
+
+    it("reports the fraction through the octave", () => {
+      expect(getMipmapPosition(mipmap, 20 * Math.SQRT2)).toBeCloseTo(0.5);
+    });
+  });
+});
@@ -1,13 +1,551 @@
+import { EffectSlot, EffectType } from "./effectsRackTypes";
+import { VariableConfig } from "./equationBuilderTypes";
+
 /**
  * Represents a single oscillator's audio nodes
  */
 export interface OscillatorNodeSet {
   sourceNode: AudioBufferSourceNode | null;
+  workletNode: AudioWorkletNode | null; // Phase-accumulator oscillator (used instead of sourceNode)
   gainNode: GainNode | null;
   waveformBuffer: AudioBuffer | null;
   ampEnvelopeNode: GainNode | null;
   crossfadeGainNode: GainNode | null; // For smooth waveform transitions
+  dryGainNode: GainNode | null; // Unmodulated path around the ring modulator
+  ringModGainNode: GainNode | null; // Gain driven by another oscillator (RM/AM)
+  wetGainNode: GainNode | null; // Ring modulated path level
+  pannerNode: StereoPannerNode | null; // Places the envelope output in the stereo field
+  unisonMixNode: GainNode | null; // Sums the main source and its unison copies
+  unisonCopies: UnisonCopyNodes[]; // Stacked copies besides the main source
+  unison: UnisonSettings; // Settings the copies were built with
   analyserNode: AnalyserNode | null; // For reading oscillator output as modulation source
+  wavetable: Float32Array | null; // Full-band table the mipmap levels are built from
+  mipmapLevel: number | null; // Band-limited level loaded into a buffer source
+  filterAssignment: OscillatorFilterAssignment; // Filter input(s) the envelope output feeds
+  frequencyRamp: FrequencyRamp | null; // Last pitch change, replayed on a crossfaded chain
+  ampEnvelopeOps: EnvelopeOperation[]; // Last amp envelope schedule, replayed likewise
+}
+
+/**
+ * Unison (stacked copies) settings of one oscillator
+ */
+export interface UnisonSettings {
+  voices: number; // 1-16 copies, including the main source (1 = off)
+  detune: number; // Spread between the outermost copies (cents)
+  width: number; // Stereo spread of the copies (0-1)
+  randomPhase: boolean; // Start each copy at a random point of the cycle
+}
+
+/**
+ * One unison copy of an oscillator
+ * The main source stays at the oscillator's pitch and center (it is the one
+ * that modulates other oscillators); copies are spread around it and are
+ * modulated, synced and fed back like the main source.
+ */
+export interface UnisonCopyNodes {
+  source: AudioBufferSourceNode | AudioWorkletNode;
+  pannerNode: StereoPannerNode;
+  offset: number; // Position in the stack (-1 to 1), scales detune and width
+}
+
+/**
+ * Spectrum of the noise source
+ * - white: flat
+ * - pink: -3 dB/octave (equal energy per octave)
+ * - brown: -6 dB/octave (integrated white noise)
+ */
+export type NoiseColor = "white" | "pink" | "brown";
+
+/**
+ * Noise source settings (one mixer channel shared by all voices)
+ */
+export interface NoiseSettings {
+  color: NoiseColor;
+  level: number; // 0-1 (0 = silent)
+  pan: number; // -1 (left) to 1 (right)
+  filter: OscillatorFilterAssignment; // Filter input(s) the noise feeds
+}
+
+/**
+ * One voice's noise chain: looped noise buffer -> level -> envelope -> panner
+ */
+export interface NoiseNodeSet {
+  sourceNode: AudioBufferSourceNode | null;
+  gainNode: GainNode | null; // Noise level
+  ampEnvelopeNode: GainNode | null; // Follows the voice's amp envelope
+  pannerNode: StereoPannerNode | null;
+}
+
+/**
+ * Waveform of the sub-oscillator ("osc1" plays oscillator 1's own table)
+ */
+export type SubOscWaveform = "sine" | "square" | "osc1";
+
+/**
+ * Sub-oscillator settings
+ * The sub plays one or two octaves below oscillator 1, detune included.
+ */
+export interface SubOscSettings {
+  waveform: SubOscWaveform;
+  octave: 1 | 2; // Octaves below oscillator 1
+  level: number; // 0-1 (0 = silent)
+}
+
+/**
+ * One voice's sub-oscillator chain: looped table -> level -> envelope
+ * The envelope output feeds the same filter input(s) as oscillator 1.
+ */
+export interface SubOscNodeSet {
+  sourceNode: AudioBufferSourceNode | null;
+  gainNode: GainNode | null; // Sub level
+  ampEnvelopeNode: GainNode | null; // Follows the voice's amp envelope
+  wavetable: Float32Array | null; // Table the source plays
+  mipmapLevel: number | null; // Band-limited level loaded into the source
+  octave: number; // Octaves below oscillator 1
+}
+
+/**
+ * Modulated-delay effects
+ * - chorus: long swept delay that thickens the sound
+ * - flanger: short swept delay with feedback (comb sweep)
+ * - phaser: swept all-pass chain (notch sweep)
+ */
+export type ModEffectType = "chorus" | "flanger" | "phaser";
+
+/**
+ * Settings of one modulation effect
+ */
+export interface ModEffectSettings {
+  rate: number; // Internal LFO rate (Hz)
+  depth: number; // 0-1 share of the effect's sweep range
+  feedback: number; // 0-0.9
+  mix: number; // 0 (dry) to 1 (wet)
+  lfoSync: number | null; // Synth LFO driving the sweep instead of the internal one
+}
+
+/**
+ * One modulation effect: input -> dry/wet -> output
+ * Each side runs through its own stages (a delay line, or a short delay and
+ * an all-pass chain for the phaser) with feedback from the last stage to the
+ * first. The LFO sweeps both sides in opposite directions.
+ */
+export interface ModEffectNodeSet {
+  type: ModEffectType; // Sets the sweep range
+  inputNode: GainNode;
+  outputNode: GainNode;
+  dryGainNode: GainNode;
+  wetGainNode: GainNode;
+  splitterNode: ChannelSplitterNode;
+  mergerNode: ChannelMergerNode;
+  lfoNode: OscillatorNode; // Internal LFO
+  lfoSource: AudioNode; // Node currently driving the sweep
+  lfoSync: number | null; // Synth LFO index when lfoSource is a synth LFO
+  depthGainNodes: GainNode[]; // LFO -> swept params, [left, right]
+  stageNodes: (DelayNode | BiquadFilterNode)[][]; // [left, right]
+  feedbackGainNodes: GainNode[]; // [left, right]
+}
+
+/**
+ * Tempo-synced delay time as a note length ("d" dotted, "t" triplet)
+ */
+export type DelayDivision =
+  | "1/2"
+  | "1/4"
+  | "1/4d"
+  | "1/4t"
+  | "1/8"
+  | "1/8d"
+  | "1/8t"
+  | "1/16";
+
+/**
+ * Master delay settings
+ */
+export interface DelaySettings {
+  time: number; // Delay time when not synced (ms)
+  sync: boolean; // Take the time from the tempo and division instead
+  division: DelayDivision;
+  feedback: number; // 0-0.95
+  filterCutoff: number; // Low-pass in the feedback path (Hz)
+  mix: number; // 0 (dry) to 1 (wet)
+  pingPong: boolean; // Echoes alternate between left and right
+}
+
+/**
+ * Master delay: input -> dry/wet -> output, one delay line per side
+ * Each line feeds back through its filter and feedback gain, into itself
+ * (stereo) or into the other side (ping-pong).
+ */
+export interface DelayNodeSet {
+  inputNode: GainNode;
+  outputNode: GainNode;
+  dryGainNode: GainNode;
+  wetGainNode: GainNode;
+  splitterNode: ChannelSplitterNode;
+  mergerNode: ChannelMergerNode;
+  delayNodes: DelayNode[]; // [left, right]
+  filterNodes: BiquadFilterNode[]; // Feedback low-pass, [left, right]
+  feedbackGainNodes: GainNode[]; // [left, right]
+}
+
+/**
+ * Node set of each effect the rack hosts
+ */
+export interface EffectNodeSets {
+  crusher: CrusherNodeSet;
+  shaper: ShaperNodeSet;
+  chorus: ModEffectNodeSet;
+  flanger: ModEffectNodeSet;
+  phaser: ModEffectNodeSet;
+  delay: DelayNodeSet;
+  reverb: ReverbNodeSet;
+}
+
+/**
+ * One effects rack slot: input -> effect and bypass paths -> output
+ * Bypassing crossfades between the two paths, so it doesn't click.
+ */
+export type EffectSlotNodeSet<T extends EffectType = EffectType> = {
+  [K in T]: {
+    type: K;
+    inputNode: GainNode;
+    outputNode: GainNode;
+    effect: EffectNodeSets[K] | null; // Null when it couldn't be built
+    effectGainNode: GainNode | null; // After the effect
+    bypassGainNode: GainNode; // Around the effect
+  };
+}[T];
+
+/**
+ * Builds the effect of a rack slot from its parameters
+ */
+export type EffectFactory = (
+  slot: EffectSlot
+) => EffectNodeSets[EffectType] | null;
+
+/**
+ * Effects rack: input -> slots in order -> output
+ * Neighbouring slots are joined by link gains, so changing the slots only
+ * relinks them around their running effects. The dry gain carries the
+ * signal past the slots while they're relinked.
+ */
+export interface EffectsRackNodeSet {
+  inputNode: GainNode;
+  outputNode: GainNode;
+  dryGainNode: GainNode; // Input -> output, up only while relinking
+  slotNodes: Record<string, EffectSlotNodeSet>; // By slot id (and removed slots until unlinked)
+  order: string[]; // Slot ids in signal order
+  linkNodes: Record<string, GainNode>; // By "from>to" ("input"/"output" for the rack's ends)
+}
+
+/**
+ * Filter shape of a master EQ band
+ */
+export type EQBandType = "lowshelf" | "peaking" | "highshelf";
+
+/**
+ * One band of the master EQ
+ */
+export interface EQBand {
+  type: EQBandType;
+  frequency: number; // Center or corner frequency (Hz)
+  gain: number; // Boost or cut (dB)
+  Q: number; // Bandwidth of peaking bands (BiquadFilterNode shelves ignore it)
+}
+
+/**
+ * Master EQ: one BiquadFilterNode per band in series
+ */
+export interface EQNodeSet {
+  inputNode: BiquadFilterNode; // First band
+  outputNode: BiquadFilterNode; // Last band
+  filterNodes: BiquadFilterNode[];
+}
+
+/**
+ * Master bus dynamics settings
+ * The compressor evens out the level; the limiter then stops the output
+ * from going over its ceiling.
+ */
+export interface DynamicsSettings {
+  compressorEnabled: boolean;
+  threshold: number; // Compressor threshold (dB)
+  ratio: number; // Compressor ratio (1-20)
+  attack: number; // Compressor attack (ms)
+  release: number; // Compressor release (ms)
+  makeup: number; // Gain after the compressor (dB)
+  limiterEnabled: boolean;
+  ceiling: number; // Limiter ceiling (dBFS)
+}
+
+/**
+ * Master dynamics: compressor -> makeup gain -> limiter -> output
+ * The output also feeds one analyser per channel for the meters.
+ */
+export interface DynamicsNodeSet {
+  inputNode: DynamicsCompressorNode; // The compressor
+  outputNode: GainNode;
+  makeupGainNode: GainNode;
+  limiterNode: AudioWorkletNode | DynamicsCompressorNode; // Compressor stand-in without worklets
+  splitterNode: ChannelSplitterNode;
+  analyserNodes: AnalyserNode[]; // [left, right]
+}
+
+/**
+ * Master output levels read by the meters
+ */
+export interface DynamicsMeter {
+  peak: number; // Highest sample level of the last analyser frame (linear)
+  reduction: number; // Compressor plus limiter gain reduction (dB, <= 0)
+}
+
+/**
+ * Bit crusher / sample-rate reducer settings
+ */
+export interface CrusherSettings {
+  bits: number; // Bit depth (1-16, fractional values sweep smoothly)
+  rate: number; // Target sample rate (Hz)
+  mix: number; // 0 (dry) to 1 (wet)
+}
+
+/**
+ * Master bit crusher
+ * The worklet mixes dry and wet itself, so input and output are the same node.
+ */
+export interface CrusherNodeSet {
+  inputNode: AudioWorkletNode;
+  outputNode: AudioWorkletNode;
+}
+
+/**
+ * Equation-defined waveshaping distortion settings
+ * The transfer curve is y = f(x) over inputs x from -1 to 1.
+ */
+export interface ShaperSettings {
+  expression: string; // Transfer function of x, e.g. "tanh(k*x)"
+  variables: Record<string, VariableConfig>; // Auto-detected from the expression
+  mix: number; // 0 (dry) to 1 (wet)
+}
+
+/**
+ * Master waveshaper: input -> dry/wet (through the shaper) -> output
+ */
+export interface ShaperNodeSet {
+  inputNode: GainNode;
+  outputNode: GainNode;
+  dryGainNode: GainNode;
+  wetGainNode: GainNode;
+  shaperNode: WaveShaperNode;
+}
+
+/**
+ * Master reverb settings
+ * The impulse response is generated from these, so no samples are needed.
+ */
+export interface ReverbSettings {
+  size: number; // Length of the tail (s)
+  decay: number; // Steepness of the fade over the tail (1-10)
+  preDelay: number; // Silence before the tail (ms)
+  damping: number; // 0-1, how quickly the tail loses its high frequencies
+  mix: number; // 0 (dry) to 1 (wet)
+}
+
+/**
+ * Master reverb: input -> dry/wet (through the convolver) -> output
+ */
+export interface ReverbNodeSet {
+  inputNode: GainNode;
+  outputNode: GainNode;
+  dryGainNode: GainNode;
+  wetGainNode: GainNode;
+  convolverNode: ConvolverNode;
+}
+
+/**
+ * Audio-rate modulation mode of a carrier oscillator
+ * - pm: modulator drives the carrier's phase (index in radians)
+ * - fm: modulator drives the carrier's frequency (deviation = index x modulator frequency)
+ */
+export type FMMode = "pm" | "fm";
+
+/**
+ * Nodes carrying one modulator -> carrier connection of the FM matrix
+ */
+export interface FMConnectionNodes {
+  gainNode: GainNode; // Modulation depth
+  delayNode: DelayNode | null; // Present on backward connections so matrix cycles stay legal
+  mode: FMMode;
+}
+
+/**
+ * Ring/amplitude modulation mode of an oscillator
+ * - rm: output multiplied by the source oscillator (bipolar)
+ * - am: output multiplied by the source oscillator shifted to 0-1 (unipolar)
+ */
+export type RingModMode = "off" | "rm" | "am";
+
+/**
+ * Ring/amplitude modulation settings of an oscillator
+ */
+export interface RingModState {
+  mode: RingModMode;
+  sourceIndex: number; // Modulating oscillator (0-3)
+  mix: number; // Dry/wet (0 = dry, 1 = fully modulated)
+}
+
+/**
+ * Node carrying a source oscillator into a carrier's ring modulator
+ */
+export interface RingModConnectionNodes {
+  gainNode: GainNode; // Scales the source signal (1 for RM, 0.5 for AM)
+  sourceIndex: number;
+}
+
+/**
+ * Filter mode of the per-voice filter block
+ * Biquad modes reconfigure the 8-stage cascade; comb uses a feedback delay
+ */
+export type FilterType =
+  | "lowpass"
+  | "highpass"
+  | "bandpass"
+  | "notch"
+  | "peak"
+  | "comb";
+
+/**
+ * Low-pass/high-pass roll-off in dB per octave
+ * 12/24/48 use 1/2/4 biquad stages; 6 blends a bandpass into a single stage
+ */
+export type FilterSlope = 6 | 12 | 24 | 48;
+
+/**
+ * One of the two per-voice filter blocks
+ */
+export type FilterBlock = "a" | "b";
+
+/**
+ * How the two filter blocks are connected
+ * - serial: filter A feeds filter B
+ * - parallel: both filters hear filter A's input; outputs are summed
+ * - split: each filter only hears its own oscillators; outputs are summed
+ */
+export type FilterRouting = "serial" | "parallel" | "split";
+
+/**
+ * Filter input(s) an oscillator feeds
+ * Oscillators on "b" enter after filter A in serial routing; "bypass" skips
+ * both filters.
+ */
+export type OscillatorFilterAssignment = "a" | "b" | "both" | "bypass";
+
+/**
+ * Settings of the second filter block (filter A uses the top-level fields)
+ */
+export interface FilterBState {
+  cutoffFrequency: number;
+  resonance: number;
+  filterType: FilterType;
+  filterSlope: FilterSlope;
+  envelopeAmount: number; // 0-100 range for filter envelope depth
+}
+
+/**
+ * Shape of the glide (portamento) between notes
+ * - linear: constant rate in semitones per second
+ * - exponential: fast at first, then settles into the new pitch
+ */
+export type GlideCurve = "linear" | "exponential";
+
+/**
+ * When a note glides from the previous one
+ * - always: every note after the first
+ * - legato: only notes played while another key is still held
+ */
+export type GlideMode = "always" | "legato";
+
+/**
+ * Portamento settings
+ */
+export interface GlideSettings {
+  enabled: boolean;
+  time: number; // ms
+  curve: GlideCurve;
+  mode: GlideMode;
+}
+
+/**
+ * Transfer curve of the drive (saturation) stage
+ * - soft: linear up to a knee, then tanh saturation
+ * - hard: clips at full scale
+ * - fold: reflects back from full scale (wavefolder)
+ */
+export type DriveCurveType = "soft" | "hard" | "fold";
+
+/**
+ * Hard sync connection from a master oscillator to a slave
+ */
+export interface SyncConnectionNodes {
+  masterIndex: number;
+  delayNode: DelayNode | null; // Only for backward connections (master > slave)
+}
+
+/**
+ * Represents a single polyphonic voice's audio nodes
+ * Every voice owns a full copy of the oscillator chains and filter cascade
+ */
+export interface VoiceNodeSet {
+  oscillators: OscillatorNodeSet[]; // One chain per oscillator slot
+  mixerGainNode: GainNode | null; // Sums this voice's oscillators
+  driveInputGain: GainNode | null; // Drive amount into the shaper
+  driveNode: WaveShaperNode | null; // Saturation between mixer and filter
+  driveOutputGain: GainNode | null; // Level compensation after the shaper
+  filterNodes: BiquadFilterNode[]; // Per-voice filter cascade
+  filterBlendNode: BiquadFilterNode | null; // Bandpass in parallel with the first stage (6 dB slope)
+  filterBlendGain: GainNode | null; // Level of the blended bandpass
+  combNode: AudioWorkletNode | null; // Feedback comb after the cascade (comb mode)
+  fmNodes: (FMConnectionNodes | null)[][]; // [modulator][carrier] FM matrix connections
+  ringModNodes: (RingModConnectionNodes | null)[]; // Per carrier oscillator
+  syncNodes: (SyncConnectionNodes | null)[]; // Per slave oscillator
+  filterBInputGain: GainNode | null; // Input bus of filter B
+  filterBNodes: BiquadFilterNode[]; // Filter B cascade
+  filterBBlendNode: BiquadFilterNode | null;
+  filterBBlendGain: GainNode | null;
+  filterBCombNode: AudioWorkletNode | null;
+  bypassGainNode: GainNode | null; // Oscillators that skip both filters
+  noise: NoiseNodeSet;
+  subOsc: SubOscNodeSet;
+}
+
+/**
+ * Voice stealing strategy used when every voice is busy
+ */
+export type VoiceStealMode = "oldest" | "quietest";
+
+/**
+ * Which held note sounds in mono mode
+ * - last: the most recently pressed key
+ * - low / high: the lowest / highest held key
+ */
+export type NotePriority = "last" | "low" | "high";
+
+/**
+ * Key held on the keyboard (entry of the mono note stack)
+ */
+export interface HeldNote {
+  key: string;
+  frequency: number;
+}
+
+/**
+ * Allocation state of a single voice
+ */
+export interface VoiceState {
+  key: string | null; // Keyboard key assigned to this voice (null = never used)
+  frequency: number; // Note frequency before per-oscillator detune
+  isHeld: boolean;
+  startTime: number; // AudioContext time of the last note on
+  releaseTime: number | null; // AudioContext time of the last note off
 }
 
 /**
@@ -19,13 +557,22 @@ export interface LFONodeSet {
   analyser: AnalyserNode | null;
 }
 
+/**
+ * Playback engine used by an oscillator
+ * - buffer: looped AudioBufferSourceNode, pitched with playbackRate
+ * - worklet: AudioWorklet phase accumulator with audio-rate frequency and PM inputs
+ */
+export type OscillatorEngine = "buffer" | "worklet";
+
 /**
  * Represents a single oscillator's state in the store
  */
 export interface OscillatorState {
   frequency: number;
   volume: number; // 0-1 range for audio
+  pan: number; // -1 (left) to 1 (right)
   isActive: boolean;
+  engine: OscillatorEngine;
 }
 
 /**
@@ -62,26 +609,97 @@ export interface LFOState {
 export interface AudioEngineState {
   // Playback state
   isPlaying: boolean;
-  isNoteHeld: boolean; // Track if a note is currently being held
+  isNoteHeld: boolean; // Track if any voice is currently being held
   oscillators: OscillatorState[];
+  voiceCount: number; // Number of polyphonic voices (1 = mono)
+  voiceStealMode: VoiceStealMode;
+  voices: VoiceState[];
+  noteStack: HeldNote[]; // Held keys in the order they were pressed
+  notePriority: NotePriority;
+  legato: boolean; // Mono play without retriggering envelopes on overlap
   lfos: LFOState[]; // LFO states (2 LFOs)
   masterVolume: number; // 0-100 range
   cutoffFrequency: number;
   resonance: number;
+  filterType: FilterType;
+  filterSlope: FilterSlope; // Low-pass/high-pass roll-off (dB/oct)
   filterEnvelopeAmount: number; // 0-100 range for filter envelope depth
+  filterKeyTrack: number; // 0-100% of the note's pitch applied to both cutoffs
+  filterB: FilterBState;
+  filterRouting: FilterRouting;
+  glide: GlideSettings;
+  oscillatorFilters: OscillatorFilterAssignment[]; // Per oscillator
+  drive: number; // Saturation drive (0-1, 0 to +24 dB into the shaper)
+  driveCurve: DriveCurveType;
+  fmMatrix: number[][]; // [modulator][carrier] modulation index (0-10), diagonal unused
+  fmModes: FMMode[]; // Per carrier oscillator
+  fmFeedback: number[]; // Per oscillator self-modulation (0-1)
+  ringMods: RingModState[]; // Per oscillator RM/AM settings
+  syncSources: (number | null)[]; // Hard sync master of each oscillator
+  unison: UnisonSettings[]; // Per oscillator
+  noise: NoiseSettings;
+  subOsc: SubOscSettings;
+  eq: EQBand[]; // Low shelf, two peaking bands, high shelf
+  dynamics: DynamicsSettings;
+  tempo: number; // BPM for tempo-synced effects
 
   // Actions
   startAudio: () => void;
   stopAudio: () => void;
-  updateOscillatorFrequency: (oscIndex: number, freq: number) => void;
+  updateOscillatorFrequency: (
+    oscIndex: number,
+    freq: number,
+    voiceIndex?: number
+  ) => void;
   updateOscillatorVolume: (oscIndex: number, volume: number) => void;
+  updateOscillatorPan: (oscIndex: number, pan: number) => void;
+  updateUnison: (oscIndex: number, settings: Partial<UnisonSettings>) => void;
+  updateNoise: (settings: Partial<NoiseSettings>) => void;
+  updateSubOsc: (settings: Partial<SubOscSettings>) => void;
+  updateEQBand: (
+    bandIndex: number,
+    settings: Partial<Omit<EQBand, "type">>
+  ) => void;
+  updateDynamics: (settings: Partial<DynamicsSettings>) => void;
+  setTempo: (tempo: number) => void;
   updateMasterVolume: (volume: number) => void;
   toggleOscillator: (oscIndex: number, isActive: boolean) => void;
+  setOscillatorEngine: (oscIndex: number, engine: OscillatorEngine) => void;
+  setFMIndex: (modIndex: number, carrierIndex: number, index: number) => void;
+  setFMMode: (carrierIndex: number, mode: FMMode) => void;
+  setFMFeedback: (oscIndex: number, amount: number) => void;
+  setRingMod: (
+    oscIndex: number,
+    mode: RingModMode,
+    sourceIndex: number
+  ) => void;
+  setRingModMix: (oscIndex: number, mix: number) => void;
+  setOscillatorSync: (slaveIndex: number, masterIndex: number | null) => void;
   updateFilter: (cutoff: number, resonance: number) => void;
   updateFilterEnvelopeAmount: (amount: number) => void;
+  setFilterType: (filterType: FilterType) => void;
+  setFilterSlope: (slope: FilterSlope) => void;
+  setFilterKeyTrack: (amount: number) => void;
+  updateGlide: (settings: Partial<GlideSettings>) => void;
+  updateFilterB: (cutoff: number, resonance: number) => void;
+  setFilterBType: (filterType: FilterType) => void;
+  setFilterBSlope: (slope: FilterSlope) => void;
+  updateFilterBEnvelopeAmount: (amount: number) => void;
+  setFilterRouting: (routing: FilterRouting) => void;
+  setOscillatorFilter: (
+    oscIndex: number,
+    assignment: OscillatorFilterAssignment
+  ) => void;
+  updateDrive: (drive: number) => void;
+  setDriveCurve: (curve: DriveCurveType) => void;
   setIsPlaying: (playing: boolean) => void;
-  triggerNoteOn: () => void;
-  triggerNoteOff: () => void;
+  setVoiceCount: (count: number) => void;
+  setVoiceStealMode: (mode: VoiceStealMode) => void;
+  setNotePriority: (priority: NotePriority) => void;
+  setLegato: (enabled: boolean) => void;
+  triggerNoteOn: (key: string, frequency: number) => void;
+  triggerNoteOff: (key: string) => void;
+  retuneVoices: () => void;
   getMaxReleaseTime: () => number;
   updateLFOFrequency: (lfoIndex: number, frequency: number) => void;
   updateLFOWaveform: (lfoIndex: number, waveform: LFOWaveform) => void;
@@ -90,6 +708,16 @@ export interface AudioEngineState {
   // Internal methods
   _initializeAudioContext: () => void;
   _recreateAudio: () => void;
+  _applyFMIndex: (
+    modIndex: number,
+    carrierIndex: number,
+    index: number
+  ) => void;
+  _applyVoiceFM: (voiceIndex: number) => void;
+  _applyRingModMix: (oscIndex: number, mix: number) => void;
+  _applyVoiceRingMod: (voiceIndex: number) => void;
+  _applyVoiceSync: (voiceIndex: number) => void;
+  _applyVoiceRoutes: (voiceIndex: number) => void;
 }
 /**
  * ADSR Envelope Helper Types and Functions
@@ -99,10 +727,29 @@ export interface EnvelopeOperation {
     | "cancelScheduledValues"
     | "setValueAtTime"
     | "linearRampToValueAtTime"
-    | "exponentialRampToValueAtTime";
+    | "exponentialRampToValueAtTime"
+    | "setTargetAtTime";
   args: number[];
 }
 
+/**
+ * Pitch glide of one oscillator from the previous note
+ */
+export interface GlideRamp {
+  fromFrequency: number; // Hz, detune applied
+  duration: number; // seconds
+  curve: GlideCurve;
+}
+
+/**
+ * Last frequency change of an oscillator
+ */
+export interface FrequencyRamp {
+  frequency: number; // Hz
+  time: number; // Start of the ramp (AudioContext time)
+  glide?: GlideRamp;
+}
+
 export interface ADSRTimes {
   attack: number;
   decay: number;
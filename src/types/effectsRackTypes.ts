@@ -0,0 +1,120 @@
+import {
+  CrusherSettings,
+  DelaySettings,
+  ModEffectSettings,
+  ModEffectType,
+  ReverbSettings,
+  ShaperSettings,
+} from "./audioEngineTypes";
+
+/**
+ * Effects the rack can host, in as many slots as wanted
+ */
+export type EffectType =
+  | "crusher"
+  | "shaper"
+  | ModEffectType
+  | "delay"
+  | "reverb";
+
+/**
+ * Parameters of each effect, wet/dry mix included
+ */
+export interface EffectParams {
+  crusher: CrusherSettings;
+  shaper: ShaperSettings;
+  chorus: ModEffectSettings;
+  flanger: ModEffectSettings;
+  phaser: ModEffectSettings;
+  delay: DelaySettings;
+  reverb: ReverbSettings;
+}
+
+/**
+ * One insert slot of the effects rack
+ * The slot owns its effect's parameters, so the same effect can sit in
+ * several slots with different settings. The first slot of each type is
+ * the one the modulation matrix reaches.
+ */
+export type EffectSlot<T extends EffectType = EffectType> = {
+  [K in T]: {
+    id: string; // Stable across moves, unique within the rack
+    type: K;
+    params: EffectParams[K];
+    bypass: boolean; // Signal goes around the effect
+  };
+}[T];
+
+/**
+ * A rack slot as stored in a patch: no id, and anything omitted is at its
+ * default
+ */
+export type EffectSlotConfig<T extends EffectType = EffectType> = {
+  [K in T]: {
+    type: K;
+    params?: Partial<EffectParams[K]>;
+    bypass?: boolean;
+  };
+}[T];
+
+/**
+ * Effects rack state
+ */
+export interface EffectsRackState {
+  /** Slots in signal order */
+  slots: EffectSlot[];
+  /** Parse error of the last expression typed into each shaper slot */
+  shaperErrors: Record<string, string>;
+}
+
+/**
+ * Effects rack actions
+ */
+export interface EffectsRackActions {
+  /**
+   * Add an effect at its defaults to the end of the rack
+   */
+  addSlot: (type: EffectType) => void;
+
+  /**
+   * Take a slot out of the rack
+   */
+  removeSlot: (id: string) => void;
+
+  /**
+   * Move the slot at fromIndex to toIndex, shifting the ones between.
+   * The running graph crossfades to the new order.
+   */
+  moveSlot: (fromIndex: number, toIndex: number) => void;
+
+  /**
+   * Bypass a slot's effect or put it back in the signal path
+   */
+  setSlotBypass: (id: string, bypass: boolean) => void;
+
+  /**
+   * Update a slot's effect parameters (and mix) in real-time.
+   * A shaper expression that fails to parse is rejected and reported in
+   * shaperErrors; the last valid one keeps shaping the sound.
+   */
+  updateSlotParams: (
+    id: string,
+    params: Partial<EffectParams[EffectType]>
+  ) => void;
+
+  /**
+   * Set one of a shaper slot's expression variables and redraw its curve
+   */
+  setShaperVariable: (id: string, name: string, value: number) => void;
+
+  /**
+   * Replace the whole rack (e.g. from a patch).
+   * Unknown effects are dropped and every slot gets a fresh id.
+   */
+  setSlots: (slots: EffectSlotConfig[]) => void;
+}
+
+/**
+ * Complete effects rack store type
+ */
+export type EffectsRackStore = EffectsRackState & EffectsRackActions;
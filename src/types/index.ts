@@ -1,5 +1,7 @@
 export * from "./equationBuilderTypes";
 export * from "./synthControlsTypes";
 export * from "./audioEngineTypes";
+export * from "./effectsRackTypes";
 export * from "./modulationTypes";
 export * from "./parameterIds";
+export * from "./patchTypes";
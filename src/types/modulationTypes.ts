@@ -11,6 +11,7 @@
  * - OSC1-4: Oscillator outputs (audio-rate, downsampled to control-rate)
  * - LFO1-2: Low-frequency oscillators (sub-audio periodic modulation)
  * - MOD_ENV: Dedicated modulation envelope (ADSR)
+ * - NOISE: Noise source sampled once per frame (random modulation)
  * - NONE: No modulation source (removes route)
  */
 export enum ModulationSource {
@@ -28,6 +29,9 @@ export enum ModulationSource {
 
   // Envelopes (control-rate envelope followers)
   MOD_ENV = "mod_env",
+
+  // Random
+  NOISE = "noise",
 }
 
 /**
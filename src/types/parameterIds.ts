@@ -16,6 +16,12 @@ export const PARAM_IDS = {
   OSC1_DETUNE_SEMITONE: "osc1_detune_semitone",
   OSC1_DETUNE_CENT: "osc1_detune_cent",
   OSC1_VOLUME: "osc1_volume",
+  OSC1_PAN: "osc1_pan",
+  OSC1_FEEDBACK: "osc1_feedback",
+  OSC1_RING_MIX: "osc1_ring_mix",
+  OSC1_UNISON_VOICES: "osc1_unison_voices",
+  OSC1_UNISON_DETUNE: "osc1_unison_detune",
+  OSC1_UNISON_WIDTH: "osc1_unison_width",
 
   // Oscillator 2
   OSC2_FREQUENCY: "osc2_frequency",
@@ -23,6 +29,12 @@ export const PARAM_IDS = {
   OSC2_DETUNE_SEMITONE: "osc2_detune_semitone",
   OSC2_DETUNE_CENT: "osc2_detune_cent",
   OSC2_VOLUME: "osc2_volume",
+  OSC2_PAN: "osc2_pan",
+  OSC2_FEEDBACK: "osc2_feedback",
+  OSC2_RING_MIX: "osc2_ring_mix",
+  OSC2_UNISON_VOICES: "osc2_unison_voices",
+  OSC2_UNISON_DETUNE: "osc2_unison_detune",
+  OSC2_UNISON_WIDTH: "osc2_unison_width",
 
   // Oscillator 3
   OSC3_FREQUENCY: "osc3_frequency",
@@ -30,6 +42,12 @@ export const PARAM_IDS = {
   OSC3_DETUNE_SEMITONE: "osc3_detune_semitone",
   OSC3_DETUNE_CENT: "osc3_detune_cent",
   OSC3_VOLUME: "osc3_volume",
+  OSC3_PAN: "osc3_pan",
+  OSC3_FEEDBACK: "osc3_feedback",
+  OSC3_RING_MIX: "osc3_ring_mix",
+  OSC3_UNISON_VOICES: "osc3_unison_voices",
+  OSC3_UNISON_DETUNE: "osc3_unison_detune",
+  OSC3_UNISON_WIDTH: "osc3_unison_width",
 
   // Oscillator 4
   OSC4_FREQUENCY: "osc4_frequency",
@@ -37,10 +55,79 @@ export const PARAM_IDS = {
   OSC4_DETUNE_SEMITONE: "osc4_detune_semitone",
   OSC4_DETUNE_CENT: "osc4_detune_cent",
   OSC4_VOLUME: "osc4_volume",
+  OSC4_PAN: "osc4_pan",
+  OSC4_FEEDBACK: "osc4_feedback",
+  OSC4_RING_MIX: "osc4_ring_mix",
+  OSC4_UNISON_VOICES: "osc4_unison_voices",
+  OSC4_UNISON_DETUNE: "osc4_unison_detune",
+  OSC4_UNISON_WIDTH: "osc4_unison_width",
+
+  // FM matrix (modulator -> carrier index)
+  FM_1TO2_INDEX: "fm_1to2_index",
+  FM_1TO3_INDEX: "fm_1to3_index",
+  FM_1TO4_INDEX: "fm_1to4_index",
+  FM_2TO1_INDEX: "fm_2to1_index",
+  FM_2TO3_INDEX: "fm_2to3_index",
+  FM_2TO4_INDEX: "fm_2to4_index",
+  FM_3TO1_INDEX: "fm_3to1_index",
+  FM_3TO2_INDEX: "fm_3to2_index",
+  FM_3TO4_INDEX: "fm_3to4_index",
+  FM_4TO1_INDEX: "fm_4to1_index",
+  FM_4TO2_INDEX: "fm_4to2_index",
+  FM_4TO3_INDEX: "fm_4to3_index",
 
   // Filter
   FILTER_CUTOFF: "filter_cutoff",
   FILTER_RESONANCE: "filter_resonance",
+  FILTER_B_CUTOFF: "filter_b_cutoff",
+  FILTER_B_RESONANCE: "filter_b_resonance",
+  FILTER_KEYTRACK: "filter_keytrack",
+
+  // Noise
+  NOISE_LEVEL: "noise_level",
+  NOISE_PAN: "noise_pan",
+
+  // Sub-oscillator
+  SUB_VOLUME: "sub_volume",
+
+  // Drive
+  DRIVE_AMOUNT: "drive_amount",
+  DRIVE_CURVE: "drive_curve",
+
+  // Bit crusher
+  CRUSHER_BITS: "crusher_bits",
+  CRUSHER_RATE: "crusher_rate",
+  CRUSHER_MIX: "crusher_mix",
+
+  // Shaper
+  SHAPER_MIX: "shaper_mix",
+
+  // Chorus
+  CHORUS_RATE: "chorus_rate",
+  CHORUS_DEPTH: "chorus_depth",
+  CHORUS_FEEDBACK: "chorus_feedback",
+  CHORUS_MIX: "chorus_mix",
+
+  // Flanger
+  FLANGER_RATE: "flanger_rate",
+  FLANGER_DEPTH: "flanger_depth",
+  FLANGER_FEEDBACK: "flanger_feedback",
+  FLANGER_MIX: "flanger_mix",
+
+  // Phaser
+  PHASER_RATE: "phaser_rate",
+  PHASER_DEPTH: "phaser_depth",
+  PHASER_FEEDBACK: "phaser_feedback",
+  PHASER_MIX: "phaser_mix",
+
+  // Delay
+  DELAY_TIME: "delay_time",
+  DELAY_FEEDBACK: "delay_feedback",
+  DELAY_FILTER: "delay_filter",
+  DELAY_MIX: "delay_mix",
+
+  // Reverb
+  REVERB_MIX: "reverb_mix",
 
   // LFOs
   LFO1_FREQUENCY: "lfo1_frequency",
@@ -50,7 +137,7 @@ export const PARAM_IDS = {
 /**
  * Helper function to get oscillator parameter ID
  * @param oscIndex - Oscillator index (0-3)
- * @param paramName - Parameter name (detune_octave, detune_semitone, detune_cent, volume)
+ * @param paramName - Parameter name (detune_octave, detune_semitone, detune_cent, volume, feedback, ring_mix, unison_*)
  */
 export const getOscParamId = (
   oscIndex: number,
@@ -60,10 +147,40 @@ export const getOscParamId = (
     | "detune_semitone"
     | "detune_cent"
     | "volume"
+    | "pan"
+    | "feedback"
+    | "ring_mix"
+    | "unison_voices"
+    | "unison_detune"
+    | "unison_width"
 ): string => {
   return `osc${oscIndex + 1}_${paramName}`;
 };
 
+/**
+ * Helper function to get a modulation effect parameter ID
+ * @param type - Effect (chorus, flanger, phaser)
+ * @param paramName - Parameter name (rate, depth, feedback, mix)
+ */
+export const getModEffectParamId = (
+  type: "chorus" | "flanger" | "phaser",
+  paramName: "rate" | "depth" | "feedback" | "mix"
+): string => {
+  return `${type}_${paramName}`;
+};
+
+/**
+ * Helper function to get an FM matrix index parameter ID
+ * @param modIndex - Modulator oscillator index (0-3)
+ * @param carrierIndex - Carrier oscillator index (0-3)
+ */
+export const getFMParamId = (
+  modIndex: number,
+  carrierIndex: number
+): string => {
+  return `fm_${modIndex + 1}to${carrierIndex + 1}_index`;
+};
+
 /**
  * Type-safe parameter ID type
  */
@@ -0,0 +1,68 @@
+import { ADSRParams } from "./synthControlsTypes";
+import {
+  DriveCurveType,
+  DynamicsSettings,
+  FilterSlope,
+  FilterType,
+  FMMode,
+  GlideSettings,
+  NoiseSettings,
+  EQBand,
+  RingModState,
+  SubOscSettings,
+  UnisonSettings,
+} from "./audioEngineTypes";
+import { EffectSlotConfig } from "./effectsRackTypes";
+
+export type PatchCategory = "bass" | "lead" | "pad" | "fx";
+
+/**
+ * Per-oscillator part of a patch
+ */
+export interface PatchOscillator {
+  harmonics: number[]; // Amplitudes of harmonics 1-8 (sine phase)
+  volume: number; // 0-1 range for audio
+  pan?: number; // -1 (left) to 1 (right), centered when omitted
+  unison?: UnisonSettings; // Single source when omitted
+  isActive: boolean;
+  detune?: {
+    octave: number;
+    semitone: number;
+    cent: number;
+  };
+}
+
+/**
+ * Factory patch preset
+ * Covers the oscillator, envelope, drive and filter settings (including
+ * the filter mode), how the oscillators modulate each other and the effects
+ * that define a sound. Sections a patch leaves out load at their defaults;
+ * the filter routing stays as the player set it.
+ */
+export interface PatchPreset {
+  id: string; // e.g. "bass-deep"
+  name: string;
+  category: PatchCategory;
+  oscillators: PatchOscillator[];
+  ampADSR: ADSRParams;
+  filterADSR: ADSRParams;
+  cutoffFrequency: number;
+  resonance: number;
+  filterType: FilterType;
+  filterSlope: FilterSlope;
+  filterEnvelopeAmount: number; // 0-100
+  filterKeyTrack?: number; // 0-100, no key tracking when omitted
+  drive: number; // 0-1
+  driveCurve: DriveCurveType;
+  glide?: GlideSettings; // Glide off when omitted
+  fmMatrix?: number[][]; // [modulator][carrier] index, no FM when omitted
+  fmModes?: FMMode[]; // Phase modulation when omitted
+  fmFeedback?: number[]; // No self-modulation when omitted
+  ringMods?: RingModState[]; // Ring modulation off when omitted
+  syncSources?: (number | null)[]; // No hard sync when omitted
+  noise?: NoiseSettings; // Noise silent when omitted
+  subOsc?: SubOscSettings; // Sub-oscillator silent when omitted
+  eq?: EQBand[]; // EQ flat when omitted
+  dynamics?: DynamicsSettings; // Default compressor and limiter when omitted
+  effectsRack?: EffectSlotConfig[]; // Default rack, every effect dry, when omitted
+}
@@ -111,6 +111,7 @@ export function parseExpression(expression: string): ParsedExpression {
  * identifiers. Returns a sorted unique array.
  *
  * @param expression - The mathematical expression string
+ * @param exclude - Further names to skip (inputs supplied by the caller, like x)
  * @returns Array of variable names (sorted, unique, non-reserved)
  *
  * @example
@@ -118,9 +119,13 @@ export function parseExpression(expression: string): ParsedExpression {
  * extractVariables('a*sin(b*t + c)'); // ['a', 'b', 'c']
  * extractVariables('sin(t)'); // []
  * extractVariables('alpha*beta'); // [] (multi-letter not supported)
+ * extractVariables('tanh(k*x)', ['x']); // ['k']
  * ```
  */
-export function extractVariables(expression: string): string[] {
+export function extractVariables(
+  expression: string,
+  exclude: string[] = []
+): string[] {
   try {
     const node = math.parse(expression);
     const variables = new Set<string>();
@@ -130,7 +135,11 @@ export function extractVariables(expression: string): string[] {
       if (node.type === "SymbolNode") {
         const name = node.name;
         // Only include single-letter variables that aren't reserved
-        if (name.length === 1 && !RESERVED_VARIABLES.has(name)) {
+        if (
+          name.length === 1 &&
+          !RESERVED_VARIABLES.has(name) &&
+          !exclude.includes(name)
+        ) {
           variables.add(name);
         }
       }
@@ -0,0 +1,136 @@
+/**
+ * Bottom of the lowest mipmap octave (Hz)
+ */
+export const MIPMAP_BASE_FREQUENCY = 20;
+
+/**
+ * Per-octave band-limited versions of a single-cycle wavetable
+ *
+ * Level k is used for fundamentals from baseFrequency * 2^k up to
+ * baseFrequency * 2^(k+1) and only contains harmonics that stay below
+ * Nyquist at the top of that octave.
+ */
+export interface WavetableMipmap {
+  baseFrequency: number;
+  tables: Float32Array[];
+}
+
+/**
+ * One cycle of sine and cosine, so harmonic k at sample i is entry
+ * (k * i) % length
+ */
+const createCycleTables = (length: number) => {
+  const sin = new Float64Array(length);
+  const cos = new Float64Array(length);
+  for (let i = 0; i < length; i++) {
+    const angle = (Math.PI * 2 * i) / length;
+    sin[i] = Math.sin(angle);
+    cos[i] = Math.cos(angle);
+  }
+  return { sin, cos };
+};
+
+/**
+ * Number of harmonics that stay below Nyquist for every note of a level
+ */
+export const getMipmapHarmonicLimit = (
+  level: number,
+  sampleRate: number,
+  baseFrequency: number = MIPMAP_BASE_FREQUENCY
+): number => {
+  const octaveTop = baseFrequency * Math.pow(2, level + 1);
+  return Math.max(1, Math.floor(sampleRate / 2 / octaveTop));
+};
+
+/**
+ * Build per-octave band-limited tables from a single-cycle waveform
+ * Every level is resynthesized from the table's harmonics, so energy above
+ * Nyquist is removed from the low octaves too.
+ *
+ * @param waveform - Single-cycle table (e.g. from calculateWaveform)
+ * @param sampleRate - Audio context sample rate
+ * @returns Mipmap from the brightest level (0) to the dullest
+ */
+export const buildWavetableMipmap = (
+  waveform: Float32Array | number[],
+  sampleRate: number,
+  baseFrequency: number = MIPMAP_BASE_FREQUENCY
+): WavetableMipmap => {
+  const original =
+    waveform instanceof Float32Array ? waveform : new Float32Array(waveform);
+  const length = original.length;
+  const levelCount = Math.max(
+    1,
+    Math.ceil(Math.log2(sampleRate / 2 / baseFrequency))
+  );
+
+  // A table can't hold harmonics at or above half its length
+  const maxHarmonics = Math.max(1, Math.floor((length - 1) / 2));
+  const limits = Array.from({ length: levelCount }, (_, level) =>
+    Math.min(
+      maxHarmonics,
+      getMipmapHarmonicLimit(level, sampleRate, baseFrequency)
+    )
+  );
+
+  const { sin, cos } = createCycleTables(length);
+  const harmonicCount = Math.max(...limits);
+  const sinCoefficients = new Float64Array(harmonicCount + 1);
+  const cosCoefficients = new Float64Array(harmonicCount + 1);
+  for (let k = 1; k <= harmonicCount; k++) {
+    let sinSum = 0;
+    let cosSum = 0;
+    for (let i = 0; i < length; i++) {
+      const index = (k * i) % length;
+      sinSum += original[i] * sin[index];
+      cosSum += original[i] * cos[index];
+    }
+    sinCoefficients[k] = (2 * sinSum) / length;
+    cosCoefficients[k] = (2 * cosSum) / length;
+  }
+  const dcOffset =
+    original.reduce((sum, value) => sum + value, 0) / Math.max(1, length);
+
+  // Each level only adds the harmonics between its limit and the next
+  // level's, so build them from the dullest up
+  const tables: Float32Array[] = new Array(levelCount);
+  const sum = new Float64Array(length).fill(dcOffset);
+  let synthesized = 0;
+  for (let level = levelCount - 1; level >= 0; level--) {
+    for (let k = synthesized + 1; k <= limits[level]; k++) {
+      const a = sinCoefficients[k];
+      const b = cosCoefficients[k];
+      if (Math.abs(a) < 1e-9 && Math.abs(b) < 1e-9) continue;
+      for (let i = 0; i < length; i++) {
+        const index = (k * i) % length;
+        sum[i] += a * sin[index] + b * cos[index];
+      }
+    }
+    synthesized = Math.max(synthesized, limits[level]);
+    tables[level] = Float32Array.from(sum);
+  }
+
+  return { baseFrequency, tables };
+};
+
+/**
+ * Fractional mipmap level for a frequency (0 to tables.length - 1)
+ * The integer part is the safe level; the fraction can be used to crossfade
+ * towards the next (duller) level.
+ */
+export const getMipmapPosition = (
+  mipmap: WavetableMipmap,
+  frequency: number
+): number => {
+  const position = Math.log2(Math.abs(frequency) / mipmap.baseFrequency);
+  if (!Number.isFinite(position) || position < 0) return 0;
+  return Math.min(position, mipmap.tables.length - 1);
+};
+
+/**
+ * Band-limited level to use for a frequency
+ */
+export const getMipmapLevel = (
+  mipmap: WavetableMipmap,
+  frequency: number
+): number => Math.floor(getMipmapPosition(mipmap, frequency));